@@ -17,22 +17,30 @@ import ProductForm from "./pages/dashboard/products/ProductForm";
 import OrdersList from "./pages/dashboard/orders/OrdersList";
 import OrderDetails from "./pages/dashboard/orders/OrderDetails";
 import CustomersList from "./pages/dashboard/customers/CustomersList";
+import ReviewsList from "./pages/dashboard/reviews/ReviewsList";
+import ReturnsList from "./pages/dashboard/returns/ReturnsList";
 import DiscountsList from "./pages/dashboard/discounts/DiscountsList";
 import StoreSettings from "./pages/dashboard/settings/StoreSettings";
 import ShippingSettings from "./pages/dashboard/shipping/ShippingSettings";
 import ExtensionsList from "./pages/dashboard/extensions/ExtensionsList";
 import CategoriesList from "./pages/dashboard/categories/CategoriesList";
 import ProfilePage from "./pages/dashboard/profile/ProfilePage";
+import EmailTemplates from "./pages/dashboard/notifications/EmailTemplates";
 import SuperAdminLayout from "./layouts/SuperAdminLayout";
 import AdminOverview from "./pages/admin/AdminOverview";
 import AdminStores from "./pages/admin/AdminStores";
 import AdminUsers from "./pages/admin/AdminUsers";
+import StorefrontLayout from "./layouts/StorefrontLayout";
 import StoreCatalog from "./pages/storefront/StoreCatalog";
 import StorePage from "./pages/storefront/StorePage";
 import StoreBuilder from "./components/store-builder/StoreBuilder";
 import ProductDetail from "./pages/storefront/ProductDetail";
 import Cart from "./pages/storefront/Cart";
 import Checkout from "./pages/storefront/Checkout";
+import CustomerLogin from "./pages/storefront/CustomerLogin";
+import CustomerResetPassword from "./pages/storefront/CustomerResetPassword";
+import CustomerAccount from "./pages/storefront/CustomerAccount";
+import OrderTracking from "./pages/storefront/OrderTracking";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -52,12 +60,18 @@ const App = () => (
                 
                 {/* Customer Storefront */}
                 
-                <Route path="/store/:storeSlug" element={<StorePage />} />
-                <Route path="/store/:storeSlug/page/:pageSlug" element={<StorePage />} />
-                <Route path="/store/:storeSlug/catalog" element={<StoreCatalog />} />
-                <Route path="/store/:storeSlug/product/:productSlug" element={<ProductDetail />} />
-                <Route path="/store/:storeSlug/cart" element={<Cart />} />
-                <Route path="/store/:storeSlug/checkout" element={<Checkout />} />
+                <Route path="/store/:storeSlug" element={<StorefrontLayout />}>
+                  <Route index element={<StorePage />} />
+                  <Route path="page/:pageSlug" element={<StorePage />} />
+                  <Route path="catalog" element={<StoreCatalog />} />
+                  <Route path="product/:productSlug" element={<ProductDetail />} />
+                  <Route path="cart" element={<Cart />} />
+                  <Route path="checkout" element={<Checkout />} />
+                  <Route path="account" element={<CustomerAccount />} />
+                  <Route path="account/login" element={<CustomerLogin />} />
+                  <Route path="account/reset-password" element={<CustomerResetPassword />} />
+                  <Route path="track" element={<OrderTracking />} />
+                </Route>
                 
                 {/* Tenant Dashboard */}
                 <Route path="/dashboard" element={<DashboardLayout />}>
@@ -69,9 +83,12 @@ const App = () => (
                   <Route path="products/:id/edit" element={<ProductForm />} />
                   <Route path="orders" element={<OrdersList />} />
                   <Route path="orders/:id" element={<OrderDetails />} />
+                  <Route path="returns" element={<ReturnsList />} />
                   <Route path="customers" element={<CustomersList />} />
+                  <Route path="reviews" element={<ReviewsList />} />
                   <Route path="discounts" element={<DiscountsList />} />
                   <Route path="shipping" element={<ShippingSettings />} />
+                  <Route path="notifications" element={<EmailTemplates />} />
                   <Route path="extensions" element={<ExtensionsList />} />
                   <Route path="settings" element={<StoreSettings />} />
                   <Route path="store-builder" element={<StoreBuilder />} />
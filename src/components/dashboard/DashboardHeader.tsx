@@ -1,4 +1,4 @@
-import { Bell, Search, LogOut, User, ExternalLink } from 'lucide-react';
+import { Search, LogOut, User, ExternalLink } from 'lucide-react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useStore } from '@/contexts/StoreContext';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import NotificationsPanel from './NotificationsPanel';
 
 export default function DashboardHeader() {
   const { user, signOut } = useAuth();
@@ -31,9 +32,7 @@ export default function DashboardHeader() {
           </Button>
         )}
         
-        <Button variant="ghost" size="icon">
-          <Bell className="w-5 h-5" />
-        </Button>
+        <NotificationsPanel storeId={currentStore?.id ?? null} />
 
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { Store, LayoutDashboard, Package, ShoppingCart, Users, Tag, Settings, FolderTree, Palette, Puzzle, Truck } from 'lucide-react';
+import { Store, LayoutDashboard, Package, ShoppingCart, Users, Tag, Settings, FolderTree, Palette, Puzzle, Truck, Mail, MessageSquare, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import StoreSwitcher from './StoreSwitcher';
 
@@ -9,9 +9,12 @@ const navItems = [
   { icon: FolderTree, label: 'Categories', path: '/dashboard/categories' },
   { icon: Package, label: 'Products', path: '/dashboard/products' },
   { icon: ShoppingCart, label: 'Orders', path: '/dashboard/orders' },
+  { icon: Undo2, label: 'Returns', path: '/dashboard/returns' },
   { icon: Users, label: 'Customers', path: '/dashboard/customers' },
+  { icon: MessageSquare, label: 'Reviews', path: '/dashboard/reviews' },
   { icon: Tag, label: 'Discounts', path: '/dashboard/discounts' },
   { icon: Truck, label: 'Shipping', path: '/dashboard/shipping' },
+  { icon: Mail, label: 'Notifications', path: '/dashboard/notifications' },
   { icon: Puzzle, label: 'Extensions', path: '/dashboard/extensions' },
   { icon: Settings, label: 'Settings', path: '/dashboard/settings' },
 ];
@@ -0,0 +1,76 @@
+import { Link } from 'react-router-dom';
+import { Bell, PackageX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useInventoryAlerts } from '@/hooks/useInventoryAlerts';
+import { cn } from '@/lib/utils';
+
+interface NotificationsPanelProps {
+  storeId: string | null;
+}
+
+export default function NotificationsPanel({ storeId }: NotificationsPanelProps) {
+  const { alerts, unreadCount, refresh, markAllRead } = useInventoryAlerts(storeId);
+
+  return (
+    <Popover onOpenChange={(open) => open && refresh()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No notifications</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {alerts.map((alert) => (
+              <Link
+                key={alert.id}
+                to={`/dashboard/products/${alert.product_id}/edit`}
+                className={cn(
+                  'flex gap-3 px-4 py-3 border-b last:border-b-0 hover:bg-muted/50',
+                  !alert.is_read && 'bg-primary/5'
+                )}
+              >
+                <PackageX className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {alert.product_name}
+                    {alert.variant_name && (
+                      <span className="text-muted-foreground"> ({alert.variant_name})</span>
+                    )}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {alert.stock_quantity <= 0 ? 'Out of stock' : `Only ${alert.stock_quantity} left`}
+                    {' '}· alert at {alert.threshold}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t px-4 py-2">
+          <Link to="/dashboard/products?stock=low" className="text-sm text-primary hover:underline">
+            View all low stock products
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
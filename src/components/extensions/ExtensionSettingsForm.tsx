@@ -0,0 +1,104 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ConfigErrors, ConfigPropertySchema, ExtensionConfigSchema } from './types';
+import type { ConfigFormValues } from './utils/configSchema';
+
+interface ExtensionSettingsFormProps {
+  schema: ExtensionConfigSchema;
+  values: ConfigFormValues;
+  errors: ConfigErrors;
+  onChange: (key: string, value: string | boolean) => void;
+}
+
+interface SettingsFieldProps {
+  id: string;
+  property: ConfigPropertySchema;
+  value: string | boolean;
+  invalid: boolean;
+  onChange: (value: string | boolean) => void;
+}
+
+function SettingsField({ id, property, value, invalid, onChange }: SettingsFieldProps) {
+  const placeholder = property.examples?.[0];
+
+  if (property.type === 'boolean') {
+    return <Switch id={id} checked={value === true} onCheckedChange={onChange} />;
+  }
+
+  if (property.enum) {
+    return (
+      <Select value={String(value)} onValueChange={onChange}>
+        <SelectTrigger id={id} aria-invalid={invalid}>
+          <SelectValue placeholder={placeholder || 'Select...'} />
+        </SelectTrigger>
+        <SelectContent>
+          {property.enum.map((option, index) => (
+            <SelectItem key={option} value={option}>
+              {property['x-enumLabels']?.[index] || option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (property['x-multiline']) {
+    return (
+      <Textarea
+        id={id}
+        rows={3}
+        placeholder={placeholder}
+        value={String(value)}
+        aria-invalid={invalid}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  const isNumber = property.type === 'integer' || property.type === 'number';
+
+  return (
+    <Input
+      id={id}
+      type={property.writeOnly ? 'password' : isNumber ? 'number' : 'text'}
+      placeholder={placeholder}
+      min={property.minimum}
+      max={property.maximum}
+      value={String(value)}
+      aria-invalid={invalid}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+export default function ExtensionSettingsForm({ schema, values, errors, onChange }: ExtensionSettingsFormProps) {
+  const required = schema.required || [];
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(schema.properties).map(([key, property]) => (
+        <div key={key} className="space-y-2">
+          <Label htmlFor={`extension-${key}`}>
+            {property.title}
+            {required.includes(key) && <span className="text-destructive"> *</span>}
+          </Label>
+          <SettingsField
+            id={`extension-${key}`}
+            property={property}
+            value={values[key] ?? ''}
+            invalid={!!errors[key]}
+            onChange={(value) => onChange(key, value)}
+          />
+          {errors[key] ? (
+            <p className="text-xs text-destructive">{errors[key]}</p>
+          ) : property.description ? (
+            <p className="text-xs text-muted-foreground">{property.description}</p>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
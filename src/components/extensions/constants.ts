@@ -0,0 +1,29 @@
+/**
+ * ============================================================================
+ * EXTENSION CONSTANTS
+ * ============================================================================
+ *
+ * Display labels for extension categories and permissions.
+ *
+ * ============================================================================
+ */
+
+import type { ExtensionCategory, ExtensionPermission } from './types';
+
+export const EXTENSION_CATEGORY_LABELS: Record<ExtensionCategory, string> = {
+  payments: 'Payments',
+  analytics: 'Analytics & Tracking',
+  communication: 'Communication',
+  marketing: 'Marketing',
+  operations: 'Operations',
+};
+
+export const EXTENSION_PERMISSION_LABELS: Record<ExtensionPermission, string> = {
+  'orders:read': 'Read your orders',
+  'customers:read': 'Read customer contact details',
+  'products:read': 'Read your products and stock levels',
+  'payments:process': 'Take payments for your orders',
+  'notifications:send': 'Send messages to you and your customers',
+  'storefront:scripts': 'Add tracking scripts to your storefront',
+  'storefront:widgets': 'Show widgets on your storefront',
+};
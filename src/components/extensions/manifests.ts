@@ -0,0 +1,312 @@
+/**
+ * ============================================================================
+ * BUILT-IN EXTENSION MANIFESTS
+ * ============================================================================
+ *
+ * Extensions that ship with the platform. Payment providers use the id
+ * payment_<method>; their credentials are only read by the payment edge
+ * functions, never sent to the storefront.
+ *
+ * ============================================================================
+ */
+
+import {
+  BarChart3, MessageCircle, Bell, Package, Mail,
+  Banknote, Wallet, CreditCard, FlaskConical
+} from 'lucide-react';
+import { SMS_EVENTS, SMS_TEMPLATE_VARIABLES } from '@/lib/notifications';
+import { facebookPixel, googleAnalytics } from '@/lib/storefrontIntegrations';
+import { WhatsAppChatButton } from '@/components/storefront/WhatsAppChatButton';
+import InventoryAlertsPanel from './panels/InventoryAlertsPanel';
+import type { ConfigPropertySchema, ExtensionManifest } from './types';
+
+const PAYMENT_MODE: ConfigPropertySchema = {
+  type: 'string',
+  title: 'Mode',
+  enum: ['test', 'live'],
+  'x-enumLabels': ['Test', 'Live'],
+  default: 'test',
+};
+
+export const BUILT_IN_EXTENSIONS: ExtensionManifest[] = [
+  // ==========================================================================
+  // PAYMENTS
+  // ==========================================================================
+  {
+    id: 'payment_cod',
+    version: '1.0.0',
+    name: 'Cash on Delivery',
+    description: 'Let customers pay when their order arrives. Offered by default when no payment method is enabled.',
+    icon: Banknote,
+    category: 'payments',
+    permissions: ['payments:process'],
+  },
+  {
+    id: 'payment_esewa',
+    version: '1.0.0',
+    name: 'eSewa',
+    description: 'Accept payments from eSewa wallets.',
+    icon: Wallet,
+    category: 'payments',
+    permissions: ['orders:read', 'payments:process'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          product_code: { type: 'string', title: 'Merchant Code', examples: ['EPAYTEST'] },
+          secret_key: { type: 'string', title: 'Secret Key', writeOnly: true },
+          mode: PAYMENT_MODE,
+        },
+        required: ['product_code', 'secret_key'],
+      },
+    },
+  },
+  {
+    id: 'payment_khalti',
+    version: '1.0.0',
+    name: 'Khalti',
+    description: 'Accept Khalti wallet, mobile banking and card payments.',
+    icon: Wallet,
+    category: 'payments',
+    permissions: ['orders:read', 'customers:read', 'payments:process'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          secret_key: { type: 'string', title: 'Live/Test Secret Key', writeOnly: true },
+          mode: PAYMENT_MODE,
+        },
+        required: ['secret_key'],
+      },
+    },
+  },
+  {
+    id: 'payment_stripe',
+    version: '1.0.0',
+    name: 'Card Payments (Stripe)',
+    description: 'Accept Visa, Mastercard and other cards through Stripe Checkout.',
+    icon: CreditCard,
+    category: 'payments',
+    permissions: ['orders:read', 'customers:read', 'payments:process'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          secret_key: {
+            type: 'string',
+            title: 'Secret Key',
+            examples: ['sk_live_...'],
+            writeOnly: true,
+            pattern: '^sk_(test|live)_',
+            'x-patternMessage': 'Stripe secret keys start with sk_test_ or sk_live_',
+          },
+          currency: {
+            type: 'string',
+            title: 'Currency',
+            examples: ['npr'],
+            pattern: '^[A-Za-z]{3}$',
+            'x-patternMessage': 'Use a 3-letter currency code',
+          },
+        },
+        required: ['secret_key'],
+      },
+    },
+  },
+  {
+    id: 'payment_mock',
+    version: '1.0.0',
+    name: 'Test Payments',
+    description: 'Simulated online payment for testing checkout. Only offered at checkout when the project is in payments test mode.',
+    icon: FlaskConical,
+    category: 'payments',
+    permissions: ['payments:process'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          outcome: {
+            type: 'string',
+            title: 'Outcome',
+            enum: ['success', 'fail'],
+            'x-enumLabels': ['Payment succeeds', 'Payment fails'],
+            default: 'success',
+          },
+        },
+      },
+    },
+  },
+
+  // ==========================================================================
+  // ANALYTICS
+  // ==========================================================================
+  {
+    id: 'google_analytics',
+    version: '1.0.0',
+    name: 'Google Analytics',
+    description: 'Track visitor behavior and website traffic with Google Analytics 4.',
+    icon: BarChart3,
+    category: 'analytics',
+    permissions: ['storefront:scripts'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          measurement_id: {
+            type: 'string',
+            title: 'Measurement ID',
+            examples: ['G-XXXXXXXXXX'],
+            pattern: '^G-[A-Za-z0-9]+$',
+            'x-patternMessage': 'Measurement IDs look like G-XXXXXXXXXX',
+          },
+        },
+        required: ['measurement_id'],
+      },
+    },
+    storefront: { integration: googleAnalytics, publicConfigKeys: ['measurement_id'] },
+  },
+  {
+    id: 'facebook_pixel',
+    version: '1.0.0',
+    name: 'Facebook Pixel',
+    description: 'Track conversions and optimize your Facebook ads.',
+    icon: BarChart3,
+    category: 'analytics',
+    permissions: ['storefront:scripts'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          pixel_id: {
+            type: 'string',
+            title: 'Pixel ID',
+            examples: ['1234567890'],
+            pattern: '^\\d+$',
+            'x-patternMessage': 'Pixel IDs contain digits only',
+          },
+        },
+        required: ['pixel_id'],
+      },
+    },
+    storefront: { integration: facebookPixel, publicConfigKeys: ['pixel_id'] },
+  },
+
+  // ==========================================================================
+  // COMMUNICATION
+  // ==========================================================================
+  {
+    id: 'whatsapp_chat',
+    version: '1.0.0',
+    name: 'WhatsApp Chat',
+    description: 'Add a WhatsApp chat button for instant customer support.',
+    icon: MessageCircle,
+    category: 'communication',
+    permissions: ['storefront:widgets'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          phone_number: {
+            type: 'string',
+            title: 'Phone Number',
+            examples: ['+9779812345678'],
+            description: 'Include the country code.',
+            pattern: '^\\+?[\\d\\s-]{8,}$',
+            'x-patternMessage': 'Enter a phone number with country code, e.g. +9779812345678',
+          },
+          default_message: { type: 'string', title: 'Default Message', examples: ['Hello! I have a question.'] },
+        },
+        required: ['phone_number'],
+      },
+    },
+    storefront: { widget: WhatsAppChatButton, publicConfigKeys: ['phone_number', 'default_message'] },
+  },
+  {
+    id: 'sms_notifications',
+    version: '1.0.0',
+    name: 'SMS Notifications',
+    description: 'Send SMS to customers when their order is placed, shipped and delivered.',
+    icon: Bell,
+    category: 'communication',
+    permissions: ['orders:read', 'customers:read', 'notifications:send'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          gateway: {
+            type: 'string',
+            title: 'Gateway',
+            enum: ['sparrow', 'aakash', 'fake'],
+            'x-enumLabels': ['Sparrow SMS', 'Aakash SMS', 'Fake (testing)'],
+            default: 'sparrow',
+          },
+          api_key: { type: 'string', title: 'API Token', writeOnly: true },
+          sender_id: { type: 'string', title: 'Sender ID', examples: ['Required for Sparrow SMS'] },
+          ...Object.fromEntries(SMS_EVENTS.map((event): [string, ConfigPropertySchema] => [
+            `template_${event.id}`,
+            {
+              type: 'string',
+              title: `${event.name} Message`,
+              examples: [event.defaultTemplate],
+              description: `Leave blank for the default. Placeholders: ${SMS_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(' ')}`,
+              'x-multiline': true,
+            },
+          ])),
+        },
+      },
+    },
+  },
+
+  // ==========================================================================
+  // OPERATIONS & MARKETING
+  // ==========================================================================
+  {
+    id: 'inventory_alerts',
+    version: '1.0.0',
+    name: 'Inventory Alerts',
+    description: 'Get notified in the dashboard (and optionally by a daily email) when products are running low in stock.',
+    icon: Package,
+    category: 'operations',
+    permissions: ['products:read', 'notifications:send'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          threshold: {
+            type: 'integer',
+            title: 'Low Stock Threshold',
+            examples: ['5'],
+            minimum: 0,
+            description: 'Default for all products. Products and variants can set their own in the product form.',
+          },
+          daily_digest: {
+            type: 'string',
+            title: 'Daily Digest Email',
+            enum: ['off', 'on'],
+            'x-enumLabels': ['Off', 'On'],
+            default: 'off',
+          },
+          email: { type: 'string', title: 'Alert Email', examples: ['Defaults to your store email'], format: 'email' },
+        },
+      },
+      panel: InventoryAlertsPanel,
+    },
+  },
+  {
+    id: 'email_marketing',
+    version: '1.0.0',
+    name: 'Email Marketing',
+    description: 'Connect your email marketing service for newsletters.',
+    icon: Mail,
+    category: 'marketing',
+    permissions: ['customers:read'],
+    settings: {
+      schema: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string', title: 'Provider', examples: ['mailchimp'] },
+          api_key: { type: 'string', title: 'API Key', writeOnly: true },
+        },
+      },
+    },
+  },
+];
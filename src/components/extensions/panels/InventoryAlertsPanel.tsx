@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom';
+import { PackageX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useInventoryAlerts } from '@/hooks/useInventoryAlerts';
+import type { ExtensionSettingsPanelProps } from '../types';
+
+export default function InventoryAlertsPanel({ storeId }: ExtensionSettingsPanelProps) {
+  const { alerts } = useInventoryAlerts(storeId);
+
+  return (
+    <div className="flex items-center justify-between rounded-lg border p-3">
+      <div className="flex items-center gap-2 text-sm">
+        <PackageX className="w-4 h-4 text-muted-foreground" />
+        {alerts.length === 0
+          ? 'No products are low in stock'
+          : `${alerts.length} item${alerts.length === 1 ? '' : 's'} low in stock`}
+      </div>
+      <Button variant="outline" size="sm" asChild>
+        <Link to="/dashboard/products?stock=low">View</Link>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * ============================================================================
+ * EXTENSION REGISTRY
+ * ============================================================================
+ *
+ * Single source of truth for the extensions a store can enable. The
+ * Extensions page lists registered manifests and the storefront runtime
+ * looks up their storefront hooks. Built-ins are registered on import;
+ * other extensions call registerExtension() from their own module.
+ *
+ * USAGE:
+ * ```ts
+ * registerExtension({ id: 'my_extension', version: '1.0.0', ... });
+ * const manifest = getExtension('google_analytics');
+ * ```
+ *
+ * ============================================================================
+ */
+
+import { BUILT_IN_EXTENSIONS } from './manifests';
+import type { ExtensionManifest } from './types';
+
+const EXTENSION_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const registry = new Map<string, ExtensionManifest>();
+
+/**
+ * Check a manifest for mistakes that would only show up at runtime
+ */
+function assertValidManifest(manifest: ExtensionManifest) {
+  const problem = (message: string) => new Error(`[extensions] ${manifest.id}: ${message}`);
+
+  if (!EXTENSION_ID_PATTERN.test(manifest.id)) {
+    throw problem('id must be lowercase letters, digits and underscores');
+  }
+  if (registry.has(manifest.id)) {
+    throw problem('an extension with this id is already registered');
+  }
+
+  const schema = manifest.settings?.schema;
+  const missingRequired = (schema?.required || []).filter((key) => !schema?.properties[key]);
+  if (missingRequired.length > 0) {
+    throw problem(`required settings are not in the schema: ${missingRequired.join(', ')}`);
+  }
+
+  if (manifest.storefront?.integration && !manifest.permissions.includes('storefront:scripts')) {
+    throw problem('storefront integrations need the storefront:scripts permission');
+  }
+  if (manifest.storefront?.widget && !manifest.permissions.includes('storefront:widgets')) {
+    throw problem('storefront widgets need the storefront:widgets permission');
+  }
+
+  const publicKeys = manifest.storefront?.publicConfigKeys || [];
+  const unknownPublic = publicKeys.filter((key) => !schema?.properties[key]);
+  if (unknownPublic.length > 0) {
+    throw problem(`public settings are not in the schema: ${unknownPublic.join(', ')}`);
+  }
+  const secretPublic = publicKeys.filter((key) => schema?.properties[key]?.writeOnly);
+  if (secretPublic.length > 0) {
+    throw problem(`secret settings can't be public: ${secretPublic.join(', ')}`);
+  }
+}
+
+export function registerExtension(manifest: ExtensionManifest) {
+  assertValidManifest(manifest);
+  registry.set(manifest.id, manifest);
+}
+
+export function getExtension(id: string): ExtensionManifest | undefined {
+  return registry.get(id);
+}
+
+/**
+ * All registered extensions, in registration order
+ */
+export function getExtensions(): ExtensionManifest[] {
+  return Array.from(registry.values());
+}
+
+BUILT_IN_EXTENSIONS.forEach(registerExtension);
@@ -0,0 +1,127 @@
+/**
+ * ============================================================================
+ * EXTENSION MANIFEST TYPE DEFINITIONS
+ * ============================================================================
+ *
+ * Every extension - built-in or third-party - is described by a manifest.
+ * The manifest is the only thing the dashboard and storefront know about an
+ * extension:
+ *
+ * - settings.schema: JSON Schema for store_extensions.config. The
+ *   Extensions page renders its settings form from it and validates the
+ *   config against it before saving.
+ * - permissions: what the extension can do with the store's data, shown to
+ *   the merchant before they configure it
+ * - storefront: optional script integration and/or widget run by the
+ *   storefront extension runtime (StorefrontExtensions), and the settings
+ *   they may read
+ *
+ * ARCHITECTURE NOTES:
+ * - Manifests are registered in registry.ts; built-ins live in manifests.ts
+ * - Config is stored as-is in store_extensions.config (JSONB) and read by
+ *   edge functions and SQL, so property names are part of the contract
+ *
+ * ============================================================================
+ */
+
+import type { ComponentType } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { StorefrontIntegration } from '@/lib/storefrontIntegrations';
+
+// ============================================================================
+// CONFIG SCHEMA
+// ============================================================================
+
+/**
+ * Supported subset of JSON Schema for a single config property.
+ * `x-` keywords are UI hints that JSON Schema validators ignore.
+ */
+export interface ConfigPropertySchema {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  title: string;
+  description?: string;
+  default?: string | number | boolean;
+  /** First example is used as the input placeholder */
+  examples?: string[];
+  enum?: string[];
+  pattern?: string;
+  format?: 'email' | 'uri';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  /** Secrets: rendered as a password input */
+  writeOnly?: boolean;
+  /** Labels for enum values, in the same order */
+  'x-enumLabels'?: string[];
+  /** Render as a textarea */
+  'x-multiline'?: boolean;
+  /** Message shown when `pattern` does not match */
+  'x-patternMessage'?: string;
+}
+
+export interface ExtensionConfigSchema {
+  type: 'object';
+  properties: Record<string, ConfigPropertySchema>;
+  required?: string[];
+}
+
+export type ExtensionConfig = Record<string, string | number | boolean>;
+
+/** Property name -> error message */
+export type ConfigErrors = Record<string, string>;
+
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+export type ExtensionPermission =
+  | 'orders:read'
+  | 'customers:read'
+  | 'products:read'
+  | 'payments:process'
+  | 'notifications:send'
+  | 'storefront:scripts'
+  | 'storefront:widgets';
+
+// ============================================================================
+// MANIFEST
+// ============================================================================
+
+export type ExtensionCategory = 'payments' | 'analytics' | 'communication' | 'marketing' | 'operations';
+
+export interface ExtensionSettingsPanelProps {
+  storeId: string;
+  config: ExtensionConfig;
+}
+
+export interface ExtensionStorefrontWidgetProps {
+  config: Record<string, string>;
+}
+
+export interface ExtensionManifest {
+  /** store_extensions.extension_id; never change it once stores use it */
+  id: string;
+  /** Semver of the manifest/config format */
+  version: string;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+  category: ExtensionCategory;
+  permissions: ExtensionPermission[];
+  settings?: {
+    schema: ExtensionConfigSchema;
+    /** Extra panel shown under the generated settings form */
+    panel?: ComponentType<ExtensionSettingsPanelProps>;
+  };
+  /**
+   * Storefront hooks. They only receive the settings listed in
+   * publicConfigKeys, through get_storefront_extensions().
+   */
+  storefront?: {
+    integration?: StorefrontIntegration;
+    widget?: ComponentType<ExtensionStorefrontWidgetProps>;
+    /** Settings shoppers may read, saved to store_extensions.public_config_keys; never secrets */
+    publicConfigKeys?: string[];
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * EXTENSION CONFIG SCHEMA UTILITY FUNCTIONS
+ * ============================================================================
+ *
+ * Validate and normalize store_extensions.config against an extension's
+ * settings schema. Used by the generated settings form and before saving.
+ *
+ * ============================================================================
+ */
+
+import type {
+  ConfigErrors,
+  ConfigPropertySchema,
+  ExtensionConfig,
+  ExtensionConfigSchema,
+} from '../types';
+
+/** Raw form values: text inputs hold strings, switches hold booleans */
+export type ConfigFormValues = Record<string, string | boolean>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function validateString(property: ConfigPropertySchema, value: string): string | null {
+  if (property.enum && !property.enum.includes(value)) {
+    return `${property.title} must be one of: ${property.enum.join(', ')}`;
+  }
+  if (property.minLength !== undefined && value.length < property.minLength) {
+    return `${property.title} must be at least ${property.minLength} characters`;
+  }
+  if (property.maxLength !== undefined && value.length > property.maxLength) {
+    return `${property.title} must be at most ${property.maxLength} characters`;
+  }
+  if (property.pattern && !new RegExp(property.pattern).test(value)) {
+    return property['x-patternMessage'] || `${property.title} is not in the expected format`;
+  }
+  if (property.format === 'email' && !EMAIL_PATTERN.test(value)) {
+    return 'Enter a valid email address';
+  }
+  if (property.format === 'uri') {
+    try {
+      new URL(value);
+    } catch {
+      return 'Enter a valid URL';
+    }
+  }
+  return null;
+}
+
+function validateNumber(property: ConfigPropertySchema, value: number): string | null {
+  if (property.type === 'integer' && !Number.isInteger(value)) {
+    return `${property.title} must be a whole number`;
+  }
+  if (property.minimum !== undefined && value < property.minimum) {
+    return `${property.title} must be at least ${property.minimum}`;
+  }
+  if (property.maximum !== undefined && value > property.maximum) {
+    return `${property.title} must be at most ${property.maximum}`;
+  }
+  return null;
+}
+
+/**
+ * Validate config values and convert them to the schema's types.
+ * Blank optional values are left out, so edge functions fall back to their
+ * defaults; properties not in the schema are dropped.
+ */
+export function validateExtensionConfig(
+  schema: ExtensionConfigSchema,
+  values: Record<string, unknown>
+): { config: ExtensionConfig; errors: ConfigErrors } {
+  const config: ExtensionConfig = {};
+  const errors: ConfigErrors = {};
+  const required = schema.required || [];
+
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    const raw = values[key];
+
+    if (isBlank(raw)) {
+      if (required.includes(key)) errors[key] = `${property.title} is required`;
+      return;
+    }
+
+    if (property.type === 'boolean') {
+      if (typeof raw === 'boolean') {
+        config[key] = raw;
+      } else if (raw === 'true' || raw === 'false') {
+        config[key] = raw === 'true';
+      } else {
+        errors[key] = `${property.title} must be on or off`;
+      }
+      return;
+    }
+
+    if (property.type === 'integer' || property.type === 'number') {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      const error = Number.isNaN(value) ? `${property.title} must be a number` : validateNumber(property, value);
+      if (error) errors[key] = error;
+      else config[key] = value;
+      return;
+    }
+
+    const value = property['x-multiline'] ? String(raw) : String(raw).trim();
+    const error = validateString(property, value);
+    if (error) errors[key] = error;
+    else config[key] = value;
+  });
+
+  return { config, errors };
+}
+
+/**
+ * Form values for a stored config, with schema defaults for unset properties
+ */
+export function getConfigFormValues(
+  schema: ExtensionConfigSchema,
+  config: Record<string, unknown>
+): ConfigFormValues {
+  const values: ConfigFormValues = {};
+
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    const stored = config[key] ?? property.default;
+
+    if (property.type === 'boolean') {
+      values[key] = stored === true || stored === 'true';
+    } else {
+      values[key] = stored === undefined || stored === null ? '' : String(stored);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Whether a stored config satisfies the schema (e.g. required credentials set)
+ */
+export function isConfigComplete(schema: ExtensionConfigSchema | undefined, config: Record<string, unknown>) {
+  if (!schema) return true;
+  return Object.keys(validateExtensionConfig(schema, config).errors).length === 0;
+}
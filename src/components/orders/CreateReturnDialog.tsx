@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import { RETURN_REASON_LABELS, type ReturnReason } from '@/lib/returns';
+
+type OrderItem = Tables<'order_items'>;
+
+interface CreateReturnDialogProps {
+  orderId: string;
+  items: OrderItem[];
+  /** Quantity of each order item already in a return that wasn't rejected, by order item id */
+  returnedQuantities: Record<string, number>;
+  onReturnCreated: () => void;
+}
+
+export default function CreateReturnDialog({
+  orderId,
+  items,
+  returnedQuantities,
+  onReturnCreated,
+}: CreateReturnDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, ReturnReason>>({});
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const returnableFor = (item: OrderItem) => item.quantity - (returnedQuantities[item.id] || 0);
+  const returnableItems = items.filter((item) => returnableFor(item) > 0);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setQuantities({});
+      setReasons({});
+      setNote('');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const returnItems = returnableItems
+      .map((item) => ({
+        order_item_id: item.id,
+        quantity: parseInt(quantities[item.id] || '0', 10) || 0,
+        reason: reasons[item.id] || 'other',
+      }))
+      .filter((line) => line.quantity > 0);
+
+    if (returnItems.length === 0) {
+      toast.error('Choose at least one item to return');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('request_return', {
+        p_order_id: orderId,
+        p_items: returnItems,
+        p_note: note.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success('Return created');
+      setOpen(false);
+      onReturnCreated();
+    } catch (error: any) {
+      console.error('Error creating return:', error);
+      toast.error(error.message || 'Failed to create return');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={returnableItems.length === 0}>
+          <Undo2 className="w-4 h-4 mr-2" />
+          Create Return
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Create Return</DialogTitle>
+          <DialogDescription>
+            Choose the items coming back and why. Returns you create are approved straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border rounded-lg divide-y">
+            {returnableItems.map((item) => (
+              <div key={item.id} className="p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.variant_name && `${item.variant_name} · `}
+                      {returnableFor(item)} of {item.quantity} returnable
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={returnableFor(item)}
+                    value={quantities[item.id] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    placeholder="0"
+                    className="w-20 h-9"
+                    aria-label={`Quantity of ${item.product_name} to return`}
+                  />
+                </div>
+                {parseInt(quantities[item.id] || '0', 10) > 0 && (
+                  <Select
+                    value={reasons[item.id] || 'other'}
+                    onValueChange={(value) => setReasons({ ...reasons, [item.id]: value as ReturnReason })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {RETURN_REASON_LABELS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="returnNote">Note (Optional)</Label>
+            <Textarea
+              id="returnNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={2}
+              placeholder="Anything your team should know about this return"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Return
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Loader2, Truck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  OTHER_CARRIER,
+  SHIPPING_CARRIERS,
+  TRACKING_NUMBER_PLACEHOLDER,
+  isValidTrackingUrlTemplate,
+} from '@/lib/shipping';
+
+type OrderItem = Tables<'order_items'>;
+
+interface CreateShipmentDialogProps {
+  orderId: string;
+  items: OrderItem[];
+  /** Quantity of each order item already in a shipment, by order item id */
+  shippedQuantities: Record<string, number>;
+  onShipmentCreated: () => void;
+}
+
+export default function CreateShipmentDialog({
+  orderId,
+  items,
+  shippedQuantities,
+  onShipmentCreated,
+}: CreateShipmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [carrier, setCarrier] = useState(SHIPPING_CARRIERS[0].name);
+  const [customCarrier, setCustomCarrier] = useState('');
+  const [customUrlTemplate, setCustomUrlTemplate] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const remainingFor = (item: OrderItem) => item.quantity - (shippedQuantities[item.id] || 0);
+  const unshippedItems = items.filter((item) => remainingFor(item) > 0);
+
+  const resetForm = () => {
+    setCarrier(SHIPPING_CARRIERS[0].name);
+    setCustomCarrier('');
+    setCustomUrlTemplate('');
+    setTrackingNumber('');
+    // Everything that is left ships by default
+    setQuantities(
+      Object.fromEntries(unshippedItems.map((item) => [item.id, String(remainingFor(item))]))
+    );
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) resetForm();
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isOther = carrier === OTHER_CARRIER;
+    const carrierName = isOther ? customCarrier.trim() : carrier;
+    const urlTemplate = isOther
+      ? customUrlTemplate.trim() || null
+      : SHIPPING_CARRIERS.find((option) => option.name === carrier)?.trackingUrlTemplate ?? null;
+
+    if (!carrierName) {
+      toast.error('Please enter the carrier name');
+      return;
+    }
+
+    if (urlTemplate && !isValidTrackingUrlTemplate(urlTemplate)) {
+      toast.error(`Tracking URL must start with http(s):// and contain ${TRACKING_NUMBER_PLACEHOLDER}`);
+      return;
+    }
+
+    const shipmentItems = unshippedItems
+      .map((item) => ({ order_item_id: item.id, quantity: parseInt(quantities[item.id] || '0', 10) || 0 }))
+      .filter((line) => line.quantity > 0);
+
+    if (shipmentItems.length === 0) {
+      toast.error('Choose at least one item to ship');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('create_shipment', {
+        p_order_id: orderId,
+        p_carrier: carrierName,
+        p_items: shipmentItems,
+        p_tracking_number: trackingNumber.trim() || undefined,
+        p_tracking_url_template: urlTemplate || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success('Shipment created');
+      setOpen(false);
+      onShipmentCreated();
+    } catch (error: any) {
+      console.error('Error creating shipment:', error);
+      toast.error(error.message || 'Failed to create shipment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={unshippedItems.length === 0}>
+          <Truck className="w-4 h-4 mr-2" />
+          Create Shipment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Create Shipment</DialogTitle>
+          <DialogDescription>
+            Choose what goes in this package. Anything left over can ship later in another package.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Carrier</Label>
+            <Select value={carrier} onValueChange={setCarrier}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHIPPING_CARRIERS.map((option) => (
+                  <SelectItem key={option.name} value={option.name}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={OTHER_CARRIER}>{OTHER_CARRIER}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {carrier === OTHER_CARRIER && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="customCarrier">Carrier Name</Label>
+                <Input
+                  id="customCarrier"
+                  value={customCarrier}
+                  onChange={(e) => setCustomCarrier(e.target.value)}
+                  maxLength={100}
+                  placeholder="e.g., Local courier"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customUrlTemplate">Tracking URL (Optional)</Label>
+                <Input
+                  id="customUrlTemplate"
+                  value={customUrlTemplate}
+                  onChange={(e) => setCustomUrlTemplate(e.target.value)}
+                  placeholder={`https://courier.example/track?id=${TRACKING_NUMBER_PLACEHOLDER}`}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {TRACKING_NUMBER_PLACEHOLDER} is replaced with the tracking number.
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="shipmentTrackingNumber">Tracking Number (Optional)</Label>
+            <Input
+              id="shipmentTrackingNumber"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              maxLength={100}
+              placeholder="Courier tracking number"
+              className="font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <div className="border rounded-lg divide-y">
+              {unshippedItems.map((item) => (
+                <div key={item.id} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.variant_name && `${item.variant_name} · `}
+                      {remainingFor(item)} of {item.quantity} left to ship
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={remainingFor(item)}
+                    value={quantities[item.id] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    className="w-20 h-9"
+                    aria-label={`Quantity of ${item.product_name} to ship`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Shipment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
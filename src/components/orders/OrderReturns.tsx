@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  REFUND_METHOD_LABELS,
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_LABELS,
+  type RefundMethod,
+  type ReturnStatus,
+} from '@/lib/returns';
+import CreateReturnDialog from '@/components/orders/CreateReturnDialog';
+import RefundDialog from '@/components/orders/RefundDialog';
+
+type Order = Tables<'orders'>;
+type OrderItem = Tables<'order_items'>;
+type Refund = Tables<'refunds'>;
+
+export type OrderReturn = Tables<'returns'> & {
+  return_items: Tables<'return_items'>[];
+};
+
+interface OrderReturnsProps {
+  order: Order;
+  items: OrderItem[];
+  returns: OrderReturn[];
+  refunds: Refund[];
+  onChange: () => void;
+}
+
+const getReturnStatusBadge = (status: ReturnStatus) => {
+  switch (status) {
+    case 'requested':
+      return <Badge className="bg-warning text-warning-foreground">{RETURN_STATUS_LABELS[status]}</Badge>;
+    case 'approved':
+      return <Badge className="bg-info text-info-foreground">{RETURN_STATUS_LABELS[status]}</Badge>;
+    case 'received':
+      return <Badge className="bg-success text-success-foreground">{RETURN_STATUS_LABELS[status]}</Badge>;
+    case 'rejected':
+      return <Badge variant="outline">{RETURN_STATUS_LABELS[status]}</Badge>;
+  }
+};
+
+export default function OrderReturns({ order, items, returns, refunds, onChange }: OrderReturnsProps) {
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+
+  const itemsById = Object.fromEntries(items.map((item) => [item.id, item]));
+
+  const returnedQuantities: Record<string, number> = {};
+  returns
+    .filter((orderReturn) => orderReturn.status !== 'rejected')
+    .forEach((orderReturn) => {
+      orderReturn.return_items.forEach((line) => {
+        returnedQuantities[line.order_item_id] = (returnedQuantities[line.order_item_id] || 0) + line.quantity;
+      });
+    });
+
+  const refundable = Math.max(Number(order.total) - Number(order.refunded_amount), 0);
+  // Store credit spent on the order can only go back as store credit
+  const paymentRefundable = Math.max(
+    Number(order.total) -
+      Number(order.store_credit_amount) -
+      refunds
+        .filter((refund) => refund.method === 'original_payment')
+        .reduce((sum, refund) => sum + Number(refund.amount), 0),
+    0
+  );
+  const canRefund = order.payment_status === 'paid' && refundable > 0;
+  const canCreateReturn = order.status === 'shipped' || order.status === 'delivered';
+
+  const returnValue = (orderReturn: OrderReturn) =>
+    orderReturn.return_items.reduce(
+      (sum, line) => sum + Number(itemsById[line.order_item_id]?.unit_price || 0) * line.quantity,
+      0
+    );
+
+  const updateReturnStatus = async (orderReturn: OrderReturn, status: ReturnStatus) => {
+    setUpdatingId(orderReturn.id);
+
+    try {
+      const { error } = await supabase.rpc('set_return_status', {
+        p_return_id: orderReturn.id,
+        p_status: status,
+        p_restock: restock[orderReturn.id] ?? true,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Return ${RETURN_STATUS_LABELS[status].toLowerCase()}`);
+      onChange();
+    } catch (error: any) {
+      console.error('Error updating return:', error);
+      toast.error(error.message || 'Failed to update return');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Returns & Refunds</CardTitle>
+        <div className="flex gap-2">
+          {canCreateReturn && (
+            <CreateReturnDialog
+              orderId={order.id}
+              items={items}
+              returnedQuantities={returnedQuantities}
+              onReturnCreated={onChange}
+            />
+          )}
+          {canRefund && (
+            <RefundDialog
+              orderId={order.id}
+              maxAmount={refundable}
+              maxPaymentAmount={paymentRefundable}
+              hasCustomer={!!order.customer_id}
+              onRefunded={onChange}
+            >
+              <Button variant="outline" size="sm">Refund</Button>
+            </RefundDialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {returns.length === 0 && refunds.length === 0 && (
+          <p className="text-sm text-muted-foreground">No returns or refunds on this order.</p>
+        )}
+
+        {returns.map((orderReturn) => {
+          const isUpdating = updatingId === orderReturn.id;
+
+          return (
+            <div key={orderReturn.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium">
+                    {orderReturn.requested_by === 'customer' ? 'Requested by the customer' : 'Opened by staff'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(orderReturn.created_at).toLocaleString()}
+                  </p>
+                </div>
+                {getReturnStatusBadge(orderReturn.status)}
+              </div>
+
+              <ul className="text-sm space-y-1">
+                {orderReturn.return_items.map((line) => {
+                  const item = itemsById[line.order_item_id];
+
+                  return (
+                    <li key={line.id} className="flex justify-between gap-3">
+                      <span>
+                        {item?.product_name}
+                        {item?.variant_name && ` (${item.variant_name})`} × {line.quantity}
+                      </span>
+                      <span className="text-muted-foreground">{RETURN_REASON_LABELS[line.reason]}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {orderReturn.note && (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{orderReturn.note}</p>
+              )}
+
+              {orderReturn.status === 'received' && (
+                <p className="text-xs text-muted-foreground">
+                  Received {orderReturn.received_at && new Date(orderReturn.received_at).toLocaleDateString()}
+                  {orderReturn.restocked ? ' and restocked' : ' - not restocked'}
+                </p>
+              )}
+
+              {orderReturn.status === 'approved' && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`restock-${orderReturn.id}`}
+                    checked={restock[orderReturn.id] ?? true}
+                    onCheckedChange={(checked) => setRestock({ ...restock, [orderReturn.id]: checked === true })}
+                  />
+                  <Label htmlFor={`restock-${orderReturn.id}`} className="text-sm font-normal">
+                    Put items back in stock when received
+                  </Label>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {orderReturn.status === 'requested' && (
+                  <Button size="sm" onClick={() => updateReturnStatus(orderReturn, 'approved')} disabled={isUpdating}>
+                    Approve
+                  </Button>
+                )}
+                {orderReturn.status === 'approved' && (
+                  <Button size="sm" onClick={() => updateReturnStatus(orderReturn, 'received')} disabled={isUpdating}>
+                    Mark as Received
+                  </Button>
+                )}
+                {(orderReturn.status === 'requested' || orderReturn.status === 'approved') && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateReturnStatus(orderReturn, 'rejected')}
+                    disabled={isUpdating}
+                  >
+                    Reject
+                  </Button>
+                )}
+                {canRefund && (orderReturn.status === 'approved' || orderReturn.status === 'received') && (
+                  <RefundDialog
+                    orderId={order.id}
+                    maxAmount={refundable}
+                    maxPaymentAmount={paymentRefundable}
+                    hasCustomer={!!order.customer_id}
+                    returnId={orderReturn.id}
+                    suggestedAmount={returnValue(orderReturn)}
+                    onRefunded={onChange}
+                  >
+                    <Button size="sm" variant="outline">Refund Return</Button>
+                  </RefundDialog>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {refunds.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Refunds</p>
+            {refunds.map((refund) => (
+              <div key={refund.id} className="flex justify-between gap-3 text-sm">
+                <div>
+                  <p>
+                    रु {Number(refund.amount).toLocaleString()} to{' '}
+                    {REFUND_METHOD_LABELS[refund.method as RefundMethod]?.toLowerCase() || refund.method}
+                  </p>
+                  {refund.reason && <p className="text-xs text-muted-foreground">{refund.reason}</p>}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(refund.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
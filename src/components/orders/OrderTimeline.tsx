@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Banknote, CreditCard, Loader2, MessageSquare, RefreshCw, ShoppingBag, Truck, Undo2 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { PAYMENT_METHODS, type PaymentMethodId } from '@/lib/payments';
+import { REFUND_METHOD_LABELS, RETURN_STATUS_LABELS, type RefundMethod, type ReturnStatus } from '@/lib/returns';
+
+type OrderEvent = Tables<'order_events'>;
+type OrderEventType = Database['public']['Enums']['order_event_type'];
+
+interface PaymentEventMetadata {
+  provider?: string;
+  status?: string;
+  amount?: number;
+  reference?: string | null;
+}
+
+interface ShipmentEventMetadata {
+  carrier?: string;
+  tracking_number?: string | null;
+  tracking_url?: string | null;
+  quantity?: number;
+}
+
+interface ReturnEventMetadata {
+  status?: ReturnStatus;
+  quantity?: number;
+  restocked?: boolean;
+}
+
+interface RefundEventMetadata {
+  amount?: number;
+  method?: RefundMethod;
+  reason?: string | null;
+}
+
+interface OrderTimelineProps {
+  orderId: string;
+  events: OrderEvent[];
+  onNoteAdded: () => void;
+}
+
+const EVENT_ICONS: Record<OrderEventType, LucideIcon> = {
+  placed: ShoppingBag,
+  status_changed: RefreshCw,
+  note: MessageSquare,
+  payment: CreditCard,
+  shipment: Truck,
+  return: Undo2,
+  refund: Banknote,
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function OrderTimeline({ orderId, events, onNoteAdded }: OrderTimelineProps) {
+  const { user } = useAuth();
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const getActorLabel = (event: OrderEvent) => {
+    if (event.created_by && event.created_by === user?.id) return 'You';
+    return capitalize(event.actor);
+  };
+
+  const describeEvent = (event: OrderEvent) => {
+    switch (event.event_type) {
+      case 'placed':
+        return 'Order placed';
+      case 'status_changed':
+        return `Status changed from ${capitalize(event.from_status ?? '')} to ${capitalize(event.to_status ?? '')}`;
+      case 'note':
+        return event.note;
+      case 'payment': {
+        const payment = event.metadata as PaymentEventMetadata;
+        const method = PAYMENT_METHODS[payment.provider as PaymentMethodId]?.name || payment.provider;
+        return `Payment ${payment.status} via ${method} (रु ${Number(payment.amount).toLocaleString()})`;
+      }
+      case 'shipment': {
+        const shipment = event.metadata as ShipmentEventMetadata;
+        // Events from before shipments only carried a tracking number
+        if (!shipment.carrier) return `Tracking number ${shipment.tracking_number}`;
+
+        const items = shipment.quantity === 1 ? '1 item' : `${shipment.quantity} items`;
+        const tracking = shipment.tracking_number ? ` (tracking ${shipment.tracking_number})` : '';
+        return `Shipped ${items} via ${shipment.carrier}${tracking}`;
+      }
+      case 'return': {
+        const orderReturn = event.metadata as ReturnEventMetadata;
+        // Only the event that opens a return carries its quantity
+        if (orderReturn.quantity) {
+          const items = orderReturn.quantity === 1 ? '1 item' : `${orderReturn.quantity} items`;
+          return `Return of ${items} ${orderReturn.status === 'requested' ? 'requested' : 'opened'}`;
+        }
+        if (orderReturn.status === 'received') {
+          return `Return received${orderReturn.restocked ? ' and restocked' : ''}`;
+        }
+        return `Return ${RETURN_STATUS_LABELS[orderReturn.status ?? 'requested'].toLowerCase()}`;
+      }
+      case 'refund': {
+        const refund = event.metadata as RefundEventMetadata;
+        const method = REFUND_METHOD_LABELS[refund.method ?? 'original_payment'].toLowerCase();
+        const reason = refund.reason ? ` - ${refund.reason}` : '';
+        return `Refunded रु ${Number(refund.amount).toLocaleString()} to ${method}${reason}`;
+      }
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('add_order_note', {
+        p_order_id: orderId,
+        p_note: note,
+      });
+
+      if (error) throw error;
+
+      setNote('');
+      onNoteAdded();
+    } catch (error: any) {
+      console.error('Error adding note:', error);
+      toast.error(error.message || 'Failed to add note');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note for your team..."
+            maxLength={2000}
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleAddNote} disabled={isSubmitting || !note.trim()}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Note
+            </Button>
+          </div>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events yet.</p>
+        ) : (
+          <ol className="space-y-4">
+            {events.map((event) => {
+              const Icon = EVENT_ICONS[event.event_type];
+              const trackingUrl =
+                event.event_type === 'shipment' ? (event.metadata as ShipmentEventMetadata).tracking_url : null;
+
+              return (
+                <li key={event.id} className="flex gap-3">
+                  <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                    <Icon className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className={event.event_type === 'note' ? 'text-sm whitespace-pre-wrap break-words' : 'text-sm font-medium'}>
+                      {describeEvent(event)}
+                    </p>
+                    {trackingUrl && (
+                      <a
+                        href={trackingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-primary hover:underline"
+                      >
+                        Track package
+                      </a>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {getActorLabel(event)} · {new Date(event.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
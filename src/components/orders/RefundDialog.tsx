@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { REFUND_METHOD_LABELS, type RefundMethod } from '@/lib/returns';
+
+interface RefundDialogProps {
+  orderId: string;
+  /** Amount still refundable on the order */
+  maxAmount: number;
+  /** Amount that can still go back to the original payment (not the part paid with store credit) */
+  maxPaymentAmount: number;
+  /** Store credit needs a customer on the order */
+  hasCustomer: boolean;
+  /** Return this refund is for, if any */
+  returnId?: string | null;
+  /** Prefilled amount, e.g. the value of the returned items */
+  suggestedAmount?: number;
+  onRefunded: () => void;
+  children: React.ReactNode;
+}
+
+export default function RefundDialog({
+  orderId,
+  maxAmount,
+  maxPaymentAmount,
+  hasCustomer,
+  returnId = null,
+  suggestedAmount,
+  onRefunded,
+  children,
+}: RefundDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<RefundMethod>('original_payment');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const methodMax = (refundMethod: RefundMethod) =>
+    refundMethod === 'original_payment' ? Math.min(maxAmount, maxPaymentAmount) : maxAmount;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      // Orders paid entirely with store credit can only be refunded as store credit
+      const initialMethod: RefundMethod = maxPaymentAmount > 0 || !hasCustomer ? 'original_payment' : 'store_credit';
+      setAmount(String(Math.min(suggestedAmount ?? methodMax(initialMethod), methodMax(initialMethod))));
+      setMethod(initialMethod);
+      setReason('');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+
+    if (!value || value <= 0) {
+      toast.error('Enter an amount to refund');
+      return;
+    }
+
+    if (value > maxAmount) {
+      toast.error(`You can refund at most रु ${maxAmount.toLocaleString()} on this order`);
+      return;
+    }
+
+    if (value > methodMax(method)) {
+      toast.error(
+        `You can refund at most रु ${methodMax(method).toLocaleString()} to the original payment; refund the rest as store credit`
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('refund_order', {
+        p_order_id: orderId,
+        p_amount: value,
+        p_method: method,
+        p_reason: reason.trim() || undefined,
+        p_return_id: returnId || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        method === 'store_credit'
+          ? `रु ${value.toLocaleString()} added to the customer's store credit`
+          : `Refund of रु ${value.toLocaleString()} recorded`
+      );
+      setOpen(false);
+      onRefunded();
+    } catch (error: any) {
+      console.error('Error refunding order:', error);
+      toast.error(error.message || 'Failed to refund order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Refund</DialogTitle>
+          <DialogDescription>
+            Up to रु {maxAmount.toLocaleString()} can still be refunded on this order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refundAmount">Amount (रु)</Label>
+            <Input
+              id="refundAmount"
+              type="number"
+              min={0}
+              max={methodMax(method)}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Refund To</Label>
+            <RadioGroup value={method} onValueChange={(value) => setMethod(value as RefundMethod)}>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem
+                  value="original_payment"
+                  id="refundOriginal"
+                  className="mt-1"
+                  disabled={maxPaymentAmount <= 0}
+                />
+                <Label htmlFor="refundOriginal" className="font-normal">
+                  {REFUND_METHOD_LABELS.original_payment}
+                  <span className="block text-xs text-muted-foreground">
+                    Send the money back through the payment provider, or in cash for cash on delivery
+                    {maxPaymentAmount < maxAmount && `, up to रु ${maxPaymentAmount.toLocaleString()}`}
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="store_credit" id="refundCredit" className="mt-1" disabled={!hasCustomer} />
+                <Label htmlFor="refundCredit" className="font-normal">
+                  {REFUND_METHOD_LABELS.store_credit}
+                  <span className="block text-xs text-muted-foreground">
+                    Added to the customer's store credit balance
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundReason">Reason (Optional)</Label>
+            <Input
+              id="refundReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              placeholder="e.g., Item arrived damaged"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Refund
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
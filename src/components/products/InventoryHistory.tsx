@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Tables, Database } from '@/integrations/supabase/types';
+
+type MovementReason = Database['public']['Enums']['inventory_movement_reason'];
+
+type InventoryMovement = Tables<'inventory_movements'> & {
+  orders: { order_number: string } | null;
+};
+
+interface VariantOption {
+  id: string;
+  name: string;
+  stock_quantity: number;
+}
+
+interface InventoryHistoryProps {
+  productId: string;
+  storeId: string;
+  productStock: number;
+  onStockAdjusted?: (variantId: string | null, stockQuantity: number) => void;
+}
+
+const REASON_LABELS: Record<MovementReason, string> = {
+  initial: 'Opening stock',
+  manual_adjustment: 'Manual adjustment',
+  sale: 'Sale',
+  cancellation_restock: 'Cancellation restock',
+  return: 'Return',
+  import: 'Import',
+};
+
+/** Reasons a merchant can record by hand - sales and restocks come from orders */
+const MANUAL_REASONS: MovementReason[] = ['manual_adjustment', 'return', 'import'];
+
+const PRODUCT_TARGET = 'product';
+
+export default function InventoryHistory({
+  productId,
+  storeId,
+  productStock,
+  onStockAdjusted,
+}: InventoryHistoryProps) {
+  const { user } = useAuth();
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [discrepancies, setDiscrepancies] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+
+  // Adjustment form
+  const [target, setTarget] = useState(PRODUCT_TARGET);
+  const [quantityChange, setQuantityChange] = useState('');
+  const [reason, setReason] = useState<MovementReason>('manual_adjustment');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [productId]);
+
+  const fetchHistory = async () => {
+    try {
+      const [movementsResult, variantsResult, discrepanciesResult] = await Promise.all([
+        supabase
+          .from('inventory_movements')
+          .select('*, orders(order_number)')
+          .eq('product_id', productId)
+          .order('created_at', { ascending: false })
+          .limit(200),
+        supabase
+          .from('product_variants')
+          .select('id, name, stock_quantity')
+          .eq('product_id', productId)
+          .order('created_at'),
+        supabase.rpc('get_inventory_discrepancies', { p_store_id: storeId }),
+      ]);
+
+      if (movementsResult.error) throw movementsResult.error;
+      if (variantsResult.error) throw variantsResult.error;
+
+      setMovements((movementsResult.data as InventoryMovement[]) || []);
+      setVariants(variantsResult.data || []);
+      setDiscrepancies(
+        (discrepanciesResult.data || []).filter(d => d.product_id === productId).length
+      );
+    } catch (error: any) {
+      console.error('Error fetching inventory history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    const change = parseInt(quantityChange, 10);
+    if (!change) {
+      toast.error('Enter a quantity to add (e.g. 5) or remove (e.g. -2)');
+      return;
+    }
+
+    const variantId = target === PRODUCT_TARGET ? null : target;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('adjust_inventory', {
+        p_product_id: productId,
+        p_variant_id: variantId ?? undefined,
+        p_quantity_change: change,
+        p_reason: reason,
+        p_note: note || undefined,
+      });
+
+      if (error) throw error;
+
+      onStockAdjusted?.(variantId, data);
+      setQuantityChange('');
+      setNote('');
+      toast.success('Stock adjusted');
+      fetchHistory();
+    } catch (error: any) {
+      console.error('Error adjusting stock:', error);
+      toast.error(error.message || 'Failed to adjust stock');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getItemLabel = (variantId: string | null) => {
+    if (!variantId) return 'Product';
+    return variants.find(v => v.id === variantId)?.name || 'Deleted variant';
+  };
+
+  const getActorLabel = (movement: InventoryMovement) => {
+    if (!movement.created_by) return movement.order_id ? 'Customer' : 'System';
+    return movement.created_by === user?.id ? 'You' : 'Staff';
+  };
+
+  const currentStock = target === PRODUCT_TARGET
+    ? productStock
+    : variants.find(v => v.id === target)?.stock_quantity ?? 0;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {discrepancies > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Stock does not match history</AlertTitle>
+          <AlertDescription>
+            The current stock of {discrepancies === 1 ? 'one item' : `${discrepancies} items`} differs
+            from the sum of its recorded movements. Record a manual adjustment after a stock count
+            to correct it.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Adjust Stock Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Adjust Stock</CardTitle>
+          <CardDescription>
+            Record stock counts, damaged goods, returns and received shipments
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PRODUCT_TARGET}>Product</SelectItem>
+                  {variants.map((variant) => (
+                    <SelectItem key={variant.id} value={variant.id}>
+                      {variant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Current stock: {currentStock}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Quantity Change</Label>
+              <Input
+                type="number"
+                step="1"
+                placeholder="e.g. 10 or -2"
+                value={quantityChange}
+                onChange={(e) => setQuantityChange(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(v) => setReason(v as MovementReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {REASON_LABELS[r]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input
+              placeholder="e.g. Monthly stock count, 2 units damaged"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={handleAdjust} disabled={isSubmitting || !quantityChange}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Record Adjustment
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Movement History Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock History</CardTitle>
+          <CardDescription>Every change to this product's stock, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No stock movements recorded yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(movement.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{getItemLabel(movement.variant_id)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Badge variant="secondary">{REASON_LABELS[movement.reason]}</Badge>
+                        {movement.orders && (
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {movement.orders.order_number}
+                          </p>
+                        )}
+                        {movement.note && (
+                          <p className="text-xs text-muted-foreground">{movement.note}</p>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${
+                        movement.quantity_change > 0 ? 'text-success' : 'text-destructive'
+                      }`}
+                    >
+                      {movement.quantity_change > 0 ? '+' : ''}
+                      {movement.quantity_change}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.quantity_after}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {getActorLabel(movement)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -44,6 +44,8 @@ export default function ProductVariantsSection({
   const [variants, setVariants] = useState<ProductVariant[]>([]);
   const [loading, setLoading] = useState(false);
   const [isAddingVariant, setIsAddingVariant] = useState(false);
+  // Stock edits are kept locally and recorded as one adjustment on blur
+  const [stockDrafts, setStockDrafts] = useState<Record<string, string>>({});
   const [newVariant, setNewVariant] = useState<NewVariant>({
     name: '',
     sku: '',
@@ -163,6 +165,37 @@ export default function ProductVariantsSection({
     }
   };
 
+  /**
+   * Record a variant stock edit in the inventory ledger
+   * Sends the difference from the saved stock so concurrent sales are kept
+   */
+  const handleStockCommit = async (variant: ProductVariant) => {
+    const draft = stockDrafts[variant.id];
+    if (draft === undefined) return;
+
+    setStockDrafts(({ [variant.id]: _, ...rest }) => rest);
+
+    const quantityChange = Math.trunc(Number(draft)) - variant.stock_quantity;
+    if (!quantityChange) return;
+
+    try {
+      const { data, error } = await supabase.rpc('adjust_inventory', {
+        p_product_id: variant.product_id,
+        p_variant_id: variant.id,
+        p_quantity_change: quantityChange,
+      });
+
+      if (error) throw error;
+
+      setVariants(prev => prev.map(v =>
+        v.id === variant.id ? { ...v, stock_quantity: data } : v
+      ));
+    } catch (error: any) {
+      console.error('Error adjusting variant stock:', error);
+      toast.error(error.message || 'Failed to update stock');
+    }
+  };
+
   const generateVariantName = () => {
     const attrValues = Object.values(newVariant.attributes).filter(Boolean);
     if (attrValues.length > 0) {
@@ -307,6 +340,7 @@ export default function ProductVariantsSection({
                 <TableHead>SKU</TableHead>
                 <TableHead>Price</TableHead>
                 <TableHead>Stock</TableHead>
+                <TableHead title="Low stock alert threshold">Alert At</TableHead>
                 <TableHead className="w-[50px]"></TableHead>
               </TableRow>
             </TableHeader>
@@ -346,8 +380,23 @@ export default function ProductVariantsSection({
                     <Input
                       type="number"
                       className="w-20 h-8"
-                      value={variant.stock_quantity}
-                      onChange={(e) => handleUpdateVariant(variant.id, 'stock_quantity', Number(e.target.value))}
+                      value={stockDrafts[variant.id] ?? variant.stock_quantity}
+                      onChange={(e) => setStockDrafts({ ...stockDrafts, [variant.id]: e.target.value })}
+                      onBlur={() => handleStockCommit(variant)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-20 h-8"
+                      placeholder="Default"
+                      value={variant.low_stock_threshold ?? ''}
+                      onChange={(e) => handleUpdateVariant(
+                        variant.id,
+                        'low_stock_threshold',
+                        e.target.value === '' ? null : Math.max(0, Math.trunc(Number(e.target.value)))
+                      )}
                     />
                   </TableCell>
                   <TableCell>
@@ -17,13 +17,30 @@
  * - SectionList: Current page sections with drag reorder
  * - SectionEditor: Configuration panel for selected section
  * - PreviewFrame: Live preview of the storefront
+ * - NavigationEditor: Header and footer menus
+ * - PublishDialog / VersionHistory: Publish drafts, history and rollback
+ * 
+ * Everything edited here is a draft. Shoppers see the store's published
+ * version until the merchant publishes again (see useStoreVersions).
+ * 
+ * Section, theme and navigation edits are applied locally, saved in batches
+ * once editing pauses, and can be undone with Ctrl+Z / Ctrl+Shift+Z
+ * (see useEditorHistory and useAutosave). History is kept per page.
  * 
  * ============================================================================
  */
 
 import { useState, useEffect } from 'react';
 import { useStore } from '@/contexts/StoreContext';
-import { useStorePages, usePageSections, useStoreTheme } from '@/hooks/useStoreBuilder';
+import {
+  useStorePages,
+  usePageSections,
+  useStoreTheme,
+  useStoreNavigation,
+  useStoreVersions,
+} from '@/hooks/useStoreBuilder';
+import { useEditorHistory } from '@/hooks/useEditorHistory';
+import type { SaveStatus } from '@/hooks/useAutosave';
 import { StorePage, PageSection, EditorState } from './types';
 import { SectionPalette } from './editor/SectionPalette';
 import { SectionList } from './editor/SectionList';
@@ -31,8 +48,11 @@ import { SectionEditor } from './editor/SectionEditor';
 import { PageSelector } from './editor/PageSelector';
 import { PageSettings } from './editor/PageSettings';
 import { ThemeEditor } from './editor/ThemeEditor';
+import { NavigationEditor } from './editor/NavigationEditor';
 import { PreviewFrame } from './editor/PreviewFrame';
 import { EditorHeader } from './editor/EditorHeader';
+import { PublishDialog } from './editor/PublishDialog';
+import { VersionHistory } from './editor/VersionHistory';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Loader2 } from 'lucide-react';
 
@@ -43,16 +63,42 @@ export function StoreBuilder() {
   // currentStore: The currently selected store from StoreContext
   // pages: All pages for this store (homepage, about, etc.)
   // theme: The active theme configuration (colors, fonts, layout)
+  // history: Undo/redo stack shared by sections, theme and navigation
   const { currentStore } = useStore();
+  const history = useEditorHistory();
   const { pages, loading: pagesLoading, createPage, updatePage, deletePage } = useStorePages(currentStore?.id);
-  const { theme, loading: themeLoading, updateTheme } = useStoreTheme(currentStore?.id);
+  const {
+    theme,
+    loading: themeLoading,
+    updateTheme,
+    saveStatus: themeSaveStatus,
+    flush: flushTheme,
+    refetch: refetchTheme,
+  } = useStoreTheme(currentStore?.id, history);
+  const {
+    navItems,
+    addNavItem,
+    updateNavItem,
+    deleteNavItem,
+    reorderNavItems,
+    saveStatus: navSaveStatus,
+    flush: flushNavigation,
+    refetch: refetchNavigation,
+  } = useStoreNavigation(currentStore?.id, history);
+  const {
+    versions,
+    publishedVersion,
+    publishing,
+    publish,
+    restoreVersion,
+  } = useStoreVersions(currentStore?.id);
   
   // ==========================================================================
   // LOCAL EDITOR STATE
   // ==========================================================================
   // activePage: Which page is currently being edited
   // editorState: UI state (selected section, preview mode, zoom level)
-  // activeTab: Which sidebar tab is active (sections/theme/pages)
+  // activeTab: Which sidebar tab is active (sections/theme/navigation/settings)
   const [activePage, setActivePage] = useState<StorePage | null>(null);
   const [editorState, setEditorState] = useState<EditorState>({
     selectedSectionId: null,  // ID of section being configured in right sidebar
@@ -61,7 +107,9 @@ export function StoreBuilder() {
     showGrid: false,          // Show alignment grid overlay
     zoom: 100,                // Preview zoom percentage (50-150)
   });
-  const [activeTab, setActiveTab] = useState<'sections' | 'theme' | 'settings'>('sections');
+  const [activeTab, setActiveTab] = useState<'sections' | 'theme' | 'navigation' | 'settings'>('sections');
+  const [publishDialogOpen, setPublishDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   // ==========================================================================
   // SECTIONS HOOK
@@ -77,7 +125,67 @@ export function StoreBuilder() {
     deleteSection,        // (id) => Remove section from page
     reorderSections,      // (sections[]) => Update sort order
     duplicateSection,     // (id) => Clone a section
-  } = usePageSections(activePage?.id, currentStore?.id);
+    saveStatus: sectionsSaveStatus,
+    flush: flushSections,
+    refetch: refetchSections,
+  } = usePageSections(activePage?.id, currentStore?.id, history);
+
+  // ==========================================================================
+  // SAVING & UNDO/REDO
+  // ==========================================================================
+  // Worst status wins: a failed save shows until it is retried
+  const saveStatuses: SaveStatus[] = [sectionsSaveStatus, themeSaveStatus, navSaveStatus];
+  const saveStatus: SaveStatus =
+    (['error', 'saving', 'pending'] as const).find(status => saveStatuses.includes(status)) || 'saved';
+
+  const flushAll = async () => {
+    const results = await Promise.all([flushSections(), flushTheme(), flushNavigation()]);
+    return results.every(Boolean);
+  };
+
+  // Undo steps refer to one page's sections, so history starts over per page
+  const { clear: clearHistory, undo, redo } = history;
+  useEffect(() => {
+    clearHistory();
+  }, [activePage?.id, currentStore?.id, clearHistory]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep
+  // their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Warn before closing the tab while changes are still being saved
+  useEffect(() => {
+    if (saveStatus === 'saved') return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [saveStatus]);
 
   // ==========================================================================
   // EFFECTS: Store Change Detection
@@ -117,7 +225,7 @@ export function StoreBuilder() {
   const handlePageSelect = (page: StorePage) => {
     console.log('[Step 1B.3] Active page changed:', page.id, ', loading sections...');
     setActivePage(page);
-    setEditorState({ ...editorState, selectedSectionId: null });
+    setEditorState((prev) => ({ ...prev, selectedSectionId: null }));
   };
 
   // Auto-create homepage if store has no pages yet
@@ -135,6 +243,27 @@ export function StoreBuilder() {
 
   const selectedSection = sections.find(s => s.id === editorState.selectedSectionId);
 
+  // Publishing snapshots the saved drafts, so pending edits are saved first
+  const handlePublish = async (note: string) => {
+    if (!(await flushAll())) return false;
+    return publish(note);
+  };
+
+  // Restoring replaces the drafts, so reload what the editor shows; earlier
+  // undo steps would overwrite the restored version
+  const handleRestoreVersion = async (versionId: string) => {
+    if (!(await flushAll())) return;
+
+    const restored = await restoreVersion(versionId);
+    if (restored) {
+      history.clear();
+      setEditorState((prev) => ({ ...prev, selectedSectionId: null }));
+      refetchSections();
+      refetchTheme();
+      refetchNavigation();
+    }
+  };
+
   if (pagesLoading || themeLoading) {
     return (
       <div className="h-screen flex items-center justify-center bg-background">
@@ -159,7 +288,29 @@ export function StoreBuilder() {
         activePage={activePage}
         editorState={editorState}
         setEditorState={setEditorState}
-        onPublish={() => activePage && updatePage(activePage.id, { is_published: true })}
+        history={history}
+        saveStatus={saveStatus}
+        onRetrySave={flushAll}
+        publishedVersion={publishedVersion}
+        publishing={publishing}
+        onPublish={() => setPublishDialogOpen(true)}
+        onOpenHistory={() => setHistoryOpen(true)}
+      />
+
+      <PublishDialog
+        open={publishDialogOpen}
+        onOpenChange={setPublishDialogOpen}
+        publishing={publishing}
+        onPublish={handlePublish}
+      />
+
+      <VersionHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        versions={versions}
+        publishedVersionId={publishedVersion?.id ?? null}
+        publishing={publishing}
+        onRestore={handleRestoreVersion}
       />
 
       <div className="flex-1 flex overflow-hidden">
@@ -173,9 +324,10 @@ export function StoreBuilder() {
           />
 
           <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="flex flex-col flex-1 overflow-hidden">
-            <TabsList className="grid w-full grid-cols-3 mx-2 mt-2 mb-0 w-[calc(100%-16px)]">
+            <TabsList className="grid w-full grid-cols-4 mx-2 mt-2 mb-0 w-[calc(100%-16px)]">
               <TabsTrigger value="sections">Sections</TabsTrigger>
               <TabsTrigger value="theme">Theme</TabsTrigger>
+              <TabsTrigger value="navigation">Menus</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
 
@@ -194,7 +346,7 @@ export function StoreBuilder() {
                 <SectionList
                   sections={sections}
                   selectedSectionId={editorState.selectedSectionId}
-                  onSelectSection={(id) => setEditorState({ ...editorState, selectedSectionId: id })}
+                  onSelectSection={(id) => setEditorState((prev) => ({ ...prev, selectedSectionId: id }))}
                   onReorder={reorderSections}
                   onDelete={deleteSection}
                   onDuplicate={duplicateSection}
@@ -217,6 +369,18 @@ export function StoreBuilder() {
               )}
             </TabsContent>
 
+            <TabsContent value="navigation" className="flex-1 overflow-hidden m-0">
+              <NavigationEditor
+                storeSlug={currentStore.slug}
+                navItems={navItems}
+                pages={pages}
+                onAdd={addNavItem}
+                onUpdate={updateNavItem}
+                onDelete={deleteNavItem}
+                onReorder={reorderNavItems}
+              />
+            </TabsContent>
+
             <TabsContent value="settings" className="flex-1 overflow-auto m-0">
               {activePage ? (
                 <PageSettings
@@ -241,9 +405,9 @@ export function StoreBuilder() {
             sections={sections}
             previewMode={editorState.previewMode}
             zoom={editorState.zoom}
+            page={activePage}
             selectedSectionId={editorState.selectedSectionId}
-            onSelectSection={(id) => setEditorState({ ...editorState, selectedSectionId: id })}
-            pageType={activePage?.page_type}
+            onSelectSection={(id) => setEditorState((prev) => ({ ...prev, selectedSectionId: id }))}
           />
         </main>
 
@@ -254,7 +418,7 @@ export function StoreBuilder() {
               section={selectedSection}
               onUpdate={(updates) => updateSectionConfig(selectedSection.id, updates)}
               onUpdateSection={(updates) => updateSection(selectedSection.id, updates)}
-              onClose={() => setEditorState({ ...editorState, selectedSectionId: null })}
+              onClose={() => setEditorState((prev) => ({ ...prev, selectedSectionId: null }))}
               pageType={activePage?.page_type}
             />
           </aside>
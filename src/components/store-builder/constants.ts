@@ -4,7 +4,7 @@
  * ============================================================================
  * 
  * This file contains all constant values used throughout the Store Builder.
- * Includes section definitions, default configs, and available fonts.
+ * Includes section definitions, page permissions, and available fonts.
  * 
  * ============================================================================
  */
@@ -46,13 +46,19 @@ export const PAGE_SECTION_PERMISSIONS: Record<PageType, PageSectionPermission> =
     description: 'Policy pages are primarily text-based'
   },
   product: {
-    allowedSectionTypes: ['text_block', 'trust_badges', 'testimonials', 'faq', 'spacer'],
-    maxSections: 5,
+    allowedSectionTypes: [
+      'product_filters', 'product_sort', 'recently_viewed', 'recommended_products', 'product_reviews',
+      'text_block', 'trust_badges', 'testimonials', 'faq', 'spacer'
+    ],
+    maxSections: 8,
     description: 'Product pages have limited customization below the product'
   },
   category: {
-    allowedSectionTypes: ['category_banner', 'text_block', 'spacer'],
-    maxSections: 3,
+    allowedSectionTypes: [
+      'category_banner', 'product_filters', 'product_sort', 'recently_viewed', 'recommended_products',
+      'text_block', 'spacer'
+    ],
+    maxSections: 6,
     description: 'Category pages have limited customization'
   },
   cart: {
@@ -87,6 +93,16 @@ export const PAGE_SECTION_PERMISSIONS: Record<PageType, PageSectionPermission> =
   }
 };
 
+/**
+ * Section types that only work on certain page types. They are left out of
+ * pages that allow 'all' sections unless that page type is listed here
+ * (filters and sort drive the built-in product listing).
+ */
+export const PAGE_RESTRICTED_SECTION_TYPES: Partial<Record<SectionType, PageType[]>> = {
+  product_filters: ['product', 'category'],
+  product_sort: ['product', 'category'],
+};
+
 // ============================================================================
 // AVAILABLE GOOGLE FONTS
 // ============================================================================
@@ -111,8 +127,9 @@ export const AVAILABLE_FONTS = [
 // ============================================================================
 // SECTION DEFINITIONS
 // ============================================================================
-// Each section has a type, label, icon, category, and default configuration.
-// This allows the editor to dynamically render section options.
+// Each section has a type, label, icon, category and description for the
+// editor palette. Components, config schemas and default configs live in the
+// section registry (src/components/storefront/sections/registry.tsx).
 // ============================================================================
 
 export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
@@ -123,7 +140,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'LayoutTop',
     category: 'layout',
     description: 'Site header with logo and navigation',
-    defaultConfig: {},
   },
   footer: {
     type: 'footer',
@@ -131,7 +147,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'LayoutBottom',
     category: 'layout',
     description: 'Site footer with links and info',
-    defaultConfig: {},
   },
 
   // Hero Sections
@@ -141,15 +156,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Image',
     category: 'hero',
     description: 'Full-width banner with title, subtitle, and CTA',
-    defaultConfig: {
-      title: 'Welcome to Our Store',
-      subtitle: 'Discover amazing products',
-      buttonText: 'Shop Now',
-      buttonLink: '#products',
-      textAlignment: 'center',
-      height: 'large',
-      backgroundOverlay: 40,
-    },
   },
   hero_slider: {
     type: 'hero_slider',
@@ -157,14 +163,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Layers',
     category: 'hero',
     description: 'Sliding hero banners with multiple slides',
-    defaultConfig: {
-      slides: [
-        { id: '1', title: 'Slide 1', subtitle: 'First slide description' },
-        { id: '2', title: 'Slide 2', subtitle: 'Second slide description' },
-      ],
-      autoplay: true,
-      interval: 5000,
-    },
   },
   hero_video: {
     type: 'hero_video',
@@ -172,12 +170,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Video',
     category: 'hero',
     description: 'Video background with overlay content',
-    defaultConfig: {
-      videoUrl: '',
-      title: 'Watch Our Story',
-      muted: true,
-      loop: true,
-    },
   },
 
   // Product Sections
@@ -187,13 +179,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Star',
     category: 'products',
     description: 'Showcase your featured products',
-    defaultConfig: {
-      title: 'Featured Products',
-      productCount: 4,
-      columns: 4,
-      showPrice: true,
-      showAddToCart: true,
-    },
   },
   product_grid: {
     type: 'product_grid',
@@ -201,12 +186,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Grid3x3',
     category: 'products',
     description: 'Display products in a grid layout',
-    defaultConfig: {
-      title: 'Our Products',
-      columns: 4,
-      rows: 2,
-      showFilters: false,
-    },
   },
   product_carousel: {
     type: 'product_carousel',
@@ -214,11 +193,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'ChevronLeftRight',
     category: 'products',
     description: 'Scrollable product showcase',
-    defaultConfig: {
-      title: 'Popular Items',
-      productCount: 8,
-      autoplay: true,
-    },
   },
   new_arrivals: {
     type: 'new_arrivals',
@@ -226,11 +200,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Sparkles',
     category: 'products',
     description: 'Display newest products',
-    defaultConfig: {
-      title: 'New Arrivals',
-      productCount: 4,
-      columns: 4,
-    },
   },
   best_sellers: {
     type: 'best_sellers',
@@ -238,11 +207,42 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'TrendingUp',
     category: 'products',
     description: 'Show top-selling products',
-    defaultConfig: {
-      title: 'Best Sellers',
-      productCount: 4,
-      columns: 4,
-    },
+  },
+
+  recently_viewed: {
+    type: 'recently_viewed',
+    label: 'Recently Viewed',
+    icon: 'History',
+    category: 'products',
+    description: 'Products the shopper viewed recently',
+  },
+  recommended_products: {
+    type: 'recommended_products',
+    label: 'Recommended Products',
+    icon: 'ThumbsUp',
+    category: 'products',
+    description: 'Picks based on what the shopper browsed',
+  },
+  product_reviews: {
+    type: 'product_reviews',
+    label: 'Product Reviews',
+    icon: 'MessageSquare',
+    category: 'products',
+    description: 'Latest customer reviews and ratings',
+  },
+  product_filters: {
+    type: 'product_filters',
+    label: 'Product Filters',
+    icon: 'SlidersHorizontal',
+    category: 'products',
+    description: 'Price, stock and sale filters for the product listing',
+  },
+  product_sort: {
+    type: 'product_sort',
+    label: 'Product Sort',
+    icon: 'ArrowDownUp',
+    category: 'products',
+    description: 'Sort control for the product listing',
   },
 
   // Category Sections
@@ -252,12 +252,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'LayoutGrid',
     category: 'categories',
     description: 'Display categories in a grid',
-    defaultConfig: {
-      title: 'Shop by Category',
-      columns: 3,
-      showDescription: true,
-      showProductCount: true,
-    },
   },
   category_banner: {
     type: 'category_banner',
@@ -265,10 +259,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'ImagePlus',
     category: 'categories',
     description: 'Featured category with banner',
-    defaultConfig: {
-      title: 'Category Name',
-      showProducts: true,
-    },
   },
 
   // Content Sections
@@ -278,11 +268,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Type',
     category: 'content',
     description: 'Rich text content block',
-    defaultConfig: {
-      content: '<p>Add your content here...</p>',
-      alignment: 'left',
-      maxWidth: 'medium',
-    },
   },
   image_text: {
     type: 'image_text',
@@ -290,12 +275,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Columns',
     category: 'content',
     description: 'Side-by-side image and text',
-    defaultConfig: {
-      title: 'About Us',
-      content: 'Tell your brand story...',
-      imageUrl: '',
-      imagePosition: 'left',
-    },
   },
   gallery: {
     type: 'gallery',
@@ -303,12 +282,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Images',
     category: 'content',
     description: 'Grid of images',
-    defaultConfig: {
-      title: 'Gallery',
-      images: [],
-      columns: 3,
-      aspectRatio: 'square',
-    },
   },
   testimonials: {
     type: 'testimonials',
@@ -316,11 +289,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Quote',
     category: 'content',
     description: 'Customer reviews and quotes',
-    defaultConfig: {
-      title: 'What Our Customers Say',
-      testimonials: [],
-      layout: 'carousel',
-    },
   },
   faq: {
     type: 'faq',
@@ -328,10 +296,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'HelpCircle',
     category: 'content',
     description: 'Frequently asked questions',
-    defaultConfig: {
-      title: 'Frequently Asked Questions',
-      faqs: [],
-    },
   },
 
   // Marketing Sections
@@ -341,10 +305,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Megaphone',
     category: 'marketing',
     description: 'Top banner for announcements',
-    defaultConfig: {
-      text: 'Free shipping on orders over $50!',
-      dismissible: true,
-    },
   },
   newsletter: {
     type: 'newsletter',
@@ -352,12 +312,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Mail',
     category: 'marketing',
     description: 'Email subscription form',
-    defaultConfig: {
-      title: 'Stay Updated',
-      subtitle: 'Subscribe to our newsletter for updates and offers',
-      buttonText: 'Subscribe',
-      successMessage: 'Thank you for subscribing!',
-    },
   },
   countdown: {
     type: 'countdown',
@@ -365,11 +319,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Clock',
     category: 'marketing',
     description: 'Sale or event countdown',
-    defaultConfig: {
-      title: 'Sale Ends In',
-      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      expiredMessage: 'Sale has ended',
-    },
   },
   promo_banner: {
     type: 'promo_banner',
@@ -377,12 +326,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'BadgePercent',
     category: 'marketing',
     description: 'Promotional banner',
-    defaultConfig: {
-      title: 'Special Offer',
-      subtitle: 'Limited time only',
-      buttonText: 'Shop Now',
-      badge: 'SALE',
-    },
   },
 
   // Social/Trust Sections
@@ -392,7 +335,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Instagram',
     category: 'marketing',
     description: 'Social media feed display',
-    defaultConfig: {},
   },
   trust_badges: {
     type: 'trust_badges',
@@ -400,14 +342,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'ShieldCheck',
     category: 'marketing',
     description: 'Trust and security badges',
-    defaultConfig: {
-      title: 'Why Shop With Us',
-      badges: [
-        { id: '1', icon: 'Truck', title: 'Free Shipping', description: 'On orders over $50' },
-        { id: '2', icon: 'RotateCcw', title: 'Easy Returns', description: '30-day return policy' },
-        { id: '3', icon: 'Lock', title: 'Secure Checkout', description: 'SSL encrypted' },
-      ],
-    },
   },
   brand_logos: {
     type: 'brand_logos',
@@ -415,11 +349,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Building',
     category: 'marketing',
     description: 'Partner or brand logos',
-    defaultConfig: {
-      title: 'Our Partners',
-      logos: [],
-      grayscale: true,
-    },
   },
 
   // Layout Elements
@@ -429,9 +358,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Code',
     category: 'layout',
     description: 'Custom HTML/CSS block',
-    defaultConfig: {
-      html: '<div>Custom content here</div>',
-    },
   },
   spacer: {
     type: 'spacer',
@@ -439,9 +365,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'ArrowUpDown',
     category: 'layout',
     description: 'Vertical spacing element',
-    defaultConfig: {
-      height: 'medium',
-    },
   },
   divider: {
     type: 'divider',
@@ -449,10 +372,6 @@ export const SECTION_DEFINITIONS: Record<SectionType, SectionDefinition> = {
     icon: 'Minus',
     category: 'layout',
     description: 'Horizontal line divider',
-    defaultConfig: {
-      style: 'solid',
-      width: 'container',
-    },
   },
 };
 
@@ -501,25 +420,3 @@ export const DEFAULT_THEME = {
     buttonRadius: '0.375rem',
   },
 };
-
-// ============================================================================
-// SPACER HEIGHTS
-// ============================================================================
-
-export const SPACER_HEIGHTS = {
-  small: '2rem',
-  medium: '4rem',
-  large: '6rem',
-  xlarge: '8rem',
-};
-
-// ============================================================================
-// HERO HEIGHTS
-// ============================================================================
-
-export const HERO_HEIGHTS = {
-  small: '40vh',
-  medium: '60vh',
-  large: '80vh',
-  full: '100vh',
-};
@@ -7,9 +7,10 @@
  * Contains: page title, preview mode toggles, zoom controls, publish button.
  * 
  * ARCHITECTURE:
- * - Left section: Navigation back + page info with publication status
+ * - Left section: Navigation back + page info with the live version
  * - Center section: Responsive preview mode switcher (desktop/tablet/mobile)
- * - Right section: Zoom controls, preview link, and publish action
+ * - Right section: Save status, undo/redo, zoom controls, live store link,
+ *   publish history and publish action (edits are drafts until published)
  * 
  * HOW TO EXTEND:
  * - Add new preview modes: Update previewMode type and add button in center section
@@ -38,9 +39,16 @@ import {
   ArrowLeft,
   Check,
   ExternalLink,
+  History,
+  Loader2,
+  Undo2,
+  Redo2,
+  AlertCircle,
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { EditorState, StorePage } from '../types';
+import type { EditorHistory } from '@/hooks/useEditorHistory';
+import type { SaveStatus } from '@/hooks/useAutosave';
+import { EditorState, StorePage, StoreVersion } from '../types';
 
 /**
  * Props for the EditorHeader component
@@ -49,7 +57,13 @@ import { EditorState, StorePage } from '../types';
  * @property activePage - Currently selected page (can be null if no page selected)
  * @property editorState - Current editor state (preview mode, zoom level, etc.)
  * @property setEditorState - Function to update editor state
- * @property onPublish - Callback when publish/update button is clicked
+ * @property history - Undo/redo history of the editor
+ * @property saveStatus - Combined autosave status of sections, theme and navigation
+ * @property onRetrySave - Callback to retry saving after a failed save
+ * @property publishedVersion - Version shoppers currently see (null if never published)
+ * @property publishing - True while a publish or restore is in progress
+ * @property onPublish - Callback when the publish button is clicked
+ * @property onOpenHistory - Callback when the publish history button is clicked
  */
 interface EditorHeaderProps {
   store: {
@@ -60,7 +74,13 @@ interface EditorHeaderProps {
   activePage: StorePage | null;
   editorState: EditorState;
   setEditorState: (state: EditorState) => void;
+  history: EditorHistory;
+  saveStatus: SaveStatus;
+  onRetrySave: () => void;
+  publishedVersion: StoreVersion | null;
+  publishing: boolean;
   onPublish: () => void;
+  onOpenHistory: () => void;
 }
 
 export function EditorHeader({
@@ -68,7 +88,13 @@ export function EditorHeader({
   activePage,
   editorState,
   setEditorState,
+  history,
+  saveStatus,
+  onRetrySave,
+  publishedVersion,
+  publishing,
   onPublish,
+  onOpenHistory,
 }: EditorHeaderProps) {
   /**
    * Handles zoom level changes
@@ -85,7 +111,7 @@ export function EditorHeader({
     <header className="h-14 bg-background border-b border-border flex items-center justify-between px-4">
       {/* ============================================================
        * LEFT SECTION: Back button and page info
-       * Shows store name, current page, and publication status
+       * Shows store name, current page, and the live version
        * ============================================================ */}
       <div className="flex items-center gap-4">
         {/* Back to dashboard settings */}
@@ -102,15 +128,15 @@ export function EditorHeader({
           <span className="text-muted-foreground">
             {activePage?.title || 'No page selected'}
           </span>
-          {/* Publication status badge */}
-          {activePage?.is_published ? (
+          {/* Live version badge - edits are drafts until published */}
+          {publishedVersion ? (
             <Badge variant="secondary" className="ml-2 bg-success/10 text-success border-success/20">
               <Check className="w-3 h-3 mr-1" />
-              Published
+              Version {publishedVersion.version_number} live
             </Badge>
           ) : (
             <Badge variant="outline" className="ml-2">
-              Draft
+              Not published
             </Badge>
           )}
         </div>
@@ -152,9 +178,56 @@ export function EditorHeader({
 
       {/* ============================================================
        * RIGHT SECTION: Zoom controls and actions
-       * Zoom in/out, preview link, publish/update button
+       * Save status, undo/redo, zoom in/out, live store link,
+       * publish history, publish button
        * ============================================================ */}
       <div className="flex items-center gap-2">
+        {/* Autosave status */}
+        {saveStatus === 'error' ? (
+          <Button variant="ghost" size="sm" className="gap-1.5 text-destructive" onClick={onRetrySave}>
+            <AlertCircle className="w-4 h-4" />
+            Not saved · Retry
+          </Button>
+        ) : (
+          <span className="flex items-center gap-1.5 text-sm text-muted-foreground px-2">
+            {saveStatus === 'saved' ? (
+              <>
+                <Check className="w-4 h-4" />
+                All changes saved
+              </>
+            ) : (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Saving…
+              </>
+            )}
+          </span>
+        )}
+
+        {/* Undo / redo (Ctrl+Z / Ctrl+Shift+Z) */}
+        <div className="flex items-center gap-1 border rounded-lg px-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={history.undo}
+            disabled={!history.canUndo}
+            title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={history.redo}
+            disabled={!history.canRedo}
+            title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+
         {/* Zoom controls: Zoom out / percentage display / Zoom in */}
         <div className="flex items-center gap-1 border rounded-lg px-1">
           <Button
@@ -178,7 +251,7 @@ export function EditorHeader({
           </Button>
         </div>
 
-        {/* Preview button - opens live store in new tab */}
+        {/* View live button - opens the published store in new tab */}
         <a
           href={`/store/${store.slug}`}
           target="_blank"
@@ -186,21 +259,20 @@ export function EditorHeader({
         >
           <Button variant="outline" className="gap-2">
             <Eye className="w-4 h-4" />
-            Preview
+            View live
             <ExternalLink className="w-3 h-3" />
           </Button>
         </a>
 
-        {/* Publish/Update button - changes label based on publication status */}
-        <Button onClick={onPublish} className="gap-2">
-          {activePage?.is_published ? (
-            <>
-              <Check className="w-4 h-4" />
-              Update
-            </>
-          ) : (
-            'Publish'
-          )}
+        {/* Publish history - every published version with rollback */}
+        <Button variant="outline" size="icon" onClick={onOpenHistory} title="Publish history">
+          <History className="w-4 h-4" />
+        </Button>
+
+        {/* Publish button - snapshots the drafts of every page as a new version */}
+        <Button onClick={onPublish} disabled={publishing} className="gap-2">
+          {publishing && <Loader2 className="w-4 h-4 animate-spin" />}
+          Publish
         </Button>
       </div>
     </header>
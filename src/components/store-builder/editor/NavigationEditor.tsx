@@ -0,0 +1,177 @@
+/**
+ * ============================================================================
+ * NAVIGATION EDITOR COMPONENT
+ * ============================================================================
+ *
+ * Edits the store's header and footer menus: link labels, where each link
+ * goes (a store page or a custom URL) and their order.
+ *
+ * Changes are saved automatically and can be undone like section and theme
+ * edits (see useStoreNavigation). Navigation is not versioned: saved changes
+ * show on the storefront right away.
+ *
+ * ============================================================================
+ */
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronUp, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { NavItem, NavLocation, StorePage } from '../types';
+
+interface NavigationEditorProps {
+  storeSlug: string;
+  navItems: NavItem[];
+  pages: StorePage[];
+  onAdd: (item: Partial<NavItem>) => void;
+  onUpdate: (itemId: string, updates: Partial<NavItem>) => void;
+  onDelete: (itemId: string) => void;
+  onReorder: (items: NavItem[]) => void;
+}
+
+const MENUS: { location: NavLocation; label: string }[] = [
+  { location: 'header', label: 'Header menu' },
+  { location: 'footer', label: 'Footer menu' },
+];
+
+const CUSTOM_URL = 'custom';
+
+export function NavigationEditor({
+  storeSlug,
+  navItems,
+  pages,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onReorder,
+}: NavigationEditorProps) {
+  const isInMenu = (item: NavItem, location: NavLocation) =>
+    item.location === location && !item.parent_id;
+
+  const handleMove = (item: NavItem, direction: -1 | 1) => {
+    const menu = navItems.filter(n => isInMenu(n, item.location));
+    const index = menu.findIndex(n => n.id === item.id);
+    const target = index + direction;
+    if (target < 0 || target >= menu.length) return;
+
+    const reordered = [...menu];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onReorder([...navItems.filter(n => !isInMenu(n, item.location)), ...reordered]);
+  };
+
+  const handleLinkChange = (item: NavItem, value: string) => {
+    if (value === CUSTOM_URL) {
+      onUpdate(item.id, { page_id: undefined, url: '' });
+      return;
+    }
+
+    const page = pages.find(p => p.id === value);
+    if (page) {
+      onUpdate(item.id, { page_id: page.id, url: `/store/${storeSlug}/page/${page.slug}` });
+    }
+  };
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4 space-y-6">
+        {MENUS.map(({ location, label }) => {
+          const menu = navItems.filter(n => isInMenu(n, location));
+
+          return (
+            <div key={location} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-foreground">{label}</h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1"
+                  onClick={() => onAdd({ location, label: 'New link', url: `/store/${storeSlug}` })}
+                >
+                  <Plus className="w-3 h-3" />
+                  Add link
+                </Button>
+              </div>
+
+              {menu.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No links yet</p>
+              ) : (
+                menu.map((item, index) => (
+                  <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={item.label}
+                        onChange={(e) => onUpdate(item.id, { label: e.target.value })}
+                        placeholder="Link label"
+                        className="h-8"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        disabled={index === 0}
+                        onClick={() => handleMove(item, -1)}
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        disabled={index === menu.length - 1}
+                        onClick={() => handleMove(item, 1)}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0 text-destructive"
+                        onClick={() => onDelete(item.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Links to</Label>
+                      <Select
+                        value={item.page_id || CUSTOM_URL}
+                        onValueChange={(value) => handleLinkChange(item, value)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {pages.map(page => (
+                            <SelectItem key={page.id} value={page.id}>{page.title}</SelectItem>
+                          ))}
+                          <SelectItem value={CUSTOM_URL}>Custom URL</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {!item.page_id && (
+                        <Input
+                          value={item.url || ''}
+                          onChange={(e) => onUpdate(item.id, { url: e.target.value })}
+                          placeholder="https://..."
+                          className="h-8"
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * ============================================================================
+ * PUBLISH DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Confirms publishing the store's drafts (sections of every page, theme and
+ * header/footer) as a new version, with an optional note shown in the
+ * publish history.
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface PublishDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  publishing: boolean;
+  /** Resolves to true when the store was published */
+  onPublish: (note: string) => Promise<boolean>;
+}
+
+export function PublishDialog({ open, onOpenChange, publishing, onPublish }: PublishDialogProps) {
+  const [note, setNote] = useState('');
+
+  const handlePublish = async () => {
+    const published = await onPublish(note.trim());
+    if (published) {
+      setNote('');
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Publish changes</DialogTitle>
+          <DialogDescription>
+            Your sections, theme and header/footer on every page go live for shoppers.
+            You can roll back to any earlier version from the publish history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="publish-note">Note (optional)</Label>
+          <Textarea
+            id="publish-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Dashain sale banner"
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={publishing}>
+            Cancel
+          </Button>
+          <Button onClick={handlePublish} disabled={publishing}>
+            {publishing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
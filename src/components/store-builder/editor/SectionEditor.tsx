@@ -11,10 +11,13 @@
  * - Real-time preview updates
  * - Array field management (slides, testimonials, FAQs, etc.)
  * - Image URL inputs with preview
+ * - Mobile tab: the same fields, saved as mobile_config overrides that the
+ *   storefront merges over config on small screens
  * 
  * ============================================================================
  */
 
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -29,15 +32,19 @@ import {
 } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
-  X, Image as ImageIcon, Link as LinkIcon, Type, Settings, 
+  X, Smartphone, RotateCcw, Image as ImageIcon, Link as LinkIcon, Type, Settings, 
   Plus, Trash2, Video, Layout, Megaphone, Mail, Clock, Quote,
-  ShieldCheck, Building, Code, ArrowUpDown, Minus, HelpCircle
+  ShieldCheck, Building, Code, ArrowUpDown, Minus, HelpCircle, Share2,
+  History, ThumbsUp, MessageSquare, SlidersHorizontal
 } from 'lucide-react';
-import { PageSection, SectionConfig, PageType } from '../types';
+import { PageSection, SectionConfig, PageType, SocialPost } from '../types';
 import { SECTION_DEFINITIONS } from '../constants';
 import { PositionToggle } from './PositionToggle';
 import { hasBuiltInContent } from '../utils/pageHelpers';
+import { useStoreCategories } from '@/hooks/useStoreBuilder';
+import { PRODUCT_SORT_OPTIONS } from '@/lib/productListing';
 
 interface SectionEditorProps {
   section: PageSection;
@@ -50,11 +57,25 @@ interface SectionEditorProps {
 export function SectionEditor({ section, onUpdate, onUpdateSection, onClose, pageType }: SectionEditorProps) {
   const definition = SECTION_DEFINITIONS[section.section_type];
   const config = section.config as Record<string, any>;
+  const [device, setDevice] = useState<'all' | 'mobile'>('all');
+
+  // Mobile overrides only store the keys changed on the Mobile tab
+  const mobileConfig = (section.mobile_config || {}) as Record<string, any>;
+  const mobileOverrides = Object.keys(mobileConfig);
 
   const updateField = (field: string, value: any) => {
     onUpdate({ ...config, [field]: value });
   };
 
+  const updateMobileField = (field: string, value: unknown) => {
+    onUpdateSection({ mobile_config: { ...mobileConfig, [field]: value } });
+  };
+
+  const resetMobileField = (field: string) => {
+    const { [field]: _removed, ...rest } = mobileConfig;
+    onUpdateSection({ mobile_config: Object.keys(rest).length > 0 ? rest : undefined });
+  };
+
   // Check if this page supports position toggle
   const showPositionToggle = pageType && hasBuiltInContent(pageType);
 
@@ -83,7 +104,47 @@ export function SectionEditor({ section, onUpdate, onUpdateSection, onClose, pag
             </>
           )}
           
-          {renderSectionFields(section.section_type, config, updateField)}
+          <Tabs value={device} onValueChange={(v) => setDevice(v as 'all' | 'mobile')}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="all">All devices</TabsTrigger>
+              <TabsTrigger value="mobile" className="gap-1">
+                <Smartphone className="w-3 h-3" />
+                Mobile
+                {mobileOverrides.length > 0 && ` (${mobileOverrides.length})`}
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {device === 'all' ? (
+            renderSectionFields(section.section_type, config, updateField, section.store_id)
+          ) : (
+            <>
+              <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">
+                  Changes here only apply on phones (screens narrower than 768px). Fields you
+                  don't change keep their All devices value.
+                </p>
+                {mobileOverrides.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {mobileOverrides.map((field) => (
+                      <Button
+                        key={field}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 gap-1 px-2 text-xs"
+                        title="Use the All devices value"
+                        onClick={() => resetMobileField(field)}
+                      >
+                        {formatLabel(field)}
+                        <RotateCcw className="w-3 h-3" />
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {renderSectionFields(section.section_type, { ...config, ...mobileConfig }, updateMobileField, section.store_id)}
+            </>
+          )}
         </div>
       </ScrollArea>
     </div>
@@ -97,7 +158,8 @@ export function SectionEditor({ section, onUpdate, onUpdateSection, onClose, pag
 function renderSectionFields(
   sectionType: string,
   config: Record<string, any>,
-  updateField: (field: string, value: any) => void
+  updateField: (field: string, value: any) => void,
+  storeId: string
 ) {
   switch (sectionType) {
     // Hero sections
@@ -110,19 +172,31 @@ function renderSectionFields(
     
     // Product sections
     case 'featured_products':
+      return <ProductGridFields config={config} updateField={updateField} />;
     case 'new_arrivals':
+      return <NewArrivalsFields config={config} updateField={updateField} />;
     case 'best_sellers':
-      return <ProductGridFields config={config} updateField={updateField} />;
+      return <BestSellersFields config={config} updateField={updateField} />;
     case 'product_grid':
       return <ProductGridFields config={config} updateField={updateField} showFilters />;
     case 'product_carousel':
       return <ProductCarouselFields config={config} updateField={updateField} />;
+    case 'recently_viewed':
+      return <RecentlyViewedFields config={config} updateField={updateField} />;
+    case 'recommended_products':
+      return <RecommendedProductsFields config={config} updateField={updateField} />;
+    case 'product_reviews':
+      return <ProductReviewsFields config={config} updateField={updateField} />;
+    case 'product_filters':
+      return <ProductFiltersFields config={config} updateField={updateField} />;
+    case 'product_sort':
+      return <ProductSortFields config={config} updateField={updateField} />;
     
     // Category sections
     case 'category_grid':
       return <CategoryGridFields config={config} updateField={updateField} />;
     case 'category_banner':
-      return <CategoryBannerFields config={config} updateField={updateField} />;
+      return <CategoryBannerFields config={config} updateField={updateField} storeId={storeId} />;
     
     // Content sections
     case 'text_block':
@@ -149,6 +223,8 @@ function renderSectionFields(
       return <TrustBadgesFields config={config} updateField={updateField} />;
     case 'brand_logos':
       return <BrandLogosFields config={config} updateField={updateField} />;
+    case 'social_feed':
+      return <SocialFeedFields config={config} updateField={updateField} />;
     
     // Layout sections
     case 'spacer':
@@ -329,7 +405,12 @@ function HeroVideoFields({ config, updateField }: FieldProps) {
 // PRODUCT SECTION FIELDS
 // ============================================================================
 
-function ProductGridFields({ config, updateField, showFilters = false }: FieldProps & { showFilters?: boolean }) {
+function ProductGridFields({
+  config,
+  updateField,
+  showFilters = false,
+  showAddToCart = true,
+}: FieldProps & { showFilters?: boolean; showAddToCart?: boolean }) {
   return (
     <>
       <FieldSection icon={Type} title="Content">
@@ -369,13 +450,66 @@ function ProductGridFields({ config, updateField, showFilters = false }: FieldPr
           </Field>
         </div>
         <ToggleField label="Show Prices" checked={config.showPrice !== false} onChange={(v) => updateField('showPrice', v)} />
-        <ToggleField label="Show Add to Cart" checked={config.showAddToCart !== false} onChange={(v) => updateField('showAddToCart', v)} />
+        {showAddToCart && <ToggleField label="Show Add to Cart" checked={config.showAddToCart !== false} onChange={(v) => updateField('showAddToCart', v)} />}
         {showFilters && <ToggleField label="Show Filters" checked={config.showFilters === true} onChange={(v) => updateField('showFilters', v)} />}
       </FieldSection>
     </>
   );
 }
 
+function NewArrivalsFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <ProductGridFields config={config} updateField={updateField} showAddToCart={false} />
+
+      <Separator />
+
+      <FieldSection icon={Megaphone} title="New Badge">
+        <ToggleField label='Show "New" Badge' checked={config.showNewBadge !== false} onChange={(v) => updateField('showNewBadge', v)} />
+        {config.showNewBadge !== false && (
+          <Field label="Mark as New For">
+            <Select value={String(config.newWithinDays || 30)} onValueChange={(v) => updateField('newWithinDays', parseInt(v))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+                <SelectItem value="30">30 days</SelectItem>
+                <SelectItem value="60">60 days</SelectItem>
+                <SelectItem value="90">90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </Field>
+        )}
+      </FieldSection>
+    </>
+  );
+}
+
+function BestSellersFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <ProductGridFields config={config} updateField={updateField} showAddToCart={false} />
+
+      <Separator />
+
+      <FieldSection icon={Clock} title="Ranking">
+        <Field label="Rank by Units Sold In">
+          <Select value={config.period || '30d'} onValueChange={(v) => updateField('period', v)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+        <p className="text-xs text-muted-foreground">Cancelled and refunded orders are not counted</p>
+      </FieldSection>
+    </>
+  );
+}
+
 function ProductCarouselFields({ config, updateField }: FieldProps) {
   return (
     <>
@@ -408,6 +542,154 @@ function ProductCarouselFields({ config, updateField }: FieldProps) {
   );
 }
 
+function RecentlyViewedFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <ProductGridFields config={config} updateField={updateField} showAddToCart={false} />
+
+      <Separator />
+
+      <FieldSection icon={History} title="Behavior">
+        <p className="text-xs text-muted-foreground">
+          Shows the products each shopper opened most recently, remembered in their browser.
+          The section stays hidden until they have viewed a product.
+        </p>
+      </FieldSection>
+    </>
+  );
+}
+
+function RecommendedProductsFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <ProductGridFields config={config} updateField={updateField} showAddToCart={false} />
+
+      <Separator />
+
+      <FieldSection icon={ThumbsUp} title="Behavior">
+        <p className="text-xs text-muted-foreground">
+          Recommends products from the categories a shopper has been viewing, then featured
+          and newest products. Products they already viewed are left out.
+        </p>
+      </FieldSection>
+    </>
+  );
+}
+
+function ProductReviewsFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <FieldSection icon={Type} title="Content">
+        <Field label="Title">
+          <Input value={config.title || ''} onChange={(e) => updateField('title', e.target.value)} placeholder="Customer Reviews" />
+        </Field>
+        <Field label="Subtitle">
+          <Input value={config.subtitle || ''} onChange={(e) => updateField('subtitle', e.target.value)} />
+        </Field>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={MessageSquare} title="Reviews">
+        <div className="grid grid-cols-2 gap-3">
+          <Field label="Reviews to Show">
+            <Select value={String(config.reviewCount || 6)} onValueChange={(v) => updateField('reviewCount', parseInt(v))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="3">3</SelectItem>
+                <SelectItem value="6">6</SelectItem>
+                <SelectItem value="9">9</SelectItem>
+                <SelectItem value="12">12</SelectItem>
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label="Minimum Rating">
+            <Select value={String(config.minRating || 1)} onValueChange={(v) => updateField('minRating', parseInt(v))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">All ratings</SelectItem>
+                <SelectItem value="3">3 stars & up</SelectItem>
+                <SelectItem value="4">4 stars & up</SelectItem>
+                <SelectItem value="5">5 stars only</SelectItem>
+              </SelectContent>
+            </Select>
+          </Field>
+        </div>
+        <ToggleField label="Show Review Photos" checked={config.showPhotos !== false} onChange={(v) => updateField('showPhotos', v)} />
+      </FieldSection>
+    </>
+  );
+}
+
+function ProductFiltersFields({ config, updateField }: FieldProps) {
+  return (
+    <>
+      <FieldSection icon={Type} title="Content">
+        <Field label="Title">
+          <Input value={config.title || ''} onChange={(e) => updateField('title', e.target.value)} placeholder="Filter" />
+        </Field>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={SlidersHorizontal} title="Filters">
+        <ToggleField label="Price Range" checked={config.showPriceRange !== false} onChange={(v) => updateField('showPriceRange', v)} />
+        <ToggleField label="In Stock Only" checked={config.showAvailability !== false} onChange={(v) => updateField('showAvailability', v)} />
+        <ToggleField label="On Sale Only" checked={config.showOnSale !== false} onChange={(v) => updateField('showOnSale', v)} />
+        <p className="text-xs text-muted-foreground">Filters the products listed on this page</p>
+      </FieldSection>
+    </>
+  );
+}
+
+function ProductSortFields({ config, updateField }: FieldProps) {
+  const options: string[] = config.options?.length
+    ? config.options
+    : PRODUCT_SORT_OPTIONS.map((option) => option.value);
+
+  const toggleOption = (value: string, enabled: boolean) => {
+    const next = PRODUCT_SORT_OPTIONS
+      .map((option) => option.value)
+      .filter((option) => (option === value ? enabled : options.includes(option)));
+    // Keep at least one sort order to pick from
+    if (next.length > 0) updateField('options', next);
+  };
+
+  return (
+    <>
+      <FieldSection icon={Type} title="Content">
+        <Field label="Label">
+          <Input value={config.label || ''} onChange={(e) => updateField('label', e.target.value)} placeholder="Sort by" />
+        </Field>
+        <Field label="Alignment">
+          <Select value={config.alignment || 'right'} onValueChange={(v) => updateField('alignment', v)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Left</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+              <SelectItem value="right">Right</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={ArrowUpDown} title="Sort Options">
+        {PRODUCT_SORT_OPTIONS.map((option) => (
+          <ToggleField
+            key={option.value}
+            label={option.label}
+            checked={options.includes(option.value)}
+            onChange={(v) => toggleOption(option.value, v)}
+          />
+        ))}
+        <p className="text-xs text-muted-foreground">Sorts the products listed on this page</p>
+      </FieldSection>
+    </>
+  );
+}
+
 // ============================================================================
 // CATEGORY SECTION FIELDS
 // ============================================================================
@@ -444,15 +726,27 @@ function CategoryGridFields({ config, updateField }: FieldProps) {
   );
 }
 
-function CategoryBannerFields({ config, updateField }: FieldProps) {
+function CategoryBannerFields({ config, updateField, storeId }: FieldProps & { storeId: string }) {
+  const { categories, loading } = useStoreCategories(storeId);
+
   return (
     <>
       <FieldSection icon={Type} title="Content">
+        <Field label="Category">
+          <Select value={config.categoryId || ''} onValueChange={(v) => updateField('categoryId', v)} disabled={loading}>
+            <SelectTrigger><SelectValue placeholder={loading ? 'Loading...' : 'Choose a category'} /></SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
         <Field label="Title">
-          <Input value={config.title || ''} onChange={(e) => updateField('title', e.target.value)} />
+          <Input value={config.title || ''} onChange={(e) => updateField('title', e.target.value)} placeholder="Defaults to the category name" />
         </Field>
         <Field label="Subtitle">
-          <Input value={config.subtitle || ''} onChange={(e) => updateField('subtitle', e.target.value)} />
+          <Input value={config.subtitle || ''} onChange={(e) => updateField('subtitle', e.target.value)} placeholder="Defaults to the category description" />
         </Field>
       </FieldSection>
 
@@ -460,7 +754,7 @@ function CategoryBannerFields({ config, updateField }: FieldProps) {
 
       <FieldSection icon={ImageIcon} title="Background">
         <Field label="Image URL">
-          <Input value={config.backgroundImage || ''} onChange={(e) => updateField('backgroundImage', e.target.value)} placeholder="https://..." />
+          <Input value={config.backgroundImage || ''} onChange={(e) => updateField('backgroundImage', e.target.value)} placeholder="Defaults to the category image" />
         </Field>
       </FieldSection>
 
@@ -968,6 +1262,92 @@ function BrandLogosFields({ config, updateField }: FieldProps) {
   );
 }
 
+function SocialFeedFields({ config, updateField }: FieldProps) {
+  const posts: SocialPost[] = config.posts || [];
+
+  const addPost = () => {
+    updateField('posts', [...posts, { id: Date.now().toString(), imageUrl: '', caption: '', link: '' }]);
+  };
+
+  const updatePost = (index: number, key: keyof SocialPost, value: string) => {
+    const newItems = [...posts];
+    newItems[index] = { ...newItems[index], [key]: value };
+    updateField('posts', newItems);
+  };
+
+  const removePost = (index: number) => {
+    updateField('posts', posts.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      <FieldSection icon={Type} title="Content">
+        <Field label="Title">
+          <Input value={config.title || ''} onChange={(e) => updateField('title', e.target.value)} placeholder="Follow Us" />
+        </Field>
+        <Field label="Subtitle">
+          <Input value={config.subtitle || ''} onChange={(e) => updateField('subtitle', e.target.value)} />
+        </Field>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={Share2} title="Profile">
+        <Field label="Platform">
+          <Select value={config.platform || 'instagram'} onValueChange={(v) => updateField('platform', v)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="instagram">Instagram</SelectItem>
+              <SelectItem value="facebook">Facebook</SelectItem>
+              <SelectItem value="tiktok">TikTok</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field label="Handle">
+          <Input value={config.handle || ''} onChange={(e) => updateField('handle', e.target.value)} placeholder="@yourstore" />
+        </Field>
+        <Field label="Profile URL">
+          <Input value={config.profileUrl || ''} onChange={(e) => updateField('profileUrl', e.target.value)} placeholder="https://instagram.com/yourstore" />
+        </Field>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={ImageIcon} title="Posts">
+        {posts.map((post, i) => (
+          <div key={post.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-sm">Post {i + 1}</span>
+              <Button variant="ghost" size="icon" onClick={() => removePost(i)}><Trash2 className="w-4 h-4" /></Button>
+            </div>
+            <Input value={post.imageUrl || ''} onChange={(e) => updatePost(i, 'imageUrl', e.target.value)} placeholder="Image URL" />
+            <Textarea value={post.caption || ''} onChange={(e) => updatePost(i, 'caption', e.target.value)} placeholder="Caption" rows={2} />
+            <Input value={post.link || ''} onChange={(e) => updatePost(i, 'link', e.target.value)} placeholder="Link to post" />
+          </div>
+        ))}
+        <Button variant="outline" onClick={addPost} className="w-full"><Plus className="w-4 h-4 mr-2" /> Add Post</Button>
+      </FieldSection>
+
+      <Separator />
+
+      <FieldSection icon={Layout} title="Layout">
+        <Field label="Columns">
+          <Select value={String(config.columns || 4)} onValueChange={(v) => updateField('columns', parseInt(v))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="2">2</SelectItem>
+              <SelectItem value="3">3</SelectItem>
+              <SelectItem value="4">4</SelectItem>
+              <SelectItem value="6">6</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+        <ToggleField label="Show Captions" checked={config.showCaptions !== false} onChange={(v) => updateField('showCaptions', v)} />
+      </FieldSection>
+    </>
+  );
+}
+
 // ============================================================================
 // LAYOUT SECTION FIELDS
 // ============================================================================
@@ -1027,6 +1407,7 @@ function CustomHtmlFields({ config, updateField }: FieldProps) {
         <Field label="HTML Content">
           <Textarea value={config.html || ''} onChange={(e) => updateField('html', e.target.value)} rows={8} placeholder="<div>Your HTML...</div>" className="font-mono text-sm" />
         </Field>
+        <p className="text-xs text-muted-foreground">Scripts, embeds, forms and event handlers are removed</p>
       </FieldSection>
 
       <Separator />
@@ -1035,6 +1416,7 @@ function CustomHtmlFields({ config, updateField }: FieldProps) {
         <Field label="Custom CSS">
           <Textarea value={config.css || ''} onChange={(e) => updateField('css', e.target.value)} rows={4} placeholder=".my-class { ... }" className="font-mono text-sm" />
         </Field>
+        <p className="text-xs text-muted-foreground">Only applies inside this section; use :root for the section itself</p>
       </FieldSection>
     </>
   );
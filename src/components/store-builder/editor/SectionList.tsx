@@ -49,6 +49,11 @@ import { PageSection } from '../types';
 import { SECTION_DEFINITIONS } from '../constants';
 import { cn } from '@/lib/utils';
 
+// Sections can also be selected from the preview, so bring the selected one into view
+const scrollIntoView = (element: HTMLDivElement | null) => {
+  element?.scrollIntoView({ block: 'nearest' });
+};
+
 /**
  * Props for the SectionList component
  * 
@@ -162,6 +167,7 @@ export function SectionList({
               onDragOver={(e) => handleDragOver(e, index)}
               onDragEnd={handleDragEnd}
               onClick={() => onSelectSection(section.id)}
+              ref={selectedSectionId === section.id ? scrollIntoView : undefined}
               className={cn(
                 'flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors',
                 'border border-transparent hover:border-border',
@@ -18,7 +18,8 @@
  * 2. Add the section definition in SECTION_DEFINITIONS (constants.ts)
  * 3. If using a new icon, add it to iconMap below
  * 4. Add the field renderer in SectionEditor.tsx
- * 5. Add the preview renderer in PreviewFrame.tsx
+ * 5. Register the component, config schema and default config in the
+ *    section registry (src/components/storefront/sections/registry.tsx)
  * 
  * ============================================================================
  */
@@ -40,6 +41,11 @@ import {
   Grid3X3,
   Sparkles,
   TrendingUp,
+  History,
+  ThumbsUp,
+  MessageSquare,
+  SlidersHorizontal,
+  ArrowDownUp,
   LayoutGrid,
   ImagePlus,
   Type,
@@ -89,6 +95,11 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   ChevronLeftRight: Columns,
   Sparkles,
   TrendingUp,
+  History,
+  ThumbsUp,
+  MessageSquare,
+  SlidersHorizontal,
+  ArrowDownUp,
   LayoutGrid,
   ImagePlus,
   Type,
@@ -8,8 +8,10 @@
  * 
  * ARCHITECTURE:
  * - Colors: HSL values for primary, secondary, accent, background, foreground
- * - Typography: Heading and body font selection from AVAILABLE_FONTS
- * - Layout: Border radius and section padding values
+ * - Typography: Heading and body font selection from AVAILABLE_FONTS, base size
+ * - Layout: Border/button radius, container width and section padding values
+ * - Custom CSS: Saved on blur; sanitized and scoped to the storefront when
+ *   rendered (see src/lib/storefrontTheme.ts)
  * 
  * COLOR FORMAT:
  * Colors use HSL format without the hsl() wrapper for CSS variable compatibility
@@ -23,12 +25,14 @@
  * ============================================================================
  */
 
+import { useState, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Palette, Type, Layout } from 'lucide-react';
+import { Palette, Type, Layout, Code } from 'lucide-react';
 import { StoreTheme, ThemeColors } from '../types';
 import { AVAILABLE_FONTS } from '../constants';
 
@@ -43,7 +47,33 @@ interface ThemeEditorProps {
   onUpdate: (updates: Partial<StoreTheme>) => void;
 }
 
+/**
+ * Radius options shared by the border and button radius selectors
+ */
+const radiusOptions = [
+  { value: '0', label: 'None (Square)' },
+  { value: '0.25rem', label: 'Small' },
+  { value: '0.5rem', label: 'Medium' },
+  { value: '0.75rem', label: 'Large' },
+  { value: '1rem', label: 'Extra Large' },
+  { value: '9999px', label: 'Pill' },
+];
+
 export function ThemeEditor({ theme, onUpdate }: ThemeEditorProps) {
+  // Custom CSS is saved when the field loses focus, not on every keystroke
+  const [customCss, setCustomCss] = useState(theme.custom_css || '');
+
+  // Follow outside changes such as undo/redo
+  useEffect(() => {
+    setCustomCss(theme.custom_css || '');
+  }, [theme.custom_css]);
+
+  const saveCustomCss = () => {
+    if (customCss !== (theme.custom_css || '')) {
+      onUpdate({ custom_css: customCss });
+    }
+  };
+
   /**
    * Update a single color in the theme
    * Merges with existing colors object
@@ -132,6 +162,24 @@ export function ThemeEditor({ theme, onUpdate }: ThemeEditorProps) {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Base text size */}
+            <div>
+              <Label className="text-xs">Base Font Size</Label>
+              <Select
+                value={theme.typography.baseFontSize}
+                onValueChange={(v) => onUpdate({ typography: { ...theme.typography, baseFontSize: v } })}
+              >
+                <SelectTrigger><SelectValue placeholder="Select size" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="14px">Small (14px)</SelectItem>
+                  <SelectItem value="15px">Compact (15px)</SelectItem>
+                  <SelectItem value="16px">Normal (16px)</SelectItem>
+                  <SelectItem value="17px">Large (17px)</SelectItem>
+                  <SelectItem value="18px">Extra Large (18px)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </div>
 
@@ -155,12 +203,42 @@ export function ThemeEditor({ theme, onUpdate }: ThemeEditorProps) {
               >
                 <SelectTrigger><SelectValue placeholder="Select radius" /></SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="0">None (Square)</SelectItem>
-                  <SelectItem value="0.25rem">Small</SelectItem>
-                  <SelectItem value="0.5rem">Medium</SelectItem>
-                  <SelectItem value="0.75rem">Large</SelectItem>
-                  <SelectItem value="1rem">Extra Large</SelectItem>
-                  <SelectItem value="9999px">Pill</SelectItem>
+                  {radiusOptions.map(o => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Border radius for buttons only */}
+            <div>
+              <Label className="text-xs">Button Radius</Label>
+              <Select
+                value={theme.layout.buttonRadius}
+                onValueChange={(v) => onUpdate({ layout: { ...theme.layout, buttonRadius: v } })}
+              >
+                <SelectTrigger><SelectValue placeholder="Select radius" /></SelectTrigger>
+                <SelectContent>
+                  {radiusOptions.map(o => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Maximum content width */}
+            <div>
+              <Label className="text-xs">Container Width</Label>
+              <Select
+                value={theme.layout.containerMaxWidth}
+                onValueChange={(v) => onUpdate({ layout: { ...theme.layout, containerMaxWidth: v } })}
+              >
+                <SelectTrigger><SelectValue placeholder="Select width" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1024px">Narrow</SelectItem>
+                  <SelectItem value="1280px">Normal (Default)</SelectItem>
+                  <SelectItem value="1440px">Wide</SelectItem>
+                  <SelectItem value="100%">Full Width</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -184,6 +262,31 @@ export function ThemeEditor({ theme, onUpdate }: ThemeEditorProps) {
             </div>
           </div>
         </div>
+
+        <Separator />
+
+        {/* ============================================================
+         * CUSTOM CSS SECTION
+         * Extra CSS rules, scoped to the storefront
+         * ============================================================ */}
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Code className="w-4 h-4" /> Custom CSS
+          </div>
+          <div className="space-y-2">
+            <Textarea
+              value={customCss}
+              onChange={(e) => setCustomCss(e.target.value)}
+              onBlur={saveCustomCss}
+              placeholder=".hero h1 { letter-spacing: 0.05em; }"
+              rows={8}
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Rules only apply to your storefront. Imports, scripts and non-https URLs are removed.
+            </p>
+          </div>
+        </div>
       </div>
     </ScrollArea>
   );
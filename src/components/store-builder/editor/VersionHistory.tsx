@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * VERSION HISTORY COMPONENT
+ * ============================================================================
+ *
+ * Lists every published version of the store: who published it, when, and
+ * the note they left. Any earlier version can be restored in one click;
+ * restoring replaces the drafts with that version and publishes it again.
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { StoreVersion } from '../types';
+
+interface VersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: StoreVersion[];
+  publishedVersionId: string | null;
+  publishing: boolean;
+  onRestore: (versionId: string) => void;
+}
+
+export function VersionHistory({
+  open,
+  onOpenChange,
+  versions,
+  publishedVersionId,
+  publishing,
+  onRestore,
+}: VersionHistoryProps) {
+  const { user } = useAuth();
+  const [restoreTarget, setRestoreTarget] = useState<StoreVersion | null>(null);
+
+  const getPublisher = (version: StoreVersion) => {
+    if (version.published_by && version.published_by === user?.id) return 'You';
+    return version.published_by_name || 'Staff';
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Publish history</SheetTitle>
+            <SheetDescription>
+              Every version shoppers have seen. Restore one to make it live again.
+            </SheetDescription>
+          </SheetHeader>
+
+          <ScrollArea className="flex-1 -mx-6 px-6 mt-4">
+            {versions.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Nothing has been published yet</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {versions.map((version) => {
+                  const isLive = version.id === publishedVersionId;
+
+                  return (
+                    <div key={version.id} className="rounded-lg border p-3 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">Version {version.version_number}</span>
+                          {isLive && (
+                            <Badge variant="secondary" className="bg-success/10 text-success border-success/20">
+                              Live
+                            </Badge>
+                          )}
+                        </div>
+                        {!isLive && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 gap-1"
+                            disabled={publishing}
+                            onClick={() => setRestoreTarget(version)}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore
+                          </Button>
+                        )}
+                      </div>
+                      {version.note && (
+                        <p className="text-sm text-foreground">{version.note}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {getPublisher(version)} · {new Date(version.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreTarget?.version_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your current drafts are replaced with this version and it is published right away.
+              Unpublished changes will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (restoreTarget) onRestore(restoreTarget.id);
+                setRestoreTarget(null);
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
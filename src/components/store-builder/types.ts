@@ -15,6 +15,8 @@
  * ============================================================================
  */
 
+import type { ProductSort } from '@/lib/productListing';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -56,6 +58,9 @@ export type SectionType =
   | 'hero_banner' | 'hero_slider' | 'hero_video'
   // Product Sections
   | 'featured_products' | 'product_grid' | 'product_carousel' | 'new_arrivals' | 'best_sellers'
+  | 'recently_viewed' | 'recommended_products' | 'product_reviews'
+  // Product listing controls (product and category pages)
+  | 'product_filters' | 'product_sort'
   // Category Sections
   | 'category_grid' | 'category_banner'
   // Content Sections
@@ -167,6 +172,7 @@ export interface HeroSliderConfig {
   }>;
   autoplay?: boolean;
   interval?: number;
+  height?: 'small' | 'medium' | 'large' | 'full';
 }
 
 export interface HeroVideoConfig {
@@ -175,6 +181,8 @@ export interface HeroVideoConfig {
   subtitle?: string;
   buttonText?: string;
   buttonLink?: string;
+  backgroundOverlay?: number; // 0-100 opacity
+  autoplay?: boolean;
   muted?: boolean;
   loop?: boolean;
 }
@@ -190,13 +198,40 @@ export interface FeaturedProductsConfig {
 
 export interface ProductGridConfig {
   title?: string;
+  subtitle?: string;
   categoryId?: string;
   productIds?: string[];
   columns?: 2 | 3 | 4 | 5;
   rows?: number;
+  productCount?: number; // Overrides columns x rows
+  sortBy?: 'created_at' | 'price_asc' | 'price_desc' | 'name';
+  showPrice?: boolean;
+  showAddToCart?: boolean;
   showFilters?: boolean;
 }
 
+export interface NewArrivalsConfig {
+  title?: string;
+  subtitle?: string;
+  productCount?: number;
+  columns?: 2 | 3 | 4 | 5;
+  showPrice?: boolean;
+  showNewBadge?: boolean;
+  newWithinDays?: number; // Products added within this many days get the badge
+}
+
+// Window best sellers are ranked over
+export type SalesPeriod = '7d' | '30d' | '90d' | 'all';
+
+export interface BestSellersConfig {
+  title?: string;
+  subtitle?: string;
+  productCount?: number;
+  columns?: 2 | 3 | 4 | 5;
+  showPrice?: boolean;
+  period?: SalesPeriod;
+}
+
 export interface ProductCarouselConfig {
   title?: string;
   subtitle?: string;
@@ -204,6 +239,43 @@ export interface ProductCarouselConfig {
   autoplay?: boolean;
 }
 
+export interface RecentlyViewedConfig {
+  title?: string;
+  subtitle?: string;
+  productCount?: number;
+  columns?: 2 | 3 | 4 | 5;
+  showPrice?: boolean;
+}
+
+export interface RecommendedProductsConfig {
+  title?: string;
+  subtitle?: string;
+  productCount?: number;
+  columns?: 2 | 3 | 4 | 5;
+  showPrice?: boolean;
+}
+
+export interface ProductReviewsConfig {
+  title?: string;
+  subtitle?: string;
+  reviewCount?: number;
+  minRating?: number; // 1-5, hides reviews rated lower
+  showPhotos?: boolean;
+}
+
+export interface ProductFiltersConfig {
+  title?: string;
+  showPriceRange?: boolean;
+  showAvailability?: boolean;
+  showOnSale?: boolean;
+}
+
+export interface ProductSortConfig {
+  label?: string;
+  options?: ProductSort[]; // Sort orders shoppers can pick, in display order
+  alignment?: 'left' | 'center' | 'right';
+}
+
 export interface CategoryGridConfig {
   title?: string;
   subtitle?: string;
@@ -222,6 +294,7 @@ export interface CategoryBannerConfig {
 }
 
 export interface TextBlockConfig {
+  title?: string;
   content: string; // Rich text / HTML
   alignment?: 'left' | 'center' | 'right';
   maxWidth?: 'small' | 'medium' | 'large' | 'full';
@@ -238,6 +311,7 @@ export interface ImageTextConfig {
 
 export interface GalleryConfig {
   title?: string;
+  subtitle?: string;
   images: Array<{
     id: string;
     url: string;
@@ -250,6 +324,7 @@ export interface GalleryConfig {
 
 export interface TestimonialsConfig {
   title?: string;
+  subtitle?: string;
   testimonials: Array<{
     id: string;
     quote: string;
@@ -274,6 +349,7 @@ export interface FaqConfig {
 export interface AnnouncementBarConfig {
   text: string;
   link?: string;
+  linkText?: string;
   backgroundColor?: string;
   textColor?: string;
   dismissible?: boolean;
@@ -289,6 +365,7 @@ export interface NewsletterConfig {
 
 export interface CountdownConfig {
   title?: string;
+  subtitle?: string;
   endDate: string;
   backgroundImage?: string;
   buttonText?: string;
@@ -313,6 +390,7 @@ export interface TrustBadgesConfig {
     title: string;
     description?: string;
   }>;
+  columns?: 2 | 3 | 4 | 6;
 }
 
 export interface BrandLogosConfig {
@@ -336,6 +414,24 @@ export interface DividerConfig {
   width?: 'full' | 'container' | 'narrow';
 }
 
+export interface SocialPost {
+  id: string;
+  imageUrl: string;
+  caption?: string;
+  link?: string;
+}
+
+export interface SocialFeedConfig {
+  title?: string;
+  subtitle?: string;
+  platform?: 'instagram' | 'facebook' | 'tiktok';
+  handle?: string;
+  profileUrl?: string;
+  posts: SocialPost[];
+  columns?: 2 | 3 | 4 | 6;
+  showCaptions?: boolean;
+}
+
 export interface CustomHtmlConfig {
   html: string;
   css?: string;
@@ -348,7 +444,14 @@ export type SectionConfig =
   | HeroVideoConfig
   | FeaturedProductsConfig
   | ProductGridConfig
+  | NewArrivalsConfig
+  | BestSellersConfig
   | ProductCarouselConfig
+  | RecentlyViewedConfig
+  | RecommendedProductsConfig
+  | ProductReviewsConfig
+  | ProductFiltersConfig
+  | ProductSortConfig
   | CategoryGridConfig
   | CategoryBannerConfig
   | TextBlockConfig
@@ -362,6 +465,7 @@ export type SectionConfig =
   | PromoBannerConfig
   | TrustBadgesConfig
   | BrandLogosConfig
+  | SocialFeedConfig
   | SpacerConfig
   | DividerConfig
   | CustomHtmlConfig
@@ -465,6 +569,23 @@ export interface StoreHeaderFooter {
   updated_at: string;
 }
 
+// ============================================================================
+// PUBLISHED VERSION TYPES
+// ============================================================================
+// Publishing snapshots the draft sections, theme and header/footer into a
+// store_versions row; the storefront renders the store's published version.
+
+export interface StoreVersion {
+  id: string;
+  store_id: string;
+  version_number: number;
+  note: string | null;
+  restored_from_version_id: string | null;
+  published_by: string | null;
+  published_by_name: string | null;
+  created_at: string;
+}
+
 // ============================================================================
 // EDITOR STATE TYPES
 // ============================================================================
@@ -483,5 +604,4 @@ export interface SectionDefinition {
   icon: string;
   category: 'hero' | 'products' | 'categories' | 'content' | 'marketing' | 'layout';
   description: string;
-  defaultConfig: SectionConfig;
 }
@@ -10,7 +10,16 @@
  */
 
 import { PageType, SectionType } from '../types';
-import { PAGE_SECTION_PERMISSIONS, SECTION_DEFINITIONS } from '../constants';
+import { PAGE_SECTION_PERMISSIONS, PAGE_RESTRICTED_SECTION_TYPES, SECTION_DEFINITIONS } from '../constants';
+
+/**
+ * Whether a page type-restricted section (e.g. product filters) may go on
+ * this page type; unrestricted types always may
+ */
+function isAllowedOnPageType(sectionType: SectionType, pageType: PageType): boolean {
+  const pageTypes = PAGE_RESTRICTED_SECTION_TYPES[sectionType];
+  return !pageTypes || pageTypes.includes(pageType);
+}
 
 /**
  * Check if a section type is allowed for a given page type
@@ -27,7 +36,7 @@ export function isSectionTypeAllowed(
   }
   
   if (permissions.allowedSectionTypes === 'all') {
-    return true;
+    return isAllowedOnPageType(sectionType, pageType);
   }
   
   return permissions.allowedSectionTypes.includes(sectionType);
@@ -46,9 +55,10 @@ export function getAllowedSectionTypes(pageType: PageType): SectionType[] {
   }
   
   if (permissions.allowedSectionTypes === 'all') {
-    // Return all section types except header/footer
+    // Return all section types except header/footer and other pages' sections
     return (Object.keys(SECTION_DEFINITIONS) as SectionType[])
-      .filter(type => type !== 'header' && type !== 'footer');
+      .filter(type => type !== 'header' && type !== 'footer')
+      .filter(type => isAllowedOnPageType(type, pageType));
   }
   
   return permissions.allowedSectionTypes;
@@ -0,0 +1,101 @@
+/**
+ * ============================================================================
+ * DISCOUNT CODE INPUT
+ * ============================================================================
+ *
+ * Promo code field shown in the cart and checkout order summaries.
+ * State comes from the useDiscountCode hook so both pages share the code.
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Loader2, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { AppliedDiscount } from '@/hooks/useDiscountCode';
+
+interface DiscountCodeInputProps {
+  discountCode: string | null;
+  discount: AppliedDiscount | null;
+  error: string | null;
+  validating: boolean;
+  onApply: (code: string) => Promise<boolean>;
+  onRemove: () => void;
+}
+
+export function DiscountCodeInput({
+  discountCode,
+  discount,
+  error,
+  validating,
+  onApply,
+  onRemove,
+}: DiscountCodeInputProps) {
+  const [code, setCode] = useState('');
+
+  const handleApply = async () => {
+    const applied = await onApply(code);
+    if (applied) setCode('');
+  };
+
+  if (discountCode) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-2">
+          <span className="flex items-center gap-2 text-sm font-mono font-semibold">
+            <Tag className="w-4 h-4 text-primary" />
+            {discountCode}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={onRemove}
+            aria-label="Remove discount code"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {discount && (
+          <p className="text-xs text-success">
+            {discount.discount_type === 'percentage'
+              ? `${discount.discount_value}% off applied`
+              : `रु ${Number(discount.discount_value).toLocaleString()} off applied`}
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Discount code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          className="font-mono"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleApply}
+          disabled={!code.trim() || validating}
+        >
+          {validating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Apply
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * ORDER STATUS BADGE
+ * ============================================================================
+ *
+ * Shopper-facing label for an order's status, used in the account's order
+ * history and on the order tracking page.
+ *
+ * ============================================================================
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orderStatus';
+
+const STATUS_CLASSES: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'bg-info text-info-foreground',
+  processing: 'bg-info text-info-foreground',
+  shipped: 'bg-warning text-warning-foreground',
+  delivered: 'bg-success text-success-foreground',
+};
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  if (status === 'cancelled' || status === 'refunded') {
+    return <Badge variant="destructive">{ORDER_STATUS_LABELS[status]}</Badge>;
+  }
+
+  return (
+    <Badge variant={STATUS_CLASSES[status] ? 'default' : 'secondary'} className={STATUS_CLASSES[status]}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
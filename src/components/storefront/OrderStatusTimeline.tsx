@@ -0,0 +1,85 @@
+/**
+ * ============================================================================
+ * ORDER STATUS TIMELINE
+ * ============================================================================
+ *
+ * The fulfilment steps from "Order Placed" to "Delivered", with every step
+ * up to the order's current status checked off and dated from the order's
+ * status history. Cancelled and refunded orders show a single notice
+ * instead.
+ *
+ * ============================================================================
+ */
+
+import { Check, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orderStatus';
+
+const FULFILMENT_STEPS: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered'];
+
+export interface OrderStatusHistoryEntry {
+  status: OrderStatus;
+  created_at: string;
+}
+
+interface OrderStatusTimelineProps {
+  status: OrderStatus;
+  placedAt: string;
+  history?: OrderStatusHistoryEntry[];
+}
+
+export function OrderStatusTimeline({ status, placedAt, history = [] }: OrderStatusTimelineProps) {
+  if (status === 'cancelled' || status === 'refunded') {
+    return (
+      <div className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/5 p-4">
+        <XCircle className="w-5 h-5 text-destructive shrink-0" />
+        <p className="text-sm">
+          This order was {status === 'cancelled' ? 'cancelled' : 'refunded'}.
+        </p>
+      </div>
+    );
+  }
+
+  const currentIndex = FULFILMENT_STEPS.indexOf(status);
+
+  const reachedAt = (step: OrderStatus) => {
+    const entry = [...history].reverse().find((item) => item.status === step);
+    return entry?.created_at ?? (step === 'pending' ? placedAt : null);
+  };
+
+  return (
+    <ol className="space-y-0">
+      {FULFILMENT_STEPS.map((step, index) => {
+        const done = index <= currentIndex;
+        const date = done ? reachedAt(step) : null;
+        const isLast = index === FULFILMENT_STEPS.length - 1;
+
+        return (
+          <li key={step} className="flex gap-3">
+            <div className="flex flex-col items-center">
+              <div
+                className={cn(
+                  'w-7 h-7 rounded-full flex items-center justify-center border-2',
+                  done ? 'bg-primary border-primary text-primary-foreground' : 'border-muted bg-background'
+                )}
+              >
+                {done && <Check className="w-4 h-4" />}
+              </div>
+              {!isLast && (
+                <div className={cn('w-0.5 flex-1 min-h-6', index < currentIndex ? 'bg-primary' : 'bg-muted')} />
+              )}
+            </div>
+            <div className={cn('pb-6', isLast && 'pb-0')}>
+              <p className={cn('font-medium leading-7', !done && 'text-muted-foreground')}>
+                {ORDER_STATUS_LABELS[step]}
+              </p>
+              {date && (
+                <p className="text-sm text-muted-foreground">{new Date(date).toLocaleString()}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
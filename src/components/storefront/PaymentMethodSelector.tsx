@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * PAYMENT METHOD SELECTOR
+ * ============================================================================
+ *
+ * Radio list of the payment methods offered by the store (see
+ * usePaymentMethods). Used on the checkout page.
+ *
+ * ============================================================================
+ */
+
+import { Banknote, CreditCard, FlaskConical, Wallet } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { cn } from '@/lib/utils';
+import type { PaymentMethodId, PaymentMethodInfo } from '@/lib/payments';
+
+const METHOD_ICONS: Record<PaymentMethodId, React.ElementType> = {
+  cod: Banknote,
+  esewa: Wallet,
+  khalti: Wallet,
+  stripe: CreditCard,
+  mock: FlaskConical,
+};
+
+interface PaymentMethodSelectorProps {
+  methods: PaymentMethodInfo[];
+  value: PaymentMethodId | null;
+  onChange: (method: PaymentMethodId) => void;
+}
+
+export function PaymentMethodSelector({ methods, value, onChange }: PaymentMethodSelectorProps) {
+  return (
+    <RadioGroup
+      value={value ?? undefined}
+      onValueChange={(v) => onChange(v as PaymentMethodId)}
+      className="gap-3"
+    >
+      {methods.map((method) => {
+        const Icon = METHOD_ICONS[method.id];
+        return (
+          <Label
+            key={method.id}
+            htmlFor={`payment-${method.id}`}
+            className={cn(
+              'flex items-center gap-3 rounded-lg border p-4 cursor-pointer font-normal',
+              value === method.id && 'border-primary bg-primary/5'
+            )}
+          >
+            <RadioGroupItem value={method.id} id={`payment-${method.id}`} />
+            <Icon className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <p className="font-medium">{method.name}</p>
+              <p className="text-xs text-muted-foreground">{method.description}</p>
+            </div>
+          </Label>
+        );
+      })}
+    </RadioGroup>
+  );
+}
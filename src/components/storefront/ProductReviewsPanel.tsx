@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * PRODUCT REVIEWS PANEL
+ * ============================================================================
+ *
+ * Reviews block at the bottom of the product page: rating summary, the
+ * review form and the approved reviews, five at a time. ProductDetail owns
+ * the useProductReviews state so the same data feeds the structured data.
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { ReviewCard } from '@/components/storefront/ReviewCard';
+import { ReviewForm } from '@/components/storefront/ReviewForm';
+import { StarRating } from '@/components/storefront/StarRating';
+import type { ProductReview, RatingSummary } from '@/hooks/useProductReviews';
+
+interface ProductReviewsPanelProps {
+  storeId: string;
+  productId: string;
+  reviews: ProductReview[];
+  summary: RatingSummary | null;
+  loading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+}
+
+export function ProductReviewsPanel({
+  storeId,
+  productId,
+  reviews,
+  summary,
+  loading,
+  hasMore,
+  onLoadMore,
+}: ProductReviewsPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  return (
+    <section id="reviews" className="space-y-6 scroll-mt-24">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold">Customer Reviews</h2>
+          {summary?.count ? (
+            <div className="flex items-center gap-3">
+              <StarRating rating={summary.average} starClassName="w-5 h-5" />
+              <span className="font-semibold">{summary.average.toFixed(1)} out of 5</span>
+              <span className="text-muted-foreground">
+                {summary.count} review{summary.count === 1 ? '' : 's'}
+              </span>
+            </div>
+          ) : (
+            !loading && <p className="text-muted-foreground">No reviews yet. Be the first to review this product.</p>
+          )}
+        </div>
+        {!showForm && !submitted && (
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            Write a Review
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <ReviewForm
+          storeId={storeId}
+          productId={productId}
+          onSubmitted={() => {
+            setShowForm(false);
+            setSubmitted(true);
+          }}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      {submitted && (
+        <p className="rounded-xl border bg-muted/50 p-4 text-sm text-muted-foreground">
+          Thanks for your review! It will appear here once the store approves it.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="space-y-6">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="animate-pulse space-y-2">
+              <div className="h-4 bg-muted rounded w-1/4" />
+              <div className="h-4 bg-muted rounded w-1/3" />
+              <div className="h-12 bg-muted rounded w-full" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        reviews.length > 0 && (
+          <div className="space-y-6">
+            {reviews.map((review, index) => (
+              <div key={review.id} className="space-y-6">
+                {index > 0 && <Separator />}
+                <ReviewCard review={review} />
+              </div>
+            ))}
+            {hasMore && (
+              <Button variant="ghost" className="w-full" onClick={onLoadMore}>
+                Show More Reviews
+              </Button>
+            )}
+          </div>
+        )
+      )}
+    </section>
+  );
+}
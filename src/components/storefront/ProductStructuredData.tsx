@@ -0,0 +1,79 @@
+/**
+ * ============================================================================
+ * PRODUCT STRUCTURED DATA
+ * ============================================================================
+ *
+ * schema.org Product JSON-LD for the product page, so search engines can
+ * show price, availability and star ratings (rich snippets). The rating and
+ * reviews are only included once the product has approved reviews.
+ *
+ * ============================================================================
+ */
+
+import { STOREFRONT_CURRENCY } from '@/lib/storefrontEvents';
+import type { ProductReview, RatingSummary } from '@/hooks/useProductReviews';
+
+interface ProductStructuredDataProps {
+  name: string;
+  description: string | null;
+  images: string[];
+  sku: string | null;
+  price: number;
+  inStock: boolean;
+  storeName: string;
+  summary: RatingSummary | null;
+  reviews: ProductReview[];
+}
+
+export function ProductStructuredData({
+  name,
+  description,
+  images,
+  sku,
+  price,
+  inStock,
+  storeName,
+  summary,
+  reviews,
+}: ProductStructuredDataProps) {
+  const data: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name,
+    image: images,
+    offers: {
+      '@type': 'Offer',
+      url: window.location.href,
+      price: price.toFixed(2),
+      priceCurrency: STOREFRONT_CURRENCY,
+      availability: inStock ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock',
+      seller: { '@type': 'Organization', name: storeName },
+    },
+  };
+
+  if (description) data.description = description;
+  if (sku) data.sku = sku;
+
+  if (summary?.count) {
+    data.aggregateRating = {
+      '@type': 'AggregateRating',
+      ratingValue: summary.average,
+      reviewCount: summary.count,
+      bestRating: 5,
+      worstRating: 1,
+    };
+    data.review = reviews.map((review) => ({
+      '@type': 'Review',
+      author: { '@type': 'Person', name: review.author_name },
+      datePublished: review.created_at.slice(0, 10),
+      ...(review.title ? { name: review.title } : {}),
+      reviewBody: review.body,
+      reviewRating: { '@type': 'Rating', ratingValue: review.rating, bestRating: 5, worstRating: 1 },
+    }));
+  }
+
+  // Escape "<" so review text can't close the script tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: json }} />;
+}
@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * REVIEW CARD
+ * ============================================================================
+ *
+ * One approved review: rating, title, text, photos, verified-purchase badge
+ * and the store's reply. Used on the product page and by the
+ * product_reviews section.
+ *
+ * ============================================================================
+ */
+
+import { Link } from 'react-router-dom';
+import { BadgeCheck, Store as StoreIcon } from 'lucide-react';
+import { StarRating } from '@/components/storefront/StarRating';
+import { getReviewPhotoUrl, type ProductReview } from '@/hooks/useProductReviews';
+
+interface ReviewCardProps {
+  review: ProductReview;
+  showPhotos?: boolean;
+  /** Links to the reviewed product (store-wide review lists) */
+  productLink?: string;
+}
+
+export function ReviewCard({ review, showPhotos = true, productLink }: ReviewCardProps) {
+  return (
+    <article className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <StarRating rating={review.rating} />
+        {review.title && <h4 className="font-semibold text-foreground">{review.title}</h4>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+        <span className="font-medium text-foreground">{review.author_name}</span>
+        {review.is_verified_purchase && (
+          <span className="flex items-center gap-1 text-success">
+            <BadgeCheck className="w-4 h-4" />
+            Verified purchase
+          </span>
+        )}
+        <time dateTime={review.created_at}>{new Date(review.created_at).toLocaleDateString()}</time>
+      </div>
+
+      {productLink && (
+        <Link to={productLink} className="text-sm text-primary hover:underline">
+          {review.product_name}
+        </Link>
+      )}
+
+      <p className="text-foreground/90 leading-relaxed whitespace-pre-line">{review.body}</p>
+
+      {showPhotos && review.photos.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {review.photos.map((path) => {
+            const url = getReviewPhotoUrl(path);
+            return (
+              <a key={path} href={url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={url}
+                  alt={`Photo from ${review.author_name}`}
+                  className="w-20 h-20 rounded-lg object-cover bg-muted"
+                  loading="lazy"
+                />
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      {review.reply && (
+        <div className="ml-4 pl-4 border-l-2 text-sm space-y-1">
+          <p className="flex items-center gap-1.5 font-medium text-foreground">
+            <StoreIcon className="w-4 h-4" />
+            Response from the store
+          </p>
+          <p className="text-muted-foreground whitespace-pre-line">{review.reply}</p>
+        </div>
+      )}
+    </article>
+  );
+}
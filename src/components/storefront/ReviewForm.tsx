@@ -0,0 +1,239 @@
+/**
+ * ============================================================================
+ * REVIEW FORM
+ * ============================================================================
+ *
+ * Lets a shopper rate and review a product from the product page. Photos
+ * are uploaded as soon as they are picked; the review itself is sent through
+ * submit_product_review, which validates it and marks it as a verified
+ * purchase when the order number matches an order for this product placed
+ * with the same email. Reviews are shown once the store approves them.
+ *
+ * ============================================================================
+ */
+
+import { useRef, useState } from 'react';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRatingInput } from '@/components/storefront/StarRating';
+import { supabase } from '@/integrations/supabase/client';
+import { MAX_REVIEW_PHOTOS, getReviewPhotoUrl, uploadReviewPhoto } from '@/hooks/useProductReviews';
+import { toast } from 'sonner';
+
+interface ReviewFormProps {
+  storeId: string;
+  productId: string;
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+const EMPTY_FORM = {
+  title: '',
+  body: '',
+  authorName: '',
+  authorEmail: '',
+  orderNumber: '',
+};
+
+export function ReviewForm({ storeId, productId, onSubmitted, onCancel }: ReviewFormProps) {
+  const [rating, setRating] = useState(0);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handlePhotoSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).slice(0, MAX_REVIEW_PHOTOS - photos.length);
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const uploaded: string[] = [];
+
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        toast.error(`${file.name} is not an image file`);
+        continue;
+      }
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error(`${file.name} is too large. Max size is 5MB`);
+        continue;
+      }
+
+      try {
+        uploaded.push(await uploadReviewPhoto(storeId, file));
+      } catch (error) {
+        console.error('Error uploading review photo:', error);
+        toast.error(`Failed to upload ${file.name}`);
+      }
+    }
+
+    setPhotos((current) => [...current, ...uploaded]);
+    setUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rating === 0) {
+      toast.error('Please choose a rating');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('submit_product_review', {
+        p_product_id: productId,
+        p_rating: rating,
+        p_title: form.title || undefined,
+        p_body: form.body,
+        p_author_name: form.authorName,
+        p_author_email: form.authorEmail,
+        p_photos: photos,
+        p_order_number: form.orderNumber || undefined,
+      });
+
+      if (error) throw error;
+
+      const result = data as { is_verified_purchase: boolean };
+      toast.success(
+        result.is_verified_purchase
+          ? 'Thanks! Your verified review will appear once the store approves it'
+          : 'Thanks! Your review will appear once the store approves it'
+      );
+      onSubmitted();
+    } catch (error: any) {
+      console.error('Error submitting review:', error);
+      toast.error(error.message || 'Failed to submit your review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border bg-card p-5">
+      <div className="space-y-2">
+        <Label>Your rating *</Label>
+        <StarRatingInput value={rating} onChange={setRating} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-title">Title</Label>
+        <Input
+          id="review-title"
+          value={form.title}
+          onChange={(e) => updateForm('title', e.target.value)}
+          maxLength={150}
+          placeholder="Sum it up in a few words"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-body">Review *</Label>
+        <Textarea
+          id="review-body"
+          value={form.body}
+          onChange={(e) => updateForm('body', e.target.value)}
+          maxLength={5000}
+          rows={4}
+          required
+          placeholder="What did you like or dislike?"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Photos</Label>
+        <div className="flex flex-wrap gap-2">
+          {photos.map((path) => (
+            <div key={path} className="relative w-20 h-20">
+              <img src={getReviewPhotoUrl(path)} alt="" className="w-full h-full rounded-lg object-cover bg-muted" />
+              <button
+                type="button"
+                onClick={() => setPhotos((current) => current.filter((p) => p !== path))}
+                className="absolute -top-2 -right-2 rounded-full bg-background border p-0.5"
+                aria-label="Remove photo"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {photos.length < MAX_REVIEW_PHOTOS && (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="w-20 h-20 rounded-lg border-2 border-dashed flex items-center justify-center text-muted-foreground hover:border-primary hover:text-primary transition-colors"
+              aria-label="Add photos"
+            >
+              {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/gif"
+          multiple
+          className="hidden"
+          onChange={handlePhotoSelect}
+        />
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="review-name">Name *</Label>
+          <Input
+            id="review-name"
+            value={form.authorName}
+            onChange={(e) => updateForm('authorName', e.target.value)}
+            maxLength={100}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="review-email">Email *</Label>
+          <Input
+            id="review-email"
+            type="email"
+            value={form.authorEmail}
+            onChange={(e) => updateForm('authorEmail', e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-order">Order number</Label>
+        <Input
+          id="review-order"
+          value={form.orderNumber}
+          onChange={(e) => updateForm('orderNumber', e.target.value)}
+          placeholder="Optional"
+        />
+        <p className="text-xs text-muted-foreground">
+          Bought this here? Add your order number to mark your review as a verified purchase.
+          Your email is never shown.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={submitting || uploading}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Submit Review
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * STAR RATING
+ * ============================================================================
+ *
+ * Five-star display for review ratings and averages (partial stars for
+ * averages like 4.3), plus an input for the review form.
+ *
+ * ============================================================================
+ */
+
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RatingSummary } from '@/hooks/useProductReviews';
+
+const STARS = [1, 2, 3, 4, 5];
+
+interface StarRatingProps {
+  rating: number;
+  className?: string;
+  starClassName?: string;
+}
+
+export function StarRating({ rating, className, starClassName = 'w-4 h-4' }: StarRatingProps) {
+  return (
+    <div className={cn('flex items-center gap-0.5', className)} aria-label={`${rating} out of 5 stars`} role="img">
+      {STARS.map((star) => {
+        const fill = Math.min(Math.max(rating - star + 1, 0), 1);
+
+        return (
+          <span key={star} className="relative inline-block">
+            <Star className={cn('text-muted-foreground/30', starClassName)} />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <Star className={cn('fill-warning text-warning', starClassName)} />
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+export function StarRatingInput({ value, onChange }: StarRatingInputProps) {
+  return (
+    <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          onClick={() => onChange(star)}
+          className="p-0.5"
+        >
+          <Star
+            className={cn(
+              'w-7 h-7 transition-colors',
+              star <= value ? 'fill-warning text-warning' : 'text-muted-foreground/40 hover:text-warning'
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Compact "★★★★☆ (12)" line for product cards; nothing without reviews
+ */
+export function RatingSummaryLine({ summary, className }: { summary?: RatingSummary; className?: string }) {
+  if (!summary?.count) return null;
+
+  return (
+    <div className={cn('flex items-center gap-1.5 text-xs text-muted-foreground', className)}>
+      <StarRating rating={summary.average} starClassName="w-3.5 h-3.5" />
+      <span>({summary.count})</span>
+    </div>
+  );
+}
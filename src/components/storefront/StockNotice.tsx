@@ -0,0 +1,44 @@
+/**
+ * ============================================================================
+ * STOCK NOTICE
+ * ============================================================================
+ *
+ * Small inline message for low or insufficient stock, used on the product
+ * page, cart and checkout. Renders nothing when stock is unlimited or
+ * comfortably above the requested quantity.
+ *
+ * ============================================================================
+ */
+
+import { cn } from '@/lib/utils';
+import { LOW_STOCK_THRESHOLD } from '@/hooks/useCartStock';
+
+interface StockNoticeProps {
+  /** Available units (null = unlimited, undefined = still loading) */
+  available: number | null | undefined;
+  /** Quantity the shopper wants */
+  quantity?: number;
+  className?: string;
+}
+
+export function StockNotice({ available, quantity = 1, className }: StockNoticeProps) {
+  if (available === null || available === undefined) return null;
+
+  if (available <= 0) {
+    return <p className={cn('text-sm font-medium text-destructive', className)}>Out of stock</p>;
+  }
+
+  if (quantity > available) {
+    return (
+      <p className={cn('text-sm font-medium text-destructive', className)}>
+        Only {available} left - please reduce the quantity
+      </p>
+    );
+  }
+
+  if (available <= LOW_STOCK_THRESHOLD) {
+    return <p className={cn('text-sm text-warning', className)}>Only {available} left</p>;
+  }
+
+  return null;
+}
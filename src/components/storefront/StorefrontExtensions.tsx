@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * STOREFRONT EXTENSIONS RUNTIME
+ * ============================================================================
+ *
+ * Mounted once by StorefrontLayout for every storefront route. Loads the
+ * store's enabled extensions, injects their scripts (Google Analytics,
+ * Facebook Pixel), forwards storefront events to them and renders widgets
+ * (WhatsApp Chat).
+ *
+ * What each extension does here comes from its manifest's storefront hooks
+ * (see src/components/extensions/manifests.ts); the settings it gets are
+ * the ones its manifest lists in storefront.publicConfigKeys.
+ *
+ * ============================================================================
+ */
+
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useStorefrontExtensions } from '@/hooks/useStorefrontExtensions';
+import { emitStorefrontEvent, onStorefrontEvent } from '@/lib/storefrontEvents';
+import { getExtension } from '@/components/extensions/registry';
+
+interface StorefrontExtensionsProps {
+  storeSlug: string | undefined;
+}
+
+export function StorefrontExtensions({ storeSlug }: StorefrontExtensionsProps) {
+  const location = useLocation();
+  const { extensions } = useStorefrontExtensions(storeSlug);
+
+  // Load scripts, then deliver events (including any queued before loading)
+  useEffect(() => {
+    if (!extensions) return;
+
+    const active = Object.entries(extensions).flatMap(([id, config]) => {
+      const integration = getExtension(id)?.storefront?.integration;
+      return integration && integration.load(config) ? [{ integration, config }] : [];
+    });
+
+    return onStorefrontEvent((event) => {
+      active.forEach(({ integration, config }) => integration.track(event, config));
+    });
+  }, [extensions]);
+
+  useEffect(() => {
+    emitStorefrontEvent({ name: 'page_view', path: location.pathname + location.search });
+  }, [location.pathname, location.search]);
+
+  if (!extensions) return null;
+
+  return (
+    <>
+      {Object.entries(extensions).map(([id, config]) => {
+        const Widget = getExtension(id)?.storefront?.widget;
+        return Widget ? <Widget key={id} config={config} /> : null;
+      })}
+    </>
+  );
+}
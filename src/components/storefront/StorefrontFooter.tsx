@@ -4,7 +4,7 @@
  * ============================================================================
  * 
  * Customer-facing footer with navigation links, social icons, and copyright.
- * Receives configuration from store_header_footer table.
+ * Receives the published header/footer configuration (store_versions).
  * 
  * ============================================================================
  */
@@ -138,7 +138,7 @@ export function StorefrontFooter({ store, footerConfig, socialLinks, navItems }:
           color: footerConfig.textColor,
         }}
       >
-        <div className="max-w-7xl mx-auto px-4 sm:px-6">
+        <div className="max-w-storefront mx-auto px-4 sm:px-6">
           <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
             <p className="text-sm text-muted-foreground">{copyrightText}</p>
             {footerConfig.showSocialLinks && renderSocialLinks()}
@@ -158,7 +158,7 @@ export function StorefrontFooter({ store, footerConfig, socialLinks, navItems }:
           color: footerConfig.textColor,
         }}
       >
-        <div className="max-w-7xl mx-auto px-4 sm:px-6">
+        <div className="max-w-storefront mx-auto px-4 sm:px-6">
           <div className="flex flex-col md:flex-row items-center justify-between gap-6">
             {/* Logo/Name */}
             <Link to={`/store/${store.slug}`} className="text-lg font-bold">
@@ -202,7 +202,7 @@ export function StorefrontFooter({ store, footerConfig, socialLinks, navItems }:
         color: footerConfig.textColor,
       }}
     >
-      <div className="max-w-7xl mx-auto px-4 sm:px-6">
+      <div className="max-w-storefront mx-auto px-4 sm:px-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
           {/* Brand Column */}
           <div className="space-y-4">
@@ -4,7 +4,7 @@
  * ============================================================================
  * 
  * Customer-facing header with navigation, logo, cart, and mobile menu.
- * Receives configuration from store_header_footer table.
+ * Receives the published header/footer configuration (store_versions).
  * 
  * ============================================================================
  */
@@ -215,7 +215,7 @@ export function StorefrontHeader({ store, headerConfig, navItems }: StorefrontHe
         color: headerConfig.textColor,
       }}
     >
-      <div className="max-w-7xl mx-auto px-4 sm:px-6">
+      <div className="max-w-storefront mx-auto px-4 sm:px-6">
         <div className={cn("flex items-center h-16", justifyClass)}>
           {/* Mobile Menu Button */}
           {renderMobileNav()}
@@ -242,10 +242,12 @@ export function StorefrontHeader({ store, headerConfig, navItems }: StorefrontHe
             )}
             
             {headerConfig.showAccount && (
-              <Button variant="ghost" size="icon">
-                <User className="h-5 w-5" />
-                <span className="sr-only">Account</span>
-              </Button>
+              <Link to={`/store/${store.slug}/account`}>
+                <Button variant="ghost" size="icon">
+                  <User className="h-5 w-5" />
+                  <span className="sr-only">Account</span>
+                </Button>
+              </Link>
             )}
             
             {headerConfig.showCart && (
@@ -0,0 +1,33 @@
+/**
+ * ============================================================================
+ * WHATSAPP CHAT BUTTON
+ * ============================================================================
+ *
+ * Floating chat button of the WhatsApp Chat extension. Rendered on every
+ * storefront page by the extension runtime (StorefrontExtensions).
+ *
+ * ============================================================================
+ */
+
+import { MessageCircle } from 'lucide-react';
+import type { ExtensionStorefrontWidgetProps } from '@/components/extensions/types';
+
+export function WhatsAppChatButton({ config }: ExtensionStorefrontWidgetProps) {
+  const digits = (config.phone_number || '').replace(/\D/g, '');
+  if (!digits) return null;
+
+  const message = config.default_message;
+  const url = `https://wa.me/${digits}${message ? `?text=${encodeURIComponent(message)}` : ''}`;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      aria-label="Chat with us on WhatsApp"
+      className="fixed bottom-5 right-5 z-50 flex h-14 w-14 items-center justify-center rounded-full bg-[#25D366] text-white shadow-lg transition-transform hover:scale-105"
+    >
+      <MessageCircle className="h-7 w-7" />
+    </a>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * ACCOUNT PAGE SHELL
+ * ============================================================================
+ *
+ * Header (back to store, store logo and name) and centered content column
+ * shared by the customer account pages.
+ *
+ * ============================================================================
+ */
+
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Store as StoreIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { StorefrontStore } from '@/hooks/useStorefrontStore';
+
+interface AccountPageShellProps {
+  store: StorefrontStore;
+  /** Narrow column for the sign-in forms */
+  narrow?: boolean;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+export function AccountPageShell({ store, narrow = false, actions, children }: AccountPageShellProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Link to={`/store/${store.slug}`}>
+                <Button variant="ghost" size="icon">
+                  <ArrowLeft className="w-5 h-5" />
+                </Button>
+              </Link>
+              <Link to={`/store/${store.slug}`} className="flex items-center gap-2">
+                {store.logo_url ? (
+                  <img src={store.logo_url} alt={store.name} className="w-8 h-8 rounded-lg object-cover" />
+                ) : (
+                  <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <StoreIcon className="w-4 h-4 text-primary" />
+                  </div>
+                )}
+                <span className="font-semibold">{store.name}</span>
+              </Link>
+            </div>
+            {actions}
+          </div>
+        </div>
+      </header>
+
+      <div className={cn('mx-auto px-4 py-8', narrow ? 'max-w-md' : 'max-w-4xl')}>
+        {children}
+      </div>
+    </div>
+  );
+}
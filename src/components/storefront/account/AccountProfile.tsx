@@ -0,0 +1,161 @@
+/**
+ * ============================================================================
+ * ACCOUNT PROFILE
+ * ============================================================================
+ *
+ * Name and phone for this store's account, its store credit balance, plus
+ * the login password (shared by every store the shopper has an account with).
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomerAccount } from '@/hooks/useCustomerAccount';
+import { toast } from 'sonner';
+
+interface AccountProfileProps {
+  storeId: string;
+  account: CustomerAccount;
+  onChange: () => void;
+}
+
+export function AccountProfile({ storeId, account, onChange }: AccountProfileProps) {
+  const { updatePassword } = useAuth();
+  const [fullName, setFullName] = useState(account.full_name || '');
+  const [phone, setPhone] = useState(account.phone || '');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingProfile(true);
+
+    try {
+      const { error } = await supabase.rpc('update_customer_profile', {
+        p_store_id: storeId,
+        p_full_name: fullName,
+        p_phone: phone,
+      });
+
+      if (error) throw error;
+
+      toast.success('Profile updated');
+      onChange();
+    } catch (error: any) {
+      console.error('Error updating profile:', error);
+      toast.error(error.message || 'Failed to update profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+
+    setSavingPassword(true);
+    const { error } = await updatePassword(newPassword);
+    setSavingPassword(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    setNewPassword('');
+    toast.success('Password changed');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Profile</CardTitle>
+          <CardDescription>Used to prefill your details at checkout.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveProfile} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-email">Email</Label>
+              <Input id="profile-email" value={account.email} disabled />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Full Name *</Label>
+                <Input
+                  id="profile-name"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-phone">Phone Number</Label>
+                <Input
+                  id="profile-phone"
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="+977 98XXXXXXXX"
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={savingProfile}>
+              {savingProfile && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {Number(account.store_credit) > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Store Credit</CardTitle>
+            <CardDescription>Use it towards your next order at checkout.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">रु {Number(account.store_credit).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Password</CardTitle>
+          <CardDescription>Your login works in every store on this platform.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-password">New Password</Label>
+              <Input
+                id="profile-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={savingPassword || !newPassword}>
+              {savingPassword && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Change Password
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
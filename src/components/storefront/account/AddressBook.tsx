@@ -0,0 +1,267 @@
+/**
+ * ============================================================================
+ * ADDRESS BOOK
+ * ============================================================================
+ *
+ * The shopper's saved addresses in this store. The default address
+ * prefills checkout; the database keeps exactly one default per account.
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomerAddress } from '@/hooks/useCustomerAccount';
+import { toast } from 'sonner';
+
+interface AddressBookProps {
+  storeId: string;
+  customerId: string;
+  addresses: CustomerAddress[];
+  onChange: () => void;
+}
+
+const EMPTY_ADDRESS = {
+  label: '',
+  full_name: '',
+  phone: '',
+  address: '',
+  city: '',
+  is_default: false,
+};
+
+export function AddressBook({ storeId, customerId, addresses, onChange }: AddressBookProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_ADDRESS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(EMPTY_ADDRESS);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (address: CustomerAddress) => {
+    setEditingId(address.id);
+    setForm({
+      label: address.label || '',
+      full_name: address.full_name,
+      phone: address.phone,
+      address: address.address,
+      city: address.city,
+      is_default: address.is_default,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.full_name.trim() || !form.phone.trim() || !form.address.trim() || !form.city.trim()) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      label: form.label.trim() || null,
+      full_name: form.full_name.trim(),
+      phone: form.phone.trim(),
+      address: form.address.trim(),
+      city: form.city.trim(),
+      is_default: form.is_default,
+    };
+
+    try {
+      const { error } = editingId
+        ? await supabase.from('customer_addresses').update(values).eq('id', editingId)
+        : await supabase.from('customer_addresses').insert({ ...values, store_id: storeId, customer_id: customerId });
+
+      if (error) throw error;
+
+      toast.success(editingId ? 'Address updated' : 'Address saved');
+      setDialogOpen(false);
+      onChange();
+    } catch (error: any) {
+      console.error('Error saving address:', error);
+      toast.error(error.message || 'Failed to save address');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (address: CustomerAddress) => {
+    if (!confirm('Delete this address?')) return;
+
+    const { error } = await supabase.from('customer_addresses').delete().eq('id', address.id);
+
+    if (error) {
+      console.error('Error deleting address:', error);
+      toast.error('Failed to delete address');
+      return;
+    }
+
+    toast.success('Address deleted');
+    onChange();
+  };
+
+  const handleMakeDefault = async (address: CustomerAddress) => {
+    const { error } = await supabase
+      .from('customer_addresses')
+      .update({ is_default: true })
+      .eq('id', address.id);
+
+    if (error) {
+      console.error('Error updating address:', error);
+      toast.error('Failed to update address');
+      return;
+    }
+
+    onChange();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openNew}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Address
+        </Button>
+      </div>
+
+      {addresses.length === 0 ? (
+        <div className="text-center py-12">
+          <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            Save an address to check out faster next time.
+          </p>
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {addresses.map((address) => (
+            <Card key={address.id}>
+              <CardContent className="p-5 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{address.label || address.full_name}</span>
+                  {address.is_default && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {address.label && <p>{address.full_name}</p>}
+                  <p>{address.address}</p>
+                  <p>{address.city}</p>
+                  <p>{address.phone}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openEdit(address)}>
+                    <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                    Edit
+                  </Button>
+                  {!address.is_default && (
+                    <Button size="sm" variant="ghost" onClick={() => handleMakeDefault(address)}>
+                      Make Default
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(address)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Address' : 'Add Address'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="address-label">Label</Label>
+              <Input
+                id="address-label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                maxLength={50}
+                placeholder="Home, Office..."
+              />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="address-name">Full Name *</Label>
+                <Input
+                  id="address-name"
+                  value={form.full_name}
+                  onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="address-phone">Phone Number *</Label>
+                <Input
+                  id="address-phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  placeholder="+977 98XXXXXXXX"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="address-street">Address *</Label>
+              <Input
+                id="address-street"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                placeholder="Street address"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="address-city">City *</Label>
+              <Input
+                id="address-city"
+                value={form.city}
+                onChange={(e) => setForm({ ...form, city: e.target.value })}
+                placeholder="Kathmandu"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="address-default"
+                checked={form.is_default}
+                onCheckedChange={(checked) => setForm({ ...form, is_default: checked === true })}
+              />
+              <Label htmlFor="address-default" className="font-normal">Use as my default address</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Address'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * ============================================================================
+ * ORDER HISTORY
+ * ============================================================================
+ *
+ * The shopper's orders in this store, newest first, with their items,
+ * returns and refunds. Includes guest orders placed with the account's email
+ * before signing up. Delivered orders can have items returned.
+ *
+ * ============================================================================
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { OrderStatusBadge } from '@/components/storefront/OrderStatusBadge';
+import { ReturnRequestDialog } from '@/components/storefront/account/ReturnRequestDialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomerOrder, CustomerOrderItem, CustomerOrderReturn } from '@/hooks/useCustomerAccount';
+import { RETURN_STATUS_LABELS } from '@/lib/returns';
+
+interface OrderHistoryProps {
+  storeId: string;
+  storeSlug: string;
+}
+
+export function OrderHistory({ storeId, storeSlug }: OrderHistoryProps) {
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrders = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_customer_orders', { p_store_id: storeId });
+
+    if (error) console.error('Error fetching orders:', error);
+    setOrders(data || []);
+    setLoading(false);
+  }, [storeId]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <div key={i} className="animate-pulse rounded-xl border p-5 space-y-3">
+            <div className="h-4 bg-muted rounded w-1/3" />
+            <div className="h-4 bg-muted rounded w-1/2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground mb-4">You haven't placed any orders yet.</p>
+        <Link to={`/store/${storeSlug}`}>
+          <Button>Start Shopping</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {orders.map((order) => {
+        const items = (order.items as unknown as CustomerOrderItem[]) || [];
+        const returns = (order.returns as unknown as CustomerOrderReturn[]) || [];
+
+        const returnedQuantities: Record<string, number> = {};
+        returns
+          .filter((orderReturn) => orderReturn.status !== 'rejected')
+          .forEach((orderReturn) => {
+            orderReturn.items.forEach((line) => {
+              returnedQuantities[line.order_item_id] = (returnedQuantities[line.order_item_id] || 0) + line.quantity;
+            });
+          });
+
+        return (
+          <Card key={order.id}>
+            <CardContent className="p-5 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="font-mono font-semibold">{order.order_number}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(order.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <OrderStatusBadge status={order.status} />
+              </div>
+
+              <div className="space-y-1">
+                {items.map((item, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {item.product_name} {item.variant_name && `(${item.variant_name})`} × {item.quantity}
+                    </span>
+                    <span>रु {Number(item.total_price).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>रु {Number(order.total).toLocaleString()}</span>
+              </div>
+              {Number(order.refunded_amount) > 0 && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Refunded</span>
+                  <span>रु {Number(order.refunded_amount).toLocaleString()}</span>
+                </div>
+              )}
+
+              {returns.length > 0 && (
+                <div className="space-y-2">
+                  {returns.map((orderReturn) => (
+                    <div key={orderReturn.id} className="rounded-lg bg-muted/50 p-3 text-sm space-y-1">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="font-medium">
+                          Return requested {new Date(orderReturn.created_at).toLocaleDateString()}
+                        </span>
+                        <Badge variant={orderReturn.status === 'rejected' ? 'outline' : 'secondary'}>
+                          {RETURN_STATUS_LABELS[orderReturn.status]}
+                        </Badge>
+                      </div>
+                      {orderReturn.items.map((line) => (
+                        <p key={line.order_item_id} className="text-muted-foreground">
+                          {line.product_name} {line.variant_name && `(${line.variant_name})`} × {line.quantity}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {order.status === 'delivered' && (
+                <div className="flex justify-end">
+                  <ReturnRequestDialog
+                    orderId={order.id}
+                    items={items}
+                    returnedQuantities={returnedQuantities}
+                    onRequested={fetchOrders}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * ============================================================================
+ * RETURN REQUEST DIALOG
+ * ============================================================================
+ *
+ * Lets the shopper ask to return items from a delivered order, with a
+ * quantity and reason per item. The request goes to the merchant for
+ * approval (request_return()).
+ *
+ * ============================================================================
+ */
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import type { CustomerOrderItem } from '@/hooks/useCustomerAccount';
+import { RETURN_REASON_LABELS, type ReturnReason } from '@/lib/returns';
+import { toast } from 'sonner';
+
+interface ReturnRequestDialogProps {
+  orderId: string;
+  items: CustomerOrderItem[];
+  /** Quantity of each order item already in a return that wasn't rejected, by order item id */
+  returnedQuantities: Record<string, number>;
+  onRequested: () => void;
+}
+
+export function ReturnRequestDialog({ orderId, items, returnedQuantities, onRequested }: ReturnRequestDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, ReturnReason>>({});
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const returnableFor = (item: CustomerOrderItem) => item.quantity - (returnedQuantities[item.id] || 0);
+  const returnableItems = items.filter((item) => returnableFor(item) > 0);
+
+  if (returnableItems.length === 0) return null;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setQuantities({});
+      setReasons({});
+      setNote('');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = returnableItems
+      .map((item) => ({
+        order_item_id: item.id,
+        quantity: parseInt(quantities[item.id] || '0', 10) || 0,
+        reason: reasons[item.id],
+      }))
+      .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+      toast.error('Choose at least one item to return');
+      return;
+    }
+
+    if (lines.some((line) => !line.reason)) {
+      toast.error('Please tell us why you are returning each item');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('request_return', {
+        p_order_id: orderId,
+        p_items: lines,
+        p_note: note.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success("Return requested. We'll let you know once it's approved.");
+      setOpen(false);
+      onRequested();
+    } catch (error: any) {
+      console.error('Error requesting return:', error);
+      toast.error(error.message || 'Could not request a return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Return Items</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Choose what you'd like to send back and why. The store will review your request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border rounded-lg divide-y">
+            {returnableItems.map((item) => (
+              <div key={item.id} className="p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.variant_name && `${item.variant_name} · `}
+                      Up to {returnableFor(item)}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={returnableFor(item)}
+                    value={quantities[item.id] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    placeholder="0"
+                    className="w-20 h-9"
+                    aria-label={`Quantity of ${item.product_name} to return`}
+                  />
+                </div>
+                {parseInt(quantities[item.id] || '0', 10) > 0 && (
+                  <Select
+                    value={reasons[item.id]}
+                    onValueChange={(value) => setReasons({ ...reasons, [item.id]: value as ReturnReason })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Reason for return" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {RETURN_REASON_LABELS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="returnNote">Comments (optional)</Label>
+            <Textarea
+              id="returnNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Tell us more about the problem"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Request Return
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,6 +29,13 @@ import {
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import type { Tables } from '@/integrations/supabase/types';
+import {
+  PRODUCT_SORT_OPTIONS,
+  LISTING_PARAMS,
+  readListingFilters,
+  matchesListingFilters,
+  sortProducts,
+} from '@/lib/productListing';
 
 type Category = Tables<'categories'>;
 type Product = Tables<'products'>;
@@ -39,8 +46,10 @@ interface CategoryPageContentProps {
 }
 
 export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentProps) {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const categorySlug = searchParams.get('cat');
+  // Sort and filters may also be set by product_sort / product_filters sections
+  const filters = readListingFilters(searchParams);
   
   // Data state
   const [categories, setCategories] = useState<Category[]>([]);
@@ -49,7 +58,6 @@ export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentP
   const [loading, setLoading] = useState(true);
   
   // View state
-  const [sortBy, setSortBy] = useState<string>('newest');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
   useEffect(() => {
@@ -97,24 +105,20 @@ export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentP
     }
   };
 
-  // Sort products based on selection
-  const sortedProducts = [...products].sort((a, b) => {
-    switch (sortBy) {
-      case 'price-low':
-        return a.price - b.price;
-      case 'price-high':
-        return b.price - a.price;
-      case 'name':
-        return a.name.localeCompare(b.name);
-      case 'newest':
-      default:
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-    }
-  });
+  const sortedProducts = sortProducts(
+    products.filter((product) => matchesListingFilters(product, filters)),
+    filters.sort
+  );
+
+  const handleSortChange = (value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set(LISTING_PARAMS.sort, value);
+    setSearchParams(newParams);
+  };
 
   if (loading) {
     return (
-      <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="max-w-storefront mx-auto px-4 py-8">
         <Skeleton className="h-8 w-64 mb-6" />
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
           {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
@@ -128,7 +132,7 @@ export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentP
   // If category is selected, show products
   if (selectedCategory) {
     return (
-      <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="max-w-storefront mx-auto px-4 py-8">
         {/* Breadcrumbs */}
         <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-6">
           <Link to={`/store/${storeSlug}`} className="hover:text-foreground transition-colors">
@@ -160,16 +164,17 @@ export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentP
           </p>
           
           <div className="flex items-center gap-4">
-            <Select value={sortBy} onValueChange={setSortBy}>
+            <Select value={filters.sort} onValueChange={handleSortChange}>
               <SelectTrigger className="w-[160px]">
                 <SlidersHorizontal className="w-4 h-4 mr-2" />
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="newest">Newest</SelectItem>
-                <SelectItem value="price-low">Price: Low to High</SelectItem>
-                <SelectItem value="price-high">Price: High to Low</SelectItem>
-                <SelectItem value="name">Name</SelectItem>
+                {PRODUCT_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -245,7 +250,7 @@ export function CategoryPageContent({ storeId, storeSlug }: CategoryPageContentP
 
   // Show all categories as grid
   return (
-    <div className="max-w-7xl mx-auto px-4 py-8">
+    <div className="max-w-storefront mx-auto px-4 py-8">
       {/* Breadcrumbs */}
       <nav className="flex items-center gap-2 text-sm text-muted-foreground mb-6">
         <Link to={`/store/${storeSlug}`} className="hover:text-foreground transition-colors">
@@ -12,6 +12,13 @@ import {
   SelectValue 
 } from '@/components/ui/select';
 import { Search, Grid3X3, List, ChevronRight } from 'lucide-react';
+import {
+  PRODUCT_SORT_OPTIONS,
+  LISTING_PARAMS,
+  readListingFilters,
+  matchesListingFilters,
+  countActiveFilters,
+} from '@/lib/productListing';
 
 interface Product {
   id: string;
@@ -21,6 +28,9 @@ interface Product {
   compare_at_price: number | null;
   images: unknown;
   category_id: string | null;
+  stock_quantity: number;
+  track_inventory: boolean | null;
+  allow_backorders: boolean;
 }
 
 interface Category {
@@ -42,8 +52,11 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   
   const searchQuery = searchParams.get('q') || '';
-  const sortBy = searchParams.get('sort') || 'newest';
   const categoryFilter = searchParams.get('category') || '';
+  // Sort and filters may also be set by product_sort / product_filters sections
+  const filters = readListingFilters(searchParams);
+  const sortBy = filters.sort;
+  const hasFilters = !!(searchQuery || categoryFilter || countActiveFilters(filters));
 
   useEffect(() => {
     fetchCategories();
@@ -51,7 +64,7 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
 
   useEffect(() => {
     fetchProducts();
-  }, [storeId, sortBy, categoryFilter, searchQuery]);
+  }, [storeId, sortBy, categoryFilter, searchQuery, filters.minPrice, filters.maxPrice, filters.inStock, filters.onSale]);
 
   const fetchCategories = async () => {
     const { data } = await supabase
@@ -68,7 +81,7 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
     
     let query = supabase
       .from('products')
-      .select('id, name, slug, price, compare_at_price, images, category_id')
+      .select('id, name, slug, price, compare_at_price, images, category_id, stock_quantity, track_inventory, allow_backorders')
       .eq('store_id', storeId)
       .eq('status', 'active');
 
@@ -85,6 +98,14 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
       query = query.ilike('name', `%${searchQuery}%`);
     }
 
+    // Apply price range
+    if (filters.minPrice !== null) {
+      query = query.gte('price', filters.minPrice);
+    }
+    if (filters.maxPrice !== null) {
+      query = query.lte('price', filters.maxPrice);
+    }
+
     // Apply sorting
     switch (sortBy) {
       case 'price-asc':
@@ -103,7 +124,8 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
     }
 
     const { data } = await query;
-    setProducts(data || []);
+    // Availability and sale compare columns, so they are checked here
+    setProducts((data || []).filter(product => matchesListingFilters(product, filters)));
     setLoading(false);
   };
 
@@ -213,15 +235,16 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
         <div className="flex-1">
           {/* Toolbar */}
           <div className="flex items-center justify-between gap-4 mb-6">
-            <Select value={sortBy} onValueChange={(value) => updateParams('sort', value)}>
+            <Select value={sortBy} onValueChange={(value) => updateParams(LISTING_PARAMS.sort, value)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="newest">Newest First</SelectItem>
-                <SelectItem value="price-asc">Price: Low to High</SelectItem>
-                <SelectItem value="price-desc">Price: High to Low</SelectItem>
-                <SelectItem value="name">Name: A to Z</SelectItem>
+                {PRODUCT_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -262,7 +285,7 @@ export function ProductListingContent({ storeId, storeSlug }: ProductListingCont
           ) : products.length === 0 ? (
             <div className="text-center py-16">
               <p className="text-muted-foreground text-lg">No products found</p>
-              {(searchQuery || categoryFilter) && (
+              {hasFilters && (
                 <Button 
                   variant="outline" 
                   className="mt-4"
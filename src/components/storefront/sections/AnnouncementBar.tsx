@@ -1,17 +1,9 @@
 import { X } from "lucide-react";
 import { useState } from "react";
-
-interface AnnouncementBarConfig {
-  text?: string;
-  link?: string;
-  linkText?: string;
-  dismissible?: boolean;
-  backgroundColor?: string;
-  textColor?: string;
-}
+import type { AnnouncementBarConfig } from "@/components/store-builder/types";
 
 interface AnnouncementBarProps {
-  config: AnnouncementBarConfig;
+  config: Partial<AnnouncementBarConfig>;
 }
 
 export function AnnouncementBar({ config }: AnnouncementBarProps) {
@@ -20,6 +12,8 @@ export function AnnouncementBar({ config }: AnnouncementBarProps) {
     link,
     linkText = "Shop Now",
     dismissible = true,
+    backgroundColor,
+    textColor,
   } = config;
 
   const [visible, setVisible] = useState(true);
@@ -27,8 +21,11 @@ export function AnnouncementBar({ config }: AnnouncementBarProps) {
   if (!visible) return null;
 
   return (
-    <div className="bg-primary text-primary-foreground py-2 px-4 relative">
-      <div className="max-w-7xl mx-auto flex items-center justify-center gap-2 text-sm">
+    <div
+      className="bg-primary text-primary-foreground py-2 px-4 relative"
+      style={{ backgroundColor: backgroundColor || undefined, color: textColor || undefined }}
+    >
+      <div className="max-w-storefront mx-auto flex items-center justify-center gap-2 text-sm">
         <span>{text}</span>
         {link && (
           <a
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import type { BestSellersConfig, SalesPeriod } from "@/components/store-builder/types";
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+}
+
+interface BestSellersProps {
+  config: Partial<BestSellersConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+/** Days each period covers; all time has no limit */
+const PERIOD_DAYS: Record<SalesPeriod, number | undefined> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  all: undefined,
+};
+
+/**
+ * Products ranked by units sold over the chosen period
+ * (get_best_selling_products, which leaves out cancelled and refunded orders)
+ */
+export function BestSellers({ config, storeId, storeSlug }: BestSellersProps) {
+  const {
+    title = "Best Sellers",
+    subtitle,
+    columns = 4,
+    productCount: limit = 4,
+    showPrice = true,
+    period = "30d",
+  } = config;
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchBestSellers() {
+      const { data: ranking, error } = await supabase.rpc("get_best_selling_products", {
+        p_store_id: storeId,
+        p_days: PERIOD_DAYS[period],
+        p_limit: limit,
+      });
+
+      if (error || !ranking?.length) {
+        setProducts([]);
+        setLoading(false);
+        return;
+      }
+
+      const { data } = await supabase
+        .from("products")
+        .select("id, name, slug, price, compare_at_price, images")
+        .in("id", ranking.map((r) => r.product_id));
+
+      // Keep the sales ranking order
+      const byId = new Map(((data as Product[]) || []).map((p) => [p.id, p]));
+      setProducts(
+        ranking
+          .map((r) => byId.get(r.product_id))
+          .filter((p): p is Product => !!p)
+      );
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchBestSellers();
+    }
+  }, [storeId, limit, period]);
+
+  const gridCols = {
+    2: "grid-cols-2",
+    3: "grid-cols-2 md:grid-cols-3",
+    4: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    5: "grid-cols-2 md:grid-cols-3 lg:grid-cols-5",
+  }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className={`grid ${gridCols} gap-6`}>
+            {Array.from({ length: Math.min(limit, 8) }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-muted rounded-lg mb-4" />
+                <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                <div className="h-4 bg-muted rounded w-1/4" />
+              </div>
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-center text-muted-foreground">No best sellers yet</p>
+        ) : (
+          <div className={`grid ${gridCols} gap-6`}>
+            {products.map((product) => {
+              const images = Array.isArray(product.images) ? product.images : [];
+              const imageUrl = images[0] || "/placeholder.svg";
+
+              return (
+                <Link
+                  key={product.id}
+                  to={`/store/${storeSlug}/product/${product.slug}`}
+                  className="group"
+                >
+                  <div className="aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                    <img
+                      src={imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                  </div>
+                  <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                    {product.name}
+                  </h3>
+                  {showPrice && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-foreground font-semibold">
+                        ${product.price.toFixed(2)}
+                      </span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-muted-foreground line-through text-sm">
+                          ${product.compare_at_price.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
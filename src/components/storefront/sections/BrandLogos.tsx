@@ -1,19 +1,20 @@
-interface BrandLogosConfig {
-  title?: string;
-  logos?: string[];
-}
+import type { BrandLogosConfig } from "@/components/store-builder/types";
 
 interface BrandLogosProps {
-  config: BrandLogosConfig;
+  config: Partial<BrandLogosConfig>;
 }
 
 export function BrandLogos({ config }: BrandLogosProps) {
-  const { title, logos = [] } = config;
+  const { title, logos = [], grayscale = true } = config;
+
+  const logoClass = `h-12 md:h-16 object-contain opacity-60 hover:opacity-100 transition-opacity ${
+    grayscale ? "grayscale hover:grayscale-0" : ""
+  }`;
 
   if (logos.length === 0) {
     return (
       <section className="py-12 px-6 bg-muted/30 border-y">
-        <div className="max-w-7xl mx-auto text-center">
+        <div className="max-w-storefront mx-auto text-center">
           {title && <h2 className="text-xl font-semibold text-foreground mb-4">{title}</h2>}
           <p className="text-muted-foreground">No brand logos added</p>
         </div>
@@ -23,21 +24,24 @@ export function BrandLogos({ config }: BrandLogosProps) {
 
   return (
     <section className="py-12 px-6 bg-muted/30 border-y">
-      <div className="max-w-7xl mx-auto">
+      <div className="max-w-storefront mx-auto">
         {title && (
           <h2 className="text-xl font-semibold text-foreground text-center mb-8">
             {title}
           </h2>
         )}
         <div className="flex flex-wrap items-center justify-center gap-8 md:gap-12">
-          {logos.map((logo, index) => (
-            <img
-              key={index}
-              src={logo}
-              alt={`Brand ${index + 1}`}
-              className="h-12 md:h-16 object-contain opacity-60 hover:opacity-100 transition-opacity grayscale hover:grayscale-0"
-            />
-          ))}
+          {logos.map((logo, index) => {
+            const img = (
+              <img src={logo.imageUrl} alt={logo.alt || `Brand ${index + 1}`} className={logoClass} />
+            );
+
+            return logo.link ? (
+              <a key={logo.id || index} href={logo.link}>{img}</a>
+            ) : (
+              <span key={logo.id || index}>{img}</span>
+            );
+          })}
         </div>
       </div>
     </section>
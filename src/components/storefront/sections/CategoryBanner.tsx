@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import type { CategoryBannerConfig } from "@/components/store-builder/types";
+
+interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  image_url: string | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+}
+
+interface CategoryBannerProps {
+  config: Partial<CategoryBannerConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+const PRODUCT_LIMIT = 4;
+
+/**
+ * Banner for one category: its image, name and description (each can be
+ * overridden in the config), a link to shop it and optionally its newest
+ * products.
+ */
+export function CategoryBanner({ config, storeId, storeSlug }: CategoryBannerProps) {
+  const {
+    categoryId,
+    title,
+    subtitle,
+    backgroundImage,
+    showProducts = true,
+  } = config;
+
+  const [category, setCategory] = useState<Category | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchCategory(id: string) {
+      setLoading(true);
+
+      const [{ data: categoryData }, { data: productData }] = await Promise.all([
+        supabase
+          .from("categories")
+          .select("id, name, slug, description, image_url")
+          .eq("store_id", storeId)
+          .eq("id", id)
+          .maybeSingle(),
+        showProducts
+          ? supabase
+              .from("products")
+              .select("id, name, slug, price, compare_at_price, images")
+              .eq("store_id", storeId)
+              .eq("category_id", id)
+              .eq("status", "active")
+              .order("created_at", { ascending: false })
+              .limit(PRODUCT_LIMIT)
+          : Promise.resolve({ data: [] }),
+      ]);
+
+      setCategory((categoryData as Category | null) || null);
+      setProducts((productData as Product[] | null) || []);
+      setLoading(false);
+    }
+
+    if (storeId && categoryId) {
+      fetchCategory(categoryId);
+    } else {
+      setCategory(null);
+      setProducts([]);
+      setLoading(false);
+    }
+  }, [storeId, categoryId, showProducts]);
+
+  const heading = title || category?.name || "Shop the collection";
+  const description = subtitle || category?.description;
+  const image = backgroundImage || category?.image_url;
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto space-y-8">
+        <div
+          className="relative rounded-xl overflow-hidden px-6 py-16 md:py-24"
+          style={{
+            backgroundImage: image ? `url(${image})` : undefined,
+            backgroundSize: "cover",
+            backgroundPosition: "center",
+          }}
+        >
+          {image ? (
+            <div className="absolute inset-0 bg-black/50" />
+          ) : (
+            <div className="absolute inset-0 bg-gradient-to-r from-primary to-primary/80" />
+          )}
+
+          <div className="relative z-10 max-w-2xl mx-auto text-center">
+            <h2 className="text-3xl md:text-4xl lg:text-5xl font-bold text-white mb-4">
+              {heading}
+            </h2>
+            {description && (
+              <p className="text-lg text-white/90 mb-8">{description}</p>
+            )}
+            {category && (
+              <Button size="lg" className="bg-white text-primary hover:bg-white/90" asChild>
+                <Link to={`/store/${storeSlug}?category=${category.slug}`}>
+                  Shop {category.name}
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {showProducts && categoryId && (
+          loading ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {Array.from({ length: PRODUCT_LIMIT }).map((_, i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="aspect-square bg-muted rounded-lg mb-4" />
+                  <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                  <div className="h-4 bg-muted rounded w-1/4" />
+                </div>
+              ))}
+            </div>
+          ) : products.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {products.map((product) => {
+                const images = Array.isArray(product.images) ? product.images : [];
+                const imageUrl = images[0] || "/placeholder.svg";
+
+                return (
+                  <Link
+                    key={product.id}
+                    to={`/store/${storeSlug}/product/${product.slug}`}
+                    className="group"
+                  >
+                    <div className="aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                      <img
+                        src={imageUrl}
+                        alt={product.name}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    </div>
+                    <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                      {product.name}
+                    </h3>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-foreground font-semibold">
+                        ${product.price.toFixed(2)}
+                      </span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-muted-foreground line-through text-sm">
+                          ${product.compare_at_price.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )
+        )}
+      </div>
+    </section>
+  );
+}
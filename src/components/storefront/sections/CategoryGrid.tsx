@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Link } from "react-router-dom";
+import type { CategoryGridConfig } from "@/components/store-builder/types";
 
 interface Category {
   id: string;
@@ -8,18 +9,11 @@ interface Category {
   slug: string;
   description: string | null;
   image_url: string | null;
-}
-
-interface CategoryGridConfig {
-  title?: string;
-  subtitle?: string;
-  columns?: number;
-  showDescription?: boolean;
-  limit?: number;
+  products: { count: number }[];
 }
 
 interface CategoryGridProps {
-  config: CategoryGridConfig;
+  config: Partial<CategoryGridConfig>;
   storeId: string;
   storeSlug: string;
 }
@@ -30,23 +24,33 @@ export function CategoryGrid({ config, storeId, storeSlug }: CategoryGridProps)
     subtitle,
     columns = 4,
     showDescription = false,
-    limit = 8,
+    showProductCount = false,
+    categoryIds = [],
   } = config;
 
+  const limit = 8;
+  const categoryIdsKey = categoryIds.join(",");
+
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     async function fetchCategories() {
-      const { data, error } = await supabase
+      let query = supabase
         .from("categories")
-        .select("id, name, slug, description, image_url")
+        .select("id, name, slug, description, image_url, products(count)")
         .eq("store_id", storeId)
         .order("sort_order", { ascending: true })
         .limit(limit);
 
+      if (categoryIdsKey) {
+        query = query.in("id", categoryIdsKey.split(","));
+      }
+
+      const { data, error } = await query;
+
       if (!error && data) {
-        setCategories(data);
+        setCategories(data as Category[]);
       }
       setLoading(false);
     }
@@ -54,7 +58,7 @@ export function CategoryGrid({ config, storeId, storeSlug }: CategoryGridProps)
     if (storeId) {
       fetchCategories();
     }
-  }, [storeId, limit]);
+  }, [storeId, categoryIdsKey]);
 
   const gridCols = {
     2: "grid-cols-2",
@@ -64,8 +68,8 @@ export function CategoryGrid({ config, storeId, storeSlug }: CategoryGridProps)
   }[columns] || "grid-cols-2 md:grid-cols-4";
 
   return (
-    <section className="py-16 px-6 bg-muted/30">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-muted/30">
+      <div className="max-w-storefront mx-auto">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
             {title}
@@ -79,7 +83,7 @@ export function CategoryGrid({ config, storeId, storeSlug }: CategoryGridProps)
 
         {loading ? (
           <div className={`grid ${gridCols} gap-6`}>
-            {Array.from({ length: Math.min(limit, 8) }).map((_, i) => (
+            {Array.from({ length: limit }).map((_, i) => (
               <div key={i} className="animate-pulse">
                 <div className="aspect-square bg-muted rounded-lg" />
               </div>
@@ -114,6 +118,11 @@ export function CategoryGrid({ config, storeId, storeSlug }: CategoryGridProps)
                       {category.description}
                     </p>
                   )}
+                  {showProductCount && (
+                    <p className="text-xs text-white/70 mt-1">
+                      {category.products[0]?.count ?? 0} products
+                    </p>
+                  )}
                 </div>
               </Link>
             ))}
@@ -1,14 +1,9 @@
 import { useEffect, useState } from "react";
-
-interface CountdownConfig {
-  title?: string;
-  subtitle?: string;
-  endDate?: string;
-  expiredMessage?: string;
-}
+import { Button } from "@/components/ui/button";
+import type { CountdownConfig } from "@/components/store-builder/types";
 
 interface CountdownProps {
-  config: CountdownConfig;
+  config: Partial<CountdownConfig>;
 }
 
 interface TimeLeft {
@@ -24,6 +19,9 @@ export function Countdown({ config }: CountdownProps) {
     subtitle,
     endDate,
     expiredMessage = "Sale has ended!",
+    buttonText,
+    buttonLink,
+    backgroundImage,
   } = config;
 
   const [timeLeft, setTimeLeft] = useState<TimeLeft | null>(null);
@@ -68,8 +66,16 @@ export function Countdown({ config }: CountdownProps) {
   }
 
   return (
-    <section className="py-12 px-6 bg-primary">
-      <div className="max-w-4xl mx-auto text-center">
+    <section
+      className="relative py-12 px-6 bg-primary"
+      style={{
+        backgroundImage: backgroundImage ? `url(${backgroundImage})` : undefined,
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+      }}
+    >
+      {backgroundImage && <div className="absolute inset-0 bg-black/60" />}
+      <div className="relative z-10 max-w-4xl mx-auto text-center">
         <h2 className="text-2xl md:text-3xl font-bold text-primary-foreground mb-2">
           {title}
         </h2>
@@ -100,6 +106,12 @@ export function Countdown({ config }: CountdownProps) {
             ))}
           </div>
         ) : null}
+
+        {buttonText && !expired && (
+          <Button size="lg" className="mt-8 bg-white text-primary hover:bg-white/90" asChild>
+            <a href={buttonLink || "#"}>{buttonText}</a>
+          </Button>
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,31 @@
+import { useId, useMemo } from "react";
+import type { CustomHtmlConfig } from "@/components/store-builder/types";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
+import { scopeCustomCss } from "@/lib/storefrontTheme";
+
+interface CustomHtmlProps {
+  config: Partial<CustomHtmlConfig>;
+}
+
+/**
+ * Merchant HTML, sanitized, with CSS that only applies inside this section.
+ * In the CSS, :root/html/body refer to the section itself.
+ */
+export function CustomHtml({ config }: CustomHtmlProps) {
+  const { html = "", css } = config;
+
+  const scopeId = useId();
+  const scope = `[data-custom-html="${scopeId}"]`;
+
+  const content = useMemo(() => sanitizeHtml(html), [html]);
+  const scopedCss = useMemo(() => scopeCustomCss(css, scope), [css, scope]);
+
+  if (!content) return null;
+
+  return (
+    <section data-custom-html={scopeId} className="bg-background">
+      {scopedCss && <style>{scopedCss}</style>}
+      <div dangerouslySetInnerHTML={{ __html: content }} />
+    </section>
+  );
+}
@@ -1,20 +1,17 @@
-interface DividerConfig {
-  style?: string;
-  width?: string;
-}
+import type { DividerConfig } from "@/components/store-builder/types";
 
 interface DividerProps {
-  config: DividerConfig;
+  config: Partial<DividerConfig>;
 }
 
 export function Divider({ config }: DividerProps) {
-  const { style = "solid", width = "full" } = config;
+  const { style = "solid", width = "container", color } = config;
 
   const widthClass = {
     full: "w-full",
-    medium: "w-2/3 mx-auto",
-    short: "w-1/3 mx-auto",
-  }[width] || "w-full";
+    container: "max-w-storefront mx-auto",
+    narrow: "max-w-md mx-auto",
+  }[width] || "max-w-storefront mx-auto";
 
   const styleClass = {
     solid: "border-solid",
@@ -24,7 +21,10 @@ export function Divider({ config }: DividerProps) {
 
   return (
     <div className="py-4 px-6">
-      <hr className={`${widthClass} ${styleClass} border-t border-border`} />
+      <hr
+        className={`${widthClass} ${styleClass} border-t border-border`}
+        style={{ borderColor: color || undefined }}
+      />
     </div>
   );
 }
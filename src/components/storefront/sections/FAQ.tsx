@@ -4,32 +4,22 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
-
-interface FAQItem {
-  question?: string;
-  answer?: string;
-}
-
-interface FAQConfig {
-  title?: string;
-  subtitle?: string;
-  items?: FAQItem[];
-}
+import type { FaqConfig } from "@/components/store-builder/types";
 
 interface FAQProps {
-  config: FAQConfig;
+  config: Partial<FaqConfig>;
 }
 
 export function FAQ({ config }: FAQProps) {
   const {
     title = "Frequently Asked Questions",
     subtitle,
-    items = [],
+    faqs = [],
   } = config;
 
-  if (items.length === 0) {
+  if (faqs.length === 0) {
     return (
-      <section className="py-16 px-6 bg-background">
+      <section className="py-section px-6 bg-background">
         <div className="max-w-3xl mx-auto text-center">
           <h2 className="text-3xl font-bold text-foreground mb-4">{title}</h2>
           <p className="text-muted-foreground">No FAQs added yet</p>
@@ -39,7 +29,7 @@ export function FAQ({ config }: FAQProps) {
   }
 
   return (
-    <section className="py-16 px-6 bg-background">
+    <section className="py-section px-6 bg-background">
       <div className="max-w-3xl mx-auto">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
@@ -53,8 +43,8 @@ export function FAQ({ config }: FAQProps) {
         </div>
 
         <Accordion type="single" collapsible className="w-full">
-          {items.map((item, index) => (
-            <AccordionItem key={index} value={`item-${index}`}>
+          {faqs.map((item, index) => (
+            <AccordionItem key={item.id || index} value={`item-${index}`}>
               <AccordionTrigger className="text-left text-foreground hover:text-primary">
                 {item.question || `Question ${index + 1}`}
               </AccordionTrigger>
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import type { FeaturedProductsConfig } from "@/components/store-builder/types";
 
 interface Product {
   id: string;
@@ -12,17 +13,8 @@ interface Product {
   images: string[] | null;
 }
 
-interface FeaturedProductsConfig {
-  title?: string;
-  subtitle?: string;
-  columns?: number;
-  limit?: number;
-  showPrices?: boolean;
-  showAddToCart?: boolean;
-}
-
 interface FeaturedProductsProps {
-  config: FeaturedProductsConfig;
+  config: Partial<FeaturedProductsConfig>;
   storeId: string;
   storeSlug: string;
 }
@@ -32,8 +24,8 @@ export function FeaturedProducts({ config, storeId, storeSlug }: FeaturedProduct
     title = "Featured Products",
     subtitle,
     columns = 4,
-    limit = 8,
-    showPrices = true,
+    productCount: limit = 8,
+    showPrice = true,
     showAddToCart = true,
   } = config;
 
@@ -69,8 +61,8 @@ export function FeaturedProducts({ config, storeId, storeSlug }: FeaturedProduct
   }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
 
   return (
-    <section className="py-16 px-6 bg-background">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
             {title}
@@ -114,7 +106,7 @@ export function FeaturedProducts({ config, storeId, storeSlug }: FeaturedProduct
                       {product.name}
                     </h3>
                   </Link>
-                  {showPrices && (
+                  {showPrice && (
                     <div className="flex items-center gap-2 mt-1">
                       <span className="text-foreground font-semibold">
                         ${product.price.toFixed(2)}
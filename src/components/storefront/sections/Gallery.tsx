@@ -1,12 +1,7 @@
-interface GalleryConfig {
-  title?: string;
-  subtitle?: string;
-  images?: string[];
-  columns?: number;
-}
+import type { GalleryConfig } from "@/components/store-builder/types";
 
 interface GalleryProps {
-  config: GalleryConfig;
+  config: Partial<GalleryConfig>;
 }
 
 export function Gallery({ config }: GalleryProps) {
@@ -15,6 +10,7 @@ export function Gallery({ config }: GalleryProps) {
     subtitle,
     images = [],
     columns = 4,
+    aspectRatio = "square",
   } = config;
 
   const gridCols = {
@@ -24,10 +20,16 @@ export function Gallery({ config }: GalleryProps) {
     5: "grid-cols-2 md:grid-cols-3 lg:grid-cols-5",
   }[columns] || "grid-cols-2 md:grid-cols-4";
 
+  const aspectClass = {
+    square: "aspect-square",
+    landscape: "aspect-video",
+    portrait: "aspect-[3/4]",
+  }[aspectRatio] || "aspect-square";
+
   if (images.length === 0) {
     return (
-      <section className="py-16 px-6 bg-background">
-        <div className="max-w-7xl mx-auto text-center">
+      <section className="py-section px-6 bg-background">
+        <div className="max-w-storefront mx-auto text-center">
           {title && <h2 className="text-3xl font-bold text-foreground mb-4">{title}</h2>}
           <p className="text-muted-foreground">No images added yet</p>
         </div>
@@ -36,8 +38,8 @@ export function Gallery({ config }: GalleryProps) {
   }
 
   return (
-    <section className="py-16 px-6 bg-background">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
         {(title || subtitle) && (
           <div className="text-center mb-12">
             {title && (
@@ -54,18 +56,32 @@ export function Gallery({ config }: GalleryProps) {
         )}
 
         <div className={`grid ${gridCols} gap-4`}>
-          {images.map((image, index) => (
-            <div
-              key={index}
-              className="aspect-square rounded-lg overflow-hidden bg-muted group cursor-pointer"
-            >
+          {images.map((image, index) => {
+            const img = (
               <img
-                src={image}
-                alt={`Gallery image ${index + 1}`}
+                src={image.url}
+                alt={image.alt || `Gallery image ${index + 1}`}
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               />
-            </div>
-          ))}
+            );
+
+            return image.link ? (
+              <a
+                key={image.id || index}
+                href={image.link}
+                className={`${aspectClass} block rounded-lg overflow-hidden bg-muted group`}
+              >
+                {img}
+              </a>
+            ) : (
+              <div
+                key={image.id || index}
+                className={`${aspectClass} rounded-lg overflow-hidden bg-muted group`}
+              >
+                {img}
+              </div>
+            );
+          })}
         </div>
       </div>
     </section>
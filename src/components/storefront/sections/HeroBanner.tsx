@@ -1,30 +1,22 @@
 import { Button } from "@/components/ui/button";
-
-interface HeroBannerConfig {
-  title?: string;
-  subtitle?: string;
-  backgroundImage?: string;
-  overlayOpacity?: number;
-  height?: string;
-  alignment?: string;
-  primaryButton?: { text?: string; url?: string };
-  secondaryButton?: { text?: string; url?: string };
-}
+import type { HeroBannerConfig } from "@/components/store-builder/types";
 
 interface HeroBannerProps {
-  config: HeroBannerConfig;
+  config: Partial<HeroBannerConfig>;
 }
 
 export function HeroBanner({ config }: HeroBannerProps) {
   const {
     title = "Welcome to Our Store",
     subtitle = "Discover amazing products",
+    buttonText,
+    buttonLink,
+    secondaryButtonText,
+    secondaryButtonLink,
     backgroundImage,
-    overlayOpacity = 0.5,
+    backgroundOverlay = 50,
     height = "large",
-    alignment = "center",
-    primaryButton,
-    secondaryButton,
+    textAlignment = "center",
   } = config;
 
   const heightClass = {
@@ -38,7 +30,13 @@ export function HeroBanner({ config }: HeroBannerProps) {
     left: "items-start text-left",
     center: "items-center text-center",
     right: "items-end text-right",
-  }[alignment] || "items-center text-center";
+  }[textAlignment] || "items-center text-center";
+
+  const buttonsClass = {
+    left: "justify-start",
+    center: "justify-center",
+    right: "justify-end",
+  }[textAlignment] || "justify-center";
 
   return (
     <section
@@ -52,7 +50,7 @@ export function HeroBanner({ config }: HeroBannerProps) {
       {backgroundImage && (
         <div
           className="absolute inset-0 bg-black"
-          style={{ opacity: overlayOpacity }}
+          style={{ opacity: backgroundOverlay / 100 }}
         />
       )}
       {!backgroundImage && (
@@ -69,24 +67,20 @@ export function HeroBanner({ config }: HeroBannerProps) {
           </p>
         )}
         
-        <div className="flex flex-wrap gap-4 justify-center">
-          {primaryButton?.text && (
-            <Button
-              size="lg"
-              className="bg-white text-primary hover:bg-white/90"
-              onClick={() => primaryButton.url && (window.location.href = primaryButton.url)}
-            >
-              {primaryButton.text}
+        <div className={`flex flex-wrap gap-4 ${buttonsClass}`}>
+          {buttonText && (
+            <Button size="lg" className="bg-white text-primary hover:bg-white/90" asChild>
+              <a href={buttonLink || "#"}>{buttonText}</a>
             </Button>
           )}
-          {secondaryButton?.text && (
+          {secondaryButtonText && (
             <Button
               size="lg"
               variant="outline"
               className="border-white text-white hover:bg-white/10"
-              onClick={() => secondaryButton.url && (window.location.href = secondaryButton.url)}
+              asChild
             >
-              {secondaryButton.text}
+              <a href={secondaryButtonLink || "#"}>{secondaryButtonText}</a>
             </Button>
           )}
         </div>
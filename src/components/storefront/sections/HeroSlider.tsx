@@ -1,24 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
-
-interface Slide {
-  title?: string;
-  subtitle?: string;
-  backgroundImage?: string;
-  buttonText?: string;
-  buttonUrl?: string;
-}
-
-interface HeroSliderConfig {
-  slides?: Slide[];
-  autoplay?: boolean;
-  interval?: number;
-  height?: string;
-}
+import type { HeroSliderConfig } from "@/components/store-builder/types";
 
 interface HeroSliderProps {
-  config: HeroSliderConfig;
+  config: Partial<HeroSliderConfig>;
 }
 
 export function HeroSlider({ config }: HeroSliderProps) {
@@ -92,12 +78,8 @@ export function HeroSlider({ config }: HeroSliderProps) {
           </p>
         )}
         {slide?.buttonText && (
-          <Button
-            size="lg"
-            className="bg-white text-primary hover:bg-white/90"
-            onClick={() => slide.buttonUrl && (window.location.href = slide.buttonUrl)}
-          >
-            {slide.buttonText}
+          <Button size="lg" className="bg-white text-primary hover:bg-white/90" asChild>
+            <a href={slide.buttonLink || "#"}>{slide.buttonText}</a>
           </Button>
         )}
       </div>
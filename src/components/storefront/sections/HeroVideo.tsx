@@ -1,19 +1,8 @@
 import { Button } from "@/components/ui/button";
-
-interface HeroVideoConfig {
-  videoUrl?: string;
-  title?: string;
-  subtitle?: string;
-  buttonText?: string;
-  buttonUrl?: string;
-  overlayOpacity?: number;
-  autoplay?: boolean;
-  loop?: boolean;
-  muted?: boolean;
-}
+import type { HeroVideoConfig } from "@/components/store-builder/types";
 
 interface HeroVideoProps {
-  config: HeroVideoConfig;
+  config: Partial<HeroVideoConfig>;
 }
 
 export function HeroVideo({ config }: HeroVideoProps) {
@@ -22,8 +11,8 @@ export function HeroVideo({ config }: HeroVideoProps) {
     title = "Welcome",
     subtitle,
     buttonText,
-    buttonUrl,
-    overlayOpacity = 0.5,
+    buttonLink,
+    backgroundOverlay = 50,
     autoplay = true,
     loop = true,
     muted = true,
@@ -48,7 +37,7 @@ export function HeroVideo({ config }: HeroVideoProps) {
       {/* Overlay */}
       <div
         className="absolute inset-0 bg-black"
-        style={{ opacity: overlayOpacity }}
+        style={{ opacity: backgroundOverlay / 100 }}
       />
 
       {/* Content */}
@@ -62,12 +51,8 @@ export function HeroVideo({ config }: HeroVideoProps) {
           </p>
         )}
         {buttonText && (
-          <Button
-            size="lg"
-            className="bg-white text-primary hover:bg-white/90"
-            onClick={() => buttonUrl && (window.location.href = buttonUrl)}
-          >
-            {buttonText}
+          <Button size="lg" className="bg-white text-primary hover:bg-white/90" asChild>
+            <a href={buttonLink || "#"}>{buttonText}</a>
           </Button>
         )}
       </div>
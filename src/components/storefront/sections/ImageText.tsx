@@ -1,16 +1,8 @@
 import { Button } from "@/components/ui/button";
-
-interface ImageTextConfig {
-  title?: string;
-  content?: string;
-  imageUrl?: string;
-  imagePosition?: string;
-  buttonText?: string;
-  buttonUrl?: string;
-}
+import type { ImageTextConfig } from "@/components/store-builder/types";
 
 interface ImageTextProps {
-  config: ImageTextConfig;
+  config: Partial<ImageTextConfig>;
 }
 
 export function ImageText({ config }: ImageTextProps) {
@@ -20,14 +12,14 @@ export function ImageText({ config }: ImageTextProps) {
     imageUrl,
     imagePosition = "left",
     buttonText,
-    buttonUrl,
+    buttonLink,
   } = config;
 
   const isImageLeft = imagePosition === "left";
 
   return (
-    <section className="py-16 px-6 bg-background">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
         <div className={`grid md:grid-cols-2 gap-12 items-center ${!isImageLeft ? "md:flex-row-reverse" : ""}`}>
           {/* Image */}
           <div className={`${!isImageLeft ? "md:order-2" : ""}`}>
@@ -53,10 +45,8 @@ export function ImageText({ config }: ImageTextProps) {
               {content}
             </p>
             {buttonText && (
-              <Button
-                onClick={() => buttonUrl && (window.location.href = buttonUrl)}
-              >
-                {buttonText}
+              <Button asChild>
+                <a href={buttonLink || "#"}>{buttonText}</a>
               </Button>
             )}
           </div>
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import type { NewArrivalsConfig } from "@/components/store-builder/types";
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+  created_at: string;
+}
+
+interface NewArrivalsProps {
+  config: Partial<NewArrivalsConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Newest products first, optionally marked "New" while they are younger
+ * than newWithinDays
+ */
+export function NewArrivals({ config, storeId, storeSlug }: NewArrivalsProps) {
+  const {
+    title = "New Arrivals",
+    subtitle,
+    columns = 4,
+    productCount: limit = 4,
+    showPrice = true,
+    showNewBadge = true,
+    newWithinDays = 30,
+  } = config;
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchNewArrivals() {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, slug, price, compare_at_price, images, created_at")
+        .eq("store_id", storeId)
+        .eq("status", "active")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (!error && data) {
+        setProducts(data as Product[]);
+      }
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchNewArrivals();
+    }
+  }, [storeId, limit]);
+
+  const newSince = Date.now() - newWithinDays * DAY_MS;
+
+  const gridCols = {
+    2: "grid-cols-2",
+    3: "grid-cols-2 md:grid-cols-3",
+    4: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    5: "grid-cols-2 md:grid-cols-3 lg:grid-cols-5",
+  }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className={`grid ${gridCols} gap-6`}>
+            {Array.from({ length: Math.min(limit, 8) }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-muted rounded-lg mb-4" />
+                <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                <div className="h-4 bg-muted rounded w-1/4" />
+              </div>
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-center text-muted-foreground">No products yet</p>
+        ) : (
+          <div className={`grid ${gridCols} gap-6`}>
+            {products.map((product) => {
+              const images = Array.isArray(product.images) ? product.images : [];
+              const imageUrl = images[0] || "/placeholder.svg";
+              const isNew = showNewBadge && new Date(product.created_at).getTime() >= newSince;
+
+              return (
+                <Link
+                  key={product.id}
+                  to={`/store/${storeSlug}/product/${product.slug}`}
+                  className="group"
+                >
+                  <div className="relative aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                    <img
+                      src={imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                    {isNew && (
+                      <Badge className="absolute top-3 left-3">New</Badge>
+                    )}
+                  </div>
+                  <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                    {product.name}
+                  </h3>
+                  {showPrice && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-foreground font-semibold">
+                        ${product.price.toFixed(2)}
+                      </span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-muted-foreground line-through text-sm">
+                          ${product.compare_at_price.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
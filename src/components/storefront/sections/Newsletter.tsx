@@ -2,17 +2,10 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
-
-interface NewsletterConfig {
-  title?: string;
-  subtitle?: string;
-  buttonText?: string;
-  backgroundColor?: string;
-  textColor?: string;
-}
+import type { NewsletterConfig } from "@/components/store-builder/types";
 
 interface NewsletterProps {
-  config: NewsletterConfig;
+  config: Partial<NewsletterConfig>;
 }
 
 export function Newsletter({ config }: NewsletterProps) {
@@ -20,6 +13,8 @@ export function Newsletter({ config }: NewsletterProps) {
     title = "Subscribe to Our Newsletter",
     subtitle = "Get the latest updates and exclusive offers delivered to your inbox.",
     buttonText = "Subscribe",
+    successMessage = "Thank you for subscribing!",
+    backgroundColor,
   } = config;
 
   const [email, setEmail] = useState("");
@@ -32,13 +27,16 @@ export function Newsletter({ config }: NewsletterProps) {
     setLoading(true);
     // Simulate API call
     await new Promise((resolve) => setTimeout(resolve, 1000));
-    toast.success("Thank you for subscribing!");
+    toast.success(successMessage);
     setEmail("");
     setLoading(false);
   };
 
   return (
-    <section className="py-16 px-6 bg-primary">
+    <section
+      className="py-section px-6 bg-primary"
+      style={{ backgroundColor: backgroundColor || undefined }}
+    >
       <div className="max-w-2xl mx-auto text-center">
         <h2 className="text-3xl md:text-4xl font-bold text-primary-foreground mb-4">
           {title}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import type { ProductCarouselConfig } from "@/components/store-builder/types";
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+}
+
+interface ProductCarouselProps {
+  config: Partial<ProductCarouselConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+const AUTOPLAY_INTERVAL = 4000;
+
+export function ProductCarousel({ config, storeId, storeSlug }: ProductCarouselProps) {
+  const {
+    title = "Popular Items",
+    subtitle,
+    productCount: limit = 8,
+    autoplay = true,
+  } = config;
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [api, setApi] = useState<CarouselApi>();
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    async function fetchProducts() {
+      // Featured products first, then the newest
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, slug, price, compare_at_price, images")
+        .eq("store_id", storeId)
+        .eq("status", "active")
+        .order("featured", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (!error && data) {
+        setProducts(data as Product[]);
+      }
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchProducts();
+    }
+  }, [storeId, limit]);
+
+  // Advance on a timer; hovering or focusing the carousel pauses it
+  useEffect(() => {
+    if (!api || !autoplay || paused) return;
+
+    const timer = setInterval(() => {
+      if (api.canScrollNext()) {
+        api.scrollNext();
+      } else {
+        api.scrollTo(0);
+      }
+    }, AUTOPLAY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [api, autoplay, paused]);
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-muted rounded-lg mb-4" />
+                <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                <div className="h-4 bg-muted rounded w-1/4" />
+              </div>
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-center text-muted-foreground">No products yet</p>
+        ) : (
+          <Carousel
+            setApi={setApi}
+            opts={{ align: "start", loop: false }}
+            onMouseEnter={() => setPaused(true)}
+            onMouseLeave={() => setPaused(false)}
+            onFocusCapture={() => setPaused(true)}
+            onBlurCapture={() => setPaused(false)}
+          >
+            <CarouselContent>
+              {products.map((product) => {
+                const images = Array.isArray(product.images) ? product.images : [];
+                const imageUrl = images[0] || "/placeholder.svg";
+
+                return (
+                  <CarouselItem key={product.id} className="basis-1/2 md:basis-1/3 lg:basis-1/4">
+                    <Link to={`/store/${storeSlug}/product/${product.slug}`} className="group block">
+                      <div className="aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                        <img
+                          src={imageUrl}
+                          alt={product.name}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        />
+                      </div>
+                      <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                        {product.name}
+                      </h3>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-foreground font-semibold">
+                          ${product.price.toFixed(2)}
+                        </span>
+                        {product.compare_at_price && product.compare_at_price > product.price && (
+                          <span className="text-muted-foreground line-through text-sm">
+                            ${product.compare_at_price.toFixed(2)}
+                          </span>
+                        )}
+                      </div>
+                    </Link>
+                  </CarouselItem>
+                );
+              })}
+            </CarouselContent>
+            <CarouselPrevious className="hidden md:flex" />
+            <CarouselNext className="hidden md:flex" />
+          </Carousel>
+        )}
+      </div>
+    </section>
+  );
+}
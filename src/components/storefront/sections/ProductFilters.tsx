@@ -0,0 +1,134 @@
+import { useSearchParams } from "react-router-dom";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { LISTING_PARAMS, readListingFilters, countActiveFilters } from "@/lib/productListing";
+import type { ProductFiltersConfig } from "@/components/store-builder/types";
+
+interface ProductFiltersProps {
+  config: Partial<ProductFiltersConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+/**
+ * Filter bar for the page's product listing: price range, in stock only and
+ * on sale only. Writes the URL params the built-in product and category
+ * listings read (see lib/productListing).
+ */
+export function ProductFilters({ config }: ProductFiltersProps) {
+  const {
+    title = "Filter",
+    showPriceRange = true,
+    showAvailability = true,
+    showOnSale = true,
+  } = config;
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = readListingFilters(searchParams);
+  const activeCount = countActiveFilters(filters);
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const newParams = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        newParams.set(key, value);
+      } else {
+        newParams.delete(key);
+      }
+    });
+    setSearchParams(newParams);
+  };
+
+  const handlePriceSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    updateParams({
+      [LISTING_PARAMS.minPrice]: (formData.get("min") as string).trim() || null,
+      [LISTING_PARAMS.maxPrice]: (formData.get("max") as string).trim() || null,
+    });
+  };
+
+  const clearFilters = () => {
+    updateParams({
+      [LISTING_PARAMS.minPrice]: null,
+      [LISTING_PARAMS.maxPrice]: null,
+      [LISTING_PARAMS.inStock]: null,
+      [LISTING_PARAMS.onSale]: null,
+    });
+  };
+
+  return (
+    <section className="py-4 px-6 bg-background">
+      <div className="max-w-storefront mx-auto flex flex-wrap items-center gap-x-6 gap-y-3 rounded-lg border bg-card p-4">
+        <span className="text-sm font-medium text-foreground flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          {title}
+        </span>
+
+        {showPriceRange && (
+          // Remount when the params change (e.g. cleared) so the inputs follow
+          <form
+            key={`${filters.minPrice}-${filters.maxPrice}`}
+            onSubmit={handlePriceSubmit}
+            className="flex items-center gap-2"
+          >
+            <Input
+              name="min"
+              type="number"
+              min={0}
+              placeholder="Min"
+              defaultValue={filters.minPrice ?? ""}
+              className="w-24 h-9"
+              aria-label="Minimum price"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              name="max"
+              type="number"
+              min={0}
+              placeholder="Max"
+              defaultValue={filters.maxPrice ?? ""}
+              className="w-24 h-9"
+              aria-label="Maximum price"
+            />
+            <Button type="submit" variant="secondary" size="sm">
+              Apply
+            </Button>
+          </form>
+        )}
+
+        {showAvailability && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="filter-in-stock"
+              checked={filters.inStock}
+              onCheckedChange={(checked) => updateParams({ [LISTING_PARAMS.inStock]: checked ? "1" : null })}
+            />
+            <Label htmlFor="filter-in-stock" className="text-sm">In stock</Label>
+          </div>
+        )}
+
+        {showOnSale && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="filter-on-sale"
+              checked={filters.onSale}
+              onCheckedChange={(checked) => updateParams({ [LISTING_PARAMS.onSale]: checked ? "1" : null })}
+            />
+            <Label htmlFor="filter-on-sale" className="text-sm">On sale</Label>
+          </div>
+        )}
+
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="ml-auto gap-1" onClick={clearFilters}>
+            <X className="w-4 h-4" />
+            Clear ({activeCount})
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+}
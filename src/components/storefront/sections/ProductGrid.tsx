@@ -1,6 +1,9 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Link } from "react-router-dom";
+import { RatingSummaryLine } from "@/components/storefront/StarRating";
+import { useRatingSummaries } from "@/hooks/useProductReviews";
+import type { ProductGridConfig } from "@/components/store-builder/types";
 
 interface Product {
   id: string;
@@ -12,18 +15,8 @@ interface Product {
   store_id: string;
 }
 
-interface ProductGridConfig {
-  title?: string;
-  subtitle?: string;
-  columns?: number;
-  rows?: number;
-  showPrices?: boolean;
-  categoryId?: string;
-  sortBy?: string;
-}
-
 interface ProductGridProps {
-  config: ProductGridConfig;
+  config: Partial<ProductGridConfig>;
   storeId: string;
   storeSlug: string;
 }
@@ -34,13 +27,17 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
     subtitle,
     columns = 4,
     rows = 2,
-    showPrices = true,
+    productCount,
+    showPrice = true,
     categoryId,
     sortBy = "created_at",
   } = config;
 
+  const limit = productCount || columns * rows;
+
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const ratings = useRatingSummaries(products.map((p) => p.id));
 
   useEffect(() => {
     async function fetchProducts() {
@@ -49,7 +46,7 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
         .select("id, name, slug, price, compare_at_price, images, store_id")
         .eq("store_id", storeId)
         .eq("status", "active")
-        .limit(columns * rows);
+        .limit(limit);
 
       if (categoryId) {
         query = query.eq("category_id", categoryId);
@@ -76,7 +73,7 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
     if (storeId) {
       fetchProducts();
     }
-  }, [storeId, categoryId, columns, rows, sortBy]);
+  }, [storeId, categoryId, limit, sortBy]);
 
   const gridCols = {
     2: "grid-cols-2",
@@ -87,8 +84,8 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
   }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
 
   return (
-    <section className="py-16 px-6 bg-background">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
         {(title || subtitle) && (
           <div className="text-center mb-12">
             {title && (
@@ -106,7 +103,7 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
 
         {loading ? (
           <div className={`grid ${gridCols} gap-6`}>
-            {Array.from({ length: columns * rows }).map((_, i) => (
+            {Array.from({ length: limit }).map((_, i) => (
               <div key={i} className="animate-pulse">
                 <div className="aspect-square bg-muted rounded-lg mb-4" />
                 <div className="h-4 bg-muted rounded w-3/4 mb-2" />
@@ -138,7 +135,8 @@ export function ProductGrid({ config, storeId, storeSlug }: ProductGridProps) {
                   <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
                     {product.name}
                   </h3>
-                  {showPrices && (
+                  <RatingSummaryLine summary={ratings[product.id]} className="mt-1" />
+                  {showPrice && (
                     <div className="flex items-center gap-2 mt-1">
                       <span className="text-foreground font-semibold">
                         ${product.price.toFixed(2)}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStorefrontPreview } from "@/contexts/StorefrontPreviewContext";
+import { ReviewCard } from "@/components/storefront/ReviewCard";
+import type { ProductReview } from "@/hooks/useProductReviews";
+import type { ProductReviewsConfig } from "@/components/store-builder/types";
+
+interface ProductReviewsProps {
+  config: Partial<ProductReviewsConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+/**
+ * Latest approved reviews from across the store, each linking to its
+ * product. Hidden until the store has reviews at or above minRating; the
+ * builder preview shows a hint instead.
+ */
+export function ProductReviews({ config, storeId, storeSlug }: ProductReviewsProps) {
+  const {
+    title = "Customer Reviews",
+    subtitle,
+    reviewCount: limit = 6,
+    minRating = 1,
+    showPhotos = true,
+  } = config;
+
+  const { isPreview } = useStorefrontPreview();
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchReviews() {
+      const { data } = await supabase.rpc("get_product_reviews", {
+        p_store_id: storeId,
+        p_min_rating: minRating,
+        p_limit: limit,
+      });
+
+      setReviews(data || []);
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchReviews();
+    }
+  }, [storeId, minRating, limit]);
+
+  if (!loading && reviews.length === 0 && !isPreview) {
+    return null;
+  }
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {Array.from({ length: Math.min(limit, 6) }).map((_, i) => (
+              <div key={i} className="animate-pulse rounded-xl border p-6 space-y-3">
+                <div className="h-4 bg-muted rounded w-1/3" />
+                <div className="h-4 bg-muted rounded w-1/2" />
+                <div className="h-16 bg-muted rounded w-full" />
+              </div>
+            ))}
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-muted-foreground">
+            Approved product reviews will appear here
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {reviews.map((review) => (
+              <div key={review.id} className="rounded-xl border bg-card p-6">
+                <ReviewCard
+                  review={review}
+                  showPhotos={showPhotos}
+                  productLink={`/store/${storeSlug}/product/${review.product_slug}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
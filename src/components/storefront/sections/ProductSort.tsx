@@ -0,0 +1,71 @@
+import { useSearchParams } from "react-router-dom";
+import { ArrowUpDown } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PRODUCT_SORT_OPTIONS, LISTING_PARAMS, readListingFilters } from "@/lib/productListing";
+import type { ProductSortConfig } from "@/components/store-builder/types";
+
+interface ProductSortProps {
+  config: Partial<ProductSortConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+/**
+ * Sort control for the page's product listing. Writes the ?sort= param the
+ * built-in product and category listings read (see lib/productListing).
+ */
+export function ProductSort({ config }: ProductSortProps) {
+  const {
+    label = "Sort by",
+    options,
+    alignment = "right",
+  } = config;
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { sort } = readListingFilters(searchParams);
+
+  const available = options?.length
+    ? PRODUCT_SORT_OPTIONS.filter((option) => options.includes(option.value))
+    : PRODUCT_SORT_OPTIONS;
+
+  const handleChange = (value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set(LISTING_PARAMS.sort, value);
+    setSearchParams(newParams);
+  };
+
+  const justify = {
+    left: "justify-start",
+    center: "justify-center",
+    right: "justify-end",
+  }[alignment];
+
+  return (
+    <section className="py-4 px-6 bg-background">
+      <div className={`max-w-storefront mx-auto flex items-center gap-3 ${justify}`}>
+        <span className="text-sm text-muted-foreground flex items-center gap-2">
+          <ArrowUpDown className="w-4 h-4" />
+          {label}
+        </span>
+        <Select value={sort} onValueChange={handleChange}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </section>
+  );
+}
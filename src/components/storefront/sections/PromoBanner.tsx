@@ -1,16 +1,8 @@
 import { Button } from "@/components/ui/button";
-
-interface PromoBannerConfig {
-  title?: string;
-  subtitle?: string;
-  badge?: string;
-  buttonText?: string;
-  buttonUrl?: string;
-  backgroundImage?: string;
-}
+import type { PromoBannerConfig } from "@/components/store-builder/types";
 
 interface PromoBannerProps {
-  config: PromoBannerConfig;
+  config: Partial<PromoBannerConfig>;
 }
 
 export function PromoBanner({ config }: PromoBannerProps) {
@@ -19,13 +11,13 @@ export function PromoBanner({ config }: PromoBannerProps) {
     subtitle = "Limited time only",
     badge,
     buttonText = "Shop Now",
-    buttonUrl,
+    buttonLink,
     backgroundImage,
   } = config;
 
   return (
     <section
-      className="relative py-16 px-6 overflow-hidden"
+      className="relative py-section px-6 overflow-hidden"
       style={{
         backgroundImage: backgroundImage ? `url(${backgroundImage})` : undefined,
         backgroundSize: "cover",
@@ -53,12 +45,8 @@ export function PromoBanner({ config }: PromoBannerProps) {
           </p>
         )}
         {buttonText && (
-          <Button
-            size="lg"
-            className="bg-white text-primary hover:bg-white/90"
-            onClick={() => buttonUrl && (window.location.href = buttonUrl)}
-          >
-            {buttonText}
+          <Button size="lg" className="bg-white text-primary hover:bg-white/90" asChild>
+            <a href={buttonLink || "#"}>{buttonText}</a>
           </Button>
         )}
       </div>
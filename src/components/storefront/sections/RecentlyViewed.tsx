@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { useStorefrontPreview } from "@/contexts/StorefrontPreviewContext";
+import { getRecentlyViewed } from "@/lib/recentlyViewed";
+import type { RecentlyViewedConfig } from "@/components/store-builder/types";
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+}
+
+interface RecentlyViewedProps {
+  config: Partial<RecentlyViewedConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+/**
+ * Products this shopper opened recently (kept in their browser, see
+ * lib/recentlyViewed), most recent first. Hidden until they have viewed
+ * something; the builder preview shows a hint instead.
+ */
+export function RecentlyViewed({ config, storeId, storeSlug }: RecentlyViewedProps) {
+  const {
+    title = "Recently Viewed",
+    subtitle,
+    columns = 4,
+    productCount: limit = 4,
+    showPrice = true,
+  } = config;
+
+  const { isPreview } = useStorefrontPreview();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchRecentlyViewed() {
+      const ids = getRecentlyViewed(storeId);
+      if (ids.length === 0) {
+        setProducts([]);
+        setLoading(false);
+        return;
+      }
+
+      const { data } = await supabase
+        .from("products")
+        .select("id, name, slug, price, compare_at_price, images")
+        .eq("store_id", storeId)
+        .eq("status", "active")
+        .in("id", ids);
+
+      // Most recently viewed first; removed or archived products drop out
+      const byId = new Map(((data as Product[]) || []).map((p) => [p.id, p]));
+      setProducts(
+        ids
+          .map((id) => byId.get(id))
+          .filter((p): p is Product => !!p)
+          .slice(0, limit)
+      );
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchRecentlyViewed();
+    }
+  }, [storeId, limit]);
+
+  const gridCols = {
+    2: "grid-cols-2",
+    3: "grid-cols-2 md:grid-cols-3",
+    4: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    5: "grid-cols-2 md:grid-cols-3 lg:grid-cols-5",
+  }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+
+  if (!loading && products.length === 0 && !isPreview) {
+    return null;
+  }
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className={`grid ${gridCols} gap-6`}>
+            {Array.from({ length: Math.min(limit, 8) }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-muted rounded-lg mb-4" />
+                <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                <div className="h-4 bg-muted rounded w-1/4" />
+              </div>
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-center text-muted-foreground">
+            Products a shopper views will appear here
+          </p>
+        ) : (
+          <div className={`grid ${gridCols} gap-6`}>
+            {products.map((product) => {
+              const images = Array.isArray(product.images) ? product.images : [];
+              const imageUrl = images[0] || "/placeholder.svg";
+
+              return (
+                <Link
+                  key={product.id}
+                  to={`/store/${storeSlug}/product/${product.slug}`}
+                  className="group"
+                >
+                  <div className="aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                    <img
+                      src={imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                  </div>
+                  <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                    {product.name}
+                  </h3>
+                  {showPrice && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-foreground font-semibold">
+                        ${product.price.toFixed(2)}
+                      </span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-muted-foreground line-through text-sm">
+                          ${product.compare_at_price.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
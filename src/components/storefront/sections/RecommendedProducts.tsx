@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
+import { getRecentlyViewed } from "@/lib/recentlyViewed";
+import type { RecommendedProductsConfig } from "@/components/store-builder/types";
+
+interface Product {
+  id: string;
+  name: string;
+  slug: string;
+  price: number;
+  compare_at_price: number | null;
+  images: string[] | null;
+}
+
+interface RecommendedProductsProps {
+  config: Partial<RecommendedProductsConfig>;
+  storeId: string;
+  storeSlug: string;
+}
+
+const PRODUCT_COLUMNS = "id, name, slug, price, compare_at_price, images";
+
+/**
+ * Products from the categories the shopper has been browsing (their recently
+ * viewed products), leaving out what they already saw. Topped up with
+ * featured and then newest products, so new visitors see picks too.
+ */
+export function RecommendedProducts({ config, storeId, storeSlug }: RecommendedProductsProps) {
+  const {
+    title = "Recommended for You",
+    subtitle,
+    columns = 4,
+    productCount: limit = 4,
+    showPrice = true,
+  } = config;
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchRecommendations() {
+      const viewedIds = getRecentlyViewed(storeId);
+      let picks: Product[] = [];
+
+      if (viewedIds.length > 0) {
+        const { data: viewed } = await supabase
+          .from("products")
+          .select("category_id")
+          .eq("store_id", storeId)
+          .in("id", viewedIds);
+
+        const categoryIds = [...new Set((viewed || []).map((p) => p.category_id).filter((id): id is string => !!id))];
+
+        if (categoryIds.length > 0) {
+          const { data } = await supabase
+            .from("products")
+            .select(PRODUCT_COLUMNS)
+            .eq("store_id", storeId)
+            .eq("status", "active")
+            .in("category_id", categoryIds)
+            .not("id", "in", `(${viewedIds.join(",")})`)
+            .order("featured", { ascending: false, nullsFirst: false })
+            .order("created_at", { ascending: false })
+            .limit(limit);
+
+          picks = (data as Product[]) || [];
+        }
+      }
+
+      if (picks.length < limit) {
+        const exclude = [...viewedIds, ...picks.map((p) => p.id)];
+        let query = supabase
+          .from("products")
+          .select(PRODUCT_COLUMNS)
+          .eq("store_id", storeId)
+          .eq("status", "active");
+
+        if (exclude.length > 0) {
+          query = query.not("id", "in", `(${exclude.join(",")})`);
+        }
+
+        const { data } = await query
+          .order("featured", { ascending: false, nullsFirst: false })
+          .order("created_at", { ascending: false })
+          .limit(limit - picks.length);
+
+        picks = [...picks, ...((data as Product[]) || [])];
+      }
+
+      setProducts(picks);
+      setLoading(false);
+    }
+
+    if (storeId) {
+      fetchRecommendations();
+    }
+  }, [storeId, limit]);
+
+  const gridCols = {
+    2: "grid-cols-2",
+    3: "grid-cols-2 md:grid-cols-3",
+    4: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    5: "grid-cols-2 md:grid-cols-3 lg:grid-cols-5",
+  }[columns] || "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {title}
+          </h2>
+          {subtitle && (
+            <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+              {subtitle}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className={`grid ${gridCols} gap-6`}>
+            {Array.from({ length: Math.min(limit, 8) }).map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-muted rounded-lg mb-4" />
+                <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                <div className="h-4 bg-muted rounded w-1/4" />
+              </div>
+            ))}
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-center text-muted-foreground">No products yet</p>
+        ) : (
+          <div className={`grid ${gridCols} gap-6`}>
+            {products.map((product) => {
+              const images = Array.isArray(product.images) ? product.images : [];
+              const imageUrl = images[0] || "/placeholder.svg";
+
+              return (
+                <Link
+                  key={product.id}
+                  to={`/store/${storeSlug}/product/${product.slug}`}
+                  className="group"
+                >
+                  <div className="aspect-square bg-muted rounded-lg overflow-hidden mb-4">
+                    <img
+                      src={imageUrl}
+                      alt={product.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                  </div>
+                  <h3 className="font-medium text-foreground group-hover:text-primary transition-colors">
+                    {product.name}
+                  </h3>
+                  {showPrice && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-foreground font-semibold">
+                        ${product.price.toFixed(2)}
+                      </span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-muted-foreground line-through text-sm">
+                          ${product.compare_at_price.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
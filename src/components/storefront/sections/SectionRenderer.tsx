@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import type { SectionType } from "@/components/store-builder/types";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { SECTION_REGISTRY, getSectionConfig, mergeMobileConfig } from "./registry";
+
+interface SectionRendererProps {
+  type: SectionType;
+  config: unknown;
+  mobileConfig?: unknown;
+  storeId: string;
+  storeSlug: string;
+}
+
+/**
+ * Renders a page section with its registered component.
+ * Below the mobile breakpoint the section's mobile overrides are merged over
+ * its config; in the builder preview the iframe is device-sized, so mobile
+ * preview uses the same breakpoint.
+ * Renders nothing for section types without a storefront component.
+ */
+export function SectionRenderer({ type, config, mobileConfig, storeId, storeSlug }: SectionRendererProps) {
+  const isMobile = useIsMobile();
+  const sectionConfig = useMemo(
+    () => getSectionConfig(type, isMobile ? mergeMobileConfig(config, mobileConfig) : config),
+    [type, config, mobileConfig, isMobile]
+  );
+  const Component = SECTION_REGISTRY[type]?.component;
+
+  if (!Component) return null;
+
+  return <Component config={sectionConfig} storeId={storeId} storeSlug={storeSlug} />;
+}
@@ -0,0 +1,122 @@
+import { Facebook, Instagram, Music2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { SocialFeedConfig } from "@/components/store-builder/types";
+
+interface SocialFeedProps {
+  config: Partial<SocialFeedConfig>;
+}
+
+const PLATFORM_ICONS = {
+  instagram: Instagram,
+  facebook: Facebook,
+  tiktok: Music2,
+};
+
+/**
+ * Grid of social posts the merchant added in the builder (image, caption and
+ * a link to the original post), with a follow link to their profile
+ */
+export function SocialFeed({ config }: SocialFeedProps) {
+  const {
+    title = "Follow Us",
+    subtitle,
+    platform = "instagram",
+    handle,
+    profileUrl,
+    posts: allPosts = [],
+    columns = 4,
+    showCaptions = true,
+  } = config;
+
+  // Posts are added before their image URL is filled in
+  const posts = allPosts.filter((post) => post.imageUrl);
+  const PlatformIcon = PLATFORM_ICONS[platform] || Instagram;
+
+  const gridCols = {
+    2: "grid-cols-2",
+    3: "grid-cols-2 md:grid-cols-3",
+    4: "grid-cols-2 md:grid-cols-4",
+    6: "grid-cols-3 md:grid-cols-6",
+  }[columns] || "grid-cols-2 md:grid-cols-4";
+
+  const header = (
+    <div className="text-center mb-12">
+      <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+        {title}
+      </h2>
+      {subtitle && (
+        <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+          {subtitle}
+        </p>
+      )}
+      {handle && profileUrl && (
+        <Button variant="outline" className="mt-6 gap-2" asChild>
+          <a href={profileUrl} target="_blank" rel="noopener noreferrer">
+            <PlatformIcon className="w-4 h-4" />
+            {handle}
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+
+  if (posts.length === 0) {
+    return (
+      <section className="py-section px-6 bg-background">
+        <div className="max-w-storefront mx-auto">
+          {header}
+          <p className="text-center text-muted-foreground">No posts yet</p>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="py-section px-6 bg-background">
+      <div className="max-w-storefront mx-auto">
+        {header}
+
+        <div className={`grid ${gridCols} gap-4`}>
+          {posts.map((post, index) => {
+            const content = (
+              <>
+                <img
+                  src={post.imageUrl}
+                  alt={post.caption || `Post ${index + 1}`}
+                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                />
+                <div className="absolute inset-0 bg-black/0 group-hover:bg-black/50 transition-colors flex flex-col items-center justify-center p-4 text-center">
+                  <PlatformIcon className="w-6 h-6 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
+                  {showCaptions && post.caption && (
+                    <p className="mt-2 text-sm text-white line-clamp-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {post.caption}
+                    </p>
+                  )}
+                </div>
+              </>
+            );
+
+            return post.link ? (
+              <a
+                key={post.id || index}
+                href={post.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative aspect-square block rounded-lg overflow-hidden bg-muted group"
+              >
+                {content}
+              </a>
+            ) : (
+              <div
+                key={post.id || index}
+                className="relative aspect-square rounded-lg overflow-hidden bg-muted group"
+              >
+                {content}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+}
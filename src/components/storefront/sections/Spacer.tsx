@@ -1,9 +1,7 @@
-interface SpacerConfig {
-  height?: string;
-}
+import type { SpacerConfig } from "@/components/store-builder/types";
 
 interface SpacerProps {
-  config: SpacerConfig;
+  config: Partial<SpacerConfig>;
 }
 
 export function Spacer({ config }: SpacerProps) {
@@ -1,21 +1,8 @@
-import { Quote } from "lucide-react";
-
-interface Testimonial {
-  quote?: string;
-  author?: string;
-  role?: string;
-  avatar?: string;
-}
-
-interface TestimonialsConfig {
-  title?: string;
-  subtitle?: string;
-  testimonials?: Testimonial[];
-  columns?: number;
-}
+import { Quote, Star } from "lucide-react";
+import type { TestimonialsConfig } from "@/components/store-builder/types";
 
 interface TestimonialsProps {
-  config: TestimonialsConfig;
+  config: Partial<TestimonialsConfig>;
 }
 
 export function Testimonials({ config }: TestimonialsProps) {
@@ -23,19 +10,20 @@ export function Testimonials({ config }: TestimonialsProps) {
     title = "What Our Customers Say",
     subtitle,
     testimonials = [],
-    columns = 3,
+    layout = "grid",
   } = config;
 
-  const gridCols = {
-    2: "grid-cols-1 md:grid-cols-2",
-    3: "grid-cols-1 md:grid-cols-2 lg:grid-cols-3",
-    4: "grid-cols-1 md:grid-cols-2 lg:grid-cols-4",
-  }[columns] || "grid-cols-1 md:grid-cols-2 lg:grid-cols-3";
+  // Carousel scrolls horizontally with snapping; grid wraps
+  const isCarousel = layout === "carousel";
+  const listClass = isCarousel
+    ? "flex gap-8 overflow-x-auto snap-x snap-mandatory pb-4"
+    : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8";
+  const cardClass = isCarousel ? "shrink-0 snap-start w-full md:w-[45%] lg:w-[30%]" : "";
 
   if (testimonials.length === 0) {
     return (
-      <section className="py-16 px-6 bg-muted/30">
-        <div className="max-w-7xl mx-auto text-center">
+      <section className="py-section px-6 bg-muted/30">
+        <div className="max-w-storefront mx-auto text-center">
           <h2 className="text-3xl font-bold text-foreground mb-4">{title}</h2>
           <p className="text-muted-foreground">No testimonials yet</p>
         </div>
@@ -44,8 +32,8 @@ export function Testimonials({ config }: TestimonialsProps) {
   }
 
   return (
-    <section className="py-16 px-6 bg-muted/30">
-      <div className="max-w-7xl mx-auto">
+    <section className="py-section px-6 bg-muted/30">
+      <div className="max-w-storefront mx-auto">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
             {title}
@@ -57,13 +45,25 @@ export function Testimonials({ config }: TestimonialsProps) {
           )}
         </div>
 
-        <div className={`grid ${gridCols} gap-8`}>
+        <div className={listClass}>
           {testimonials.map((testimonial, index) => (
             <div
-              key={index}
-              className="bg-background rounded-xl p-6 shadow-sm border"
+              key={testimonial.id || index}
+              className={`bg-background rounded-xl p-6 shadow-sm border ${cardClass}`}
             >
               <Quote className="w-8 h-8 text-primary/30 mb-4" />
+              {testimonial.rating && (
+                <div className="flex gap-0.5 mb-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Star
+                      key={i}
+                      className={`w-4 h-4 ${
+                        i < testimonial.rating! ? "text-yellow-500 fill-yellow-500" : "text-muted-foreground/30"
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
               <p className="text-foreground mb-6 italic">
                 "{testimonial.quote || 'Great products and service!'}"
               </p>
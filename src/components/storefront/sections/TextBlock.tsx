@@ -1,12 +1,7 @@
-interface TextBlockConfig {
-  title?: string;
-  content?: string;
-  alignment?: string;
-  backgroundColor?: string;
-}
+import type { TextBlockConfig } from "@/components/store-builder/types";
 
 interface TextBlockProps {
-  config: TextBlockConfig;
+  config: Partial<TextBlockConfig>;
 }
 
 export function TextBlock({ config }: TextBlockProps) {
@@ -14,6 +9,7 @@ export function TextBlock({ config }: TextBlockProps) {
     title,
     content = "",
     alignment = "center",
+    maxWidth = "large",
   } = config;
 
   const alignmentClass = {
@@ -22,9 +18,16 @@ export function TextBlock({ config }: TextBlockProps) {
     right: "text-right",
   }[alignment] || "text-center";
 
+  const maxWidthClass = {
+    small: "max-w-xl",
+    medium: "max-w-3xl",
+    large: "max-w-4xl",
+    full: "max-w-none",
+  }[maxWidth] || "max-w-4xl";
+
   return (
-    <section className="py-16 px-6 bg-background">
-      <div className={`max-w-4xl mx-auto ${alignmentClass}`}>
+    <section className="py-section px-6 bg-background">
+      <div className={`${maxWidthClass} mx-auto ${alignmentClass}`}>
         {title && (
           <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-6">
             {title}
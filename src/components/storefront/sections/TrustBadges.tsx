@@ -1,28 +1,21 @@
-import { Shield, Truck, RefreshCw, CreditCard, Award, Clock } from "lucide-react";
+import { ShieldCheck, Truck, RotateCcw, Lock, CreditCard, Award, Clock } from "lucide-react";
+import type { TrustBadgesConfig } from "@/components/store-builder/types";
 
-interface Badge {
-  icon?: string;
-  title?: string;
-  description?: string;
-}
-
-interface TrustBadgesConfig {
-  title?: string;
-  badges?: Badge[];
-  columns?: number;
-}
+type Badge = Partial<TrustBadgesConfig["badges"][number]>;
 
 interface TrustBadgesProps {
-  config: TrustBadgesConfig;
+  config: Partial<TrustBadgesConfig>;
 }
 
+// Keys are the icon names offered in the section editor
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
-  shield: Shield,
-  truck: Truck,
-  refresh: RefreshCw,
-  credit: CreditCard,
-  award: Award,
-  clock: Clock,
+  ShieldCheck,
+  Truck,
+  RotateCcw,
+  Lock,
+  CreditCard,
+  Award,
+  Clock,
 };
 
 export function TrustBadges({ config }: TrustBadgesProps) {
@@ -33,10 +26,10 @@ export function TrustBadges({ config }: TrustBadgesProps) {
   } = config;
 
   const defaultBadges: Badge[] = [
-    { icon: "truck", title: "Free Shipping", description: "On orders over $50" },
-    { icon: "shield", title: "Secure Payment", description: "100% protected" },
-    { icon: "refresh", title: "Easy Returns", description: "30-day returns" },
-    { icon: "clock", title: "24/7 Support", description: "Always here to help" },
+    { icon: "Truck", title: "Free Shipping", description: "On orders over $50" },
+    { icon: "ShieldCheck", title: "Secure Payment", description: "100% protected" },
+    { icon: "RotateCcw", title: "Easy Returns", description: "30-day returns" },
+    { icon: "Clock", title: "24/7 Support", description: "Always here to help" },
   ];
 
   const displayBadges = badges.length > 0 ? badges : defaultBadges;
@@ -50,7 +43,7 @@ export function TrustBadges({ config }: TrustBadgesProps) {
 
   return (
     <section className="py-12 px-6 bg-muted/30 border-y">
-      <div className="max-w-7xl mx-auto">
+      <div className="max-w-storefront mx-auto">
         {title && (
           <h2 className="text-2xl font-bold text-foreground text-center mb-8">
             {title}
@@ -59,10 +52,10 @@ export function TrustBadges({ config }: TrustBadgesProps) {
         
         <div className={`grid ${gridCols} gap-8`}>
           {displayBadges.map((badge, index) => {
-            const IconComponent = iconMap[badge.icon || "shield"] || Shield;
+            const IconComponent = iconMap[badge.icon || "ShieldCheck"] || ShieldCheck;
             
             return (
-              <div key={index} className="flex flex-col items-center text-center">
+              <div key={badge.id || index} className="flex flex-col items-center text-center">
                 <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mb-3">
                   <IconComponent className="w-7 h-7 text-primary" />
                 </div>
@@ -3,8 +3,17 @@ export { HeroBanner } from "./HeroBanner";
 export { HeroSlider } from "./HeroSlider";
 export { HeroVideo } from "./HeroVideo";
 export { ProductGrid } from "./ProductGrid";
+export { ProductCarousel } from "./ProductCarousel";
 export { FeaturedProducts } from "./FeaturedProducts";
+export { NewArrivals } from "./NewArrivals";
+export { BestSellers } from "./BestSellers";
+export { RecentlyViewed } from "./RecentlyViewed";
+export { RecommendedProducts } from "./RecommendedProducts";
+export { ProductReviews } from "./ProductReviews";
+export { ProductFilters } from "./ProductFilters";
+export { ProductSort } from "./ProductSort";
 export { CategoryGrid } from "./CategoryGrid";
+export { CategoryBanner } from "./CategoryBanner";
 export { Newsletter } from "./Newsletter";
 export { Testimonials } from "./Testimonials";
 export { FAQ } from "./FAQ";
@@ -16,5 +25,16 @@ export { ImageText } from "./ImageText";
 export { Gallery } from "./Gallery";
 export { PromoBanner } from "./PromoBanner";
 export { BrandLogos } from "./BrandLogos";
+export { SocialFeed } from "./SocialFeed";
+export { CustomHtml } from "./CustomHtml";
 export { Spacer } from "./Spacer";
 export { Divider } from "./Divider";
+export { SectionRenderer } from "./SectionRenderer";
+export {
+  SECTION_REGISTRY,
+  getDefaultSectionConfig,
+  getSectionConfig,
+  hasSectionComponent,
+  mergeMobileConfig,
+} from "./registry";
+export type { SectionComponentProps, SectionRegistryEntry } from "./registry";
@@ -0,0 +1,698 @@
+/**
+ * ============================================================================
+ * SECTION REGISTRY
+ * ============================================================================
+ *
+ * Single source of truth for how page sections render. Maps every SectionType
+ * to:
+ * - component: the storefront component (null = not rendered yet)
+ * - schema: zod schema of the config keys the component reads, which are the
+ *   keys SectionEditor writes
+ * - defaultConfig: the config a newly added section starts with
+ *
+ * StorePage renders every section through SectionRenderer, on the live
+ * storefront and inside the store builder's preview iframe, so the preview
+ * is the production component with the same config.
+ *
+ * A section's mobile_config overrides config keys below the mobile
+ * breakpoint (see mergeMobileConfig); both are validated the same way.
+ *
+ * Palette metadata (label, icon, category) stays in SECTION_DEFINITIONS
+ * (store-builder/constants.ts).
+ *
+ * HOW TO EXTEND (Adding a new section type):
+ * 1. Add the type to SectionType and SECTION_DEFINITIONS
+ * 2. Create the component in this directory
+ * 3. Register it below with its schema and default config
+ * 4. Add the field renderer in SectionEditor.tsx
+ *
+ * ============================================================================
+ */
+
+import type { ComponentType } from "react";
+import { z } from "zod";
+import type { SectionType } from "@/components/store-builder/types";
+import { HeroBanner } from "./HeroBanner";
+import { HeroSlider } from "./HeroSlider";
+import { HeroVideo } from "./HeroVideo";
+import { ProductGrid } from "./ProductGrid";
+import { ProductCarousel } from "./ProductCarousel";
+import { FeaturedProducts } from "./FeaturedProducts";
+import { NewArrivals } from "./NewArrivals";
+import { BestSellers } from "./BestSellers";
+import { RecentlyViewed } from "./RecentlyViewed";
+import { RecommendedProducts } from "./RecommendedProducts";
+import { ProductReviews } from "./ProductReviews";
+import { ProductFilters } from "./ProductFilters";
+import { ProductSort } from "./ProductSort";
+import { CategoryGrid } from "./CategoryGrid";
+import { CategoryBanner } from "./CategoryBanner";
+import { Newsletter } from "./Newsletter";
+import { Testimonials } from "./Testimonials";
+import { FAQ } from "./FAQ";
+import { TrustBadges } from "./TrustBadges";
+import { TextBlock } from "./TextBlock";
+import { AnnouncementBar } from "./AnnouncementBar";
+import { Countdown } from "./Countdown";
+import { ImageText } from "./ImageText";
+import { Gallery } from "./Gallery";
+import { PromoBanner } from "./PromoBanner";
+import { BrandLogos } from "./BrandLogos";
+import { SocialFeed } from "./SocialFeed";
+import { CustomHtml } from "./CustomHtml";
+import { Spacer } from "./Spacer";
+import { Divider } from "./Divider";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SectionConfigValues = Record<string, unknown>;
+
+/** Props every registered section component receives */
+export interface SectionComponentProps<C = SectionConfigValues> {
+  config: Partial<C>;
+  storeId: string;
+  storeSlug: string;
+}
+
+export interface SectionRegistryEntry {
+  component: ComponentType<SectionComponentProps> | null;
+  schema: z.AnyZodObject;
+  defaultConfig: SectionConfigValues;
+}
+
+/** Ties a component to the config type its schema and defaults describe */
+function defineSection<C>(entry: {
+  component: ComponentType<SectionComponentProps<C>> | null;
+  schema: z.AnyZodObject;
+  defaultConfig: Partial<C>;
+}): SectionRegistryEntry {
+  return entry as unknown as SectionRegistryEntry;
+}
+
+// ============================================================================
+// SHARED SCHEMA FIELDS
+// ============================================================================
+
+const text = z.string();
+const flag = z.boolean();
+const columns = z.number().int().min(1).max(6);
+const count = z.number().int().min(1).max(48);
+const alignment = z.enum(["left", "center", "right"]);
+const heroHeight = z.enum(["small", "medium", "large", "full"]);
+const overlay = z.number().min(0).max(100);
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const SECTION_REGISTRY: Record<SectionType, SectionRegistryEntry> = {
+  // Header/footer are rendered by StorefrontHeader/StorefrontFooter
+  header: defineSection({ component: null, schema: z.object({}), defaultConfig: {} }),
+  footer: defineSection({ component: null, schema: z.object({}), defaultConfig: {} }),
+
+  // Hero Sections
+  hero_banner: defineSection({
+    component: HeroBanner,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      buttonText: text,
+      buttonLink: text,
+      secondaryButtonText: text,
+      secondaryButtonLink: text,
+      backgroundImage: text,
+      backgroundOverlay: overlay,
+      textAlignment: alignment,
+      height: heroHeight,
+    }),
+    defaultConfig: {
+      title: "Welcome to Our Store",
+      subtitle: "Discover amazing products",
+      buttonText: "Shop Now",
+      buttonLink: "#products",
+      textAlignment: "center",
+      height: "large",
+      backgroundOverlay: 40,
+    },
+  }),
+  hero_slider: defineSection({
+    component: HeroSlider,
+    schema: z.object({
+      slides: z.array(z.object({
+        id: text.optional(),
+        title: text.optional(),
+        subtitle: text.optional(),
+        buttonText: text.optional(),
+        buttonLink: text.optional(),
+        backgroundImage: text.optional(),
+      })),
+      autoplay: flag,
+      interval: z.number().int().min(1000),
+      height: heroHeight,
+    }),
+    defaultConfig: {
+      slides: [
+        { id: "1", title: "Slide 1", subtitle: "First slide description" },
+        { id: "2", title: "Slide 2", subtitle: "Second slide description" },
+      ],
+      autoplay: true,
+      interval: 5000,
+    },
+  }),
+  hero_video: defineSection({
+    component: HeroVideo,
+    schema: z.object({
+      videoUrl: text,
+      title: text,
+      subtitle: text,
+      buttonText: text,
+      buttonLink: text,
+      backgroundOverlay: overlay,
+      autoplay: flag,
+      muted: flag,
+      loop: flag,
+    }),
+    defaultConfig: {
+      videoUrl: "",
+      title: "Watch Our Story",
+      muted: true,
+      loop: true,
+    },
+  }),
+
+  // Product Sections
+  featured_products: defineSection({
+    component: FeaturedProducts,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      columns,
+      showPrice: flag,
+      showAddToCart: flag,
+    }),
+    defaultConfig: {
+      title: "Featured Products",
+      productCount: 4,
+      columns: 4,
+      showPrice: true,
+      showAddToCart: true,
+    },
+  }),
+  product_grid: defineSection({
+    component: ProductGrid,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      categoryId: text,
+      columns,
+      rows: z.number().int().min(1).max(12),
+      productCount: count,
+      sortBy: z.enum(["created_at", "price_asc", "price_desc", "name"]),
+      showPrice: flag,
+      showAddToCart: flag,
+      showFilters: flag,
+    }),
+    defaultConfig: {
+      title: "Our Products",
+      columns: 4,
+      rows: 2,
+      showFilters: false,
+    },
+  }),
+  product_carousel: defineSection({
+    component: ProductCarousel,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      autoplay: flag,
+    }),
+    defaultConfig: {
+      title: "Popular Items",
+      productCount: 8,
+      autoplay: true,
+    },
+  }),
+  new_arrivals: defineSection({
+    component: NewArrivals,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      columns,
+      showPrice: flag,
+      showNewBadge: flag,
+      newWithinDays: z.number().int().min(1).max(365),
+    }),
+    defaultConfig: {
+      title: "New Arrivals",
+      productCount: 4,
+      columns: 4,
+      showNewBadge: true,
+      newWithinDays: 30,
+    },
+  }),
+  best_sellers: defineSection({
+    component: BestSellers,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      columns,
+      showPrice: flag,
+      period: z.enum(["7d", "30d", "90d", "all"]),
+    }),
+    defaultConfig: {
+      title: "Best Sellers",
+      productCount: 4,
+      columns: 4,
+      period: "30d",
+    },
+  }),
+
+  recently_viewed: defineSection({
+    component: RecentlyViewed,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      columns,
+      showPrice: flag,
+    }),
+    defaultConfig: {
+      title: "Recently Viewed",
+      productCount: 4,
+      columns: 4,
+    },
+  }),
+  recommended_products: defineSection({
+    component: RecommendedProducts,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      productCount: count,
+      columns,
+      showPrice: flag,
+    }),
+    defaultConfig: {
+      title: "Recommended for You",
+      productCount: 4,
+      columns: 4,
+    },
+  }),
+  product_reviews: defineSection({
+    component: ProductReviews,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      reviewCount: count,
+      minRating: z.number().int().min(1).max(5),
+      showPhotos: flag,
+    }),
+    defaultConfig: {
+      title: "Customer Reviews",
+      reviewCount: 6,
+      minRating: 4,
+      showPhotos: true,
+    },
+  }),
+
+  // Product Listing Controls
+  product_filters: defineSection({
+    component: ProductFilters,
+    schema: z.object({
+      title: text,
+      showPriceRange: flag,
+      showAvailability: flag,
+      showOnSale: flag,
+    }),
+    defaultConfig: {
+      title: "Filter",
+      showPriceRange: true,
+      showAvailability: true,
+      showOnSale: true,
+    },
+  }),
+  product_sort: defineSection({
+    component: ProductSort,
+    schema: z.object({
+      label: text,
+      options: z.array(z.enum(["newest", "price-asc", "price-desc", "name"])),
+      alignment,
+    }),
+    defaultConfig: {
+      label: "Sort by",
+      options: ["newest", "price-asc", "price-desc", "name"],
+      alignment: "right",
+    },
+  }),
+
+  // Category Sections
+  category_grid: defineSection({
+    component: CategoryGrid,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      categoryIds: z.array(text),
+      columns,
+      showDescription: flag,
+      showProductCount: flag,
+    }),
+    defaultConfig: {
+      title: "Shop by Category",
+      columns: 3,
+      showDescription: true,
+      showProductCount: true,
+    },
+  }),
+  category_banner: defineSection({
+    component: CategoryBanner,
+    schema: z.object({
+      categoryId: text,
+      title: text,
+      subtitle: text,
+      backgroundImage: text,
+      showProducts: flag,
+    }),
+    defaultConfig: {
+      showProducts: true,
+    },
+  }),
+
+  // Content Sections
+  text_block: defineSection({
+    component: TextBlock,
+    schema: z.object({
+      title: text,
+      content: text,
+      alignment,
+      maxWidth: z.enum(["small", "medium", "large", "full"]),
+    }),
+    defaultConfig: {
+      content: "<p>Add your content here...</p>",
+      alignment: "left",
+      maxWidth: "medium",
+    },
+  }),
+  image_text: defineSection({
+    component: ImageText,
+    schema: z.object({
+      title: text,
+      content: text,
+      imageUrl: text,
+      imagePosition: z.enum(["left", "right"]),
+      buttonText: text,
+      buttonLink: text,
+    }),
+    defaultConfig: {
+      title: "About Us",
+      content: "Tell your brand story...",
+      imageUrl: "",
+      imagePosition: "left",
+    },
+  }),
+  gallery: defineSection({
+    component: Gallery,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      images: z.array(z.object({
+        id: text.optional(),
+        url: text,
+        alt: text.optional(),
+        link: text.optional(),
+      })),
+      columns,
+      aspectRatio: z.enum(["square", "landscape", "portrait"]),
+    }),
+    defaultConfig: {
+      title: "Gallery",
+      images: [],
+      columns: 3,
+      aspectRatio: "square",
+    },
+  }),
+  testimonials: defineSection({
+    component: Testimonials,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      testimonials: z.array(z.object({
+        id: text.optional(),
+        quote: text.optional(),
+        author: text.optional(),
+        role: text.optional(),
+        avatar: text.optional(),
+        rating: z.number().int().min(1).max(5).optional(),
+      })),
+      layout: z.enum(["grid", "carousel"]),
+    }),
+    defaultConfig: {
+      title: "What Our Customers Say",
+      testimonials: [],
+      layout: "carousel",
+    },
+  }),
+  faq: defineSection({
+    component: FAQ,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      faqs: z.array(z.object({
+        id: text.optional(),
+        question: text.optional(),
+        answer: text.optional(),
+      })),
+    }),
+    defaultConfig: {
+      title: "Frequently Asked Questions",
+      faqs: [],
+    },
+  }),
+
+  // Marketing Sections
+  announcement_bar: defineSection({
+    component: AnnouncementBar,
+    schema: z.object({
+      text,
+      link: text,
+      linkText: text,
+      backgroundColor: text,
+      textColor: text,
+      dismissible: flag,
+    }),
+    defaultConfig: {
+      text: "Free shipping on orders over $50!",
+      dismissible: true,
+    },
+  }),
+  newsletter: defineSection({
+    component: Newsletter,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      buttonText: text,
+      backgroundColor: text,
+      successMessage: text,
+    }),
+    defaultConfig: {
+      title: "Stay Updated",
+      subtitle: "Subscribe to our newsletter for updates and offers",
+      buttonText: "Subscribe",
+      successMessage: "Thank you for subscribing!",
+    },
+  }),
+  countdown: defineSection({
+    component: Countdown,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      endDate: text,
+      backgroundImage: text,
+      buttonText: text,
+      buttonLink: text,
+      expiredMessage: text,
+    }),
+    defaultConfig: {
+      title: "Sale Ends In",
+      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      expiredMessage: "Sale has ended",
+    },
+  }),
+  promo_banner: defineSection({
+    component: PromoBanner,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      backgroundImage: text,
+      buttonText: text,
+      buttonLink: text,
+      badge: text,
+    }),
+    defaultConfig: {
+      title: "Special Offer",
+      subtitle: "Limited time only",
+      buttonText: "Shop Now",
+      badge: "SALE",
+    },
+  }),
+
+  // Social/Trust Sections
+  social_feed: defineSection({
+    component: SocialFeed,
+    schema: z.object({
+      title: text,
+      subtitle: text,
+      platform: z.enum(["instagram", "facebook", "tiktok"]),
+      handle: text,
+      profileUrl: text,
+      posts: z.array(z.object({
+        id: text.optional(),
+        imageUrl: text,
+        caption: text.optional(),
+        link: text.optional(),
+      })),
+      columns,
+      showCaptions: flag,
+    }),
+    defaultConfig: {
+      title: "Follow Us",
+      platform: "instagram",
+      posts: [],
+      columns: 4,
+      showCaptions: true,
+    },
+  }),
+  trust_badges: defineSection({
+    component: TrustBadges,
+    schema: z.object({
+      title: text,
+      badges: z.array(z.object({
+        id: text.optional(),
+        icon: text.optional(),
+        title: text.optional(),
+        description: text.optional(),
+      })),
+      columns,
+    }),
+    defaultConfig: {
+      title: "Why Shop With Us",
+      badges: [
+        { id: "1", icon: "Truck", title: "Free Shipping", description: "On orders over $50" },
+        { id: "2", icon: "RotateCcw", title: "Easy Returns", description: "30-day return policy" },
+        { id: "3", icon: "Lock", title: "Secure Checkout", description: "SSL encrypted" },
+      ],
+    },
+  }),
+  brand_logos: defineSection({
+    component: BrandLogos,
+    schema: z.object({
+      title: text,
+      logos: z.array(z.object({
+        id: text.optional(),
+        imageUrl: text,
+        alt: text.optional(),
+        link: text.optional(),
+      })),
+      grayscale: flag,
+    }),
+    defaultConfig: {
+      title: "Our Partners",
+      logos: [],
+      grayscale: true,
+    },
+  }),
+
+  // Layout Elements
+  custom_html: defineSection({
+    component: CustomHtml,
+    schema: z.object({
+      html: text,
+      css: text,
+    }),
+    defaultConfig: {
+      html: "<div>Custom content here</div>",
+    },
+  }),
+  spacer: defineSection({
+    component: Spacer,
+    schema: z.object({
+      height: z.enum(["small", "medium", "large", "xlarge"]),
+    }),
+    defaultConfig: {
+      height: "medium",
+    },
+  }),
+  divider: defineSection({
+    component: Divider,
+    schema: z.object({
+      style: z.enum(["solid", "dashed", "dotted"]),
+      color: text,
+      width: z.enum(["full", "container", "narrow"]),
+    }),
+    defaultConfig: {
+      style: "solid",
+      width: "container",
+    },
+  }),
+};
+
+// ============================================================================
+// CONFIG HELPERS
+// ============================================================================
+
+/**
+ * Config for a newly added section
+ */
+export function getDefaultSectionConfig(type: SectionType): SectionConfigValues {
+  return structuredClone(SECTION_REGISTRY[type]?.defaultConfig || {});
+}
+
+/**
+ * Stored config validated against the section's schema and merged over its
+ * defaults. Invalid values fall back to the default and keys the schema does
+ * not know are dropped, so components only see well-formed config.
+ */
+export function getSectionConfig(type: SectionType, config: unknown): SectionConfigValues {
+  const entry = SECTION_REGISTRY[type];
+  if (!entry) return {};
+
+  const stored = config && typeof config === "object" && !Array.isArray(config)
+    ? (config as SectionConfigValues)
+    : {};
+  const valid: SectionConfigValues = {};
+
+  Object.entries(stored).forEach(([key, value]) => {
+    const field = entry.schema.shape[key] as z.ZodTypeAny | undefined;
+    if (!field) return;
+
+    const result = field.safeParse(value);
+    if (result.success) valid[key] = result.data;
+  });
+
+  return { ...entry.defaultConfig, ...valid };
+}
+
+/**
+ * Config with the section's mobile overrides applied over it. Overrides are
+ * plain config keys, so they are validated by getSectionConfig like any
+ * other value.
+ */
+export function mergeMobileConfig(config: unknown, mobileConfig: unknown): unknown {
+  if (!mobileConfig || typeof mobileConfig !== "object" || Array.isArray(mobileConfig)) {
+    return config;
+  }
+
+  const base = config && typeof config === "object" && !Array.isArray(config) ? config : {};
+  return { ...base, ...mobileConfig };
+}
+
+/**
+ * Whether the storefront renders this section type
+ */
+export function hasSectionComponent(type: SectionType) {
+  return !!SECTION_REGISTRY[type]?.component;
+}
@@ -51,6 +51,8 @@ type UserRole = 'super_admin' | 'store_admin' | 'store_staff' | 'customer';
  * @property signIn - Sign in with email and password
  * @property signUp - Create new account with optional full name
  * @property signOut - Sign out current user
+ * @property resetPassword - Email a password reset link
+ * @property updatePassword - Set a new password (after following a reset link)
  */
 interface AuthContextType {
   user: User | null;
@@ -59,8 +61,10 @@ interface AuthContextType {
   roles: UserRole[];
   isSuperAdmin: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName?: string) => Promise<{ error: Error | null }>;
+  signUp: (email: string, password: string, fullName?: string, redirectTo?: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  resetPassword: (email: string, redirectTo: string) => Promise<{ error: Error | null }>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -157,9 +161,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    * Create a new user account
    * Optionally stores full_name in user metadata
    * The handle_new_user() trigger creates profile and assigns 'customer' role
+   * Storefront sign-ups pass redirectTo so the confirmation link returns to the store
    */
-  const signUp = async (email: string, password: string, fullName?: string) => {
-    const redirectUrl = `${window.location.origin}/`;
+  const signUp = async (email: string, password: string, fullName?: string, redirectTo?: string) => {
+    const redirectUrl = redirectTo || `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
       email,
@@ -183,6 +188,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setRoles([]);
   };
 
+  /**
+   * Send a password reset email
+   * The link signs the user in and lands on redirectTo, where they choose a new password
+   */
+  const resetPassword = async (email: string, redirectTo: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+    return { error };
+  };
+
+  /**
+   * Change the signed-in user's password
+   */
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    return { error };
+  };
+
   // Convenience computed value for super admin checks
   const isSuperAdmin = roles.includes('super_admin');
 
@@ -197,6 +219,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signIn,
         signUp,
         signOut,
+        resetPassword,
+        updatePassword,
       }}
     >
       {children}
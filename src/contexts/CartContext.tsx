@@ -22,6 +22,11 @@
  * This persists across page refreshes and browser sessions.
  * Note: Cart is NOT tied to user account (anonymous cart).
  * 
+ * DISCOUNT CODE:
+ * The code a shopper enters in the cart is kept here (localStorage key
+ * 'cart_discount_code') so it carries over to checkout. The discount
+ * amount itself is always computed by the database - see useDiscountCode.
+ * 
  * USAGE:
  * ```tsx
  * const { items, addToCart, cartTotal } = useCart();
@@ -42,6 +47,7 @@
  */
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { emitStorefrontEvent, toAnalyticsItem } from '@/lib/storefrontEvents';
 
 /**
  * Cart item data structure
@@ -54,7 +60,7 @@ import { createContext, useContext, useState, useEffect, ReactNode } from 'react
  * @property quantity - Number of this item in cart
  * @property image - Product image URL for cart display
  */
-interface CartItem {
+export interface CartItem {
   productId: string;
   variantId: string | null;
   name: string;
@@ -74,6 +80,8 @@ interface CartItem {
  * @property clearCart - Empty the cart
  * @property cartItemCount - Total number of items (sum of quantities)
  * @property cartTotal - Total price of all items
+ * @property discountCode - Discount code entered by the shopper (null if none)
+ * @property setDiscountCode - Set or clear the discount code
  */
 interface CartContextType {
   items: CartItem[];
@@ -83,6 +91,8 @@ interface CartContextType {
   clearCart: () => void;
   cartItemCount: number;
   cartTotal: number;
+  discountCode: string | null;
+  setDiscountCode: (code: string | null) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -102,11 +112,26 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return [];
   });
 
+  const [discountCode, setDiscountCode] = useState<string | null>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('cart_discount_code');
+    }
+    return null;
+  });
+
   // Sync cart to localStorage whenever items change
   useEffect(() => {
     localStorage.setItem('cart', JSON.stringify(items));
   }, [items]);
 
+  useEffect(() => {
+    if (discountCode) {
+      localStorage.setItem('cart_discount_code', discountCode);
+    } else {
+      localStorage.removeItem('cart_discount_code');
+    }
+  }, [discountCode]);
+
   /**
    * Add an item to the cart
    * If item already exists (same productId + variantId), increment quantity
@@ -132,6 +157,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
       // Item doesn't exist - add to cart
       return [...prevItems, newItem];
     });
+
+    emitStorefrontEvent({
+      name: 'add_to_cart',
+      value: newItem.price * newItem.quantity,
+      items: [toAnalyticsItem(newItem)],
+    });
   };
 
   /**
@@ -165,11 +196,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   /**
-   * Clear all items from the cart
+   * Clear all items (and any discount code) from the cart
    * Typically called after successful checkout
    */
   const clearCart = () => {
     setItems([]);
+    setDiscountCode(null);
   };
 
   // ================================================================
@@ -192,6 +224,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
         clearCart,
         cartItemCount,
         cartTotal,
+        discountCode,
+        setDiscountCode,
       }}
     >
       {children}
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * STOREFRONT PREVIEW CONTEXT
+ * ============================================================================
+ *
+ * Lets the storefront run as the store builder's live preview. Mounted by
+ * StorefrontLayout; only active when the route is loaded in the builder's
+ * iframe with `?preview=1` (see src/lib/storefrontPreview.ts).
+ *
+ * In preview mode the page, sections and theme come from the builder over
+ * postMessage instead of the database, so unsaved and unpublished edits show
+ * up immediately. Outside the builder it does nothing.
+ *
+ * USAGE:
+ * ```tsx
+ * const { isPreview, state, selectSection } = useStorefrontPreview();
+ * ```
+ *
+ * ============================================================================
+ */
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import {
+  isPreviewMessage,
+  postPreviewMessage,
+  type PreviewState,
+} from '@/lib/storefrontPreview';
+
+interface StorefrontPreviewContextType {
+  isPreview: boolean;
+  /** Latest state from the builder; null until it arrives */
+  state: PreviewState | null;
+  selectSection: (sectionId: string) => void;
+}
+
+const StorefrontPreviewContext = createContext<StorefrontPreviewContextType | undefined>(undefined);
+
+interface StorefrontPreviewProviderProps {
+  enabled: boolean;
+  children: ReactNode;
+}
+
+export function StorefrontPreviewProvider({ enabled, children }: StorefrontPreviewProviderProps) {
+  const [state, setState] = useState<PreviewState | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (!isPreviewMessage(event, window.parent)) return;
+      if (event.data.type === 'preview:state') {
+        setState(event.data.state);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    postPreviewMessage(window.parent, { type: 'preview:ready' });
+
+    return () => window.removeEventListener('message', handleMessage);
+  }, [enabled]);
+
+  const selectSection = useCallback((sectionId: string) => {
+    postPreviewMessage(window.parent, { type: 'preview:select', sectionId });
+  }, []);
+
+  return (
+    <StorefrontPreviewContext.Provider value={{ isPreview: enabled, state, selectSection }}>
+      {children}
+    </StorefrontPreviewContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the builder preview state
+ * Must be used within StorefrontPreviewProvider
+ */
+export function useStorefrontPreview() {
+  const context = useContext(StorefrontPreviewContext);
+  if (context === undefined) {
+    throw new Error('useStorefrontPreview must be used within a StorefrontPreviewProvider');
+  }
+  return context;
+}
@@ -0,0 +1,135 @@
+/**
+ * ============================================================================
+ * STOREFRONT THEME CONTEXT
+ * ============================================================================
+ *
+ * Applies a store's published theme to every storefront route. Mounted once by
+ * StorefrontLayout, so the theme is loaded once per store and stays applied
+ * while shoppers navigate between pages, catalog, product, cart and checkout.
+ *
+ * ARCHITECTURE:
+ * - The theme is read from the store's published version
+ *   (get_published_store_version()), so theme edits in the builder stay
+ *   drafts until the store is published
+ * - Colors, fonts, radius and spacing become CSS variables on a wrapper
+ *   element (see src/lib/storefrontTheme.ts)
+ * - Fonts are loaded from Google Fonts while the storefront is mounted
+ * - The theme's custom_css is sanitized and scoped to the wrapper
+ * - Nothing is written to <html>/<body>, so leaving the storefront (e.g. to
+ *   the dashboard) leaves no theme behind
+ * - In the store builder's preview iframe the theme is taken from the
+ *   builder instead of the database (see StorefrontPreviewContext)
+ *
+ * USAGE:
+ * ```tsx
+ * <StorefrontThemeProvider storeSlug={storeSlug}>
+ *   <Outlet />
+ * </StorefrontThemeProvider>
+ *
+ * const { theme } = useStorefrontTheme();
+ * ```
+ *
+ * ============================================================================
+ */
+
+import { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useThemeFonts } from '@/hooks/useThemeFonts';
+import { useStorefrontPreview } from '@/contexts/StorefrontPreviewContext';
+import { getThemeStyle, scopeCustomCss, type ThemeTokens } from '@/lib/storefrontTheme';
+
+export interface StorefrontTheme extends ThemeTokens {
+  custom_css: string | null;
+}
+
+interface StorefrontThemeContextType {
+  theme: StorefrontTheme | null;
+  loading: boolean;
+}
+
+const StorefrontThemeContext = createContext<StorefrontThemeContextType | undefined>(undefined);
+
+interface StorefrontThemeProviderProps {
+  storeSlug: string | undefined;
+  children: ReactNode;
+}
+
+export function StorefrontThemeProvider({ storeSlug, children }: StorefrontThemeProviderProps) {
+  const preview = useStorefrontPreview();
+  const [fetchedTheme, setTheme] = useState<StorefrontTheme | null>(null);
+  const [fetchLoading, setLoading] = useState(true);
+
+  // In the builder preview the theme (including unsaved edits) comes from the builder
+  const previewTheme = preview.state?.theme;
+  const theme = useMemo<StorefrontTheme | null>(() => {
+    if (!preview.isPreview) return fetchedTheme;
+    return previewTheme ? { ...previewTheme, custom_css: previewTheme.custom_css ?? null } : null;
+  }, [preview.isPreview, previewTheme, fetchedTheme]);
+  const loading = preview.isPreview ? !preview.state : fetchLoading;
+
+  useEffect(() => {
+    if (!storeSlug || preview.isPreview) return;
+
+    let cancelled = false;
+
+    const fetchTheme = async () => {
+      setLoading(true);
+
+      try {
+        const { data, error } = await supabase.rpc('get_published_store_version', { p_store_slug: storeSlug });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        const published = (data as { theme?: Partial<ThemeTokens> & { custom_css?: string | null } } | null)?.theme;
+
+        setTheme(published ? {
+          colors: published.colors || {},
+          typography: published.typography || {},
+          layout: published.layout || {},
+          custom_css: published.custom_css ?? null,
+        } : null);
+      } catch (error) {
+        console.error('Error fetching storefront theme:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchTheme();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSlug, preview.isPreview]);
+
+  // Removed again when the storefront unmounts
+  useThemeFonts(theme?.typography);
+
+  const style = useMemo(
+    () => getThemeStyle(theme || { colors: {}, typography: {}, layout: {} }),
+    [theme]
+  );
+  const customCss = useMemo(() => scopeCustomCss(theme?.custom_css), [theme?.custom_css]);
+
+  return (
+    <StorefrontThemeContext.Provider value={{ theme, loading }}>
+      <div className="storefront-theme bg-background text-foreground" style={style}>
+        {customCss && <style>{customCss}</style>}
+        {children}
+      </div>
+    </StorefrontThemeContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the storefront theme
+ * Must be used within StorefrontThemeProvider
+ */
+export function useStorefrontTheme() {
+  const context = useContext(StorefrontThemeContext);
+  if (context === undefined) {
+    throw new Error('useStorefrontTheme must be used within a StorefrontThemeProvider');
+  }
+  return context;
+}
@@ -0,0 +1,105 @@
+/**
+ * ============================================================================
+ * AUTOSAVE HOOK
+ * ============================================================================
+ *
+ * Debounced, batched saving for editor state that changes locally first.
+ *
+ * - reset(value) sets the saved baseline after loading from the database
+ * - schedule(value) marks the latest local value; once edits pause for
+ *   `delay` ms, save(current, saved) writes the difference in one batch
+ * - flush() saves immediately (before publishing, switching pages, ...)
+ *
+ * Batches never overlap. A failed batch leaves the baseline unchanged, so
+ * the next edit or flush() retries everything that is still unsaved.
+ *
+ * ============================================================================
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type SaveStatus = 'saved' | 'pending' | 'saving' | 'error';
+
+interface AutosaveOptions {
+  delay?: number;
+  onError?: (error: unknown) => void;
+}
+
+export function useAutosave<T>(
+  save: (current: T, saved: T) => Promise<void>,
+  { delay = 800, onError }: AutosaveOptions = {}
+) {
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const savedRef = useRef<T | null>(null);
+  const latestRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+
+  // Always call the latest callbacks from timers
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const flush = useCallback(async (): Promise<boolean> => {
+    clearTimeout(timerRef.current);
+
+    while (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+
+    const current = latestRef.current;
+    const saved = savedRef.current;
+    if (current === null || saved === null || current === saved) return true;
+
+    setStatus('saving');
+
+    const batch = saveRef.current(current, saved).then(
+      () => {
+        // A reset() while saving (e.g. another page loaded) keeps its baseline
+        if (savedRef.current === saved) savedRef.current = current;
+        return true;
+      },
+      (error) => {
+        console.error('Error saving changes:', error);
+        onErrorRef.current?.(error);
+        return false;
+      }
+    );
+
+    inFlightRef.current = batch;
+    const ok = await batch;
+    inFlightRef.current = null;
+
+    if (!ok) {
+      setStatus('error');
+      return false;
+    }
+
+    setStatus(latestRef.current === savedRef.current ? 'saved' : 'pending');
+    return true;
+  }, []);
+
+  const schedule = useCallback((value: T) => {
+    latestRef.current = value;
+    setStatus('pending');
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      flush();
+    }, delay);
+  }, [delay, flush]);
+
+  const reset = useCallback((value: T | null) => {
+    clearTimeout(timerRef.current);
+    savedRef.current = value;
+    latestRef.current = value;
+    setStatus('saved');
+  }, []);
+
+  // Don't drop edits made just before leaving the editor
+  useEffect(() => () => {
+    flush();
+  }, [flush]);
+
+  return { status, schedule, reset, flush };
+}
@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * CART STOCK HOOK
+ * ============================================================================
+ *
+ * Fetches current stock for the items in the cart so the cart and checkout
+ * can show "only N left" / "out of stock" messages before the order is
+ * placed. The database still enforces stock when the order is created
+ * (see the reserve_order_item_stock trigger).
+ *
+ * Availability is `null` when a product is unlimited (inventory not tracked
+ * or backorders allowed).
+ *
+ * ============================================================================
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { CartItem } from '@/contexts/CartContext';
+
+/** Stock at or below this level shows an "only N left" hint */
+export const LOW_STOCK_THRESHOLD = 5;
+
+interface StockSource {
+  stock_quantity: number;
+  track_inventory?: boolean | null;
+  allow_backorders?: boolean | null;
+}
+
+/**
+ * Units a shopper can buy, or null when unlimited
+ */
+export function getAvailableStock(
+  product: StockSource,
+  variant?: Pick<StockSource, 'stock_quantity'> | null
+): number | null {
+  if (product.track_inventory === false || product.allow_backorders) {
+    return null;
+  }
+  return Math.max(0, variant ? variant.stock_quantity : product.stock_quantity);
+}
+
+const stockKey = (productId: string, variantId: string | null) => `${productId}:${variantId ?? ''}`;
+
+export function useCartStock(items: CartItem[]) {
+  const [stock, setStock] = useState<Record<string, number | null>>({});
+  const [loading, setLoading] = useState(true);
+
+  // Only refetch when the set of lines changes, not on quantity edits
+  const lineKeys = items.map(item => stockKey(item.productId, item.variantId)).sort().join(',');
+
+  useEffect(() => {
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const variantIds = items.map(item => item.variantId).filter(Boolean) as string[];
+
+    if (productIds.length === 0) {
+      setStock({});
+      setLoading(false);
+      return;
+    }
+
+    const fetchStock = async () => {
+      try {
+        const [productsResult, variantsResult] = await Promise.all([
+          supabase
+            .from('products')
+            .select('id, stock_quantity, track_inventory, allow_backorders')
+            .in('id', productIds),
+          variantIds.length > 0
+            ? supabase
+                .from('product_variants')
+                .select('id, stock_quantity')
+                .in('id', variantIds)
+            : Promise.resolve({ data: [], error: null }),
+        ]);
+
+        if (productsResult.error) throw productsResult.error;
+        if (variantsResult.error) throw variantsResult.error;
+
+        const next: Record<string, number | null> = {};
+        for (const item of items) {
+          const product = productsResult.data?.find(p => p.id === item.productId);
+          const variant = item.variantId
+            ? variantsResult.data?.find(v => v.id === item.variantId)
+            : null;
+
+          // Unavailable products (deleted or unpublished) count as out of stock
+          next[stockKey(item.productId, item.variantId)] =
+            product && (variant || !item.variantId) ? getAvailableStock(product, variant) : 0;
+        }
+        setStock(next);
+      } catch (error) {
+        console.error('Error fetching stock:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStock();
+  }, [lineKeys]);
+
+  /**
+   * Available units for a cart line (undefined while loading, null if unlimited)
+   */
+  const getStock = (productId: string, variantId: string | null) =>
+    stock[stockKey(productId, variantId)];
+
+  const hasStockIssues = items.some(item => {
+    const available = getStock(item.productId, item.variantId);
+    return available !== undefined && available !== null && item.quantity > available;
+  });
+
+  return { loading, getStock, hasStockIssues };
+}
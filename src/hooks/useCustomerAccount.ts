@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * CUSTOMER ACCOUNT HOOK
+ * ============================================================================
+ *
+ * The signed-in shopper's account in one store. Logins are platform-wide
+ * (AuthContext); each store keeps its own customers row, which
+ * link_customer_account links to the login on first visit - picking up
+ * guest orders placed with the same confirmed email.
+ *
+ * Saved addresses are read straight from customer_addresses (RLS limits
+ * them to the shopper's own account in this store). Order history comes
+ * from get_customer_orders, since shoppers can't read orders directly.
+ *
+ * ============================================================================
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export interface CustomerAccount {
+  id: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  /** Balance from refunds, spendable at checkout */
+  store_credit: number;
+  created_at: string;
+}
+
+export type CustomerAddress = Tables<'customer_addresses'>;
+
+export type CustomerOrder = Database['public']['Functions']['get_customer_orders']['Returns'][number];
+
+export interface CustomerOrderItem {
+  id: string;
+  product_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface CustomerOrderReturn {
+  id: string;
+  status: Database['public']['Enums']['return_status'];
+  created_at: string;
+  items: {
+    order_item_id: string;
+    product_name: string;
+    variant_name: string | null;
+    quantity: number;
+    reason: Database['public']['Enums']['return_reason'];
+  }[];
+}
+
+export function useCustomerAccount(storeId: string | null | undefined) {
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id;
+  const [account, setAccount] = useState<CustomerAccount | null>(null);
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!storeId || !userId) {
+      setAccount(null);
+      setAddresses([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: linkError } = await supabase.rpc('link_customer_account', { p_store_id: storeId });
+      if (linkError) throw linkError;
+
+      const linked = data as unknown as CustomerAccount;
+
+      const { data: addressData, error: addressError } = await supabase
+        .from('customer_addresses')
+        .select('*')
+        .eq('customer_id', linked.id)
+        .order('is_default', { ascending: false })
+        .order('created_at');
+
+      if (addressError) throw addressError;
+
+      setAccount(linked);
+      setAddresses(addressData || []);
+    } catch (err: any) {
+      console.error('Error loading customer account:', err);
+      setAccount(null);
+      setAddresses([]);
+      setError(err.message || 'Could not load your account');
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, userId]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      refetch();
+    }
+  }, [authLoading, refetch]);
+
+  return {
+    user,
+    account,
+    addresses,
+    loading: authLoading || loading,
+    error,
+    refetch,
+  };
+}
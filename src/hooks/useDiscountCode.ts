@@ -0,0 +1,126 @@
+/**
+ * ============================================================================
+ * DISCOUNT CODE HOOK
+ * ============================================================================
+ *
+ * Previews the discount for the code stored in CartContext.
+ *
+ * The discount is computed by the `validate_discount_code` database function,
+ * which checks every rule (active, start/expiry dates, usage limit, minimum
+ * order amount). The code is only redeemed (used_count incremented) when the
+ * order row is inserted - see the `apply_order_discount_code` trigger.
+ *
+ * USAGE:
+ * ```tsx
+ * const { discount, error, applyCode, removeCode } = useDiscountCode(storeSlug, cartTotal);
+ * const total = cartTotal - (discount?.discount_amount ?? 0);
+ * ```
+ *
+ * ============================================================================
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useCart } from '@/contexts/CartContext';
+
+/**
+ * Result of a successful discount validation
+ */
+export interface AppliedDiscount {
+  code: string;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  discount_amount: number;
+}
+
+export function useDiscountCode(storeSlug: string | undefined, subtotal: number) {
+  const { discountCode, setDiscountCode } = useCart();
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [discount, setDiscount] = useState<AppliedDiscount | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  useEffect(() => {
+    if (!storeSlug) return;
+
+    supabase
+      .from('stores')
+      .select('id')
+      .eq('slug', storeSlug)
+      .maybeSingle()
+      .then(({ data }) => setStoreId(data?.id ?? null));
+  }, [storeSlug]);
+
+  const validate = useCallback(async (code: string) => {
+    if (!storeId) return { data: null, error: 'Store not found' };
+
+    const { data, error } = await supabase.rpc('validate_discount_code', {
+      p_store_id: storeId,
+      p_code: code,
+      p_subtotal: subtotal,
+    });
+
+    if (error) return { data: null, error: error.message };
+    return { data: data as unknown as AppliedDiscount, error: null };
+  }, [storeId, subtotal]);
+
+  // Re-validate whenever the cart total changes (minimum amounts, percentages)
+  useEffect(() => {
+    if (!discountCode || !storeId) {
+      setDiscount(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setValidating(true);
+
+    validate(discountCode).then(result => {
+      if (cancelled) return;
+      setDiscount(result.data);
+      setError(result.error);
+      setValidating(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [discountCode, storeId, validate]);
+
+  /**
+   * Validate and store a new code
+   * @returns true when the code was accepted
+   */
+  const applyCode = async (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return false;
+
+    setValidating(true);
+    const result = await validate(normalized);
+    setValidating(false);
+
+    if (result.error) {
+      setError(result.error);
+      return false;
+    }
+
+    setDiscountCode(normalized);
+    return true;
+  };
+
+  const removeCode = () => {
+    setDiscountCode(null);
+    setDiscount(null);
+    setError(null);
+  };
+
+  return {
+    discountCode,
+    discount,
+    discountAmount: discount?.discount_amount ?? 0,
+    error,
+    validating,
+    applyCode,
+    removeCode,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * EDITOR HISTORY HOOK
+ * ============================================================================
+ *
+ * Undo/redo stack for the store builder. Editor hooks record a command for
+ * every change they make (see usePageSections, useStoreTheme,
+ * useStoreNavigation); undo/redo replay the command's snapshots through the
+ * same hooks, so undone changes are saved like any other edit.
+ *
+ * Rapid edits to the same thing (typing in a field, dragging a color picker)
+ * share a mergeKey and become a single undo step.
+ *
+ * USAGE:
+ * ```tsx
+ * const history = useEditorHistory();
+ * const { sections } = usePageSections(pageId, storeId, history);
+ *
+ * <Button onClick={history.undo} disabled={!history.canUndo}>Undo</Button>
+ * ```
+ *
+ * ============================================================================
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+export interface EditorCommand {
+  /** Describes the change, e.g. "Delete Hero Banner" */
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /** Consecutive commands with the same key are merged into one step */
+  mergeKey?: string;
+}
+
+export interface EditorHistory {
+  record: (command: EditorCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+interface HistoryEntry extends EditorCommand {
+  recordedAt: number;
+}
+
+const HISTORY_LIMIT = 100;
+// Edits with the same mergeKey closer together than this are one step
+const MERGE_WINDOW_MS = 1000;
+
+export function useEditorHistory(): EditorHistory {
+  // Stacks live in refs so undo/redo never run a command twice; the counter
+  // re-renders consumers when they change
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [, setRevision] = useState(0);
+  const bump = () => setRevision((revision) => revision + 1);
+
+  const record = useCallback((command: EditorCommand) => {
+    const now = Date.now();
+    const past = pastRef.current;
+    const last = past[past.length - 1];
+
+    if (command.mergeKey && last?.mergeKey === command.mergeKey && now - last.recordedAt < MERGE_WINDOW_MS) {
+      // Keep the first edit's undo so one undo reverts the whole burst
+      pastRef.current = [...past.slice(0, -1), { ...command, undo: last.undo, recordedAt: now }];
+    } else {
+      pastRef.current = [...past, { ...command, recordedAt: now }].slice(-HISTORY_LIMIT);
+    }
+
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return;
+
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, entry];
+    entry.undo();
+    bump();
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return;
+
+    futureRef.current = futureRef.current.slice(0, -1);
+    // Never merge into a redone step
+    pastRef.current = [...pastRef.current, { ...entry, recordedAt: 0 }];
+    entry.redo();
+    bump();
+  }, []);
+
+  const clear = useCallback(() => {
+    if (pastRef.current.length === 0 && futureRef.current.length === 0) return;
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const past = pastRef.current;
+  const future = futureRef.current;
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * ============================================================================
+ * INVENTORY ALERTS HOOK
+ * ============================================================================
+ *
+ * Open low stock alerts for the dashboard notifications panel. Alerts are
+ * raised and resolved by database triggers when stock changes (only while
+ * the inventory_alerts extension is enabled); the dashboard just lists them
+ * and marks them as read.
+ *
+ * ============================================================================
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface InventoryAlert {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  stock_quantity: number;
+  threshold: number;
+  is_read: boolean;
+  created_at: string;
+}
+
+export function useInventoryAlerts(storeId: string | null) {
+  const [alerts, setAlerts] = useState<InventoryAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!storeId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('inventory_alerts')
+        .select('id, product_id, variant_id, stock_quantity, threshold, is_read, created_at, products(name), product_variants(name)')
+        .eq('store_id', storeId)
+        .is('resolved_at', null)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      setAlerts((data || []).map(alert => ({
+        id: alert.id,
+        product_id: alert.product_id,
+        variant_id: alert.variant_id,
+        product_name: alert.products?.name ?? '',
+        variant_name: alert.product_variants?.name ?? null,
+        stock_quantity: alert.stock_quantity,
+        threshold: alert.threshold,
+        is_read: alert.is_read,
+        created_at: alert.created_at,
+      })));
+    } catch (error) {
+      console.error('Error fetching inventory alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    setAlerts([]);
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const markAllRead = async () => {
+    const unreadIds = alerts.filter(alert => !alert.is_read).map(alert => alert.id);
+    if (unreadIds.length === 0) return;
+
+    setAlerts(prev => prev.map(alert => ({ ...alert, is_read: true })));
+
+    const { error } = await supabase
+      .from('inventory_alerts')
+      .update({ is_read: true })
+      .in('id', unreadIds);
+
+    if (error) {
+      console.error('Error marking inventory alerts as read:', error);
+      fetchAlerts();
+    }
+  };
+
+  return {
+    alerts,
+    unreadCount: alerts.filter(alert => !alert.is_read).length,
+    loading,
+    refresh: fetchAlerts,
+    markAllRead,
+  };
+}
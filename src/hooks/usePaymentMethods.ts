@@ -0,0 +1,52 @@
+/**
+ * ============================================================================
+ * PAYMENT METHODS HOOK
+ * ============================================================================
+ *
+ * Lists the payment methods a store offers at checkout, in display order.
+ * Backed by the `get_store_payment_methods` database function, which
+ * returns the enabled payment_<method> extensions (cash on delivery when
+ * none are enabled) without exposing their credentials.
+ *
+ * ============================================================================
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { PAYMENT_METHODS, type PaymentMethodInfo, type PaymentMethodId } from '@/lib/payments';
+
+const DISPLAY_ORDER = Object.keys(PAYMENT_METHODS) as PaymentMethodId[];
+
+export function usePaymentMethods(storeId: string | null) {
+  const [methods, setMethods] = useState<PaymentMethodInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!storeId) return;
+
+    const fetchMethods = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_store_payment_methods', {
+          p_store_id: storeId,
+        });
+
+        if (error) throw error;
+
+        setMethods(
+          DISPLAY_ORDER
+            .filter(id => (data || []).includes(id))
+            .map(id => PAYMENT_METHODS[id])
+        );
+      } catch (error) {
+        console.error('Error fetching payment methods:', error);
+        setMethods([PAYMENT_METHODS.cod]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMethods();
+  }, [storeId]);
+
+  return { methods, loading };
+}
@@ -0,0 +1,152 @@
+/**
+ * ============================================================================
+ * PRODUCT REVIEWS HOOKS
+ * ============================================================================
+ *
+ * Storefront access to approved product reviews and ratings.
+ *
+ * - useProductReviews: one product's reviews (paged) and rating summary
+ * - useRatingSummaries: average rating and review count for a list of
+ *   products, for product cards
+ * - uploadReviewPhoto / getReviewPhotoUrl: review photos live in the public
+ *   review-photos bucket under the store's folder; reviews store the path
+ *
+ * Shoppers submit reviews through the submit_product_review RPC (see
+ * ReviewForm); new reviews wait for the merchant to approve them.
+ *
+ * ============================================================================
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ProductReview = Database['public']['Functions']['get_product_reviews']['Returns'][number];
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+const REVIEW_PHOTOS_BUCKET = 'review-photos';
+const REVIEWS_PAGE_SIZE = 5;
+
+export const MAX_REVIEW_PHOTOS = 4;
+
+/**
+ * Public URL of a review photo from its storage path
+ */
+export function getReviewPhotoUrl(path: string) {
+  return supabase.storage.from(REVIEW_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Upload a review photo into the store's folder and return its path
+ */
+export async function uploadReviewPhoto(storeId: string, file: File) {
+  const fileExt = file.name.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'jpg';
+  const path = `${storeId}/${Date.now()}-${Math.random().toString(36).substring(2, 10)}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(REVIEW_PHOTOS_BUCKET).upload(path, file);
+  if (error) throw error;
+
+  return path;
+}
+
+export function useProductReviews(storeId: string | undefined, productId: string | undefined) {
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!storeId || !productId) return [];
+
+    const { data, error } = await supabase.rpc('get_product_reviews', {
+      p_store_id: storeId,
+      p_product_id: productId,
+      p_limit: REVIEWS_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+    setHasMore((data || []).length === REVIEWS_PAGE_SIZE);
+    return data || [];
+  }, [storeId, productId]);
+
+  const refetch = useCallback(async () => {
+    if (!storeId || !productId) return;
+
+    setLoading(true);
+    try {
+      const [page, { data: summaries, error }] = await Promise.all([
+        fetchPage(0),
+        supabase.rpc('get_product_rating_summaries', { p_product_ids: [productId] }),
+      ]);
+
+      if (error) throw error;
+      setReviews(page);
+
+      const row = summaries?.[0];
+      setSummary(row ? { average: Number(row.average_rating), count: row.review_count } : null);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, productId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    try {
+      const page = await fetchPage(reviews.length);
+      setReviews((current) => [...current, ...page]);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    }
+  }, [fetchPage, reviews.length]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { reviews, summary, loading, hasMore, loadMore, refetch };
+}
+
+export function useRatingSummaries(productIds: string[]) {
+  const [summaries, setSummaries] = useState<Record<string, RatingSummary>>({});
+  // Stable dependency for the list of ids
+  const key = [...productIds].sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setSummaries({});
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSummaries = async () => {
+      const { data, error } = await supabase.rpc('get_product_rating_summaries', {
+        p_product_ids: key.split(','),
+      });
+
+      if (error) {
+        console.error('Error fetching ratings:', error);
+        return;
+      }
+      if (cancelled) return;
+
+      setSummaries(Object.fromEntries(
+        (data || []).map((row) => [row.product_id, { average: Number(row.average_rating), count: row.review_count }])
+      ));
+    };
+
+    fetchSummaries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return summaries;
+}
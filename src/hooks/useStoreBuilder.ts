@@ -9,6 +9,12 @@
  * - usePageSections: CRUD operations for page sections
  * - useStoreNavigation: Manage navigation items
  * - useStoreHeaderFooter: Header/footer configuration
+ * - useStoreVersions: Publish drafts, version history and rollback
+ * - useStoreCategories: Categories to pick from in section settings
+ * 
+ * Section, theme and navigation edits are applied to local state first,
+ * recorded in the editor's undo/redo history (useEditorHistory) and saved
+ * in debounced batches (useAutosave).
  * 
  * CHANGELOG - Step 1.1 (Phase 1: Architecture Refactor):
  * - ✅ FIXED: useStorePages now fetches ALL pages, not just homepage
@@ -18,20 +24,24 @@
  * ============================================================================
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAutosave } from '@/hooks/useAutosave';
+import type { EditorHistory } from '@/hooks/useEditorHistory';
 import {
   StoreTheme,
   StorePage,
   PageSection,
   NavItem,
   StoreHeaderFooter,
+  StoreVersion,
   SectionType,
   SectionConfig,
   PageType,
 } from '@/components/store-builder/types';
 import { DEFAULT_THEME, SECTION_DEFINITIONS } from '@/components/store-builder/constants';
+import { getDefaultSectionConfig } from '@/components/storefront/sections';
 import { 
   isSectionTypeAllowed, 
   canPageHaveSections, 
@@ -43,11 +53,38 @@ import {
 // STORE THEME HOOK
 // ============================================================================
 
-export function useStoreTheme(storeId: string | undefined) {
+// Theme edits are applied locally and saved in debounced batches
+async function saveThemeChanges(current: StoreTheme, saved: StoreTheme) {
+  const { colors, typography, layout, custom_css } = current;
+  const updates = { colors, typography, layout, custom_css: custom_css ?? null };
+  const previous = { colors: saved.colors, typography: saved.typography, layout: saved.layout, custom_css: saved.custom_css ?? null };
+
+  if (JSON.stringify(updates) === JSON.stringify(previous)) return;
+
+  const { error } = await supabase
+    .from('store_themes')
+    .update(updates as any)
+    .eq('id', current.id);
+
+  if (error) throw error;
+}
+
+export function useStoreTheme(storeId: string | undefined, history?: EditorHistory) {
   const [theme, setTheme] = useState<StoreTheme | null>(null);
+  const themeRef = useRef<StoreTheme | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  const { status: saveStatus, schedule, reset, flush } = useAutosave(saveThemeChanges, {
+    onError: () => toast({ title: 'Error saving theme', variant: 'destructive' }),
+  });
+
+  const loadTheme = useCallback((loaded: StoreTheme) => {
+    themeRef.current = loaded;
+    setTheme(loaded);
+    reset(loaded);
+  }, [reset]);
+
   const fetchTheme = useCallback(async () => {
     if (!storeId) return;
     
@@ -62,7 +99,7 @@ export function useStoreTheme(storeId: string | undefined) {
       if (error) throw error;
 
       if (data) {
-        setTheme(data as unknown as StoreTheme);
+        loadTheme(data as unknown as StoreTheme);
       } else {
         // Create default theme if none exists
         const { data: newTheme, error: createError } = await supabase
@@ -79,7 +116,7 @@ export function useStoreTheme(storeId: string | undefined) {
           .single();
 
         if (createError) throw createError;
-        setTheme(newTheme as unknown as StoreTheme);
+        loadTheme(newTheme as unknown as StoreTheme);
       }
     } catch (error) {
       console.error('Error fetching theme:', error);
@@ -87,32 +124,34 @@ export function useStoreTheme(storeId: string | undefined) {
     } finally {
       setLoading(false);
     }
-  }, [storeId, toast]);
-
-  const updateTheme = async (updates: Partial<StoreTheme>) => {
-    if (!theme) return;
-
-    try {
-      const { error } = await supabase
-        .from('store_themes')
-        .update(updates as any)
-        .eq('id', theme.id);
-
-      if (error) throw error;
-
-      setTheme({ ...theme, ...updates });
-      toast({ title: 'Theme updated' });
-    } catch (error) {
-      console.error('Error updating theme:', error);
-      toast({ title: 'Error updating theme', variant: 'destructive' });
-    }
+  }, [storeId, toast, loadTheme]);
+
+  // Applied locally first so the live preview updates instantly
+  const applyTheme = useCallback((next: StoreTheme) => {
+    themeRef.current = next;
+    setTheme(next);
+    schedule(next);
+  }, [schedule]);
+
+  const updateTheme = (updates: Partial<StoreTheme>) => {
+    const previous = themeRef.current;
+    if (!previous) return;
+
+    const next = { ...previous, ...updates };
+    applyTheme(next);
+    history?.record({
+      label: 'Edit theme',
+      mergeKey: `theme:${Object.keys(updates).sort().join(',')}`,
+      undo: () => applyTheme(previous),
+      redo: () => applyTheme(next),
+    });
   };
 
   useEffect(() => {
     fetchTheme();
   }, [fetchTheme]);
 
-  return { theme, loading, updateTheme, refetch: fetchTheme };
+  return { theme, loading, updateTheme, saveStatus, flush, refetch: fetchTheme };
 }
 
 // ============================================================================
@@ -276,14 +315,71 @@ export function useStorePages(storeId: string | undefined) {
 // PAGE SECTIONS HOOK
 // ============================================================================
 
-export function usePageSections(pageId: string | undefined, storeId: string | undefined) {
+// Columns written when saving sections
+function toSectionRow(section: PageSection) {
+  return {
+    id: section.id,
+    page_id: section.page_id,
+    store_id: section.store_id,
+    section_type: section.section_type,
+    name: section.name,
+    config: section.config,
+    mobile_config: section.mobile_config ?? null,
+    is_visible: section.is_visible,
+    sort_order: section.sort_order,
+    position: section.position,
+  };
+}
+
+// Writes the difference between two section lists: one delete and one
+// upsert per batch. Undoing a delete re-inserts the section with its id.
+async function saveSectionChanges(current: PageSection[], saved: PageSection[]) {
+  const savedRows = new Map(saved.map(s => [s.id, JSON.stringify(toSectionRow(s))]));
+  const currentIds = new Set(current.map(s => s.id));
+
+  const deletedIds = saved.filter(s => !currentIds.has(s.id)).map(s => s.id);
+  const changedRows = current
+    .map(toSectionRow)
+    .filter(row => savedRows.get(row.id) !== JSON.stringify(row));
+
+  if (deletedIds.length > 0) {
+    const { error } = await supabase
+      .from('page_sections')
+      .delete()
+      .in('id', deletedIds);
+
+    if (error) throw error;
+  }
+
+  if (changedRows.length > 0) {
+    const { error } = await supabase
+      .from('page_sections')
+      .upsert(changedRows as any);
+
+    if (error) throw error;
+  }
+}
+
+export function usePageSections(
+  pageId: string | undefined,
+  storeId: string | undefined,
+  history?: EditorHistory
+) {
   const [sections, setSections] = useState<PageSection[]>([]);
+  const sectionsRef = useRef<PageSection[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  const { status: saveStatus, schedule, reset, flush } = useAutosave(saveSectionChanges, {
+    onError: () => toast({ title: 'Error saving sections', variant: 'destructive' }),
+  });
+
   const fetchSections = useCallback(async () => {
     if (!pageId) return;
 
+    // Save the previous page's edits before its sections are replaced
+    await flush();
+
     try {
       const { data, error } = await supabase
         .from('page_sections')
@@ -292,17 +388,44 @@ export function usePageSections(pageId: string | undefined, storeId: string | un
         .order('sort_order', { ascending: true });
 
       if (error) throw error;
-      setSections(data as unknown as PageSection[]);
+
+      const loaded = data as unknown as PageSection[];
+      sectionsRef.current = loaded;
+      setSections(loaded);
+      reset(loaded);
     } catch (error) {
       console.error('Error fetching sections:', error);
       toast({ title: 'Error loading sections', variant: 'destructive' });
     } finally {
       setLoading(false);
     }
-  }, [pageId, toast]);
+  }, [pageId, toast, flush, reset]);
+
+  // Applied locally first so the live preview updates instantly; sort_order
+  // always follows the list order
+  const applySections = useCallback((next: PageSection[]) => {
+    const ordered = next.map((section, index) =>
+      section.sort_order === index ? section : { ...section, sort_order: index }
+    );
+    sectionsRef.current = ordered;
+    setSections(ordered);
+    schedule(ordered);
+  }, [schedule]);
+
+  const commitSections = (next: PageSection[], label: string, mergeKey?: string) => {
+    const previous = sectionsRef.current;
+    applySections(next);
+    history?.record({
+      label,
+      mergeKey,
+      undo: () => applySections(previous),
+      redo: () => applySections(next),
+    });
+  };
 
-  const addSection = async (sectionType: SectionType, pageType?: PageType, insertIndex?: number) => {
+  const addSection = (sectionType: SectionType, pageType?: PageType, insertIndex?: number) => {
     if (!pageId || !storeId) return null;
+    const sections = sectionsRef.current;
 
     // Validation: Check if page can have sections at all
     if (pageType && !canPageHaveSections(pageType)) {
@@ -342,131 +465,83 @@ export function usePageSections(pageId: string | undefined, storeId: string | un
     console.log('[1C.5] Section validation passed, adding:', sectionType);
 
     const definition = SECTION_DEFINITIONS[sectionType];
-    const newSortOrder = insertIndex !== undefined
-      ? insertIndex
-      : sections.length;
-
-    try {
-      // Update sort_order for sections after the insert point
-      if (insertIndex !== undefined) {
-        const sectionsToUpdate = sections.filter(s => s.sort_order >= insertIndex);
-        for (const section of sectionsToUpdate) {
-          await supabase
-            .from('page_sections')
-            .update({ sort_order: section.sort_order + 1 })
-            .eq('id', section.id);
-        }
-      }
-
-      const { data, error } = await supabase
-        .from('page_sections')
-        .insert({
-          page_id: pageId,
-          store_id: storeId,
-          section_type: sectionType,
-          name: definition.label,
-          config: definition.defaultConfig as any,
-          sort_order: newSortOrder,
-          is_visible: true,
-        } as any)
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      await fetchSections(); // Refresh to get correct order
-      toast({ title: `${definition.label} added` });
-      return data as unknown as PageSection;
-    } catch (error) {
-      console.error('Error adding section:', error);
-      toast({ title: 'Error adding section', variant: 'destructive' });
-      return null;
-    }
+    const index = insertIndex !== undefined ? insertIndex : sections.length;
+    const now = new Date().toISOString();
+
+    const section: PageSection = {
+      id: crypto.randomUUID(),
+      page_id: pageId,
+      store_id: storeId,
+      section_type: sectionType,
+      name: definition.label,
+      config: getDefaultSectionConfig(sectionType) as any,
+      is_visible: true,
+      sort_order: index,
+      position: 'below',
+      created_at: now,
+      updated_at: now,
+    };
+
+    commitSections(
+      [...sections.slice(0, index), section, ...sections.slice(index)],
+      `Add ${definition.label}`
+    );
+    return section;
   };
 
-  const updateSection = async (sectionId: string, updates: Partial<PageSection>) => {
-    try {
-      const { error } = await supabase
-        .from('page_sections')
-        .update(updates as any)
-        .eq('id', sectionId);
-
-      if (error) throw error;
-
-      setSections(sections.map(s =>
-        s.id === sectionId ? { ...s, ...updates } : s
-      ));
-    } catch (error) {
-      console.error('Error updating section:', error);
-      toast({ title: 'Error updating section', variant: 'destructive' });
-    }
+  const updateSection = (sectionId: string, updates: Partial<PageSection>) => {
+    const section = sectionsRef.current.find(s => s.id === sectionId);
+    if (!section) return;
+
+    const isVisibilityToggle = 'is_visible' in updates;
+    const label = isVisibilityToggle
+      ? `${updates.is_visible ? 'Show' : 'Hide'} ${section.name}`
+      : `Edit ${section.name}`;
+
+    commitSections(
+      sectionsRef.current.map(s => s.id === sectionId ? { ...s, ...updates } : s),
+      label,
+      // Typing in a field is one undo step; visibility toggles are not merged
+      isVisibilityToggle ? undefined : `section:${sectionId}:${Object.keys(updates).sort().join(',')}`
+    );
   };
 
-  const updateSectionConfig = async (sectionId: string, config: SectionConfig) => {
-    await updateSection(sectionId, { config });
+  const updateSectionConfig = (sectionId: string, config: SectionConfig) => {
+    updateSection(sectionId, { config });
   };
 
-  const deleteSection = async (sectionId: string) => {
-    try {
-      const { error } = await supabase
-        .from('page_sections')
-        .delete()
-        .eq('id', sectionId);
-
-      if (error) throw error;
+  const deleteSection = (sectionId: string) => {
+    const section = sectionsRef.current.find(s => s.id === sectionId);
+    if (!section) return;
 
-      setSections(sections.filter(s => s.id !== sectionId));
-      toast({ title: 'Section deleted' });
-    } catch (error) {
-      console.error('Error deleting section:', error);
-      toast({ title: 'Error deleting section', variant: 'destructive' });
-    }
+    commitSections(
+      sectionsRef.current.filter(s => s.id !== sectionId),
+      `Delete ${section.name}`
+    );
   };
 
-  const reorderSections = async (reorderedSections: PageSection[]) => {
-    setSections(reorderedSections);
-
-    try {
-      for (let i = 0; i < reorderedSections.length; i++) {
-        await supabase
-          .from('page_sections')
-          .update({ sort_order: i })
-          .eq('id', reorderedSections[i].id);
-      }
-    } catch (error) {
-      console.error('Error reordering sections:', error);
-      toast({ title: 'Error reordering sections', variant: 'destructive' });
-      fetchSections(); // Revert on error
-    }
+  const reorderSections = (reorderedSections: PageSection[]) => {
+    commitSections(reorderedSections, 'Reorder sections', 'sections:reorder');
   };
 
-  const duplicateSection = async (section: PageSection) => {
-    if (!storeId) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('page_sections')
-        .insert({
-          page_id: section.page_id,
-          store_id: storeId,
-          section_type: section.section_type,
-          name: `${section.name} (copy)`,
-          config: section.config as any,
-          sort_order: section.sort_order + 1,
-          is_visible: section.is_visible,
-        } as any)
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      await fetchSections();
-      toast({ title: 'Section duplicated' });
-      return data as unknown as PageSection;
-    } catch (error) {
-      console.error('Error duplicating section:', error);
-      toast({ title: 'Error duplicating section', variant: 'destructive' });
-    }
+  const duplicateSection = (section: PageSection) => {
+    const index = sectionsRef.current.findIndex(s => s.id === section.id);
+    if (index === -1) return;
+
+    const now = new Date().toISOString();
+    const copy: PageSection = {
+      ...section,
+      id: crypto.randomUUID(),
+      name: `${section.name} (copy)`,
+      created_at: now,
+      updated_at: now,
+    };
+
+    commitSections(
+      [...sectionsRef.current.slice(0, index + 1), copy, ...sectionsRef.current.slice(index + 1)],
+      `Duplicate ${section.name}`
+    );
+    return copy;
   };
 
   useEffect(() => {
@@ -482,6 +557,8 @@ export function usePageSections(pageId: string | undefined, storeId: string | un
     deleteSection,
     reorderSections,
     duplicateSection,
+    saveStatus,
+    flush,
     refetch: fetchSections,
   };
 }
@@ -558,11 +635,59 @@ export function useStoreHeaderFooter(storeId: string | undefined) {
 // STORE NAVIGATION HOOK
 // ============================================================================
 
-export function useStoreNavigation(storeId: string | undefined) {
+// Columns written when saving navigation items
+function toNavRow(item: NavItem) {
+  return {
+    id: item.id,
+    store_id: item.store_id,
+    label: item.label,
+    url: item.url ?? null,
+    page_id: item.page_id ?? null,
+    location: item.location,
+    parent_id: item.parent_id ?? null,
+    sort_order: item.sort_order,
+    is_highlighted: item.is_highlighted,
+    open_in_new_tab: item.open_in_new_tab,
+  };
+}
+
+async function saveNavigationChanges(current: NavItem[], saved: NavItem[]) {
+  const savedRows = new Map(saved.map(n => [n.id, JSON.stringify(toNavRow(n))]));
+  const currentIds = new Set(current.map(n => n.id));
+
+  const deletedIds = saved.filter(n => !currentIds.has(n.id)).map(n => n.id);
+  const changedRows = current
+    .map(toNavRow)
+    .filter(row => savedRows.get(row.id) !== JSON.stringify(row));
+
+  if (deletedIds.length > 0) {
+    const { error } = await supabase
+      .from('store_navigation')
+      .delete()
+      .in('id', deletedIds);
+
+    if (error) throw error;
+  }
+
+  if (changedRows.length > 0) {
+    const { error } = await supabase
+      .from('store_navigation')
+      .upsert(changedRows as any);
+
+    if (error) throw error;
+  }
+}
+
+export function useStoreNavigation(storeId: string | undefined, history?: EditorHistory) {
   const [navItems, setNavItems] = useState<NavItem[]>([]);
+  const navItemsRef = useRef<NavItem[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
+  const { status: saveStatus, schedule, reset, flush } = useAutosave(saveNavigationChanges, {
+    onError: () => toast({ title: 'Error saving navigation', variant: 'destructive' }),
+  });
+
   const fetchNavigation = useCallback(async () => {
     if (!storeId) return;
 
@@ -574,73 +699,255 @@ export function useStoreNavigation(storeId: string | undefined) {
         .order('sort_order', { ascending: true });
 
       if (error) throw error;
-      setNavItems(data as NavItem[]);
+
+      const loaded = data as NavItem[];
+      navItemsRef.current = loaded;
+      setNavItems(loaded);
+      reset(loaded);
     } catch (error) {
       console.error('Error fetching navigation:', error);
       toast({ title: 'Error loading navigation', variant: 'destructive' });
     } finally {
       setLoading(false);
     }
-  }, [storeId, toast]);
+  }, [storeId, toast, reset]);
+
+  // Applied locally first; sort_order follows the list order within each menu
+  const applyNavItems = useCallback((next: NavItem[]) => {
+    const positions: Record<string, number> = {};
+    const ordered = next.map((item) => {
+      const menu = `${item.location}:${item.parent_id ?? ''}`;
+      const sortOrder = positions[menu] ?? 0;
+      positions[menu] = sortOrder + 1;
+      return item.sort_order === sortOrder ? item : { ...item, sort_order: sortOrder };
+    });
+    navItemsRef.current = ordered;
+    setNavItems(ordered);
+    schedule(ordered);
+  }, [schedule]);
+
+  const commitNavItems = (next: NavItem[], label: string, mergeKey?: string) => {
+    const previous = navItemsRef.current;
+    applyNavItems(next);
+    history?.record({
+      label,
+      mergeKey,
+      undo: () => applyNavItems(previous),
+      redo: () => applyNavItems(next),
+    });
+  };
 
-  const addNavItem = async (item: Partial<NavItem>) => {
+  const addNavItem = (item: Partial<NavItem>) => {
     if (!storeId) return null;
 
-    try {
-      const { data, error } = await supabase
-        .from('store_navigation')
-        .insert({ ...item, store_id: storeId } as any)
-        .select()
-        .single();
+    const now = new Date().toISOString();
+    const navItem: NavItem = {
+      location: 'header',
+      is_highlighted: false,
+      open_in_new_tab: false,
+      label: 'New link',
+      ...item,
+      id: crypto.randomUUID(),
+      store_id: storeId,
+      sort_order: navItemsRef.current.length,
+      created_at: now,
+      updated_at: now,
+    };
+
+    commitNavItems([...navItemsRef.current, navItem], `Add ${navItem.label}`);
+    return navItem;
+  };
 
-      if (error) throw error;
-      setNavItems([...navItems, data as NavItem]);
-      toast({ title: 'Navigation item added' });
-      return data as NavItem;
+  const updateNavItem = (itemId: string, updates: Partial<NavItem>) => {
+    const item = navItemsRef.current.find(n => n.id === itemId);
+    if (!item) return;
+
+    commitNavItems(
+      navItemsRef.current.map(n => n.id === itemId ? { ...n, ...updates } : n),
+      `Edit ${item.label}`,
+      `nav:${itemId}:${Object.keys(updates).sort().join(',')}`
+    );
+  };
+
+  const deleteNavItem = (itemId: string) => {
+    const item = navItemsRef.current.find(n => n.id === itemId);
+    if (!item) return;
+
+    // Sub-items are deleted with their parent
+    commitNavItems(
+      navItemsRef.current.filter(n => n.id !== itemId && n.parent_id !== itemId),
+      `Delete ${item.label}`
+    );
+  };
+
+  const reorderNavItems = (reorderedItems: NavItem[]) => {
+    commitNavItems(reorderedItems, 'Reorder navigation', 'nav:reorder');
+  };
+
+  useEffect(() => {
+    fetchNavigation();
+  }, [fetchNavigation]);
+
+  return {
+    navItems,
+    loading,
+    addNavItem,
+    updateNavItem,
+    deleteNavItem,
+    reorderNavItems,
+    saveStatus,
+    flush,
+    refetch: fetchNavigation,
+  };
+}
+
+// ============================================================================
+// STORE VERSIONS HOOK
+// ============================================================================
+// The builder edits drafts; shoppers see the published version until the
+// merchant publishes again.
+
+export function useStoreVersions(storeId: string | undefined) {
+  const [versions, setVersions] = useState<StoreVersion[]>([]);
+  const [publishedVersionId, setPublishedVersionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const { toast } = useToast();
+
+  const fetchVersions = useCallback(async () => {
+    if (!storeId) return;
+
+    try {
+      const [versionsResult, storeResult] = await Promise.all([
+        supabase
+          .from('store_versions')
+          .select('id, store_id, version_number, note, restored_from_version_id, published_by, published_by_name, created_at')
+          .eq('store_id', storeId)
+          .order('version_number', { ascending: false }),
+        supabase
+          .from('stores')
+          .select('published_version_id')
+          .eq('id', storeId)
+          .single(),
+      ]);
+
+      if (versionsResult.error) throw versionsResult.error;
+      if (storeResult.error) throw storeResult.error;
+
+      setVersions(versionsResult.data as StoreVersion[]);
+      setPublishedVersionId(storeResult.data.published_version_id);
     } catch (error) {
-      console.error('Error adding nav item:', error);
-      toast({ title: 'Error adding navigation item', variant: 'destructive' });
-      return null;
+      console.error('Error fetching versions:', error);
+      toast({ title: 'Error loading publish history', variant: 'destructive' });
+    } finally {
+      setLoading(false);
     }
-  };
+  }, [storeId, toast]);
+
+  const publish = async (note?: string) => {
+    if (!storeId) return false;
 
-  const updateNavItem = async (itemId: string, updates: Partial<NavItem>) => {
+    setPublishing(true);
     try {
-      const { error } = await supabase
-        .from('store_navigation')
-        .update(updates)
-        .eq('id', itemId);
+      const { error } = await supabase.rpc('publish_store', {
+        p_store_id: storeId,
+        p_note: note || undefined,
+      });
 
       if (error) throw error;
 
-      setNavItems(navItems.map(n => n.id === itemId ? { ...n, ...updates } : n));
-      toast({ title: 'Navigation updated' });
+      toast({ title: 'Store published' });
+      await fetchVersions();
+      return true;
     } catch (error) {
-      console.error('Error updating nav item:', error);
-      toast({ title: 'Error updating navigation', variant: 'destructive' });
+      console.error('Error publishing store:', error);
+      toast({ title: 'Error publishing store', variant: 'destructive' });
+      return false;
+    } finally {
+      setPublishing(false);
     }
   };
 
-  const deleteNavItem = async (itemId: string) => {
+  const restoreVersion = async (versionId: string) => {
+    setPublishing(true);
     try {
-      const { error } = await supabase
-        .from('store_navigation')
-        .delete()
-        .eq('id', itemId);
+      const { error } = await supabase.rpc('restore_store_version', {
+        p_version_id: versionId,
+      });
 
       if (error) throw error;
 
-      setNavItems(navItems.filter(n => n.id !== itemId));
-      toast({ title: 'Navigation item deleted' });
+      toast({ title: 'Version restored and published' });
+      await fetchVersions();
+      return true;
     } catch (error) {
-      console.error('Error deleting nav item:', error);
-      toast({ title: 'Error deleting navigation', variant: 'destructive' });
+      console.error('Error restoring version:', error);
+      toast({ title: 'Error restoring version', variant: 'destructive' });
+      return false;
+    } finally {
+      setPublishing(false);
     }
   };
 
   useEffect(() => {
-    fetchNavigation();
-  }, [fetchNavigation]);
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const publishedVersion = versions.find(v => v.id === publishedVersionId) || null;
+
+  return {
+    versions,
+    publishedVersion,
+    loading,
+    publishing,
+    publish,
+    restoreVersion,
+    refetch: fetchVersions,
+  };
+}
+
+// ============================================================================
+// STORE CATEGORIES HOOK
+// ============================================================================
+// Read-only list for section settings that point at a category
+
+export interface StoreCategoryOption {
+  id: string;
+  name: string;
+}
+
+export function useStoreCategories(storeId: string | undefined) {
+  const [categories, setCategories] = useState<StoreCategoryOption[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!storeId) return;
+
+    let cancelled = false;
+
+    const fetchCategories = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('categories')
+          .select('id, name')
+          .eq('store_id', storeId)
+          .order('sort_order', { ascending: true });
+
+        if (error) throw error;
+        if (!cancelled) setCategories(data || []);
+      } catch (error) {
+        console.error('Error fetching categories:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCategories();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId]);
 
-  return { navItems, loading, addNavItem, updateNavItem, deleteNavItem, refetch: fetchNavigation };
+  return { categories, loading };
 }
@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * STOREFRONT EXTENSIONS HOOK
+ * ============================================================================
+ *
+ * Loads the enabled storefront extensions (analytics, chat widgets) of a
+ * store with their public settings. Backed by `get_storefront_extensions`,
+ * which only returns the keys each manifest declares public. Results are cached per store for the
+ * page's lifetime, so navigating around the storefront loads them once.
+ *
+ * ============================================================================
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+/** Extension id -> public config */
+export type StorefrontExtensionConfigs = Record<string, Record<string, string>>;
+
+const cache = new Map<string, Promise<StorefrontExtensionConfigs>>();
+
+function loadExtensions(storeSlug: string) {
+  let request = cache.get(storeSlug);
+
+  if (!request) {
+    request = (async () => {
+      const { data, error } = await supabase.rpc('get_storefront_extensions', {
+        p_store_slug: storeSlug,
+      });
+
+      if (error) throw error;
+      return (data as StorefrontExtensionConfigs) || {};
+    })();
+
+    // Allow a retry on the next mount if loading failed
+    request.catch(() => cache.delete(storeSlug));
+    cache.set(storeSlug, request);
+  }
+
+  return request;
+}
+
+export function useStorefrontExtensions(storeSlug: string | undefined) {
+  const [extensions, setExtensions] = useState<StorefrontExtensionConfigs | null>(null);
+
+  useEffect(() => {
+    if (!storeSlug) return;
+
+    let cancelled = false;
+    setExtensions(null);
+
+    loadExtensions(storeSlug)
+      .then((data) => {
+        if (!cancelled) setExtensions(data);
+      })
+      .catch((error) => {
+        console.error('Error fetching storefront extensions:', error);
+        if (!cancelled) setExtensions({});
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSlug]);
+
+  return { extensions, loading: extensions === null };
+}
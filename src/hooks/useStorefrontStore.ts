@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * STOREFRONT STORE HOOK
+ * ============================================================================
+ *
+ * Looks up an active store by its storefront slug.
+ *
+ * ============================================================================
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StorefrontStore {
+  id: string;
+  name: string;
+  slug: string;
+  logo_url: string | null;
+}
+
+/**
+ * The active store behind a storefront URL slug, for storefront pages that
+ * only need its id and branding
+ */
+export function useStorefrontStore(storeSlug: string | undefined) {
+  const [store, setStore] = useState<StorefrontStore | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!storeSlug) return;
+
+    let cancelled = false;
+
+    const fetchStore = async () => {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('stores')
+        .select('id, name, slug, logo_url')
+        .eq('slug', storeSlug)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (error) console.error('Error fetching store:', error);
+      if (cancelled) return;
+
+      setStore(data);
+      setLoading(false);
+    };
+
+    fetchStore();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSlug]);
+
+  return { store, loading };
+}
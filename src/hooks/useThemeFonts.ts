@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * THEME FONTS HOOK
+ * ============================================================================
+ *
+ * Loads a theme's heading and body fonts from Google Fonts while the calling
+ * component is mounted. Used by the storefront theme provider and the store
+ * builder preview.
+ *
+ * ============================================================================
+ */
+
+import { useEffect } from 'react';
+import { getThemeFontsUrl } from '@/lib/storefrontTheme';
+import type { ThemeTypography } from '@/components/store-builder/types';
+
+export function useThemeFonts(typography: Partial<ThemeTypography> | undefined) {
+  const fontsUrl = typography ? getThemeFontsUrl(typography) : null;
+
+  useEffect(() => {
+    if (!fontsUrl) return;
+
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = fontsUrl;
+    document.head.appendChild(link);
+
+    return () => {
+      link.remove();
+    };
+  }, [fontsUrl]);
+}
@@ -71,6 +71,63 @@ export type Database = {
           },
         ]
       }
+      customer_addresses: {
+        Row: {
+          address: string
+          city: string
+          created_at: string
+          customer_id: string
+          full_name: string
+          id: string
+          is_default: boolean
+          label: string | null
+          phone: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          city: string
+          created_at?: string
+          customer_id: string
+          full_name: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          phone: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          city?: string
+          created_at?: string
+          customer_id?: string
+          full_name?: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          phone?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_addresses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_addresses_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
@@ -81,6 +138,7 @@ export type Database = {
           id: string
           notes: string | null
           phone: string | null
+          store_credit: number
           store_id: string
           total_orders: number | null
           total_spent: number | null
@@ -96,6 +154,7 @@ export type Database = {
           id?: string
           notes?: string | null
           phone?: string | null
+          store_credit?: number
           store_id: string
           total_orders?: number | null
           total_spent?: number | null
@@ -111,6 +170,7 @@ export type Database = {
           id?: string
           notes?: string | null
           phone?: string | null
+          store_credit?: number
           store_id?: string
           total_orders?: number | null
           total_spent?: number | null
@@ -186,14 +246,325 @@ export type Database = {
           },
         ]
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          event: Database["public"]["Enums"]["notification_event"]
+          html: string | null
+          id: string
+          last_error: string | null
+          order_id: string | null
+          recipient: string
+          sent_at: string | null
+          shipment_id: string | null
+          status: string
+          store_id: string
+          subject: string | null
+          to_email: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          event: Database["public"]["Enums"]["notification_event"]
+          html?: string | null
+          id?: string
+          last_error?: string | null
+          order_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          shipment_id?: string | null
+          status?: string
+          store_id: string
+          subject?: string | null
+          to_email: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          event?: Database["public"]["Enums"]["notification_event"]
+          html?: string | null
+          id?: string
+          last_error?: string | null
+          order_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          shipment_id?: string | null
+          status?: string
+          store_id?: string
+          subject?: string | null
+          to_email?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          created_at: string
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          is_enabled: boolean
+          recipient: string
+          store_id: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          is_enabled?: boolean
+          recipient: string
+          store_id: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          event?: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          is_enabled?: boolean
+          recipient?: string
+          store_id?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_alerts: {
+        Row: {
+          created_at: string
+          id: string
+          is_read: boolean
+          product_id: string
+          resolved_at: string | null
+          stock_quantity: number
+          store_id: string
+          threshold: number
+          updated_at: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          product_id: string
+          resolved_at?: string | null
+          stock_quantity: number
+          store_id: string
+          threshold: number
+          updated_at?: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          product_id?: string
+          resolved_at?: string | null
+          stock_quantity?: number
+          store_id?: string
+          threshold?: number
+          updated_at?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_alerts_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_alerts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_alerts_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          order_id: string | null
+          product_id: string
+          quantity_after: number
+          quantity_change: number
+          reason: Database["public"]["Enums"]["inventory_movement_reason"]
+          store_id: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id: string
+          quantity_after: number
+          quantity_change: number
+          reason: Database["public"]["Enums"]["inventory_movement_reason"]
+          store_id: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id?: string
+          quantity_after?: number
+          quantity_change?: number
+          reason?: Database["public"]["Enums"]["inventory_movement_reason"]
+          store_id?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_events: {
+        Row: {
+          actor: string
+          created_at: string
+          created_by: string | null
+          event_type: Database["public"]["Enums"]["order_event_type"]
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          metadata: Json
+          note: string | null
+          order_id: string
+          store_id: string
+          to_status: Database["public"]["Enums"]["order_status"] | null
+        }
+        Insert: {
+          actor: string
+          created_at?: string
+          created_by?: string | null
+          event_type: Database["public"]["Enums"]["order_event_type"]
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          metadata?: Json
+          note?: string | null
+          order_id: string
+          store_id: string
+          to_status?: Database["public"]["Enums"]["order_status"] | null
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          created_by?: string | null
+          event_type?: Database["public"]["Enums"]["order_event_type"]
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          metadata?: Json
+          note?: string | null
+          order_id?: string
+          store_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_events_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string
           id: string
+          inventory_reserved: boolean
           order_id: string
           product_id: string | null
           product_name: string
           quantity: number
+          restocked_quantity: number
           sku: string | null
           total_price: number
           unit_price: number
@@ -203,10 +574,12 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          inventory_reserved?: boolean
           order_id: string
           product_id?: string | null
           product_name: string
           quantity?: number
+          restocked_quantity?: number
           sku?: string | null
           total_price?: number
           unit_price?: number
@@ -216,10 +589,12 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          inventory_reserved?: boolean
           order_id?: string
           product_id?: string | null
           product_name?: string
           quantity?: number
+          restocked_quantity?: number
           sku?: string | null
           total_price?: number
           unit_price?: number
@@ -256,13 +631,19 @@ export type Database = {
           created_at: string
           customer_id: string | null
           discount_amount: number | null
+          discount_code: string | null
+          discount_code_id: string | null
           id: string
           internal_notes: string | null
           notes: string | null
           order_number: string
+          payment_method: string
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          refunded_amount: number
           shipping_address: Json | null
           shipping_amount: number | null
           status: Database["public"]["Enums"]["order_status"]
+          store_credit_amount: number
           store_id: string
           subtotal: number
           tax_amount: number | null
@@ -274,13 +655,19 @@ export type Database = {
           created_at?: string
           customer_id?: string | null
           discount_amount?: number | null
+          discount_code?: string | null
+          discount_code_id?: string | null
           id?: string
           internal_notes?: string | null
           notes?: string | null
           order_number: string
+          payment_method?: string
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          refunded_amount?: number
           shipping_address?: Json | null
           shipping_amount?: number | null
           status?: Database["public"]["Enums"]["order_status"]
+          store_credit_amount?: number
           store_id: string
           subtotal?: number
           tax_amount?: number | null
@@ -292,13 +679,19 @@ export type Database = {
           created_at?: string
           customer_id?: string | null
           discount_amount?: number | null
+          discount_code?: string | null
+          discount_code_id?: string | null
           id?: string
           internal_notes?: string | null
           notes?: string | null
           order_number?: string
+          payment_method?: string
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          refunded_amount?: number
           shipping_address?: Json | null
           shipping_amount?: number | null
           status?: Database["public"]["Enums"]["order_status"]
+          store_credit_amount?: number
           store_id?: string
           subtotal?: number
           tax_amount?: number | null
@@ -313,6 +706,13 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_store_id_fkey"
             columns: ["store_id"]
@@ -433,41 +833,189 @@ export type Database = {
         }
         Relationships: []
       }
-      product_variants: {
+      payments: {
         Row: {
-          attributes: Json | null
-          compare_at_price: number | null
+          amount: number
           created_at: string
+          currency: string
           id: string
-          image_url: string | null
-          name: string
-          price: number
-          product_id: string
-          sku: string | null
-          stock_quantity: number
+          order_id: string
+          paid_at: string | null
+          provider: string
+          provider_reference: string | null
+          provider_response: Json | null
+          status: Database["public"]["Enums"]["payment_status"]
+          store_id: string
           updated_at: string
         }
         Insert: {
-          attributes?: Json | null
-          compare_at_price?: number | null
+          amount: number
           created_at?: string
+          currency?: string
           id?: string
-          image_url?: string | null
-          name: string
-          price?: number
-          product_id: string
-          sku?: string | null
-          stock_quantity?: number
+          order_id: string
+          paid_at?: string | null
+          provider: string
+          provider_reference?: string | null
+          provider_response?: Json | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          store_id: string
           updated_at?: string
         }
         Update: {
-          attributes?: Json | null
-          compare_at_price?: number | null
+          amount?: number
           created_at?: string
+          currency?: string
           id?: string
-          image_url?: string | null
-          name?: string
-          price?: number
+          order_id?: string
+          paid_at?: string | null
+          provider?: string
+          provider_reference?: string | null
+          provider_response?: Json | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_reviews: {
+        Row: {
+          author_email: string
+          author_name: string
+          body: string
+          created_at: string
+          id: string
+          is_verified_purchase: boolean
+          moderated_at: string | null
+          moderated_by: string | null
+          order_id: string | null
+          photos: string[]
+          product_id: string
+          rating: number
+          replied_at: string | null
+          reply: string | null
+          status: Database["public"]["Enums"]["review_status"]
+          store_id: string
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          author_email: string
+          author_name: string
+          body: string
+          created_at?: string
+          id?: string
+          is_verified_purchase?: boolean
+          moderated_at?: string | null
+          moderated_by?: string | null
+          order_id?: string | null
+          photos?: string[]
+          product_id: string
+          rating: number
+          replied_at?: string | null
+          reply?: string | null
+          status?: Database["public"]["Enums"]["review_status"]
+          store_id: string
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          author_email?: string
+          author_name?: string
+          body?: string
+          created_at?: string
+          id?: string
+          is_verified_purchase?: boolean
+          moderated_at?: string | null
+          moderated_by?: string | null
+          order_id?: string | null
+          photos?: string[]
+          product_id?: string
+          rating?: number
+          replied_at?: string | null
+          reply?: string | null
+          status?: Database["public"]["Enums"]["review_status"]
+          store_id?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_reviews_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_reviews_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          attributes: Json | null
+          compare_at_price: number | null
+          created_at: string
+          id: string
+          image_url: string | null
+          low_stock_threshold: number | null
+          name: string
+          price: number
+          product_id: string
+          sku: string | null
+          stock_quantity: number
+          updated_at: string
+        }
+        Insert: {
+          attributes?: Json | null
+          compare_at_price?: number | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          low_stock_threshold?: number | null
+          name: string
+          price?: number
+          product_id: string
+          sku?: string | null
+          stock_quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          attributes?: Json | null
+          compare_at_price?: number | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          low_stock_threshold?: number | null
+          name?: string
+          price?: number
           product_id?: string
           sku?: string | null
           stock_quantity?: number
@@ -485,6 +1033,7 @@ export type Database = {
       }
       products: {
         Row: {
+          allow_backorders: boolean
           attributes: Json | null
           barcode: string | null
           category_id: string | null
@@ -495,6 +1044,7 @@ export type Database = {
           featured: boolean | null
           id: string
           images: Json | null
+          low_stock_threshold: number | null
           name: string
           price: number
           seo_description: string | null
@@ -508,6 +1058,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          allow_backorders?: boolean
           attributes?: Json | null
           barcode?: string | null
           category_id?: string | null
@@ -518,6 +1069,7 @@ export type Database = {
           featured?: boolean | null
           id?: string
           images?: Json | null
+          low_stock_threshold?: number | null
           name: string
           price?: number
           seo_description?: string | null
@@ -527,42 +1079,439 @@ export type Database = {
           status?: Database["public"]["Enums"]["product_status"]
           stock_quantity?: number
           store_id: string
-          track_inventory?: boolean | null
+          track_inventory?: boolean | null
+          updated_at?: string
+        }
+        Update: {
+          allow_backorders?: boolean
+          attributes?: Json | null
+          barcode?: string | null
+          category_id?: string | null
+          compare_at_price?: number | null
+          cost_price?: number | null
+          created_at?: string
+          description?: string | null
+          featured?: boolean | null
+          id?: string
+          images?: Json | null
+          low_stock_threshold?: number | null
+          name?: string
+          price?: number
+          seo_description?: string | null
+          seo_title?: string | null
+          sku?: string | null
+          slug?: string
+          status?: Database["public"]["Enums"]["product_status"]
+          stock_quantity?: number
+          store_id?: string
+          track_inventory?: boolean | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          full_name: string | null
+          id: string
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          method: string
+          order_id: string
+          reason: string | null
+          return_id: string | null
+          store_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method: string
+          order_id: string
+          reason?: string | null
+          return_id?: string | null
+          store_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: string
+          order_id?: string
+          reason?: string | null
+          return_id?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          quantity: number
+          reason: Database["public"]["Enums"]["return_reason"]
+          return_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          quantity: number
+          reason: Database["public"]["Enums"]["return_reason"]
+          return_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          reason?: Database["public"]["Enums"]["return_reason"]
+          return_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "returns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      returns: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          order_id: string
+          received_at: string | null
+          requested_by: string
+          restocked: boolean
+          status: Database["public"]["Enums"]["return_status"]
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          received_at?: string | null
+          requested_by: string
+          restocked?: boolean
+          status?: Database["public"]["Enums"]["return_status"]
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          received_at?: string | null
+          requested_by?: string
+          restocked?: boolean
+          status?: Database["public"]["Enums"]["return_status"]
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "returns_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "returns_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipment_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          quantity: number
+          shipment_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          quantity: number
+          shipment_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          shipment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipment_items_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipments: {
+        Row: {
+          carrier: string
+          created_at: string
+          created_by: string | null
+          id: string
+          order_id: string
+          store_id: string
+          tracking_number: string | null
+          tracking_url: string | null
+          tracking_url_template: string | null
+        }
+        Insert: {
+          carrier: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id: string
+          store_id: string
+          tracking_number?: string | null
+          tracking_url?: never
+          tracking_url_template?: string | null
+        }
+        Update: {
+          carrier?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id?: string
+          store_id?: string
+          tracking_number?: string | null
+          tracking_url?: never
+          tracking_url_template?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_attempts: {
+        Row: {
+          created_at: string
+          error: string | null
+          gateway: string
+          id: string
+          message: string
+          response: Json | null
+          sms_id: string
+          store_id: string
+          success: boolean
+          to_phone: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          gateway: string
+          id?: string
+          message: string
+          response?: Json | null
+          sms_id: string
+          store_id: string
+          success: boolean
+          to_phone: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          gateway?: string
+          id?: string
+          message?: string
+          response?: Json | null
+          sms_id?: string
+          store_id?: string
+          success?: boolean
+          to_phone?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_attempts_sms_id_fkey"
+            columns: ["sms_id"]
+            isOneToOne: false
+            referencedRelation: "sms_outbox"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_attempts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          event: Database["public"]["Enums"]["notification_event"]
+          id: string
+          last_error: string | null
+          message: string | null
+          order_id: string | null
+          sent_at: string | null
+          shipment_id: string | null
+          status: string
+          store_id: string
+          to_phone: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          event: Database["public"]["Enums"]["notification_event"]
+          id?: string
+          last_error?: string | null
+          message?: string | null
+          order_id?: string | null
+          sent_at?: string | null
+          shipment_id?: string | null
+          status?: string
+          store_id: string
+          to_phone: string
           updated_at?: string
         }
         Update: {
-          attributes?: Json | null
-          barcode?: string | null
-          category_id?: string | null
-          compare_at_price?: number | null
-          cost_price?: number | null
+          attempts?: number
           created_at?: string
-          description?: string | null
-          featured?: boolean | null
+          event?: Database["public"]["Enums"]["notification_event"]
           id?: string
-          images?: Json | null
-          name?: string
-          price?: number
-          seo_description?: string | null
-          seo_title?: string | null
-          sku?: string | null
-          slug?: string
-          status?: Database["public"]["Enums"]["product_status"]
-          stock_quantity?: number
+          last_error?: string | null
+          message?: string | null
+          order_id?: string | null
+          sent_at?: string | null
+          shipment_id?: string | null
+          status?: string
           store_id?: string
-          track_inventory?: boolean | null
+          to_phone?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "sms_outbox_order_id_fkey"
+            columns: ["order_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "products_store_id_fkey"
+            foreignKeyName: "sms_outbox_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_outbox_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
@@ -570,35 +1519,73 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      store_credit_movements: {
         Row: {
-          avatar_url: string | null
+          amount_change: number
+          balance_after: number
           created_at: string
-          full_name: string | null
+          created_by: string | null
+          customer_id: string
           id: string
-          phone: string | null
-          updated_at: string
-          user_id: string
+          order_id: string | null
+          reason: Database["public"]["Enums"]["store_credit_reason"]
+          refund_id: string | null
+          store_id: string
         }
         Insert: {
-          avatar_url?: string | null
+          amount_change: number
+          balance_after: number
           created_at?: string
-          full_name?: string | null
+          created_by?: string | null
+          customer_id: string
           id?: string
-          phone?: string | null
-          updated_at?: string
-          user_id: string
+          order_id?: string | null
+          reason: Database["public"]["Enums"]["store_credit_reason"]
+          refund_id?: string | null
+          store_id: string
         }
         Update: {
-          avatar_url?: string | null
+          amount_change?: number
+          balance_after?: number
           created_at?: string
-          full_name?: string | null
+          created_by?: string | null
+          customer_id?: string
           id?: string
-          phone?: string | null
-          updated_at?: string
-          user_id?: string
+          order_id?: string | null
+          reason?: Database["public"]["Enums"]["store_credit_reason"]
+          refund_id?: string | null
+          store_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "store_credit_movements_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_credit_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_credit_movements_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_credit_movements_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       store_extensions: {
         Row: {
@@ -607,6 +1594,7 @@ export type Database = {
           extension_id: string
           id: string
           is_enabled: boolean | null
+          public_config_keys: string[]
           store_id: string
           updated_at: string | null
         }
@@ -616,6 +1604,7 @@ export type Database = {
           extension_id: string
           id?: string
           is_enabled?: boolean | null
+          public_config_keys?: string[]
           store_id: string
           updated_at?: string | null
         }
@@ -625,6 +1614,7 @@ export type Database = {
           extension_id?: string
           id?: string
           is_enabled?: boolean | null
+          public_config_keys?: string[]
           store_id?: string
           updated_at?: string | null
         }
@@ -922,6 +1912,63 @@ export type Database = {
           },
         ]
       }
+      store_versions: {
+        Row: {
+          created_at: string
+          header_footer: Json | null
+          id: string
+          note: string | null
+          published_by: string | null
+          published_by_name: string | null
+          restored_from_version_id: string | null
+          sections: Json
+          store_id: string
+          theme: Json | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          header_footer?: Json | null
+          id?: string
+          note?: string | null
+          published_by?: string | null
+          published_by_name?: string | null
+          restored_from_version_id?: string | null
+          sections?: Json
+          store_id: string
+          theme?: Json | null
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          header_footer?: Json | null
+          id?: string
+          note?: string | null
+          published_by?: string | null
+          published_by_name?: string | null
+          restored_from_version_id?: string | null
+          sections?: Json
+          store_id?: string
+          theme?: Json | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "store_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_versions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stores: {
         Row: {
           address: string | null
@@ -937,6 +1984,7 @@ export type Database = {
           name: string
           owner_id: string
           phone: string | null
+          published_version_id: string | null
           settings: Json | null
           slug: string
           status: Database["public"]["Enums"]["store_status"]
@@ -956,6 +2004,7 @@ export type Database = {
           name: string
           owner_id: string
           phone?: string | null
+          published_version_id?: string | null
           settings?: Json | null
           slug: string
           status?: Database["public"]["Enums"]["store_status"]
@@ -975,12 +2024,21 @@ export type Database = {
           name?: string
           owner_id?: string
           phone?: string | null
+          published_version_id?: string | null
           settings?: Json | null
           slug?: string
           status?: Database["public"]["Enums"]["store_status"]
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "stores_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "store_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -1005,13 +2063,189 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      product_sales_daily: {
+        Row: {
+          order_count: number | null
+          product_id: string | null
+          revenue: number | null
+          sale_date: string | null
+          store_id: string | null
+          units_sold: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      add_order_note: {
+        Args: { p_note: string; p_order_id: string }
+        Returns: undefined
+      }
+      adjust_inventory: {
+        Args: {
+          p_note?: string
+          p_product_id: string
+          p_quantity_change: number
+          p_reason?: Database["public"]["Enums"]["inventory_movement_reason"]
+          p_variant_id?: string
+        }
+        Returns: number
+      }
+      calculate_discount_amount: {
+        Args: {
+          _discount: Database["public"]["Tables"]["discount_codes"]["Row"]
+          _subtotal: number
+        }
+        Returns: number
+      }
+      calculate_shipping_amount: {
+        Args: {
+          p_city: string
+          p_store_id: string
+          p_subtotal: number
+        }
+        Returns: number
+      }
       can_access_store: {
         Args: { _store_id: string; _user_id: string }
         Returns: boolean
       }
+      claim_email_outbox: {
+        Args: { p_limit?: number }
+        Returns: Database["public"]["Tables"]["email_outbox"]["Row"][]
+      }
+      claim_sms_outbox: {
+        Args: { p_limit?: number }
+        Returns: Database["public"]["Tables"]["sms_outbox"]["Row"][]
+      }
+      complete_payment: {
+        Args: {
+          p_payment_id: string
+          p_reference?: string
+          p_response?: Json
+          p_status: Database["public"]["Enums"]["payment_status"]
+        }
+        Returns: Json
+      }
+      create_shipment: {
+        Args: {
+          p_carrier: string
+          p_items: Json
+          p_order_id: string
+          p_tracking_number?: string
+          p_tracking_url_template?: string
+        }
+        Returns: string
+      }
+      current_order_actor: {
+        Args: { p_store_id: string }
+        Returns: string
+      }
+      enqueue_order_notification: {
+        Args: {
+          p_event: Database["public"]["Enums"]["notification_event"]
+          p_order_id: string
+          p_shipment_id?: string
+        }
+        Returns: undefined
+      }
+      enqueue_order_sms: {
+        Args: {
+          p_event: Database["public"]["Enums"]["notification_event"]
+          p_order_id: string
+          p_shipment_id?: string
+        }
+        Returns: undefined
+      }
+      generate_order_number: {
+        Args: { p_store_id: string }
+        Returns: string
+      }
+      get_best_selling_products: {
+        Args: {
+          p_days?: number
+          p_limit?: number
+          p_store_id: string
+        }
+        Returns: {
+          product_id: string
+          sales_rank: number
+        }[]
+      }
+      get_customer_orders: {
+        Args: { p_store_id: string }
+        Returns: {
+          created_at: string
+          discount_amount: number
+          id: string
+          items: Json
+          order_number: string
+          payment_method: string
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          refunded_amount: number
+          returns: Json
+          shipping_address: Json
+          shipping_amount: number
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          total: number
+        }[]
+      }
+      get_inventory_discrepancies: {
+        Args: { p_store_id: string }
+        Returns: {
+          ledger_quantity: number
+          product_id: string
+          stock_quantity: number
+          variant_id: string
+        }[]
+      }
+      get_low_stock_items: {
+        Args: { p_store_id: string }
+        Returns: {
+          product_id: string
+          product_name: string
+          stock_quantity: number
+          threshold: number
+          variant_id: string
+          variant_name: string
+        }[]
+      }
+      get_product_rating_summaries: {
+        Args: { p_product_ids: string[] }
+        Returns: {
+          average_rating: number
+          product_id: string
+          review_count: number
+        }[]
+      }
+      get_product_reviews: {
+        Args: {
+          p_limit?: number
+          p_min_rating?: number
+          p_offset?: number
+          p_product_id?: string
+          p_store_id: string
+        }
+        Returns: {
+          author_name: string
+          body: string
+          created_at: string
+          id: string
+          is_verified_purchase: boolean
+          photos: string[]
+          product_id: string
+          product_name: string
+          product_slug: string
+          rating: number
+          replied_at: string
+          reply: string
+          title: string
+        }[]
+      }
+      get_published_store_version: {
+        Args: { p_store_slug: string }
+        Returns: Json
+      }
       get_standard_pages_for_business: {
         Args: { p_business_category?: string; p_business_type: string }
         Returns: {
@@ -1022,6 +2256,18 @@ export type Database = {
           title: string
         }[]
       }
+      get_store_low_stock_threshold: {
+        Args: { p_store_id: string }
+        Returns: number
+      }
+      get_store_payment_methods: {
+        Args: { p_store_id: string }
+        Returns: string[]
+      }
+      get_storefront_extensions: {
+        Args: { p_store_slug: string }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1029,6 +2275,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      initialize_store_email_templates: {
+        Args: { p_store_id: string }
+        Returns: undefined
+      }
       initialize_store_pages: {
         Args: {
           p_business_category?: string
@@ -1037,11 +2287,154 @@ export type Database = {
         }
         Returns: number
       }
+      is_customer_account: {
+        Args: {
+          _customer_id: string
+          _store_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
+      link_customer_account: { Args: { p_store_id: string }; Returns: Json }
+      mark_order_paid: {
+        Args: { p_order_id: string }
+        Returns: undefined
+      }
+      order_status_transition_allowed: {
+        Args: {
+          p_from: Database["public"]["Enums"]["order_status"]
+          p_to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          p_customer: Json
+          p_discount_code?: string
+          p_items: Json
+          p_notes?: string
+          p_payment_method?: string
+          p_store_id: string
+          p_use_store_credit?: boolean
+        }
+        Returns: Json
+      }
+      publish_store: {
+        Args: {
+          p_note?: string
+          p_store_id: string
+        }
+        Returns: string
+      }
+      refund_order: {
+        Args: {
+          p_amount: number
+          p_method: string
+          p_order_id: string
+          p_reason?: string
+          p_return_id?: string
+        }
+        Returns: string
+      }
+      reply_to_product_review: {
+        Args: { p_reply: string; p_review_id: string }
+        Returns: undefined
+      }
+      request_return: {
+        Args: { p_items: Json; p_note?: string; p_order_id: string }
+        Returns: string
+      }
+      restore_store_version: {
+        Args: {
+          p_version_id: string
+        }
+        Returns: string
+      }
+      set_product_review_status: {
+        Args: {
+          p_review_id: string
+          p_status: Database["public"]["Enums"]["review_status"]
+        }
+        Returns: undefined
+      }
+      set_return_status: {
+        Args: {
+          p_restock?: boolean
+          p_return_id: string
+          p_status: Database["public"]["Enums"]["return_status"]
+        }
+        Returns: undefined
+      }
+      submit_product_review: {
+        Args: {
+          p_author_email: string
+          p_author_name: string
+          p_body: string
+          p_order_number?: string
+          p_photos?: string[]
+          p_product_id: string
+          p_rating: number
+          p_title?: string
+        }
+        Returns: Json
+      }
+      sync_inventory_alert: {
+        Args: {
+          p_product_id: string
+          p_variant_id?: string
+        }
+        Returns: undefined
+      }
+      track_order: {
+        Args: {
+          p_contact: string
+          p_order_number: string
+          p_store_id: string
+        }
+        Returns: Json
+      }
+      update_customer_profile: {
+        Args: {
+          p_full_name: string
+          p_phone?: string
+          p_store_id: string
+        }
+        Returns: undefined
+      }
+      validate_discount_code: {
+        Args: {
+          p_code: string
+          p_store_id: string
+          p_subtotal: number
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "super_admin" | "store_admin" | "store_staff" | "customer"
+      inventory_movement_reason:
+        | "initial"
+        | "manual_adjustment"
+        | "sale"
+        | "cancellation_restock"
+        | "return"
+        | "import"
       nav_location: "header" | "footer" | "mobile"
+      notification_event:
+        | "order_placed"
+        | "order_confirmed"
+        | "order_shipped"
+        | "order_delivered"
+        | "order_cancelled"
+      order_event_type:
+        | "placed"
+        | "status_changed"
+        | "note"
+        | "payment"
+        | "shipment"
+        | "return"
+        | "refund"
       order_status:
         | "pending"
         | "confirmed"
@@ -1063,7 +2456,25 @@ export type Database = {
         | "profile"
         | "order_tracking"
         | "search"
+      payment_status:
+        | "pending"
+        | "paid"
+        | "failed"
+        | "refunded"
       product_status: "draft" | "active" | "archived"
+      return_reason:
+        | "damaged"
+        | "defective"
+        | "wrong_item"
+        | "not_as_described"
+        | "no_longer_needed"
+        | "other"
+      return_status:
+        | "requested"
+        | "approved"
+        | "rejected"
+        | "received"
+      review_status: "pending" | "approved" | "hidden"
       section_type:
         | "header"
         | "footer"
@@ -1097,6 +2508,7 @@ export type Database = {
         | "recently_viewed"
         | "recommended_products"
         | "product_reviews"
+      store_credit_reason: "refund" | "order" | "order_cancelled"
       store_status: "pending" | "active" | "suspended" | "closed"
     }
     CompositeTypes: {
@@ -1226,7 +2638,31 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["super_admin", "store_admin", "store_staff", "customer"],
+      inventory_movement_reason: [
+        "initial",
+        "manual_adjustment",
+        "sale",
+        "cancellation_restock",
+        "return",
+        "import",
+      ],
       nav_location: ["header", "footer", "mobile"],
+      notification_event: [
+        "order_placed",
+        "order_confirmed",
+        "order_shipped",
+        "order_delivered",
+        "order_cancelled",
+      ],
+      order_event_type: [
+        "placed",
+        "status_changed",
+        "note",
+        "payment",
+        "shipment",
+        "return",
+        "refund",
+      ],
       order_status: [
         "pending",
         "confirmed",
@@ -1250,7 +2686,28 @@ export const Constants = {
         "order_tracking",
         "search",
       ],
+      payment_status: [
+        "pending",
+        "paid",
+        "failed",
+        "refunded",
+      ],
       product_status: ["draft", "active", "archived"],
+      return_reason: [
+        "damaged",
+        "defective",
+        "wrong_item",
+        "not_as_described",
+        "no_longer_needed",
+        "other",
+      ],
+      return_status: [
+        "requested",
+        "approved",
+        "rejected",
+        "received",
+      ],
+      review_status: ["pending", "approved", "hidden"],
       section_type: [
         "header",
         "footer",
@@ -1285,6 +2742,7 @@ export const Constants = {
         "recommended_products",
         "product_reviews",
       ],
+      store_credit_reason: ["refund", "order", "order_cancelled"],
       store_status: ["pending", "active", "suspended", "closed"],
     },
   },
@@ -0,0 +1,28 @@
+import { Outlet, useParams, useSearchParams } from 'react-router-dom';
+import { StorefrontExtensions } from '@/components/storefront/StorefrontExtensions';
+import { StorefrontPreviewProvider } from '@/contexts/StorefrontPreviewContext';
+import { StorefrontThemeProvider } from '@/contexts/StorefrontThemeContext';
+import { isPreviewWindow } from '@/lib/storefrontPreview';
+
+/**
+ * Wraps every /store/:storeSlug route. Pages still load their own data;
+ * the layout hosts what must live across storefront navigation: the store
+ * theme and the extension runtime.
+ *
+ * Inside the store builder's preview iframe, extensions are not loaded so
+ * editing a page never emits analytics events.
+ */
+export default function StorefrontLayout() {
+  const { storeSlug } = useParams();
+  const [searchParams] = useSearchParams();
+  const isPreview = isPreviewWindow(searchParams);
+
+  return (
+    <StorefrontPreviewProvider enabled={isPreview}>
+      <StorefrontThemeProvider storeSlug={storeSlug}>
+        <Outlet />
+        {!isPreview && <StorefrontExtensions storeSlug={storeSlug} />}
+      </StorefrontThemeProvider>
+    </StorefrontPreviewProvider>
+  );
+}
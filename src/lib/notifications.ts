@@ -0,0 +1,167 @@
+/**
+ * ============================================================================
+ * ORDER NOTIFICATIONS
+ * ============================================================================
+ *
+ * Order emails are queued in the database (email_outbox) by triggers on
+ * orders and delivered by the send-notifications edge function using the
+ * store's email_templates.
+ *
+ * Order SMS work the same way (sms_outbox) when the sms_notifications
+ * extension is enabled; their templates live in the extension config.
+ *
+ * This module holds the event/placeholder metadata for the template editors,
+ * a preview renderer, and sendPendingNotifications() to kick the sender
+ * after an order changes.
+ *
+ * ============================================================================
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type NotificationEvent = Database['public']['Enums']['notification_event'];
+export type NotificationRecipient = 'customer' | 'merchant';
+
+export const NOTIFICATION_EVENTS: { id: NotificationEvent; name: string; description: string }[] = [
+  { id: 'order_placed', name: 'Order placed', description: 'A customer completes checkout' },
+  { id: 'order_confirmed', name: 'Order confirmed', description: 'The order status changes to confirmed' },
+  { id: 'order_shipped', name: 'Order shipped', description: 'The order status changes to shipped' },
+  { id: 'order_delivered', name: 'Order delivered', description: 'The order status changes to delivered' },
+  { id: 'order_cancelled', name: 'Order cancelled', description: 'The order is cancelled' },
+];
+
+/**
+ * Placeholders available in subjects and bodies
+ */
+export const TEMPLATE_VARIABLES: { key: string; description: string }[] = [
+  { key: 'customer_name', description: 'Customer full name' },
+  { key: 'customer_email', description: 'Customer email' },
+  { key: 'customer_phone', description: 'Customer phone' },
+  { key: 'store_name', description: 'Your store name' },
+  { key: 'order_number', description: 'Order number, e.g. ORD-260111-4F2A9C' },
+  { key: 'order_items', description: 'Table of ordered items (body only)' },
+  { key: 'order_total', description: 'Order total' },
+  { key: 'payment_method', description: 'Payment method' },
+  { key: 'shipping_address', description: 'Shipping address' },
+  { key: 'carrier', description: 'Carrier of the latest shipment' },
+  { key: 'tracking_number', description: 'Tracking number of the latest shipment' },
+  { key: 'tracking_url', description: 'Tracking link of the latest shipment' },
+  { key: 'tracking_details', description: 'Carrier, tracking number and link for every shipment (body only)' },
+];
+
+/**
+ * SMS sent by the sms_notifications extension. The defaults mirror
+ * DEFAULT_SMS_TEMPLATES in supabase/functions/_shared/sms/index.ts and are
+ * used when the store leaves a template blank.
+ */
+export const SMS_EVENTS: { id: NotificationEvent; name: string; defaultTemplate: string }[] = [
+  {
+    id: 'order_placed',
+    name: 'Order placed',
+    defaultTemplate: '{{store_name}}: Thank you {{customer_name}}! Order {{order_number}} ({{order_total}}) received. We will notify you when it ships.',
+  },
+  {
+    id: 'order_shipped',
+    name: 'Order shipped',
+    defaultTemplate: '{{store_name}}: Your order {{order_number}} has been shipped and is on its way. {{tracking_url}}',
+  },
+  {
+    id: 'order_delivered',
+    name: 'Order delivered',
+    defaultTemplate: '{{store_name}}: Your order {{order_number}} has been delivered. Thank you for shopping with us!',
+  },
+];
+
+export const SMS_TEMPLATE_VARIABLES = [
+  'customer_name',
+  'store_name',
+  'order_number',
+  'order_total',
+  'tracking_number',
+  'tracking_url',
+];
+
+const SAMPLE_VARIABLES: Record<string, string> = {
+  customer_name: 'Sita Sharma',
+  customer_email: 'sita@example.com',
+  customer_phone: '9800000000',
+  order_number: 'ORD-260111-4F2A9C',
+  order_total: 'रु 3,450',
+  payment_method: 'Cash on Delivery',
+  shipping_address: 'Sita Sharma\nNew Baneshwor\nKathmandu\n9800000000',
+  carrier: 'DHL',
+  tracking_number: '1234567890',
+  tracking_url: 'https://www.dhl.com/global-en/home/tracking/tracking-express.html?submit=1&tracking-id=1234567890',
+};
+
+const SAMPLE_ITEMS = [
+  { name: 'Cotton Kurta (M)', quantity: 1, total: 'रु 2,200' },
+  { name: 'Pashmina Scarf', quantity: 1, total: 'रु 1,250' },
+];
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function fillPlaceholders(template: string, variables: Record<string, string>, escape: boolean) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => {
+    const value = variables[key] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Render a template with sample data for the editor preview.
+ * Mirrors supabase/functions/_shared/email/render.ts (without the outer
+ * email layout, which the editor draws with the store branding).
+ */
+export function renderTemplatePreview(subject: string, body: string, storeName: string) {
+  const variables: Record<string, string> = { ...SAMPLE_VARIABLES, store_name: storeName };
+
+  const itemsTable = `<table style="width:100%;border-collapse:collapse;margin:8px 0">${SAMPLE_ITEMS.map(
+    (item) =>
+      `<tr><td style="padding:8px 0;border-bottom:1px solid #e5e7eb">${item.name} &times; ${item.quantity}</td>` +
+      `<td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right">${item.total}</td></tr>`
+  ).join('')}</table>`;
+
+  const trackingDetails =
+    `<p style="margin:0 0 16px">Shipped with ${variables.carrier}<br>Tracking number: ${variables.tracking_number}<br>` +
+    `<a href="${escapeHtml(variables.tracking_url)}">Track your package</a></p>`;
+
+  const html = body
+    .split(/\n{2,}/)
+    .map((block) => {
+      if (/^\{\{\s*order_items\s*\}\}$/.test(block.trim())) return itemsTable;
+      if (/^\{\{\s*tracking_details\s*\}\}$/.test(block.trim())) return trackingDetails;
+      const text = fillPlaceholders(
+        escapeHtml(block)
+          .replace(/\{\{\s*order_items\s*\}\}/g, itemsTable)
+          .replace(/\{\{\s*tracking_details\s*\}\}/g, trackingDetails),
+        variables,
+        true
+      ).replace(/\n/g, '<br>');
+      return `<p style="margin:0 0 16px">${text}</p>`;
+    })
+    .join('');
+
+  return {
+    subject: fillPlaceholders(subject, variables, false),
+    html,
+  };
+}
+
+/**
+ * Ask the send-notifications edge function to deliver queued emails and SMS.
+ * Fire-and-forget: messages stay queued (and are retried) if this fails.
+ */
+export function sendPendingNotifications() {
+  supabase.functions.invoke('send-notifications', { body: {} }).catch((error) => {
+    console.error('Error sending notifications:', error);
+  });
+}
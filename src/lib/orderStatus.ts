@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * ORDER STATUS
+ * ============================================================================
+ *
+ * Shopper-facing names for order statuses (customer account and
+ * order tracking pages), and the status changes the database allows -
+ * mirrors order_status_transition_allowed() so the dashboard only offers
+ * valid next statuses. Refunded is left out: only refund_order() sets it,
+ * once the whole order has been refunded.
+ *
+ * ============================================================================
+ */
+
+import { Constants, type Database } from '@/integrations/supabase/types';
+
+export type OrderStatus = Database['public']['Enums']['order_status'];
+
+export const ORDER_STATUSES: readonly OrderStatus[] = Constants.public.Enums.order_status;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Order Placed',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'processing', 'shipped', 'cancelled'],
+  confirmed: ['processing', 'shipped', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+  refunded: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
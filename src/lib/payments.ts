@@ -0,0 +1,136 @@
+/**
+ * ============================================================================
+ * PAYMENTS
+ * ============================================================================
+ *
+ * Storefront side of the payment flow:
+ *
+ * 1. Checkout calls place_order() with the chosen method; it returns a
+ *    pending payment_id
+ * 2. startPayment() asks the payment-initiate edge function how to pay and
+ *    redirects (or form-posts) the shopper to the provider
+ * 3. The provider sends the shopper back to the checkout route with
+ *    ?payment_id=..., where verifyPayment() confirms the outcome
+ *
+ * Provider credentials never reach the browser - they are read by the edge
+ * functions from store_extensions.config (extension id payment_<method>).
+ *
+ * ============================================================================
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type PaymentMethodId = 'cod' | 'esewa' | 'khalti' | 'stripe' | 'mock';
+
+export interface PaymentMethodInfo {
+  id: PaymentMethodId;
+  name: string;
+  description: string;
+  /** Online methods redirect to the provider after the order is placed */
+  online: boolean;
+}
+
+export const PAYMENT_METHODS: Record<PaymentMethodId, PaymentMethodInfo> = {
+  cod: {
+    id: 'cod',
+    name: 'Cash on Delivery',
+    description: 'Pay when your order arrives',
+    online: false,
+  },
+  esewa: {
+    id: 'esewa',
+    name: 'eSewa',
+    description: 'Pay with your eSewa wallet',
+    online: true,
+  },
+  khalti: {
+    id: 'khalti',
+    name: 'Khalti',
+    description: 'Pay with Khalti wallet, mobile banking or cards',
+    online: true,
+  },
+  stripe: {
+    id: 'stripe',
+    name: 'Credit / Debit Card',
+    description: 'Visa, Mastercard and more',
+    online: true,
+  },
+  mock: {
+    id: 'mock',
+    name: 'Test Payment',
+    description: 'Simulated payment for testing checkout',
+    online: true,
+  },
+};
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+type InitiateResult =
+  | { action: 'none' }
+  | { action: 'redirect'; url: string }
+  | { action: 'form_post'; url: string; fields: Record<string, string> };
+
+export interface VerifiedPayment {
+  payment_id: string;
+  status: PaymentStatus;
+  order_number: string;
+}
+
+/**
+ * Invoke a payment edge function, surfacing its { error } message
+ */
+async function invokePaymentFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  return data as T;
+}
+
+/**
+ * Start an online payment and leave the page for the provider
+ * @returns false when there is nothing to pay online (cash on delivery)
+ */
+export async function startPayment(paymentId: string, returnUrl: string) {
+  const result = await invokePaymentFunction<InitiateResult>('payment-initiate', {
+    payment_id: paymentId,
+    return_url: returnUrl,
+  });
+
+  if (result.action === 'redirect') {
+    window.location.assign(result.url);
+    return true;
+  }
+
+  if (result.action === 'form_post') {
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = result.url;
+    Object.entries(result.fields).forEach(([name, value]) => {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    });
+    document.body.appendChild(form);
+    form.submit();
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Confirm a payment after the provider redirected back
+ * @param params - Query parameters of the return URL
+ */
+export function verifyPayment(paymentId: string, params: Record<string, string>) {
+  return invokePaymentFunction<VerifiedPayment>('payment-verify', {
+    payment_id: paymentId,
+    params,
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * ============================================================================
+ * PRODUCT LISTING PARAMS
+ * ============================================================================
+ *
+ * Sorting and filtering on the product and category pages lives in the URL
+ * (?sort=price-asc&min=10&in_stock=1), so it survives reloads and can be
+ * shared. The built-in listings (ProductListingContent, CategoryPageContent)
+ * read these params; the product_sort and product_filters sections write
+ * them, so merchants can place the controls anywhere on the page.
+ *
+ * ============================================================================
+ */
+
+export type ProductSort = 'newest' | 'price-asc' | 'price-desc' | 'name';
+
+export const PRODUCT_SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: 'newest', label: 'Newest First' },
+  { value: 'price-asc', label: 'Price: Low to High' },
+  { value: 'price-desc', label: 'Price: High to Low' },
+  { value: 'name', label: 'Name: A to Z' },
+];
+
+export const LISTING_PARAMS = {
+  sort: 'sort',
+  minPrice: 'min',
+  maxPrice: 'max',
+  inStock: 'in_stock',
+  onSale: 'on_sale',
+} as const;
+
+export interface ListingFilters {
+  sort: ProductSort;
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  onSale: boolean;
+}
+
+interface FilterableProduct {
+  price: number;
+  compare_at_price: number | null;
+  stock_quantity: number;
+  track_inventory: boolean | null;
+  allow_backorders: boolean;
+}
+
+const parsePrice = (value: string | null) => {
+  if (!value) return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+/**
+ * Sort and filters from the page URL; unknown values fall back to defaults
+ */
+export function readListingFilters(params: URLSearchParams): ListingFilters {
+  const sort = params.get(LISTING_PARAMS.sort);
+
+  return {
+    sort: PRODUCT_SORT_OPTIONS.some((option) => option.value === sort) ? (sort as ProductSort) : 'newest',
+    minPrice: parsePrice(params.get(LISTING_PARAMS.minPrice)),
+    maxPrice: parsePrice(params.get(LISTING_PARAMS.maxPrice)),
+    inStock: params.get(LISTING_PARAMS.inStock) === '1',
+    onSale: params.get(LISTING_PARAMS.onSale) === '1',
+  };
+}
+
+/**
+ * Whether a product passes the price, availability and sale filters
+ */
+export function matchesListingFilters(product: FilterableProduct, filters: ListingFilters) {
+  const price = Number(product.price);
+
+  if (filters.minPrice !== null && price < filters.minPrice) return false;
+  if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+
+  if (filters.inStock) {
+    const unlimited = product.track_inventory === false || product.allow_backorders;
+    if (!unlimited && product.stock_quantity <= 0) return false;
+  }
+
+  if (filters.onSale && !(product.compare_at_price && Number(product.compare_at_price) > price)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Products in the requested order (returns a new array)
+ */
+export function sortProducts<P extends { price: number; name: string; created_at: string }>(
+  products: P[],
+  sort: ProductSort
+) {
+  return [...products].sort((a, b) => {
+    switch (sort) {
+      case 'price-asc':
+        return a.price - b.price;
+      case 'price-desc':
+        return b.price - a.price;
+      case 'name':
+        return a.name.localeCompare(b.name);
+      case 'newest':
+      default:
+        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    }
+  });
+}
+
+/**
+ * Number of filters (not sort) currently applied
+ */
+export function countActiveFilters(filters: ListingFilters) {
+  return [
+    filters.minPrice !== null,
+    filters.maxPrice !== null,
+    filters.inStock,
+    filters.onSale,
+  ].filter(Boolean).length;
+}
@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * RECENTLY VIEWED PRODUCTS
+ * ============================================================================
+ *
+ * Remembers which products a shopper opened, per store, in localStorage
+ * (key 'recently_viewed:<storeId>', newest first). ProductDetail records
+ * views; the recently_viewed and recommended_products sections read them.
+ *
+ * Nothing is sent to the server, so the list is per browser and needs no
+ * customer account.
+ *
+ * ============================================================================
+ */
+
+const MAX_RECENTLY_VIEWED = 20;
+
+const storageKey = (storeId: string) => `recently_viewed:${storeId}`;
+
+/**
+ * Product ids the shopper viewed in this store, newest first
+ */
+export function getRecentlyViewed(storeId: string): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(storeId)) || '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move a product to the front of the store's recently viewed list
+ */
+export function recordRecentlyViewed(storeId: string, productId: string) {
+  const ids = [productId, ...getRecentlyViewed(storeId).filter((id) => id !== productId)];
+
+  try {
+    localStorage.setItem(storageKey(storeId), JSON.stringify(ids.slice(0, MAX_RECENTLY_VIEWED)));
+  } catch {
+    // Storage full or disabled (private mode); the list just isn't kept
+  }
+}
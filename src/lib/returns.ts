@@ -0,0 +1,41 @@
+/**
+ * ============================================================================
+ * RETURNS AND REFUNDS
+ * ============================================================================
+ *
+ * Labels for return statuses, return reasons and refund methods.
+ *
+ * Returns move requested -> approved -> received, or to rejected before they
+ * are received (set_return_status()). Returns opened by staff start out
+ * approved. Refunds (refund_order()) go back to the original payment or
+ * become store credit on the customer.
+ *
+ * ============================================================================
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type ReturnStatus = Database['public']['Enums']['return_status'];
+export type ReturnReason = Database['public']['Enums']['return_reason'];
+export type RefundMethod = 'original_payment' | 'store_credit';
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  original_payment: 'Original payment',
+  store_credit: 'Store credit',
+};
@@ -0,0 +1,116 @@
+/**
+ * ============================================================================
+ * HTML SANITIZER
+ * ============================================================================
+ *
+ * Cleans merchant-written HTML (custom_html sections) before it is rendered
+ * on the storefront. Works on an allowlist:
+ *
+ * - Only formatting, layout, list, table and media tags are kept; anything
+ *   else (script, iframe, form, object, ...) is removed with its content
+ * - Only presentational attributes are kept; event handlers, ids and
+ *   unknown attributes are dropped
+ * - Links may point to http(s), mailto:, tel: or relative URLs; images and
+ *   video only load over https or from the same site
+ * - Inline styles go through the same declaration filter as custom CSS
+ *
+ * Parsing happens in an inert document (DOMParser), so nothing in the input
+ * runs or loads while it is being cleaned.
+ *
+ * ============================================================================
+ */
+
+import { sanitizeDeclarations } from '@/lib/storefrontTheme';
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'caption', 'cite',
+  'code', 'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt', 'em', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i',
+  'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'picture', 'pre', 'q', 's',
+  'section', 'small', 'source', 'span', 'strong', 'sub', 'sup', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul', 'video',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'alt', 'autoplay', 'class', 'colspan', 'controls', 'datetime', 'height',
+  'href', 'loop', 'muted', 'playsinline', 'poster', 'rel', 'rowspan', 'sizes',
+  'src', 'srcset', 'style', 'target', 'title', 'type', 'width',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'poster']);
+
+// Relative URLs have no scheme; a colon before any / ? # means one is given
+const HAS_SCHEME = /^[^/?#]*:/;
+const SAFE_LINK = /^(https?:|mailto:|tel:)/i;
+const SAFE_MEDIA = /^https:/i;
+
+function isSafeUrl(attribute: string, value: string) {
+  // Browsers ignore whitespace and control characters inside schemes
+  const url = Array.from(value).filter((char) => char.charCodeAt(0) > 32).join('');
+  if (!HAS_SCHEME.test(url)) return !url.startsWith('//') || attribute === 'href';
+  return attribute === 'href' ? SAFE_LINK.test(url) : SAFE_MEDIA.test(url);
+}
+
+function isSafeSrcset(value: string) {
+  return value
+    .split(',')
+    .map((candidate) => candidate.trim().split(/\s+/)[0])
+    .every((url) => !url || isSafeUrl('src', url));
+}
+
+function sanitizeElement(element: Element) {
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    const attribute = name.toLowerCase();
+
+    if (attribute.startsWith('aria-')) return;
+
+    const keep =
+      ALLOWED_ATTRIBUTES.has(attribute) &&
+      (!URL_ATTRIBUTES.has(attribute) || isSafeUrl(attribute, value)) &&
+      (attribute !== 'srcset' || isSafeSrcset(value));
+
+    if (!keep) {
+      element.removeAttribute(name);
+    } else if (attribute === 'style') {
+      element.setAttribute('style', sanitizeDeclarations(value));
+    }
+  });
+
+  // New tabs must not get a handle on the storefront window
+  if (element.getAttribute('target') === '_blank') {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function sanitizeChildren(parent: Node) {
+  Array.from(parent.childNodes).forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) return;
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions, ...
+      node.parentNode?.removeChild(node);
+      return;
+    }
+
+    const element = node as Element;
+    if (!ALLOWED_TAGS.has(element.tagName.toLowerCase())) {
+      element.remove();
+      return;
+    }
+
+    sanitizeElement(element);
+    sanitizeChildren(element);
+  });
+}
+
+/**
+ * Sanitize merchant HTML for rendering with dangerouslySetInnerHTML
+ */
+export function sanitizeHtml(html: string | null | undefined) {
+  if (!html?.trim()) return '';
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeChildren(doc.body);
+
+  return doc.body.innerHTML;
+}
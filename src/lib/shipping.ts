@@ -0,0 +1,44 @@
+/**
+ * ============================================================================
+ * SHIPPING
+ * ============================================================================
+ *
+ * Carriers offered when creating a shipment. A carrier's tracking URL
+ * template has a {tracking_number} placeholder; create_shipment() stores the
+ * template with the shipment and the database fills in shipments.tracking_url.
+ * Carriers without a public tracking page have no template, and "Other" lets
+ * the merchant enter their own.
+ *
+ * ============================================================================
+ */
+
+export const TRACKING_NUMBER_PLACEHOLDER = '{tracking_number}';
+
+export interface ShippingCarrier {
+  name: string;
+  trackingUrlTemplate: string | null;
+}
+
+export const SHIPPING_CARRIERS: ShippingCarrier[] = [
+  { name: 'Pathao', trackingUrlTemplate: null },
+  { name: 'Nepal Can Move', trackingUrlTemplate: null },
+  {
+    name: 'DHL',
+    trackingUrlTemplate: `https://www.dhl.com/global-en/home/tracking/tracking-express.html?submit=1&tracking-id=${TRACKING_NUMBER_PLACEHOLDER}`,
+  },
+  { name: 'FedEx', trackingUrlTemplate: `https://www.fedex.com/fedextrack/?trknbr=${TRACKING_NUMBER_PLACEHOLDER}` },
+  { name: 'UPS', trackingUrlTemplate: `https://www.ups.com/track?tracknum=${TRACKING_NUMBER_PLACEHOLDER}` },
+  {
+    name: 'Aramex',
+    trackingUrlTemplate: `https://www.aramex.com/us/en/track/results?ShipmentNumber=${TRACKING_NUMBER_PLACEHOLDER}`,
+  },
+];
+
+export const OTHER_CARRIER = 'Other';
+
+/**
+ * Mirrors the shipments.tracking_url_template check constraint
+ */
+export function isValidTrackingUrlTemplate(template: string): boolean {
+  return /^https?:\/\//.test(template) && template.includes(TRACKING_NUMBER_PLACEHOLDER);
+}
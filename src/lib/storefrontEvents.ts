@@ -0,0 +1,93 @@
+/**
+ * ============================================================================
+ * STOREFRONT EVENTS
+ * ============================================================================
+ *
+ * Event bus for standard e-commerce events. Storefront code emits events
+ * without knowing which integrations are enabled; the extension runtime
+ * (StorefrontExtensions) forwards them to Google Analytics, Facebook Pixel,
+ * etc. Event names and item fields follow the GA4 e-commerce schema.
+ *
+ * Events emitted before the runtime has loaded the store's extensions are
+ * queued and delivered to the first subscriber, so nothing is lost on the
+ * first page view.
+ *
+ * USAGE:
+ * ```ts
+ * emitStorefrontEvent({ name: 'add_to_cart', value: 1200, items: [toAnalyticsItem(item)] });
+ *
+ * const unsubscribe = onStorefrontEvent((event) => console.log(event.name));
+ * ```
+ *
+ * ============================================================================
+ */
+
+import type { CartItem } from '@/contexts/CartContext';
+
+export const STOREFRONT_CURRENCY = 'NPR';
+
+export interface AnalyticsItem {
+  item_id: string;
+  item_name: string;
+  item_variant?: string;
+  price: number;
+  quantity: number;
+}
+
+export type StorefrontEvent =
+  | { name: 'page_view'; path: string }
+  | { name: 'view_item'; value: number; items: AnalyticsItem[] }
+  | { name: 'add_to_cart'; value: number; items: AnalyticsItem[] }
+  | { name: 'begin_checkout'; value: number; items: AnalyticsItem[] }
+  | { name: 'purchase'; transaction_id: string; value: number; shipping?: number; items: AnalyticsItem[] };
+
+type Listener = (event: StorefrontEvent) => void;
+
+const listeners = new Set<Listener>();
+const MAX_QUEUED_EVENTS = 20;
+let queue: StorefrontEvent[] = [];
+
+export function emitStorefrontEvent(event: StorefrontEvent) {
+  if (listeners.size === 0) {
+    queue = [...queue, event].slice(-MAX_QUEUED_EVENTS);
+    return;
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error handling storefront event:', error);
+    }
+  });
+}
+
+/**
+ * Subscribe to storefront events
+ * @returns Unsubscribe function
+ */
+export function onStorefrontEvent(listener: Listener) {
+  listeners.add(listener);
+
+  const pending = queue;
+  queue = [];
+  pending.forEach(emitStorefrontEvent);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function toAnalyticsItem(item: CartItem): AnalyticsItem {
+  return {
+    item_id: item.productId,
+    item_name: item.name,
+    item_variant: item.variantName ?? undefined,
+    price: item.price,
+    quantity: item.quantity,
+  };
+}
+
+export function itemsValue(items: AnalyticsItem[]) {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
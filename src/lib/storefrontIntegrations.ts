@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * STOREFRONT INTEGRATIONS
+ * ============================================================================
+ *
+ * Script-based storefront extensions. Each integration loads its vendor
+ * script once per page and maps storefront events (see storefrontEvents.ts)
+ * to the vendor's API. Events are sent to the configured ID only, so
+ * switching stores in the same tab never reports to another store's account.
+ *
+ * IDs come from store configuration and are validated before they are put
+ * into a script URL. Integrations are attached to extensions through their
+ * manifest (storefront.integration).
+ *
+ * ============================================================================
+ */
+
+import { STOREFRONT_CURRENCY, type StorefrontEvent } from './storefrontEvents';
+
+declare global {
+  interface Window {
+    dataLayer?: unknown[];
+    gtag?: (...args: unknown[]) => void;
+    fbq?: ((...args: unknown[]) => void) & { callMethod?: unknown; queue?: unknown[] };
+    _fbq?: unknown;
+  }
+}
+
+export interface StorefrontIntegration {
+  /** Validate the config and load the vendor script; returns false when misconfigured */
+  load(config: Record<string, string>): boolean;
+  track(event: StorefrontEvent, config: Record<string, string>): void;
+}
+
+function injectScript(id: string, src: string) {
+  if (document.getElementById(id)) return;
+  const script = document.createElement('script');
+  script.id = id;
+  script.async = true;
+  script.src = src;
+  document.head.appendChild(script);
+}
+
+// ================================================================
+// GOOGLE ANALYTICS 4
+// ================================================================
+
+const GA_ID_PATTERN = /^G-[A-Z0-9]+$/i;
+
+export const googleAnalytics: StorefrontIntegration = {
+  load(config) {
+    const id = config.measurement_id?.trim();
+    if (!id || !GA_ID_PATTERN.test(id)) return false;
+
+    if (!window.gtag) {
+      // Standard gtag bootstrap - gtag.js expects the arguments object
+      // itself in dataLayer, so the stub is defined as plain script
+      const bootstrap = document.createElement('script');
+      bootstrap.textContent =
+        'window.dataLayer=window.dataLayer||[];function gtag(){dataLayer.push(arguments);}gtag("js",new Date());';
+      document.head.appendChild(bootstrap);
+    }
+
+    // Page views are sent by the runtime on every route change
+    window.gtag?.('config', id, { send_page_view: false });
+    injectScript(`ga-${id}`, `https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(id)}`);
+    return true;
+  },
+
+  track(event, config) {
+    const id = config.measurement_id.trim();
+
+    if (event.name === 'page_view') {
+      window.gtag?.('event', 'page_view', { send_to: id, page_path: event.path });
+      return;
+    }
+
+    const { name, ...params } = event;
+    window.gtag?.('event', name, { send_to: id, currency: STOREFRONT_CURRENCY, ...params });
+  },
+};
+
+// ================================================================
+// FACEBOOK PIXEL
+// ================================================================
+
+const PIXEL_ID_PATTERN = /^\d+$/;
+
+const PIXEL_EVENTS: Record<Exclude<StorefrontEvent['name'], 'page_view'>, string> = {
+  view_item: 'ViewContent',
+  add_to_cart: 'AddToCart',
+  begin_checkout: 'InitiateCheckout',
+  purchase: 'Purchase',
+};
+
+type PixelStub = ((...args: unknown[]) => void) & {
+  callMethod?: (...args: unknown[]) => void;
+  queue: unknown[][];
+  loaded: boolean;
+  version: string;
+  push: unknown;
+};
+
+export const facebookPixel: StorefrontIntegration = {
+  load(config) {
+    const id = config.pixel_id?.trim();
+    if (!id || !PIXEL_ID_PATTERN.test(id)) return false;
+
+    if (!window.fbq) {
+      // Standard Pixel bootstrap: queue calls until fbevents.js loads
+      const fbq: PixelStub = Object.assign(
+        (...args: unknown[]) => {
+          if (fbq.callMethod) {
+            fbq.callMethod(...args);
+          } else {
+            fbq.queue.push(args);
+          }
+        },
+        { queue: [] as unknown[][], loaded: true, version: '2.0', push: undefined as unknown }
+      );
+      fbq.push = fbq;
+      window.fbq = fbq;
+      window._fbq = fbq;
+      injectScript('fb-pixel', 'https://connect.facebook.net/en_US/fbevents.js');
+    }
+
+    window.fbq('init', id);
+    return true;
+  },
+
+  track(event, config) {
+    const id = config.pixel_id.trim();
+
+    if (event.name === 'page_view') {
+      window.fbq?.('trackSingle', id, 'PageView');
+      return;
+    }
+
+    window.fbq?.('trackSingle', id, PIXEL_EVENTS[event.name], {
+      currency: STOREFRONT_CURRENCY,
+      value: event.value,
+      content_type: 'product',
+      content_ids: event.items.map((item) => item.item_id),
+      contents: event.items.map((item) => ({ id: item.item_id, quantity: item.quantity })),
+      num_items: event.items.reduce((sum, item) => sum + item.quantity, 0),
+    });
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * STOREFRONT PREVIEW PROTOCOL
+ * ============================================================================
+ *
+ * The store builder runs the real storefront route in a same-origin iframe
+ * (`/store/:storeSlug?preview=1`) and drives it over postMessage, so the
+ * preview gets the storefront's own theme variables, custom CSS and media
+ * queries at the emulated device width. The page being edited is part of
+ * the state, so switching pages in the builder doesn't reload the iframe.
+ *
+ * MESSAGES:
+ * - builder -> preview  `preview:state`   page, sections (including unsaved
+ *                                          edits), theme and selected section
+ * - preview -> builder  `preview:ready`   the preview is listening; the
+ *                                          builder answers with the state
+ * - preview -> builder  `preview:select`  a section was clicked
+ *
+ * Both sides only accept messages from the app's own origin and from the
+ * window they expect (the iframe or its parent).
+ *
+ * ============================================================================
+ */
+
+import type { PageType, SectionType } from '@/components/store-builder/types';
+import type { ThemeTokens } from '@/lib/storefrontTheme';
+
+export const PREVIEW_PARAM = 'preview';
+
+export interface PreviewSection {
+  id: string;
+  section_type: SectionType;
+  config: unknown;
+  mobile_config?: unknown;
+  is_visible: boolean;
+  position: 'above' | 'below';
+}
+
+export interface PreviewState {
+  store: { id: string; name: string; slug: string; logo_url?: string | null };
+  page: {
+    title: string;
+    page_type: PageType;
+    show_header: boolean;
+    show_footer: boolean;
+  } | null;
+  sections: PreviewSection[];
+  theme: (ThemeTokens & { custom_css?: string | null }) | null;
+  selectedSectionId: string | null;
+}
+
+export type PreviewMessage =
+  | { type: 'preview:state'; state: PreviewState }
+  | { type: 'preview:ready' }
+  | { type: 'preview:select'; sectionId: string };
+
+/**
+ * URL of the storefront route rendered in the builder's preview iframe
+ */
+export function getPreviewUrl(storeSlug: string) {
+  return `/store/${storeSlug}?${PREVIEW_PARAM}=1`;
+}
+
+/**
+ * Whether this storefront window is the builder's preview iframe
+ */
+export function isPreviewWindow(searchParams: URLSearchParams) {
+  return searchParams.get(PREVIEW_PARAM) === '1' && window.parent !== window;
+}
+
+/**
+ * Whether a message event is a preview message sent by `source` from this
+ * app's origin
+ */
+export function isPreviewMessage(
+  event: MessageEvent,
+  source: MessageEventSource | null | undefined
+): event is MessageEvent<PreviewMessage> {
+  const data = event.data as { type?: unknown } | null;
+  return (
+    !!source &&
+    event.source === source &&
+    event.origin === window.location.origin &&
+    typeof data?.type === 'string' &&
+    data.type.startsWith('preview:')
+  );
+}
+
+export function postPreviewMessage(target: Window | null | undefined, message: PreviewMessage) {
+  target?.postMessage(message, window.location.origin);
+}
@@ -0,0 +1,242 @@
+/**
+ * ============================================================================
+ * STOREFRONT THEME
+ * ============================================================================
+ *
+ * Turns a store theme (store_themes) into what the browser needs:
+ *
+ * - getThemeStyle(): CSS variables for colors, fonts, radius and spacing.
+ *   Color keys are mapped onto the app's design tokens (--primary,
+ *   --muted-foreground, ...) so Tailwind classes pick up the store's theme.
+ * - getThemeFontsUrl(): Google Fonts stylesheet for the selected fonts
+ * - scopeCustomCss(): sanitizes the merchant's custom CSS and prefixes every
+ *   rule with the storefront scope, so it cannot style anything else
+ *
+ * The variables are set on the StorefrontThemeProvider wrapper element, not
+ * on <html>, so nothing leaks into the dashboard.
+ *
+ * ============================================================================
+ */
+
+import type { CSSProperties } from 'react';
+import type { ThemeColors, ThemeLayout, ThemeTypography } from '@/components/store-builder/types';
+import { AVAILABLE_FONTS, DEFAULT_THEME } from '@/components/store-builder/constants';
+
+export const STOREFRONT_THEME_SCOPE = '.storefront-theme';
+
+export interface ThemeTokens {
+  colors: Partial<ThemeColors>;
+  typography: Partial<ThemeTypography>;
+  layout: Partial<ThemeLayout>;
+}
+
+/** Theme color key -> design token variables it sets */
+const COLOR_VARIABLES: Record<keyof ThemeColors, string[]> = {
+  primary: ['--primary', '--ring'],
+  secondary: ['--secondary'],
+  accent: ['--accent'],
+  background: ['--background', '--card', '--popover'],
+  foreground: ['--foreground', '--card-foreground', '--popover-foreground', '--secondary-foreground'],
+  muted: ['--muted'],
+  mutedForeground: ['--muted-foreground'],
+  border: ['--border', '--input'],
+  success: ['--success'],
+  warning: ['--warning'],
+  error: ['--destructive'],
+};
+
+// HSL without the hsl() wrapper, e.g. "222 47% 31%"
+const HSL_PATTERN = /^\d{1,3}(\.\d+)?\s+\d{1,3}(\.\d+)?%\s+\d{1,3}(\.\d+)?%$/;
+const LENGTH_PATTERN = /^(0|\d*\.?\d+(px|rem|em|%))$/;
+
+function findFont(name: string | undefined) {
+  return AVAILABLE_FONTS.find((font) => font.name === name);
+}
+
+/** Lengths are interpolated into calc(), so a bare 0 needs a unit */
+function safeLength(value: string | undefined, fallback: string) {
+  const length = value?.trim();
+  if (!length || !LENGTH_PATTERN.test(length)) return fallback;
+  return length === '0' ? '0px' : length;
+}
+
+/**
+ * CSS variables for a theme, with defaults for missing or malformed values
+ */
+export function getThemeStyle(theme: ThemeTokens): CSSProperties {
+  const style: Record<string, string> = {};
+
+  (Object.keys(COLOR_VARIABLES) as (keyof ThemeColors)[]).forEach((key) => {
+    const value = theme.colors[key]?.trim();
+    if (value && HSL_PATTERN.test(value)) {
+      COLOR_VARIABLES[key].forEach((variable) => {
+        style[variable] = value;
+      });
+    }
+  });
+
+  const { typography, layout } = theme;
+  const defaults = DEFAULT_THEME;
+  const headingFont = findFont(typography.headingFont) || findFont(defaults.typography.headingFont);
+  const bodyFont = findFont(typography.bodyFont) || findFont(defaults.typography.bodyFont);
+
+  style['--font-heading'] = headingFont?.value || 'inherit';
+  style['--font-body'] = bodyFont?.value || 'inherit';
+  style['--font-size-base'] = safeLength(typography.baseFontSize, defaults.typography.baseFontSize);
+  style['--font-weight-heading'] = /^\d{3}$/.test(typography.headingWeight || '')
+    ? typography.headingWeight!
+    : defaults.typography.headingWeight;
+  style['--font-weight-body'] = /^\d{3}$/.test(typography.bodyWeight || '')
+    ? typography.bodyWeight!
+    : defaults.typography.bodyWeight;
+
+  const radius = safeLength(layout.borderRadius, defaults.layout.borderRadius);
+  style['--radius'] = radius;
+  style['--button-radius'] = safeLength(layout.buttonRadius, radius);
+  style['--container-max-width'] = safeLength(layout.containerMaxWidth, defaults.layout.containerMaxWidth);
+  style['--section-padding'] = safeLength(layout.sectionPadding, defaults.layout.sectionPadding);
+
+  return style as CSSProperties;
+}
+
+/**
+ * Google Fonts stylesheet URL for the theme's fonts (only fonts offered in
+ * the theme editor are loaded)
+ */
+export function getThemeFontsUrl(typography: Partial<ThemeTypography>) {
+  const names = [typography.headingFont, typography.bodyFont]
+    .map((name) => findFont(name)?.name)
+    .filter((name, index, all): name is string => !!name && all.indexOf(name) === index);
+
+  if (names.length === 0) return null;
+
+  const families = names
+    .map((name) => `family=${name.replace(/ /g, '+')}:wght@300;400;500;600;700;800`)
+    .join('&');
+
+  return `https://fonts.googleapis.com/css2?${families}&display=swap`;
+}
+
+// ============================================================================
+// CUSTOM CSS
+// ============================================================================
+
+/** At-rules whose blocks contain rules that must be scoped too */
+const NESTED_AT_RULES = ['@media', '@supports', '@container'];
+/** At-rules kept as they are */
+const VERBATIM_AT_RULES = ['@keyframes', '@-webkit-keyframes', '@font-face'];
+
+const UNSAFE_DECLARATION = /expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+// Only https: resources may be loaded
+const UNSAFE_URL = /url\(\s*(?!['"]?https:\/\/)/i;
+
+/**
+ * Drop declarations that could run script or load from non-https URLs.
+ * Also used for inline styles in custom HTML (see sanitizeHtml.ts).
+ */
+export function sanitizeDeclarations(block: string) {
+  return block
+    .split(';')
+    .map((declaration) => declaration.trim())
+    .filter((declaration) => declaration && !UNSAFE_DECLARATION.test(declaration) && !UNSAFE_URL.test(declaration))
+    .join('; ');
+}
+
+/** Split on commas that are not inside parentheses, e.g. :is(a, b) */
+function splitSelectors(selectorList: string) {
+  const selectors: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of selectorList) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      selectors.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  selectors.push(current);
+
+  return selectors.map((selector) => selector.trim()).filter(Boolean);
+}
+
+function scopeSelector(selector: string, scope: string) {
+  // html/body/:root refer to the storefront itself
+  const root = selector.match(/^(:root|html|body)(?![\w-])(.*)$/i);
+  return root ? `${scope}${root[2]}` : `${scope} ${selector}`;
+}
+
+/**
+ * Find the index of the } that closes the block opened at `start`
+ */
+function findBlockEnd(css: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < css.length; i++) {
+    if (css[i] === '{') depth++;
+    if (css[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return css.length;
+}
+
+function scopeRules(css: string, scope: string): string {
+  const output: string[] = [];
+  let position = 0;
+
+  while (position < css.length) {
+    const open = css.indexOf('{', position);
+    const statementEnd = css.indexOf(';', position);
+
+    // Statement at-rules (@import, @charset, ...) are dropped
+    if (statementEnd !== -1 && (open === -1 || statementEnd < open)) {
+      position = statementEnd + 1;
+      continue;
+    }
+    if (open === -1) break;
+
+    const prelude = css.slice(position, open).trim();
+    const close = findBlockEnd(css, open);
+    const body = css.slice(open + 1, close);
+    position = close + 1;
+
+    const atRule = prelude.startsWith('@') ? prelude.split(/[\s(]/)[0].toLowerCase() : null;
+
+    if (atRule && NESTED_AT_RULES.includes(atRule)) {
+      output.push(`${prelude} {\n${scopeRules(body, scope)}\n}`);
+    } else if (atRule && VERBATIM_AT_RULES.includes(atRule)) {
+      const inner = atRule === '@font-face' ? sanitizeDeclarations(body) : scopeKeyframes(body);
+      output.push(`${prelude} { ${inner} }`);
+    } else if (!atRule && prelude) {
+      const selectors = splitSelectors(prelude).map((selector) => scopeSelector(selector, scope));
+      output.push(`${selectors.join(', ')} { ${sanitizeDeclarations(body)} }`);
+    }
+    // Other at-rules (@page, @layer, ...) are dropped
+  }
+
+  return output.join('\n');
+}
+
+function scopeKeyframes(body: string) {
+  return body.replace(/\{([^{}]*)\}/g, (_match, declarations: string) => `{ ${sanitizeDeclarations(declarations)} }`);
+}
+
+/**
+ * Sanitize merchant CSS and confine it to the storefront scope.
+ * Comments, imports and declarations that could run script or load from
+ * non-https URLs are removed.
+ */
+export function scopeCustomCss(css: string | null | undefined, scope = STOREFRONT_THEME_SCOPE) {
+  if (!css?.trim()) return '';
+
+  const cleaned = css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    // Never let the content close the <style> element
+    .replace(/</g, '');
+
+  return scopeRules(cleaned, scope);
+}
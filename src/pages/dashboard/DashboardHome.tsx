@@ -1,11 +1,33 @@
-import { Package, ShoppingCart, Users, TrendingUp, Plus } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Package, ShoppingCart, Users, TrendingUp, Plus, PackageX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useStore } from '@/contexts/StoreContext';
+import { supabase } from '@/integrations/supabase/client';
 import { Link } from 'react-router-dom';
 
 export default function DashboardHome() {
   const { currentStore, stores } = useStore();
+  const [lowStockCount, setLowStockCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!currentStore?.id) return;
+
+    const fetchLowStock = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_low_stock_items', {
+          p_store_id: currentStore.id,
+        });
+
+        if (error) throw error;
+        setLowStockCount(new Set((data || []).map(item => item.product_id)).size);
+      } catch (error) {
+        console.error('Error fetching low stock items:', error);
+      }
+    };
+
+    fetchLowStock();
+  }, [currentStore?.id]);
 
   if (stores.length === 0) {
     return (
@@ -49,7 +71,7 @@ export default function DashboardHome() {
         </Link>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         {stats.map((stat, index) => (
           <Card key={index}>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -64,6 +86,22 @@ export default function DashboardHome() {
             </CardContent>
           </Card>
         ))}
+        <Link to="/dashboard/products?stock=low">
+          <Card className="h-full transition-colors hover:border-primary/50">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                Low Stock
+              </CardTitle>
+              <PackageX className="w-5 h-5 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${lowStockCount ? 'text-destructive' : ''}`}>
+                {lowStockCount ?? '-'}
+              </div>
+              <p className="text-xs text-muted-foreground">Products at or below threshold</p>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -241,6 +241,7 @@ export default function CustomersList() {
                   <TableHead>City</TableHead>
                   <TableHead>Orders</TableHead>
                   <TableHead>Total Spent</TableHead>
+                  <TableHead>Store Credit</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -256,6 +257,9 @@ export default function CustomersList() {
                     <TableCell className="text-muted-foreground">{customer.city || '-'}</TableCell>
                     <TableCell>{customer.total_orders || 0}</TableCell>
                     <TableCell>रु {Number(customer.total_spent || 0).toLocaleString()}</TableCell>
+                    <TableCell className={Number(customer.store_credit) > 0 ? '' : 'text-muted-foreground'}>
+                      रु {Number(customer.store_credit).toLocaleString()}
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -54,6 +54,16 @@ import type { Tables } from '@/integrations/supabase/types';
 
 type DiscountCode = Tables<'discount_codes'>;
 
+/**
+ * Convert an ISO timestamp to the value format of <input type="datetime-local">
+ */
+const toDateTimeLocal = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
 export default function DiscountsList() {
   const { currentStore } = useStore();
   const [discounts, setDiscounts] = useState<DiscountCode[]>([]);
@@ -71,6 +81,8 @@ export default function DiscountsList() {
     discount_value: '',
     minimum_amount: '',
     max_uses: '',
+    starts_at: '',
+    expires_at: '',
     is_active: true,
   });
 
@@ -106,6 +118,8 @@ export default function DiscountsList() {
       discount_value: '',
       minimum_amount: '',
       max_uses: '',
+      starts_at: '',
+      expires_at: '',
       is_active: true,
     });
     setEditingDiscount(null);
@@ -120,6 +134,8 @@ export default function DiscountsList() {
       discount_value: String(discount.discount_value),
       minimum_amount: discount.minimum_amount ? String(discount.minimum_amount) : '',
       max_uses: discount.max_uses ? String(discount.max_uses) : '',
+      starts_at: toDateTimeLocal(discount.starts_at),
+      expires_at: toDateTimeLocal(discount.expires_at),
       is_active: discount.is_active ?? true,
     });
     setDialogOpen(true);
@@ -131,6 +147,14 @@ export default function DiscountsList() {
       toast.error('Code and discount value are required');
       return;
     }
+    if (formData.discount_type === 'percentage' && parseFloat(formData.discount_value) > 100) {
+      toast.error('Percentage discount cannot exceed 100%');
+      return;
+    }
+    if (formData.starts_at && formData.expires_at && formData.expires_at <= formData.starts_at) {
+      toast.error('Expiry date must be after the start date');
+      return;
+    }
 
     setIsSubmitting(true);
 
@@ -143,6 +167,8 @@ export default function DiscountsList() {
         discount_value: parseFloat(formData.discount_value),
         minimum_amount: formData.minimum_amount ? parseFloat(formData.minimum_amount) : null,
         max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
+        starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+        expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null,
         is_active: formData.is_active,
       };
 
@@ -194,6 +220,23 @@ export default function DiscountsList() {
     }
   };
 
+  const getStatusBadge = (discount: DiscountCode) => {
+    const now = new Date();
+    if (!discount.is_active) {
+      return <Badge variant="secondary">Inactive</Badge>;
+    }
+    if (discount.expires_at && new Date(discount.expires_at) <= now) {
+      return <Badge variant="destructive">Expired</Badge>;
+    }
+    if (discount.max_uses && (discount.used_count || 0) >= discount.max_uses) {
+      return <Badge variant="outline">Used Up</Badge>;
+    }
+    if (discount.starts_at && new Date(discount.starts_at) > now) {
+      return <Badge variant="outline">Scheduled</Badge>;
+    }
+    return <Badge className="bg-success text-success-foreground">Active</Badge>;
+  };
+
   if (!currentStore) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -295,6 +338,26 @@ export default function DiscountsList() {
                   />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="starts_at">Starts At</Label>
+                  <Input
+                    id="starts_at"
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="expires_at">Expires At</Label>
+                  <Input
+                    id="expires_at"
+                    type="datetime-local"
+                    value={formData.expires_at}
+                    onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                  />
+                </div>
+              </div>
               <div className="flex items-center justify-between rounded-lg border p-4">
                 <div>
                   <Label>Active</Label>
@@ -364,13 +427,7 @@ export default function DiscountsList() {
                       {discount.used_count || 0}
                       {discount.max_uses && ` / ${discount.max_uses}`}
                     </TableCell>
-                    <TableCell>
-                      {discount.is_active ? (
-                        <Badge className="bg-success text-success-foreground">Active</Badge>
-                      ) : (
-                        <Badge variant="secondary">Inactive</Badge>
-                      )}
-                    </TableCell>
+                    <TableCell>{getStatusBadge(discount)}</TableCell>
                     <TableCell>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
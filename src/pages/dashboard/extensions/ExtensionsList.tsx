@@ -1,27 +1,26 @@
 import { useEffect, useState } from 'react';
-import { 
-  BarChart3, MessageCircle, Bell, Package, Mail, 
-  Puzzle, Loader2, Settings, Check, X
-} from 'lucide-react';
+import { Puzzle, Loader2, Settings, Check, AlertCircle, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useStore } from '@/contexts/StoreContext';
 import { toast } from 'sonner';
+import ExtensionSettingsForm from '@/components/extensions/ExtensionSettingsForm';
+import { getExtensions } from '@/components/extensions/registry';
+import { EXTENSION_CATEGORY_LABELS, EXTENSION_PERMISSION_LABELS } from '@/components/extensions/constants';
+import {
+  getConfigFormValues,
+  isConfigComplete,
+  validateExtensionConfig,
+  type ConfigFormValues,
+} from '@/components/extensions/utils/configSchema';
+import type { ConfigErrors, ExtensionCategory, ExtensionManifest } from '@/components/extensions/types';
 
-interface Extension {
-  id: string;
-  name: string;
-  description: string;
-  icon: React.ElementType;
-  category: 'analytics' | 'communication' | 'marketing' | 'operations';
-  configFields?: { key: string; label: string; placeholder?: string; type?: string }[];
-}
+// Kept in sync with the manifest whenever the extension is saved
+const getPublicConfigKeys = (extension: ExtensionManifest) => extension.storefront?.publicConfigKeys ?? [];
 
 interface StoreExtension {
   id: string;
@@ -30,86 +29,14 @@ interface StoreExtension {
   config: Record<string, any>;
 }
 
-const AVAILABLE_EXTENSIONS: Extension[] = [
-  {
-    id: 'google_analytics',
-    name: 'Google Analytics',
-    description: 'Track visitor behavior and website traffic with Google Analytics 4.',
-    icon: BarChart3,
-    category: 'analytics',
-    configFields: [
-      { key: 'measurement_id', label: 'Measurement ID', placeholder: 'G-XXXXXXXXXX' }
-    ]
-  },
-  {
-    id: 'facebook_pixel',
-    name: 'Facebook Pixel',
-    description: 'Track conversions and optimize your Facebook ads.',
-    icon: BarChart3,
-    category: 'analytics',
-    configFields: [
-      { key: 'pixel_id', label: 'Pixel ID', placeholder: '1234567890' }
-    ]
-  },
-  {
-    id: 'whatsapp_chat',
-    name: 'WhatsApp Chat',
-    description: 'Add a WhatsApp chat button for instant customer support.',
-    icon: MessageCircle,
-    category: 'communication',
-    configFields: [
-      { key: 'phone_number', label: 'Phone Number', placeholder: '+9779812345678' },
-      { key: 'default_message', label: 'Default Message', placeholder: 'Hello! I have a question.' }
-    ]
-  },
-  {
-    id: 'sms_notifications',
-    name: 'SMS Notifications',
-    description: 'Send SMS alerts to customers for order updates.',
-    icon: Bell,
-    category: 'communication',
-    configFields: [
-      { key: 'api_key', label: 'SMS API Key', type: 'password' }
-    ]
-  },
-  {
-    id: 'inventory_alerts',
-    name: 'Inventory Alerts',
-    description: 'Get notified when products are running low in stock.',
-    icon: Package,
-    category: 'operations',
-    configFields: [
-      { key: 'threshold', label: 'Low Stock Threshold', placeholder: '5', type: 'number' },
-      { key: 'email', label: 'Alert Email', placeholder: 'alerts@store.com' }
-    ]
-  },
-  {
-    id: 'email_marketing',
-    name: 'Email Marketing',
-    description: 'Connect your email marketing service for newsletters.',
-    icon: Mail,
-    category: 'marketing',
-    configFields: [
-      { key: 'provider', label: 'Provider', placeholder: 'mailchimp' },
-      { key: 'api_key', label: 'API Key', type: 'password' }
-    ]
-  },
-];
-
-const categoryLabels: Record<string, string> = {
-  analytics: 'Analytics & Tracking',
-  communication: 'Communication',
-  marketing: 'Marketing',
-  operations: 'Operations',
-};
-
 export default function ExtensionsList() {
   const { currentStore } = useStore();
   const [storeExtensions, setStoreExtensions] = useState<StoreExtension[]>([]);
   const [loading, setLoading] = useState(true);
   const [savingExtension, setSavingExtension] = useState<string | null>(null);
   const [configDialogOpen, setConfigDialogOpen] = useState<string | null>(null);
-  const [configValues, setConfigValues] = useState<Record<string, string>>({});
+  const [configValues, setConfigValues] = useState<ConfigFormValues>({});
+  const [configErrors, setConfigErrors] = useState<ConfigErrors>({});
 
   useEffect(() => {
     if (currentStore?.id) {
@@ -144,9 +71,10 @@ export default function ExtensionsList() {
     return storeExtensions.find(e => e.extension_id === extensionId);
   };
 
-  const toggleExtension = async (extensionId: string, enabled: boolean) => {
+  const toggleExtension = async (extension: ExtensionManifest, enabled: boolean) => {
     if (!currentStore) return;
 
+    const extensionId = extension.id;
     setSavingExtension(extensionId);
 
     try {
@@ -155,7 +83,7 @@ export default function ExtensionsList() {
       if (existing) {
         const { error } = await supabase
           .from('store_extensions')
-          .update({ is_enabled: enabled })
+          .update({ is_enabled: enabled, public_config_keys: getPublicConfigKeys(extension) })
           .eq('id', existing.id);
 
         if (error) throw error;
@@ -167,6 +95,7 @@ export default function ExtensionsList() {
             extension_id: extensionId,
             is_enabled: enabled,
             config: {},
+            public_config_keys: getPublicConfigKeys(extension),
           });
 
         if (error) throw error;
@@ -182,14 +111,33 @@ export default function ExtensionsList() {
     }
   };
 
-  const openConfigDialog = (extension: Extension) => {
+  const openConfigDialog = (extension: ExtensionManifest) => {
+    if (!extension.settings) return;
     const existing = getExtensionStatus(extension.id);
-    setConfigValues(existing?.config || {});
+    setConfigValues(getConfigFormValues(extension.settings.schema, existing?.config || {}));
+    setConfigErrors({});
     setConfigDialogOpen(extension.id);
   };
 
-  const saveConfig = async (extensionId: string) => {
-    if (!currentStore) return;
+  const updateConfigValue = (key: string, value: string | boolean) => {
+    setConfigValues(prev => ({ ...prev, [key]: value }));
+    setConfigErrors(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const saveConfig = async (extension: ExtensionManifest) => {
+    if (!currentStore || !extension.settings) return;
+
+    const extensionId = extension.id;
+    const { config, errors } = validateExtensionConfig(extension.settings.schema, configValues);
+    if (Object.keys(errors).length > 0) {
+      setConfigErrors(errors);
+      toast.error('Please fix the highlighted settings');
+      return;
+    }
 
     setSavingExtension(extensionId);
 
@@ -199,7 +147,7 @@ export default function ExtensionsList() {
       if (existing) {
         const { error } = await supabase
           .from('store_extensions')
-          .update({ config: configValues })
+          .update({ config, public_config_keys: getPublicConfigKeys(extension) })
           .eq('id', existing.id);
 
         if (error) throw error;
@@ -210,7 +158,8 @@ export default function ExtensionsList() {
             store_id: currentStore.id,
             extension_id: extensionId,
             is_enabled: true,
-            config: configValues,
+            config,
+            public_config_keys: getPublicConfigKeys(extension),
           });
 
         if (error) throw error;
@@ -243,11 +192,11 @@ export default function ExtensionsList() {
     );
   }
 
-  const groupedExtensions = AVAILABLE_EXTENSIONS.reduce((acc, ext) => {
+  const groupedExtensions = getExtensions().reduce((acc, ext) => {
     if (!acc[ext.category]) acc[ext.category] = [];
     acc[ext.category].push(ext);
     return acc;
-  }, {} as Record<string, Extension[]>);
+  }, {} as Partial<Record<ExtensionCategory, ExtensionManifest[]>>);
 
   return (
     <div className="space-y-6">
@@ -261,16 +210,18 @@ export default function ExtensionsList() {
         </p>
       </div>
 
-      {Object.entries(groupedExtensions).map(([category, extensions]) => (
+      {(Object.entries(groupedExtensions) as [ExtensionCategory, ExtensionManifest[]][]).map(([category, extensions]) => (
         <div key={category} className="space-y-4">
           <h2 className="text-lg font-semibold text-foreground">
-            {categoryLabels[category]}
+            {EXTENSION_CATEGORY_LABELS[category]}
           </h2>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {extensions.map((extension) => {
               const status = getExtensionStatus(extension.id);
               const isEnabled = status?.is_enabled || false;
+              const needsSetup = isEnabled && !isConfigComplete(extension.settings?.schema, status?.config || {});
               const Icon = extension.icon;
+              const SettingsPanel = extension.settings?.panel;
 
               return (
                 <Card key={extension.id} className={isEnabled ? 'border-primary/50' : ''}>
@@ -284,7 +235,11 @@ export default function ExtensionsList() {
                         </div>
                         <div>
                           <CardTitle className="text-base">{extension.name}</CardTitle>
-                          {isEnabled && (
+                          {needsSetup ? (
+                            <Badge variant="outline" className="mt-1 text-destructive border-destructive/50">
+                              <AlertCircle className="w-3 h-3 mr-1" /> Needs setup
+                            </Badge>
+                          ) : isEnabled && (
                             <Badge variant="secondary" className="mt-1">
                               <Check className="w-3 h-3 mr-1" /> Active
                             </Badge>
@@ -293,7 +248,7 @@ export default function ExtensionsList() {
                       </div>
                       <Switch
                         checked={isEnabled}
-                        onCheckedChange={(checked) => toggleExtension(extension.id, checked)}
+                        onCheckedChange={(checked) => toggleExtension(extension, checked)}
                         disabled={savingExtension === extension.id}
                       />
                     </div>
@@ -302,7 +257,7 @@ export default function ExtensionsList() {
                     <CardDescription className="mb-4">
                       {extension.description}
                     </CardDescription>
-                    {extension.configFields && extension.configFields.length > 0 && (
+                    {extension.settings && (
                       <Dialog 
                         open={configDialogOpen === extension.id} 
                         onOpenChange={(open) => !open && setConfigDialogOpen(null)}
@@ -318,7 +273,7 @@ export default function ExtensionsList() {
                             Configure
                           </Button>
                         </DialogTrigger>
-                        <DialogContent>
+                        <DialogContent className="max-h-[90vh] overflow-y-auto">
                           <DialogHeader>
                             <DialogTitle>Configure {extension.name}</DialogTitle>
                             <DialogDescription>
@@ -326,24 +281,30 @@ export default function ExtensionsList() {
                             </DialogDescription>
                           </DialogHeader>
                           <div className="space-y-4 pt-4">
-                            {extension.configFields.map((field) => (
-                              <div key={field.key} className="space-y-2">
-                                <Label htmlFor={field.key}>{field.label}</Label>
-                                <Input
-                                  id={field.key}
-                                  type={field.type || 'text'}
-                                  placeholder={field.placeholder}
-                                  value={configValues[field.key] || ''}
-                                  onChange={(e) => setConfigValues(prev => ({
-                                    ...prev,
-                                    [field.key]: e.target.value
-                                  }))}
-                                />
-                              </div>
-                            ))}
+                            <div className="rounded-lg bg-muted p-3 text-sm">
+                              <p className="font-medium flex items-center gap-2 mb-1">
+                                <ShieldCheck className="w-4 h-4" />
+                                This extension can
+                              </p>
+                              <ul className="list-disc pl-6 text-muted-foreground">
+                                {extension.permissions.map((permission) => (
+                                  <li key={permission}>{EXTENSION_PERMISSION_LABELS[permission]}</li>
+                                ))}
+                              </ul>
+                              <p className="text-xs text-muted-foreground mt-2">Version {extension.version}</p>
+                            </div>
+                            <ExtensionSettingsForm
+                              schema={extension.settings.schema}
+                              values={configValues}
+                              errors={configErrors}
+                              onChange={updateConfigValue}
+                            />
+                            {SettingsPanel && (
+                              <SettingsPanel storeId={currentStore.id} config={status?.config || {}} />
+                            )}
                             <Button 
                               className="w-full" 
-                              onClick={() => saveConfig(extension.id)}
+                              onClick={() => saveConfig(extension)}
                               disabled={savingExtension === extension.id}
                             >
                               {savingExtension === extension.id && (
@@ -0,0 +1,416 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Mail, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useStore } from '@/contexts/StoreContext';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  NOTIFICATION_EVENTS,
+  TEMPLATE_VARIABLES,
+  renderTemplatePreview,
+  type NotificationEvent,
+  type NotificationRecipient,
+} from '@/lib/notifications';
+
+type EmailTemplate = Tables<'email_templates'>;
+type OutboxEmail = Pick<
+  Tables<'email_outbox'>,
+  'id' | 'event' | 'recipient' | 'to_email' | 'status' | 'subject' | 'last_error' | 'created_at'
+>;
+type SmsAttempt = Pick<
+  Tables<'sms_attempts'>,
+  'id' | 'gateway' | 'to_phone' | 'message' | 'success' | 'error' | 'created_at'
+>;
+
+const OUTBOX_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  sending: 'secondary',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+export default function EmailTemplates() {
+  const { currentStore } = useStore();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEmail[]>([]);
+  const [smsAttempts, setSmsAttempts] = useState<SmsAttempt[]>([]);
+  const [primaryColor, setPrimaryColor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [recipient, setRecipient] = useState<NotificationRecipient>('customer');
+  const [event, setEvent] = useState<NotificationEvent>('order_placed');
+  const [draft, setDraft] = useState({ subject: '', body: '', is_enabled: true });
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchData();
+    }
+  }, [currentStore?.id]);
+
+  const selected = templates.find((t) => t.event === event && t.recipient === recipient);
+
+  useEffect(() => {
+    if (selected) {
+      setDraft({ subject: selected.subject, body: selected.body, is_enabled: selected.is_enabled });
+    }
+  }, [selected?.id]);
+
+  const fetchData = async () => {
+    if (!currentStore) return;
+
+    try {
+      const [templatesResult, outboxResult, smsResult, themeResult] = await Promise.all([
+        supabase
+          .from('email_templates')
+          .select('*')
+          .eq('store_id', currentStore.id),
+        supabase
+          .from('email_outbox')
+          .select('id, event, recipient, to_email, status, subject, last_error, created_at')
+          .eq('store_id', currentStore.id)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('sms_attempts')
+          .select('id, gateway, to_phone, message, success, error, created_at')
+          .eq('store_id', currentStore.id)
+          .order('created_at', { ascending: false })
+          .limit(20),
+        supabase
+          .from('store_themes')
+          .select('colors')
+          .eq('store_id', currentStore.id)
+          .eq('is_active', true)
+          .maybeSingle(),
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+      if (outboxResult.error) throw outboxResult.error;
+      if (smsResult.error) throw smsResult.error;
+
+      setTemplates(templatesResult.data || []);
+      setOutbox(outboxResult.data || []);
+      setSmsAttempts(smsResult.data || []);
+      setPrimaryColor((themeResult.data?.colors as Record<string, string> | null)?.primary ?? null);
+    } catch (error: any) {
+      console.error('Error fetching email templates:', error);
+      toast.error('Failed to load email templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!selected) return;
+
+    if (!draft.subject.trim() || !draft.body.trim()) {
+      toast.error('Subject and message are required');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .update({
+          subject: draft.subject.trim(),
+          body: draft.body,
+          is_enabled: draft.is_enabled,
+        })
+        .eq('id', selected.id);
+
+      if (error) throw error;
+
+      setTemplates((prev) =>
+        prev.map((t) => (t.id === selected.id ? { ...t, ...draft, subject: draft.subject.trim() } : t))
+      );
+      toast.success('Email template saved');
+    } catch (error: any) {
+      console.error('Error saving email template:', error);
+      toast.error('Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = useMemo(
+    () => renderTemplatePreview(draft.subject, draft.body, currentStore?.name ?? ''),
+    [draft.subject, draft.body, currentStore?.name]
+  );
+
+  const eventName = (id: string) => NOTIFICATION_EVENTS.find((e) => e.id === id)?.name ?? id;
+
+  if (!currentStore) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="text-muted-foreground">Please select or create a store first.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <Mail className="w-6 h-6" />
+          Notifications
+        </h1>
+        <p className="text-muted-foreground">
+          Emails and SMS sent to your customers and to you when orders change
+        </p>
+      </div>
+
+      <Tabs value={recipient} onValueChange={(v) => setRecipient(v as NotificationRecipient)}>
+        <TabsList>
+          <TabsTrigger value="customer">To Customer</TabsTrigger>
+          <TabsTrigger value="merchant">To You</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="grid lg:grid-cols-[240px_1fr] gap-6">
+        <Card>
+          <CardContent className="p-2">
+            {NOTIFICATION_EVENTS.map((item) => {
+              const template = templates.find((t) => t.event === item.id && t.recipient === recipient);
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => setEvent(item.id)}
+                  className={cn(
+                    'w-full text-left rounded-md px-3 py-2 text-sm transition-colors',
+                    event === item.id ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{item.name}</span>
+                    {template && !template.is_enabled && (
+                      <Badge variant="outline" className="text-xs">Off</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{item.description}</p>
+                </button>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        {selected ? (
+          <div className="grid xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{eventName(event)}</CardTitle>
+                <CardDescription>
+                  Sent to {recipient === 'customer' ? 'the customer' : 'your store email'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="template-enabled">Send this email</Label>
+                  <Switch
+                    id="template-enabled"
+                    checked={draft.is_enabled}
+                    onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, is_enabled: checked }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={draft.subject}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, subject: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-body">Message</Label>
+                  <Textarea
+                    id="template-body"
+                    rows={12}
+                    value={draft.body}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, body: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave a blank line between paragraphs. Available placeholders:
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {TEMPLATE_VARIABLES.map((variable) => (
+                      <Badge
+                        key={variable.key}
+                        variant="secondary"
+                        className="font-mono text-xs"
+                        title={variable.description}
+                      >
+                        {`{{${variable.key}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={saveTemplate} disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Template
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>With sample order data</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm mb-3">
+                  <span className="text-muted-foreground">Subject: </span>
+                  <span className="font-medium">{preview.subject}</span>
+                </p>
+                <div className="rounded-lg border overflow-hidden bg-white text-gray-900">
+                  <div
+                    className="px-5 py-4"
+                    style={{ backgroundColor: primaryColor ? `hsl(${primaryColor})` : '#111827' }}
+                  >
+                    {currentStore.logo_url ? (
+                      <img src={currentStore.logo_url} alt={currentStore.name} className="max-h-10" />
+                    ) : (
+                      <span className="text-lg font-bold text-white">{currentStore.name}</span>
+                    )}
+                  </div>
+                  <div
+                    className="p-5 text-sm leading-relaxed"
+                    dangerouslySetInnerHTML={{ __html: preview.html }}
+                  />
+                  <div className="px-5 py-3 border-t text-xs text-gray-500">{currentStore.name}</div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Template not found
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Emails</CardTitle>
+          <CardDescription>The last 20 order emails from your store</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outbox.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No emails sent yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outbox.map((email) => (
+                  <TableRow key={email.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(email.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{eventName(email.event)}</TableCell>
+                    <TableCell>{email.to_email}</TableCell>
+                    <TableCell className="max-w-xs truncate">{email.subject || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={OUTBOX_STATUS_VARIANTS[email.status] ?? 'outline'} title={email.last_error ?? undefined}>
+                        {email.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SMS Log</CardTitle>
+          <CardDescription>
+            Every SMS attempt from the SMS Notifications extension (set up the gateway and messages in Extensions)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {smsAttempts.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No SMS sent yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Gateway</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {smsAttempts.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(attempt.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{attempt.to_phone}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={attempt.message}>
+                      {attempt.message || '—'}
+                    </TableCell>
+                    <TableCell className="capitalize">{attempt.gateway}</TableCell>
+                    <TableCell>
+                      {attempt.success ? (
+                        <Badge>sent</Badge>
+                      ) : (
+                        <Badge variant="destructive" title={attempt.error ?? undefined}>failed</Badge>
+                      )}
+                      {!attempt.success && attempt.error && (
+                        <p className="text-xs text-muted-foreground mt-1">{attempt.error}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
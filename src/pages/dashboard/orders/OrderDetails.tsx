@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Package } from 'lucide-react';
+import { ArrowLeft, ExternalLink, Package, Truck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -16,11 +16,21 @@ import { supabase } from '@/integrations/supabase/client';
 import { useStore } from '@/contexts/StoreContext';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
+import { PAYMENT_METHODS, type PaymentMethodId } from '@/lib/payments';
+import { sendPendingNotifications } from '@/lib/notifications';
+import { ORDER_STATUS_TRANSITIONS } from '@/lib/orderStatus';
+import OrderTimeline from '@/components/orders/OrderTimeline';
+import CreateShipmentDialog from '@/components/orders/CreateShipmentDialog';
+import OrderReturns, { type OrderReturn } from '@/components/orders/OrderReturns';
 
 type Order = Tables<'orders'>;
 type OrderItem = Tables<'order_items'>;
-
-const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
+type Payment = Tables<'payments'>;
+type OrderEvent = Tables<'order_events'>;
+type Refund = Tables<'refunds'>;
+type Shipment = Tables<'shipments'> & {
+  shipment_items: Tables<'shipment_items'>[];
+};
 
 export default function OrderDetails() {
   const navigate = useNavigate();
@@ -28,6 +38,11 @@ export default function OrderDetails() {
   const { currentStore } = useStore();
   const [order, setOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -40,7 +55,15 @@ export default function OrderDetails() {
     if (!currentStore || !id) return;
 
     try {
-      const [orderResult, itemsResult] = await Promise.all([
+      const [
+        orderResult,
+        itemsResult,
+        paymentsResult,
+        eventsResult,
+        shipmentsResult,
+        returnsResult,
+        refundsResult,
+      ] = await Promise.all([
         supabase
           .from('orders')
           .select('*')
@@ -51,13 +74,48 @@ export default function OrderDetails() {
           .from('order_items')
           .select('*')
           .eq('order_id', id),
+        supabase
+          .from('payments')
+          .select('*')
+          .eq('order_id', id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('order_events')
+          .select('*')
+          .eq('order_id', id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('shipments')
+          .select('*, shipment_items(*)')
+          .eq('order_id', id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('returns')
+          .select('*, return_items(*)')
+          .eq('order_id', id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('refunds')
+          .select('*')
+          .eq('order_id', id)
+          .order('created_at', { ascending: false }),
       ]);
 
       if (orderResult.error) throw orderResult.error;
       if (itemsResult.error) throw itemsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+      if (shipmentsResult.error) throw shipmentsResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+      if (refundsResult.error) throw refundsResult.error;
 
       setOrder(orderResult.data);
       setOrderItems(itemsResult.data || []);
+      setPayments(paymentsResult.data || []);
+      setEvents(eventsResult.data || []);
+      setShipments(shipmentsResult.data || []);
+      setReturns(returnsResult.data || []);
+      setRefunds(refundsResult.data || []);
     } catch (error: any) {
       console.error('Error fetching order:', error);
       toast.error('Failed to load order');
@@ -67,22 +125,63 @@ export default function OrderDetails() {
     }
   };
 
-  const updateOrderStatus = async (newStatus: string) => {
+  const updateOrderStatus = async (newStatus: Order['status']) => {
     if (!order) return;
 
     try {
+      // The database rejects changes the order state machine doesn't allow
       const { error } = await supabase
         .from('orders')
-        .update({ status: newStatus as Order['status'] })
+        .update({ status: newStatus })
         .eq('id', order.id);
 
       if (error) throw error;
 
-      setOrder({ ...order, status: newStatus as Order['status'] });
-      toast.success('Order status updated');
+      fetchOrder();
+      sendPendingNotifications();
+      // Stock for tracked products is restored by the database on cancel
+      toast.success(newStatus === 'cancelled' ? 'Order status updated and stock restored' : 'Order status updated');
     } catch (error: any) {
       console.error('Error updating order:', error);
-      toast.error('Failed to update order status');
+      toast.error(error.message || 'Failed to update order status');
+    }
+  };
+
+  const handleShipmentCreated = () => {
+    fetchOrder();
+    // Shipping the last items marks the order as shipped
+    sendPendingNotifications();
+  };
+
+  /**
+   * Record cash collected for a cash-on-delivery order
+   */
+  const markAsPaid = async () => {
+    if (!order) return;
+
+    try {
+      const { error } = await supabase.rpc('mark_order_paid', { p_order_id: order.id });
+
+      if (error) throw error;
+
+      toast.success('Order marked as paid');
+      fetchOrder();
+    } catch (error: any) {
+      console.error('Error marking order as paid:', error);
+      toast.error(error.message || 'Failed to mark order as paid');
+    }
+  };
+
+  const getPaymentStatusBadge = (status: string) => {
+    switch (status) {
+      case 'paid':
+        return <Badge className="bg-success text-success-foreground">Paid</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Failed</Badge>;
+      case 'refunded':
+        return <Badge variant="outline">Refunded</Badge>;
+      default:
+        return <Badge variant="secondary">Unpaid</Badge>;
     }
   };
 
@@ -90,6 +189,8 @@ export default function OrderDetails() {
     switch (status) {
       case 'pending':
         return <Badge variant="secondary">Pending</Badge>;
+      case 'confirmed':
+        return <Badge className="bg-info text-info-foreground">Confirmed</Badge>;
       case 'processing':
         return <Badge className="bg-info text-info-foreground">Processing</Badge>;
       case 'shipped':
@@ -98,6 +199,8 @@ export default function OrderDetails() {
         return <Badge className="bg-success text-success-foreground">Delivered</Badge>;
       case 'cancelled':
         return <Badge variant="destructive">Cancelled</Badge>;
+      case 'refunded':
+        return <Badge variant="destructive">Refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -119,6 +222,20 @@ export default function OrderDetails() {
     );
   }
 
+  const shippedQuantities: Record<string, number> = {};
+  shipments.forEach((shipment) => {
+    shipment.shipment_items.forEach((line) => {
+      shippedQuantities[line.order_item_id] = (shippedQuantities[line.order_item_id] || 0) + line.quantity;
+    });
+  });
+
+  const canShip = ['pending', 'confirmed', 'processing'].includes(order.status);
+  const isPartiallyShipped =
+    shipments.length > 0 && orderItems.some((item) => (shippedQuantities[item.id] || 0) < item.quantity);
+  const itemNames = Object.fromEntries(
+    orderItems.map((item) => [item.id, item.variant_name ? `${item.product_name} (${item.variant_name})` : item.product_name])
+  );
+
   const shippingAddress = order.shipping_address as { name?: string; address?: string; city?: string; phone?: string } | null;
 
   return (
@@ -165,6 +282,11 @@ export default function OrderDetails() {
                       <div className="text-right">
                         <p className="font-medium">रु {Number(item.unit_price).toLocaleString()}</p>
                         <p className="text-sm text-muted-foreground">Qty: {item.quantity}</p>
+                        {shipments.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Shipped: {shippedQuantities[item.id] || 0}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -173,6 +295,81 @@ export default function OrderDetails() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Shipments</CardTitle>
+                {isPartiallyShipped && (
+                  <p className="text-sm text-muted-foreground mt-1">Partially shipped</p>
+                )}
+              </div>
+              {canShip && (
+                <CreateShipmentDialog
+                  orderId={order.id}
+                  items={orderItems}
+                  shippedQuantities={shippedQuantities}
+                  onShipmentCreated={handleShipmentCreated}
+                />
+              )}
+            </CardHeader>
+            <CardContent>
+              {shipments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No shipments yet. Create one when a package leaves your store.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {shipments.map((shipment, index) => (
+                    <div key={shipment.id} className="border rounded-lg p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex items-center gap-2">
+                          <Truck className="w-4 h-4 text-muted-foreground" />
+                          <span className="font-medium">
+                            Package {index + 1} · {shipment.carrier}
+                          </span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(shipment.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      {shipment.tracking_number && (
+                        <p className="text-sm">
+                          Tracking: <span className="font-mono">{shipment.tracking_number}</span>
+                          {shipment.tracking_url && (
+                            <a
+                              href={shipment.tracking_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 ml-2 text-primary hover:underline"
+                            >
+                              Track
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          )}
+                        </p>
+                      )}
+                      <ul className="text-sm text-muted-foreground">
+                        {shipment.shipment_items.map((line) => (
+                          <li key={line.id}>
+                            {itemNames[line.order_item_id]} × {line.quantity}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <OrderReturns
+            order={order}
+            items={orderItems}
+            returns={returns}
+            refunds={refunds}
+            onChange={fetchOrder}
+          />
+
           {order.notes && (
             <Card>
               <CardHeader>
@@ -194,6 +391,8 @@ export default function OrderDetails() {
               </CardContent>
             </Card>
           )}
+
+          <OrderTimeline orderId={order.id} events={events} onNoteAdded={fetchOrder} />
         </div>
 
         <div className="space-y-6">
@@ -202,12 +401,16 @@ export default function OrderDetails() {
               <CardTitle>Order Status</CardTitle>
             </CardHeader>
             <CardContent>
-              <Select value={order.status} onValueChange={updateOrderStatus}>
+              <Select
+                value={order.status}
+                onValueChange={(value) => updateOrderStatus(value as Order['status'])}
+                disabled={ORDER_STATUS_TRANSITIONS[order.status].length === 0}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {ORDER_STATUSES.map((status) => (
+                  {[order.status, ...ORDER_STATUS_TRANSITIONS[order.status]].map((status) => (
                     <SelectItem key={status} value={status}>
                       {status.charAt(0).toUpperCase() + status.slice(1)}
                     </SelectItem>
@@ -249,6 +452,53 @@ export default function OrderDetails() {
                 <span>Total</span>
                 <span>रु {Number(order.total).toLocaleString()}</span>
               </div>
+              {Number(order.store_credit_amount) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid with store credit</span>
+                  <span>रु {Number(order.store_credit_amount).toLocaleString()}</span>
+                </div>
+              )}
+              {Number(order.refunded_amount) > 0 && (
+                <>
+                  <div className="flex justify-between text-destructive">
+                    <span>Refunded</span>
+                    <span>-रु {Number(order.refunded_amount).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <span>Net</span>
+                    <span>रु {(Number(order.total) - Number(order.refunded_amount)).toLocaleString()}</span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Payment</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  {PAYMENT_METHODS[order.payment_method as PaymentMethodId]?.name || order.payment_method}
+                </span>
+                {getPaymentStatusBadge(order.payment_status)}
+              </div>
+              {payments[0]?.provider_reference && (
+                <p className="text-sm text-muted-foreground">
+                  Reference: <span className="font-mono">{payments[0].provider_reference}</span>
+                </p>
+              )}
+              {payments[0]?.paid_at && (
+                <p className="text-sm text-muted-foreground">
+                  Paid on {new Date(payments[0].paid_at).toLocaleString()}
+                </p>
+              )}
+              {order.payment_method === 'cod' && order.payment_status === 'pending' && order.status !== 'cancelled' && (
+                <Button variant="outline" className="w-full" onClick={markAsPaid}>
+                  Mark as Paid
+                </Button>
+              )}
             </CardContent>
           </Card>
 
@@ -30,11 +30,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useStore } from '@/contexts/StoreContext';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
+import { ORDER_STATUSES, canTransitionOrder } from '@/lib/orderStatus';
 
 type Order = Tables<'orders'>;
 
-const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
-
 export default function OrdersList() {
   const { currentStore } = useStore();
   const [orders, setOrders] = useState<Order[]>([]);
@@ -66,20 +65,20 @@ export default function OrdersList() {
     fetchOrders();
   }, [currentStore]);
 
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
+  const updateOrderStatus = async (orderId: string, newStatus: Order['status']) => {
     try {
       const { error } = await supabase
         .from('orders')
-        .update({ status: newStatus as Order['status'] })
+        .update({ status: newStatus })
         .eq('id', orderId);
 
       if (error) throw error;
 
-      setOrders(orders.map(o => o.id === orderId ? { ...o, status: newStatus as Order['status'] } : o));
+      setOrders(orders.map(o => o.id === orderId ? { ...o, status: newStatus } : o));
       toast.success('Order status updated');
     } catch (error: any) {
       console.error('Error updating order:', error);
-      toast.error('Failed to update order status');
+      toast.error(error.message || 'Failed to update order status');
     }
   };
 
@@ -87,6 +86,8 @@ export default function OrdersList() {
     switch (status) {
       case 'pending':
         return <Badge variant="secondary">Pending</Badge>;
+      case 'confirmed':
+        return <Badge className="bg-info text-info-foreground">Confirmed</Badge>;
       case 'processing':
         return <Badge className="bg-info text-info-foreground">Processing</Badge>;
       case 'shipped':
@@ -95,6 +96,8 @@ export default function OrdersList() {
         return <Badge className="bg-success text-success-foreground">Delivered</Badge>;
       case 'cancelled':
         return <Badge variant="destructive">Cancelled</Badge>;
+      case 'refunded':
+        return <Badge variant="destructive">Refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -198,9 +201,9 @@ export default function OrdersList() {
                               View Details
                             </Link>
                           </DropdownMenuItem>
-                          {order.status !== 'cancelled' && order.status !== 'delivered' && (
+                          {canTransitionOrder(order.status, 'cancelled') && (
                             <>
-                              {order.status === 'pending' && (
+                              {canTransitionOrder(order.status, 'processing') && (
                                 <DropdownMenuItem onClick={() => updateOrderStatus(order.id, 'processing')}>
                                   Mark Processing
                                 </DropdownMenuItem>
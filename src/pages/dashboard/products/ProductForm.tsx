@@ -17,11 +17,16 @@
  * 1. Basic Information: Name, slug, description
  * 2. Images: Upload via ImageUpload component
  * 3. Pricing: Price, compare-at price, cost price
- * 4. Inventory: SKU, barcode, stock quantity, tracking toggle
+ * 4. Inventory: SKU, barcode, stock quantity, tracking and backorder toggles
  * 5. Variants: Via ProductVariantsSection component
  * 6. SEO: Title and meta description
  * 7. Sidebar: Status, featured toggle, category
  * 
+ * INVENTORY HISTORY TAB (edit mode):
+ * - Stock movements from the inventory_movements ledger via InventoryHistory
+ * - Stock edits are saved through the adjust_inventory RPC as the difference
+ *   from the loaded stock, so sales made while the form was open are kept
+ * 
  * USAGE:
  * - New product: /dashboard/products/new
  * - Edit product: /dashboard/products/:id
@@ -42,6 +47,7 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useStore } from '@/contexts/StoreContext';
 import { toast } from 'sonner';
@@ -49,6 +55,7 @@ import type { Tables } from '@/integrations/supabase/types';
 import ProductVariantsSection from '@/components/products/ProductVariantsSection';
 import QuickCategoryModal from '@/components/products/QuickCategoryModal';
 import ImageUpload from '@/components/products/ImageUpload';
+import InventoryHistory from '@/components/products/InventoryHistory';
 
 type Category = Tables<'categories'>;
 
@@ -77,13 +84,23 @@ const productSchema = z.object({
   price: z.coerce.number().min(0, 'Price must be positive'),
   compare_at_price: z.coerce.number().min(0).optional().nullable(),
   cost_price: z.coerce.number().min(0).optional().nullable(),
-  stock_quantity: z.coerce.number().int().min(0, 'Stock must be positive'),
+  // Negative stock means units on backorder
+  stock_quantity: z.coerce.number().int(),
   track_inventory: z.boolean().default(true),
+  allow_backorders: z.boolean().default(false),
+  // Empty means the store default from the Inventory Alerts extension
+  low_stock_threshold: z.preprocess(
+    (value) => (value === '' || value === undefined ? null : value),
+    z.coerce.number().int().min(0, 'Threshold must be positive').nullable()
+  ),
   category_id: z.string().optional().nullable(),
   status: z.enum(['draft', 'active', 'archived']),
   featured: z.boolean().default(false),
   seo_title: z.string().max(70).optional(),
   seo_description: z.string().max(160).optional(),
+}).refine((values) => values.stock_quantity >= 0 || values.allow_backorders, {
+  message: 'Stock must be positive unless backorders are allowed',
+  path: ['stock_quantity'],
 });
 
 type ProductFormValues = z.infer<typeof productSchema>;
@@ -100,6 +117,7 @@ export default function ProductForm() {
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [savedProductId, setSavedProductId] = useState<string | undefined>(id);
   const [categoryAttributes, setCategoryAttributes] = useState<CategoryAttribute[]>([]);
+  const [savedStock, setSavedStock] = useState(0); // Stock as last loaded from the database
 
   const isEditing = !!id;
 
@@ -117,6 +135,8 @@ export default function ProductForm() {
       cost_price: null,
       stock_quantity: 0,
       track_inventory: true,
+      allow_backorders: false,
+      low_stock_threshold: null,
       category_id: null,
       status: 'draft',
       featured: false,
@@ -208,6 +228,8 @@ export default function ProductForm() {
           cost_price: data.cost_price ? Number(data.cost_price) : null,
           stock_quantity: data.stock_quantity,
           track_inventory: data.track_inventory ?? true,
+          allow_backorders: data.allow_backorders ?? false,
+          low_stock_threshold: data.low_stock_threshold,
           category_id: data.category_id,
           status: data.status as 'draft' | 'active' | 'archived',
           featured: data.featured ?? false,
@@ -215,6 +237,7 @@ export default function ProductForm() {
           seo_description: data.seo_description || '',
         });
         setImageUrls((data.images as string[]) || []);
+        setSavedStock(data.stock_quantity);
       }
     } catch (error: any) {
       console.error('Error fetching product:', error);
@@ -285,6 +308,8 @@ export default function ProductForm() {
         cost_price: values.cost_price || null,
         stock_quantity: values.stock_quantity,
         track_inventory: values.track_inventory,
+        allow_backorders: values.allow_backorders,
+        low_stock_threshold: values.low_stock_threshold ?? null,
         category_id: values.category_id || null,
         status: values.status,
         featured: values.featured,
@@ -295,13 +320,29 @@ export default function ProductForm() {
       };
 
       if (isEditing) {
+        // Stock changes go through the inventory ledger, not the update
+        const { stock_quantity, ...productUpdate } = productData;
+        const quantityChange = stock_quantity - savedStock;
+
         // Update existing product
         const { error } = await supabase
           .from('products')
-          .update(productData)
+          .update(productUpdate)
           .eq('id', id);
 
         if (error) throw error;
+
+        // Adjusted only once the update went through, so saving again after
+        // a failed update doesn't apply the change twice
+        if (quantityChange !== 0) {
+          const { error: stockError } = await supabase.rpc('adjust_inventory', {
+            p_product_id: id,
+            p_quantity_change: quantityChange,
+          });
+
+          if (stockError) throw stockError;
+        }
+
         toast.success('Product updated successfully');
       } else {
         // Create new product
@@ -363,403 +404,483 @@ export default function ProductForm() {
         </div>
       </div>
 
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            {/* ============================================================
-             * MAIN CONTENT COLUMN (2/3 width)
-             * ============================================================ */}
-            <div className="lg:col-span-2 space-y-6">
-              {/* Basic Information Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Basic Information</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Product Name</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="Product name" 
-                            {...field}
-                            onChange={handleNameChange}
+      <Tabs defaultValue="details" className="space-y-6">
+        {isEditing && (
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="inventory">Inventory History</TabsTrigger>
+          </TabsList>
+        )}
+
+        <TabsContent value="details" className="mt-0">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* ============================================================
+                 * MAIN CONTENT COLUMN (2/3 width)
+                 * ============================================================ */}
+                <div className="lg:col-span-2 space-y-6">
+                  {/* Basic Information Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Basic Information</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Product Name</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="Product name" 
+                                {...field}
+                                onChange={handleNameChange}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="slug"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>URL Slug</FormLabel>
+                            <FormControl>
+                              <Input placeholder="product-url-slug" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Description</FormLabel>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="Describe your product..."
+                                className="resize-none"
+                                rows={5}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  {/* Images Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Images</CardTitle>
+                      <CardDescription>Upload product images or add via URL</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ImageUpload
+                        images={imageUrls}
+                        onImagesChange={setImageUrls}
+                        storeId={currentStore.id}
+                        productSlug={form.watch('slug')}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  {/* Pricing Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Pricing</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="price"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Price (रु)</FormLabel>
+                              <FormControl>
+                                <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="compare_at_price"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Compare at Price</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number" 
+                                  step="0.01" 
+                                  placeholder="0.00" 
+                                  {...field}
+                                  value={field.value ?? ''}
+                                />
+                              </FormControl>
+                              <FormDescription>Original price for showing discounts</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="cost_price"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Cost Price</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number" 
+                                  step="0.01" 
+                                  placeholder="0.00" 
+                                  {...field}
+                                  value={field.value ?? ''}
+                                />
+                              </FormControl>
+                              <FormDescription>Your cost (not visible to customers)</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  {/* Inventory Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Inventory</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="sku"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>SKU</FormLabel>
+                              <FormControl>
+                                <Input placeholder="SKU-001" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="barcode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Barcode</FormLabel>
+                              <FormControl>
+                                <Input placeholder="1234567890" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="stock_quantity"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Stock Quantity</FormLabel>
+                              <FormControl>
+                                <Input type="number" placeholder="0" {...field} />
+                              </FormControl>
+                              {isEditing && (
+                                <FormDescription>
+                                  Changes are recorded in Inventory History
+                                </FormDescription>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="track_inventory"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                              <div>
+                                <FormLabel>Track Inventory</FormLabel>
+                                <FormDescription>
+                                  Update stock automatically on orders
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      {form.watch('track_inventory') && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="allow_backorders"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                                <div>
+                                  <FormLabel>Allow Backorders</FormLabel>
+                                  <FormDescription>
+                                    Keep selling when stock reaches zero
+                                  </FormDescription>
+                                </div>
+                                <FormControl>
+                                  <Switch
+                                    checked={field.value}
+                                    onCheckedChange={field.onChange}
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
                           />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="slug"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>URL Slug</FormLabel>
-                        <FormControl>
-                          <Input placeholder="product-url-slug" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
 
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Description</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Describe your product..."
-                            className="resize-none"
-                            rows={5}
-                            {...field}
+                          <FormField
+                            control={form.control}
+                            name="low_stock_threshold"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Low Stock Alert At</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    placeholder="Store default"
+                                    {...field}
+                                    value={field.value ?? ''}
+                                  />
+                                </FormControl>
+                                <FormDescription>
+                                  Alert when stock falls to this level (Inventory Alerts extension)
+                                </FormDescription>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-              </Card>
-
-              {/* Images Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Images</CardTitle>
-                  <CardDescription>Upload product images or add via URL</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <ImageUpload
-                    images={imageUrls}
-                    onImagesChange={setImageUrls}
-                    storeId={currentStore.id}
-                    productSlug={form.watch('slug')}
-                  />
-                </CardContent>
-              </Card>
-
-              {/* Pricing Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Pricing</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="price"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Price (रु)</FormLabel>
-                          <FormControl>
-                            <Input type="number" step="0.01" placeholder="0.00" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="compare_at_price"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Compare at Price</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              step="0.01" 
-                              placeholder="0.00" 
-                              {...field}
-                              value={field.value ?? ''}
-                            />
-                          </FormControl>
-                          <FormDescription>Original price for showing discounts</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="cost_price"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Cost Price</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              step="0.01" 
-                              placeholder="0.00" 
-                              {...field}
-                              value={field.value ?? ''}
-                            />
-                          </FormControl>
-                          <FormDescription>Your cost (not visible to customers)</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Inventory Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Inventory</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="sku"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>SKU</FormLabel>
-                          <FormControl>
-                            <Input placeholder="SKU-001" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="barcode"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Barcode</FormLabel>
-                          <FormControl>
-                            <Input placeholder="1234567890" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="stock_quantity"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Stock Quantity</FormLabel>
-                          <FormControl>
-                            <Input type="number" placeholder="0" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="track_inventory"
-                      render={({ field }) => (
-                        <FormItem className="flex items-center justify-between rounded-lg border p-4">
-                          <div>
-                            <FormLabel>Track Inventory</FormLabel>
-                            <FormDescription>
-                              Update stock automatically on orders
-                            </FormDescription>
-                          </div>
-                          <FormControl>
-                            <Switch
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                        </FormItem>
+                        </div>
                       )}
-                    />
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Product Variants Section */}
-              <ProductVariantsSection
-                productId={savedProductId}
-                categoryId={form.watch('category_id')}
-                categoryAttributes={categoryAttributes}
-                basePrice={form.watch('price')}
-              />
-
-              {/* SEO Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>SEO</CardTitle>
-                  <CardDescription>Optimize for search engines</CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="seo_title"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>SEO Title</FormLabel>
-                        <FormControl>
-                          <Input placeholder="SEO optimized title" {...field} />
-                        </FormControl>
-                        <FormDescription>Max 70 characters</FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="seo_description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Meta Description</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Brief description for search engines"
-                            className="resize-none"
-                            rows={3}
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormDescription>Max 160 characters</FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* ============================================================
-             * SIDEBAR COLUMN (1/3 width)
-             * ============================================================ */}
-            <div className="space-y-6">
-              {/* Status Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Status</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="status"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Product Status</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select status" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="draft">Draft</SelectItem>
-                            <SelectItem value="active">Active</SelectItem>
-                            <SelectItem value="archived">Archived</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                    </CardContent>
+                  </Card>
+
+                  {/* Product Variants Section */}
+                  <ProductVariantsSection
+                    productId={savedProductId}
+                    categoryId={form.watch('category_id')}
+                    categoryAttributes={categoryAttributes}
+                    basePrice={form.watch('price')}
                   />
 
-                  <FormField
-                    control={form.control}
-                    name="featured"
-                    render={({ field }) => (
-                      <FormItem className="flex items-center justify-between rounded-lg border p-4">
-                        <div>
-                          <FormLabel>Featured</FormLabel>
-                          <FormDescription>
-                            Show in featured section
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-              </Card>
-
-              {/* Organization Card */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Organization</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <FormField
-                    control={form.control}
-                    name="category_id"
-                    render={({ field }) => (
-                      <FormItem>
-                        <div className="flex items-center justify-between">
-                          <FormLabel>Category</FormLabel>
-                          {/* Quick category creation modal */}
-                          <QuickCategoryModal
-                            storeId={currentStore.id}
-                            onCategoryCreated={(categoryId, categoryName) => {
-                              fetchCategories();
-                              field.onChange(categoryId);
-                            }}
-                          />
-                        </div>
-                        <Select 
-                          onValueChange={field.onChange} 
-                          value={field.value || undefined}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select category" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {categories.map((category) => (
-                              <SelectItem key={category.id} value={category.id}>
-                                {category.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-              </Card>
-
-              {/* Action Buttons */}
-              <div className="flex gap-4">
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="flex-1"
-                  onClick={() => navigate('/dashboard/products')}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" className="flex-1" disabled={isSubmitting}>
-                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                  {isEditing ? 'Update' : 'Create'}
-                </Button>
+                  {/* SEO Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>SEO</CardTitle>
+                      <CardDescription>Optimize for search engines</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="seo_title"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>SEO Title</FormLabel>
+                            <FormControl>
+                              <Input placeholder="SEO optimized title" {...field} />
+                            </FormControl>
+                            <FormDescription>Max 70 characters</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="seo_description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Meta Description</FormLabel>
+                            <FormControl>
+                              <Textarea 
+                                placeholder="Brief description for search engines"
+                                className="resize-none"
+                                rows={3}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>Max 160 characters</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* ============================================================
+                 * SIDEBAR COLUMN (1/3 width)
+                 * ============================================================ */}
+                <div className="space-y-6">
+                  {/* Status Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Status</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="status"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Product Status</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select status" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="draft">Draft</SelectItem>
+                                <SelectItem value="active">Active</SelectItem>
+                                <SelectItem value="archived">Archived</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="featured"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                            <div>
+                              <FormLabel>Featured</FormLabel>
+                              <FormDescription>
+                                Show in featured section
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  {/* Organization Card */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Organization</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <FormField
+                        control={form.control}
+                        name="category_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex items-center justify-between">
+                              <FormLabel>Category</FormLabel>
+                              {/* Quick category creation modal */}
+                              <QuickCategoryModal
+                                storeId={currentStore.id}
+                                onCategoryCreated={(categoryId, categoryName) => {
+                                  fetchCategories();
+                                  field.onChange(categoryId);
+                                }}
+                              />
+                            </div>
+                            <Select 
+                              onValueChange={field.onChange} 
+                              value={field.value || undefined}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select category" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {categories.map((category) => (
+                                  <SelectItem key={category.id} value={category.id}>
+                                    {category.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  {/* Action Buttons */}
+                  <div className="flex gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => navigate('/dashboard/products')}
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                      {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {isEditing ? 'Update' : 'Create'}
+                    </Button>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </form>
-      </Form>
+            </form>
+          </Form>
+        </TabsContent>
+
+        {isEditing && id && (
+          <TabsContent value="inventory" className="mt-0">
+            <InventoryHistory
+              productId={id}
+              storeId={currentStore.id}
+              productStock={savedStock}
+              onStockAdjusted={(variantId, stockQuantity) => {
+                if (!variantId) {
+                  setSavedStock(stockQuantity);
+                  form.setValue('stock_quantity', stockQuantity);
+                }
+              }}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
-import { Plus, Search, MoreHorizontal, Edit, Trash2, Eye } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Plus, Search, MoreHorizontal, Edit, Trash2, Eye, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -38,24 +38,34 @@ type Product = Tables<'products'>;
 
 export default function ProductsList() {
   const { currentStore } = useStore();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [products, setProducts] = useState<Product[]>([]);
+  // Products with the product or a variant at or below its low stock threshold
+  const [lowStockIds, setLowStockIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<Product | null>(null);
 
+  const lowStockOnly = searchParams.get('stock') === 'low';
+
   const fetchProducts = async () => {
     if (!currentStore) return;
 
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .eq('store_id', currentStore.id)
-        .order('created_at', { ascending: false });
+      const [productsResult, lowStockResult] = await Promise.all([
+        supabase
+          .from('products')
+          .select('*')
+          .eq('store_id', currentStore.id)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_low_stock_items', { p_store_id: currentStore.id }),
+      ]);
 
-      if (error) throw error;
-      setProducts(data || []);
+      if (productsResult.error) throw productsResult.error;
+      if (lowStockResult.error) throw lowStockResult.error;
+      setProducts(productsResult.data || []);
+      setLowStockIds(new Set((lowStockResult.data || []).map(item => item.product_id)));
     } catch (error: any) {
       console.error('Error fetching products:', error);
       toast.error('Failed to load products');
@@ -104,8 +114,9 @@ export default function ProductsList() {
   };
 
   const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    product.sku?.toLowerCase().includes(searchQuery.toLowerCase())
+    (!lowStockOnly || lowStockIds.has(product.id)) &&
+    (product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      product.sku?.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   if (!currentStore) {
@@ -143,6 +154,14 @@ export default function ProductsList() {
                 className="pl-10"
               />
             </div>
+            {lowStockOnly && (
+              <Badge variant="secondary" className="gap-1">
+                Low stock
+                <button onClick={() => setSearchParams({})} aria-label="Clear low stock filter">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -153,9 +172,11 @@ export default function ProductsList() {
           ) : filteredProducts.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-muted-foreground mb-4">
-                {searchQuery ? 'No products found matching your search.' : 'No products yet. Create your first product!'}
+                {lowStockOnly
+                  ? 'No products are low on stock.'
+                  : searchQuery ? 'No products found matching your search.' : 'No products yet. Create your first product!'}
               </p>
-              {!searchQuery && (
+              {!searchQuery && !lowStockOnly && (
                 <Link to="/dashboard/products/new">
                   <Button>
                     <Plus className="w-4 h-4 mr-2" />
@@ -203,7 +224,7 @@ export default function ProductsList() {
                     <TableCell className="text-muted-foreground">{product.sku || '-'}</TableCell>
                     <TableCell>रु {Number(product.price).toLocaleString()}</TableCell>
                     <TableCell>
-                      <span className={product.stock_quantity <= 5 ? 'text-destructive' : ''}>
+                      <span className={lowStockIds.has(product.id) ? 'text-destructive' : ''}>
                         {product.stock_quantity}
                       </span>
                     </TableCell>
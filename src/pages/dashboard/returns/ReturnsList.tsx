@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { supabase } from '@/integrations/supabase/client';
+import { useStore } from '@/contexts/StoreContext';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS, type ReturnReason, type ReturnStatus } from '@/lib/returns';
+
+type ReturnRow = Tables<'returns'> & {
+  order: {
+    order_number: string;
+    customer: { full_name: string | null; email: string } | null;
+  } | null;
+  return_items: {
+    id: string;
+    quantity: number;
+    reason: ReturnReason;
+    order_item: { product_name: string; variant_name: string | null } | null;
+  }[];
+};
+
+const STATUS_TABS: ReturnStatus[] = ['requested', 'approved', 'received', 'rejected'];
+
+export default function ReturnsList() {
+  const { currentStore } = useStore();
+  const [returns, setReturns] = useState<ReturnRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ReturnStatus>('requested');
+
+  const fetchReturns = async () => {
+    if (!currentStore) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('returns')
+        .select(
+          '*, order:orders(order_number, customer:customers(full_name, email)), return_items(id, quantity, reason, order_item:order_items(product_name, variant_name))'
+        )
+        .eq('store_id', currentStore.id)
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'requested' });
+
+      if (error) throw error;
+      setReturns((data as unknown as ReturnRow[]) || []);
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      toast.error('Failed to load returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+  }, [currentStore, status]);
+
+  if (!currentStore) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="text-muted-foreground">Please select or create a store first.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Returns</h1>
+        <p className="text-muted-foreground">
+          Review return requests from customers. Approve, receive and refund returns from the order page.
+        </p>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as ReturnStatus)}>
+        <TabsList>
+          {STATUS_TABS.map((tab) => (
+            <TabsTrigger key={tab} value={tab}>
+              {RETURN_STATUS_LABELS[tab]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : returns.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Undo2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {status === 'requested'
+                ? 'No return requests waiting for review.'
+                : `No ${RETURN_STATUS_LABELS[status].toLowerCase()} returns.`}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {returns.map((orderReturn) => (
+            <Card key={orderReturn.id}>
+              <CardContent className="p-5 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <p className="font-mono font-semibold">{orderReturn.order?.order_number}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {orderReturn.order?.customer?.full_name || orderReturn.order?.customer?.email || 'Guest'} ·{' '}
+                      {orderReturn.requested_by === 'customer' ? 'Requested' : 'Opened by staff'}{' '}
+                      {new Date(orderReturn.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" asChild>
+                    <Link to={`/dashboard/orders/${orderReturn.order_id}`}>View Order</Link>
+                  </Button>
+                </div>
+
+                <ul className="text-sm space-y-1">
+                  {orderReturn.return_items.map((line) => (
+                    <li key={line.id} className="flex justify-between gap-3">
+                      <span>
+                        {line.order_item?.product_name}
+                        {line.order_item?.variant_name && ` (${line.order_item.variant_name})`} × {line.quantity}
+                      </span>
+                      <span className="text-muted-foreground">{RETURN_REASON_LABELS[line.reason]}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                {orderReturn.note && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{orderReturn.note}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { BadgeCheck, Check, EyeOff, MessageSquare, Reply } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRating } from '@/components/storefront/StarRating';
+import { supabase } from '@/integrations/supabase/client';
+import { useStore } from '@/contexts/StoreContext';
+import { getReviewPhotoUrl } from '@/hooks/useProductReviews';
+import { toast } from 'sonner';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+type ReviewStatus = Database['public']['Enums']['review_status'];
+type Review = Tables<'product_reviews'> & {
+  product: { name: string } | null;
+};
+
+const STATUS_TABS: { value: ReviewStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'hidden', label: 'Hidden' },
+];
+
+export default function ReviewsList() {
+  const { currentStore } = useStore();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [replyingTo, setReplyingTo] = useState<Review | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchReviews = async () => {
+    if (!currentStore) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('product_reviews')
+        .select('*, product:products(name)')
+        .eq('store_id', currentStore.id)
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'pending' });
+
+      if (error) throw error;
+      setReviews((data as Review[]) || []);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast.error('Failed to load reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReviews();
+  }, [currentStore, status]);
+
+  const updateStatus = async (review: Review, newStatus: ReviewStatus) => {
+    try {
+      const { error } = await supabase.rpc('set_product_review_status', {
+        p_review_id: review.id,
+        p_status: newStatus,
+      });
+
+      if (error) throw error;
+
+      toast.success(newStatus === 'approved' ? 'Review published' : 'Review hidden');
+      setReviews((current) => current.filter((r) => r.id !== review.id));
+    } catch (error: any) {
+      console.error('Error updating review:', error);
+      toast.error(error.message || 'Failed to update review');
+    }
+  };
+
+  const openReply = (review: Review) => {
+    setReplyingTo(review);
+    setReplyText(review.reply || '');
+  };
+
+  const handleSaveReply = async () => {
+    if (!replyingTo) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc('reply_to_product_review', {
+        p_review_id: replyingTo.id,
+        p_reply: replyText,
+      });
+
+      if (error) throw error;
+
+      toast.success(replyText.trim() ? 'Reply saved' : 'Reply removed');
+      setReplyingTo(null);
+      fetchReviews();
+    } catch (error: any) {
+      console.error('Error saving reply:', error);
+      toast.error(error.message || 'Failed to save reply');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!currentStore) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <p className="text-muted-foreground">Please select or create a store first.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Reviews</h1>
+        <p className="text-muted-foreground">
+          Approve, hide or reply to product reviews. New reviews stay hidden until you approve them.
+        </p>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+        <TabsList>
+          {STATUS_TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {status === 'pending' ? 'No reviews waiting for approval.' : `No ${status} reviews.`}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <Card key={review.id}>
+              <CardContent className="p-5 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StarRating rating={review.rating} />
+                      {review.title && <span className="font-semibold">{review.title}</span>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {review.product?.name || 'Deleted product'} · {review.author_name} ({review.author_email}) ·{' '}
+                      {new Date(review.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {review.is_verified_purchase && (
+                    <Badge variant="outline" className="gap-1 text-success border-success/30">
+                      <BadgeCheck className="w-3.5 h-3.5" />
+                      Verified purchase
+                    </Badge>
+                  )}
+                </div>
+
+                <p className="text-sm whitespace-pre-line">{review.body}</p>
+
+                {review.photos.length > 0 && (
+                  <div className="flex gap-2 flex-wrap">
+                    {review.photos.map((path) => {
+                      const url = getReviewPhotoUrl(path);
+                      return (
+                        <a key={path} href={url} target="_blank" rel="noopener noreferrer">
+                          <img src={url} alt="" className="w-16 h-16 rounded-lg object-cover bg-muted" />
+                        </a>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {review.reply && (
+                  <div className="pl-4 border-l-2 text-sm">
+                    <p className="font-medium">Your reply</p>
+                    <p className="text-muted-foreground whitespace-pre-line">{review.reply}</p>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {review.status !== 'approved' && (
+                    <Button size="sm" onClick={() => updateStatus(review, 'approved')}>
+                      <Check className="w-4 h-4 mr-2" />
+                      Approve
+                    </Button>
+                  )}
+                  {review.status !== 'hidden' && (
+                    <Button size="sm" variant="outline" onClick={() => updateStatus(review, 'hidden')}>
+                      <EyeOff className="w-4 h-4 mr-2" />
+                      Hide
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => openReply(review)}>
+                    <Reply className="w-4 h-4 mr-2" />
+                    {review.reply ? 'Edit Reply' : 'Reply'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!replyingTo} onOpenChange={(open) => !open && setReplyingTo(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reply to Review</DialogTitle>
+            <DialogDescription>
+              Your reply is shown publicly under the review. Leave it empty to remove the reply.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="reply">Reply</Label>
+            <Textarea
+              id="reply"
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              maxLength={5000}
+              rows={5}
+              placeholder="Thanks for your feedback..."
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplyingTo(null)}>Cancel</Button>
+            <Button onClick={handleSaveReply} disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Reply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,11 +4,18 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useCart } from '@/contexts/CartContext';
+import { useDiscountCode } from '@/hooks/useDiscountCode';
+import { useCartStock } from '@/hooks/useCartStock';
+import { StockNotice } from '@/components/storefront/StockNotice';
+import { DiscountCodeInput } from '@/components/storefront/DiscountCodeInput';
 
 export default function Cart() {
   const { storeSlug } = useParams();
   const navigate = useNavigate();
   const { items, updateQuantity, removeFromCart, clearCart, cartTotal } = useCart();
+  const discountState = useDiscountCode(storeSlug, cartTotal);
+  const { discountAmount } = discountState;
+  const { getStock, hasStockIssues } = useCartStock(items);
 
   const storeItems = items.filter(item => true); // In real app, filter by store
 
@@ -68,63 +75,69 @@ export default function Cart() {
         <div className="grid lg:grid-cols-3 gap-6">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
-            {storeItems.map((item) => (
-              <Card key={`${item.productId}-${item.variantId}`}>
-                <CardContent className="p-4">
-                  <div className="flex gap-4">
-                    <div className="w-20 h-20 rounded-lg overflow-hidden bg-muted flex-shrink-0">
-                      <img
-                        src={item.image || '/placeholder.svg'}
-                        alt={item.name}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).src = '/placeholder.svg';
-                        }}
-                      />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h3 className="font-medium truncate">{item.name}</h3>
-                      {item.variantName && (
-                        <p className="text-sm text-muted-foreground">{item.variantName}</p>
-                      )}
-                      <p className="font-semibold text-primary mt-1">
-                        रु {item.price.toLocaleString()}
-                      </p>
-                    </div>
-                    <div className="flex flex-col items-end justify-between">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-destructive"
-                        onClick={() => removeFromCart(item.productId, item.variantId)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => updateQuantity(item.productId, item.variantId, item.quantity - 1)}
-                          disabled={item.quantity <= 1}
-                        >
-                          <Minus className="w-3 h-3" />
-                        </Button>
-                        <span className="w-8 text-center font-medium">{item.quantity}</span>
+            {storeItems.map((item) => {
+              const available = getStock(item.productId, item.variantId);
+
+              return (
+                <Card key={`${item.productId}-${item.variantId}`}>
+                  <CardContent className="p-4">
+                    <div className="flex gap-4">
+                      <div className="w-20 h-20 rounded-lg overflow-hidden bg-muted flex-shrink-0">
+                        <img
+                          src={item.image || '/placeholder.svg'}
+                          alt={item.name}
+                          className="w-full h-full object-cover"
+                          onError={(e) => {
+                            (e.target as HTMLImageElement).src = '/placeholder.svg';
+                          }}
+                        />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium truncate">{item.name}</h3>
+                        {item.variantName && (
+                          <p className="text-sm text-muted-foreground">{item.variantName}</p>
+                        )}
+                        <p className="font-semibold text-primary mt-1">
+                          रु {item.price.toLocaleString()}
+                        </p>
+                        <StockNotice available={available} quantity={item.quantity} className="mt-1" />
+                      </div>
+                      <div className="flex flex-col items-end justify-between">
                         <Button
-                          variant="outline"
+                          variant="ghost"
                           size="icon"
-                          className="h-8 w-8"
-                          onClick={() => updateQuantity(item.productId, item.variantId, item.quantity + 1)}
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => removeFromCart(item.productId, item.variantId)}
                         >
-                          <Plus className="w-3 h-3" />
+                          <Trash2 className="w-4 h-4" />
                         </Button>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => updateQuantity(item.productId, item.variantId, item.quantity - 1)}
+                            disabled={item.quantity <= 1}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-8 text-center font-medium">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => updateQuantity(item.productId, item.variantId, item.quantity + 1)}
+                            disabled={available !== undefined && available !== null && item.quantity >= available}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
 
           {/* Order Summary */}
@@ -138,21 +151,41 @@ export default function Cart() {
                   <span className="text-muted-foreground">Subtotal</span>
                   <span>रु {cartTotal.toLocaleString()}</span>
                 </div>
+                {discountAmount > 0 && (
+                  <div className="flex justify-between text-sm text-success">
+                    <span>Discount</span>
+                    <span>-रु {discountAmount.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Shipping</span>
                   <span>Calculated at checkout</span>
                 </div>
+                <DiscountCodeInput
+                  discountCode={discountState.discountCode}
+                  discount={discountState.discount}
+                  error={discountState.error}
+                  validating={discountState.validating}
+                  onApply={discountState.applyCode}
+                  onRemove={discountState.removeCode}
+                />
                 <Separator />
                 <div className="flex justify-between font-semibold">
                   <span>Total</span>
-                  <span className="text-primary">रु {cartTotal.toLocaleString()}</span>
+                  <span className="text-primary">रु {(cartTotal - discountAmount).toLocaleString()}</span>
                 </div>
               </CardContent>
               <CardFooter className="flex-col gap-3">
+                {hasStockIssues && (
+                  <p className="text-sm text-destructive text-center">
+                    Some items are no longer available in the quantity selected.
+                  </p>
+                )}
                 <Button 
                   className="w-full" 
                   size="lg"
                   onClick={() => navigate(`/store/${storeSlug}/checkout`)}
+                  disabled={hasStockIssues}
                 >
                   Proceed to Checkout
                 </Button>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link, useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Loader2, CheckCircle, Truck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,10 +7,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCart } from '@/contexts/CartContext';
+import { useDiscountCode } from '@/hooks/useDiscountCode';
+import { useCartStock } from '@/hooks/useCartStock';
+import { usePaymentMethods } from '@/hooks/usePaymentMethods';
+import { useCustomerAccount, type CustomerAddress } from '@/hooks/useCustomerAccount';
+import { StockNotice } from '@/components/storefront/StockNotice';
+import { DiscountCodeInput } from '@/components/storefront/DiscountCodeInput';
+import { PaymentMethodSelector } from '@/components/storefront/PaymentMethodSelector';
 import { supabase } from '@/integrations/supabase/client';
+import { PAYMENT_METHODS, startPayment, verifyPayment, type PaymentMethodId } from '@/lib/payments';
+import { sendPendingNotifications } from '@/lib/notifications';
+import { emitStorefrontEvent, itemsValue, toAnalyticsItem } from '@/lib/storefrontEvents';
 import { toast } from 'sonner';
-import type { Json } from '@/integrations/supabase/types';
 
 interface ShippingZone {
   id: string;
@@ -19,6 +30,21 @@ interface ShippingZone {
   cities: string[];
 }
 
+/**
+ * Summary returned by the place_order database function
+ */
+interface PlacedOrder {
+  order_id: string;
+  order_number: string;
+  subtotal: number;
+  discount_amount: number;
+  shipping_amount: number;
+  store_credit_amount: number;
+  total: number;
+  payment_id: string;
+  payment_method: PaymentMethodId;
+}
+
 interface ShippingSettings {
   enable_shipping: boolean;
   free_shipping_threshold: number | null;
@@ -29,12 +55,23 @@ interface ShippingSettings {
 export default function Checkout() {
   const { storeSlug } = useParams();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { items, cartTotal, clearCart } = useCart();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [orderComplete, setOrderComplete] = useState(false);
   const [orderNumber, setOrderNumber] = useState('');
+  const [paymentConfirmed, setPaymentConfirmed] = useState(false);
+  const [verifyingPaymentId, setVerifyingPaymentId] = useState(searchParams.get('payment_id'));
+  const [storeId, setStoreId] = useState<string | null>(null);
   const [shippingSettings, setShippingSettings] = useState<ShippingSettings | null>(null);
   const [shippingAmount, setShippingAmount] = useState(0);
+  const discountState = useDiscountCode(storeSlug, cartTotal);
+  const { discount, discountAmount } = discountState;
+  const { getStock, hasStockIssues } = useCartStock(items);
+  const { methods: paymentMethods } = usePaymentMethods(storeId);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId | null>(null);
+  const [useStoreCredit, setUseStoreCredit] = useState(false);
+  const { user, account, addresses, loading: accountLoading } = useCustomerAccount(storeId);
 
   const [formData, setFormData] = useState({
     fullName: '',
@@ -51,6 +88,42 @@ export default function Checkout() {
     }
   }, [storeSlug]);
 
+  // Prefill from a signed-in shopper's account without overwriting typed input
+  useEffect(() => {
+    if (!account) return;
+
+    const address = addresses.find(a => a.is_default) ?? addresses[0];
+    setFormData(prev => ({
+      ...prev,
+      fullName: prev.fullName || address?.full_name || account.full_name || '',
+      email: prev.email || account.email,
+      phone: prev.phone || address?.phone || account.phone || '',
+      address: prev.address || address?.address || '',
+      city: prev.city || address?.city || '',
+    }));
+  }, [account, addresses]);
+
+  // Default to the first method the store offers
+  useEffect(() => {
+    if (!paymentMethod && paymentMethods.length > 0) {
+      setPaymentMethod(paymentMethods[0].id);
+    }
+  }, [paymentMethods, paymentMethod]);
+
+  // Once per visit, and not when returning from a payment provider
+  useEffect(() => {
+    if (!verifyingPaymentId && items.length > 0) {
+      emitStorefrontEvent({ name: 'begin_checkout', value: cartTotal, items: items.map(toAnalyticsItem) });
+    }
+  }, []);
+
+  // Returning from a payment provider (?payment_id=...)
+  useEffect(() => {
+    if (verifyingPaymentId) {
+      confirmPayment(verifyingPaymentId);
+    }
+  }, [verifyingPaymentId]);
+
   useEffect(() => {
     if (shippingSettings && formData.city) {
       calculateShipping();
@@ -66,6 +139,7 @@ export default function Checkout() {
         .single();
 
       if (!storeData) return;
+      setStoreId(storeData.id);
 
       const { data } = await supabase
         .from('store_shipping_settings')
@@ -111,18 +185,61 @@ export default function Checkout() {
     }
   };
 
+  /**
+   * Confirm an online payment after the provider redirected back
+   */
+  const confirmPayment = async (paymentId: string) => {
+    try {
+      const result = await verifyPayment(paymentId, Object.fromEntries(searchParams.entries()));
+
+      if (result.status === 'failed') {
+        sendPendingNotifications();
+        toast.error('Payment was not completed and the order was cancelled. Please try again.');
+        return;
+      }
+
+      // The cart still holds what was ordered until it is cleared below
+      const purchasedItems = items.map(toAnalyticsItem);
+      emitStorefrontEvent({
+        name: 'purchase',
+        transaction_id: result.order_number,
+        value: itemsValue(purchasedItems),
+        items: purchasedItems,
+      });
+
+      setOrderNumber(result.order_number);
+      setPaymentConfirmed(result.status === 'paid');
+      setOrderComplete(true);
+      clearCart();
+      toast.success(result.status === 'paid' ? 'Payment received!' : 'Order placed successfully!');
+    } catch (error: any) {
+      console.error('Error verifying payment:', error);
+      toast.error(error.message || 'Could not confirm your payment');
+    } finally {
+      setVerifyingPaymentId(null);
+      navigate(`/store/${storeSlug}/checkout`, { replace: true });
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
-  const generateOrderNumber = () => {
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `ORD-${timestamp}-${random}`;
+  const applySavedAddress = (address: CustomerAddress) => {
+    setFormData(prev => ({
+      ...prev,
+      fullName: address.full_name,
+      phone: address.phone,
+      address: address.address,
+      city: address.city,
+    }));
   };
 
-  const orderTotal = cartTotal + shippingAmount;
+  const availableCredit = Number(account?.store_credit || 0);
+  const totalBeforeCredit = cartTotal - discountAmount + shippingAmount;
+  const storeCreditAmount = useStoreCredit ? Math.min(availableCredit, totalBeforeCredit) : 0;
+  const orderTotal = totalBeforeCredit - storeCreditAmount;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -137,117 +254,61 @@ export default function Checkout() {
       return;
     }
 
+    if (hasStockIssues) {
+      toast.error('Some items are no longer available in the quantity selected');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      // Get store ID from slug
-      const { data: storeData, error: storeError } = await supabase
-        .from('stores')
-        .select('id')
-        .eq('slug', storeSlug)
-        .single();
-
-      if (storeError || !storeData) {
+      if (!storeId) {
         throw new Error('Store not found');
       }
 
-      const newOrderNumber = generateOrderNumber();
-
-      // Create or find customer
-      const { data: existingCustomer } = await supabase
-        .from('customers')
-        .select('id')
-        .eq('store_id', storeData.id)
-        .eq('email', formData.email)
-        .maybeSingle();
-
-      let customerId: string;
-
-      if (existingCustomer) {
-        customerId = existingCustomer.id;
-        // Update customer info
-        await supabase
-          .from('customers')
-          .update({
-            full_name: formData.fullName,
-            phone: formData.phone,
-            address: formData.address,
-            city: formData.city,
-          })
-          .eq('id', customerId);
-      } else {
-        const { data: newCustomer, error: customerError } = await supabase
-          .from('customers')
-          .insert({
-            store_id: storeData.id,
-            email: formData.email,
-            full_name: formData.fullName,
-            phone: formData.phone,
-            address: formData.address,
-            city: formData.city,
-          })
-          .select()
-          .single();
-
-        if (customerError) throw customerError;
-        customerId = newCustomer.id;
+      // Prices, shipping, discount and customer totals are all recomputed
+      // by place_order in a single transaction
+      const { data, error } = await supabase.rpc('place_order', {
+        p_store_id: storeId,
+        p_customer: {
+          email: formData.email,
+          full_name: formData.fullName,
+          phone: formData.phone,
+          address: formData.address,
+          city: formData.city,
+        },
+        p_items: items.map(item => ({
+          product_id: item.productId,
+          variant_id: item.variantId,
+          quantity: item.quantity,
+        })),
+        p_notes: formData.notes || null,
+        p_discount_code: discount ? discount.code : null,
+        p_payment_method: paymentMethod ?? 'cod',
+        p_use_store_credit: storeCreditAmount > 0,
+      });
+
+      if (error) throw error;
+
+      const placedOrder = data as unknown as PlacedOrder;
+      sendPendingNotifications();
+
+      // Online payments leave the page; the cart is cleared once verified.
+      // Nothing is left to pay when store credit covered the whole order.
+      if (PAYMENT_METHODS[placedOrder.payment_method]?.online && placedOrder.total > placedOrder.store_credit_amount) {
+        const returnUrl = `${window.location.origin}/store/${storeSlug}/checkout`;
+        if (await startPayment(placedOrder.payment_id, returnUrl)) return;
       }
 
-      // Create order
-      const shippingAddress = {
-        full_name: formData.fullName,
-        address: formData.address,
-        city: formData.city,
-        phone: formData.phone,
-      };
-
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          store_id: storeData.id,
-          customer_id: customerId,
-          order_number: newOrderNumber,
-          status: 'pending',
-          subtotal: cartTotal,
-          shipping_amount: shippingAmount,
-          total: orderTotal,
-          shipping_address: shippingAddress as unknown as Json,
-          billing_address: shippingAddress as unknown as Json,
-          notes: formData.notes || null,
-        })
-        .select()
-        .single();
+      emitStorefrontEvent({
+        name: 'purchase',
+        transaction_id: placedOrder.order_number,
+        value: placedOrder.total,
+        shipping: placedOrder.shipping_amount,
+        items: items.map(toAnalyticsItem),
+      });
 
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = items.map(item => ({
-        order_id: order.id,
-        product_id: item.productId,
-        variant_id: item.variantId,
-        product_name: item.name,
-        variant_name: item.variantName,
-        quantity: item.quantity,
-        unit_price: item.price,
-        total_price: item.price * item.quantity,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // Update customer stats
-      await supabase
-        .from('customers')
-        .update({
-          total_orders: existingCustomer ? 1 : 1, // Increment would need RPC
-          total_spent: orderTotal,
-        })
-        .eq('id', customerId);
-
-      setOrderNumber(newOrderNumber);
+      setOrderNumber(placedOrder.order_number);
       setOrderComplete(true);
       clearCart();
       toast.success('Order placed successfully!');
@@ -259,6 +320,17 @@ export default function Checkout() {
     }
   };
 
+  if (verifyingPaymentId) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <Loader2 className="w-10 h-10 mx-auto mb-4 animate-spin text-primary" />
+          <p className="text-muted-foreground">Confirming your payment...</p>
+        </div>
+      </div>
+    );
+  }
+
   if (orderComplete) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -267,15 +339,22 @@ export default function Checkout() {
             <CheckCircle className="w-16 h-16 mx-auto mb-4 text-success" />
             <h1 className="text-2xl font-bold mb-2">Order Confirmed!</h1>
             <p className="text-muted-foreground mb-4">
-              Thank you for your order. We'll contact you shortly.
+              {paymentConfirmed
+                ? 'Thank you! Your payment was received and your order is confirmed.'
+                : "Thank you for your order. We'll contact you shortly."}
             </p>
             <div className="bg-muted rounded-lg p-4 mb-6">
               <p className="text-sm text-muted-foreground">Order Number</p>
               <p className="text-xl font-mono font-bold">{orderNumber}</p>
             </div>
-            <Link to={`/store/${storeSlug}`}>
-              <Button className="w-full">Continue Shopping</Button>
-            </Link>
+            <div className="space-y-2">
+              <Link to={`/store/${storeSlug}/track?order=${encodeURIComponent(orderNumber)}`} className="block">
+                <Button variant="outline" className="w-full">Track Your Order</Button>
+              </Link>
+              <Link to={`/store/${storeSlug}`} className="block">
+                <Button className="w-full">Continue Shopping</Button>
+              </Link>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -316,8 +395,16 @@ export default function Checkout() {
             {/* Customer Info */}
             <div className="lg:col-span-2 space-y-6">
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Contact Information</CardTitle>
+                  {!user && !accountLoading && (
+                    <Link
+                      to={`/store/${storeSlug}/account/login?redirect=${encodeURIComponent(`/store/${storeSlug}/checkout`)}`}
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Sign in for faster checkout
+                    </Link>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid sm:grid-cols-2 gap-4">
@@ -361,8 +448,27 @@ export default function Checkout() {
               </Card>
 
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
                   <CardTitle>Shipping Address</CardTitle>
+                  {addresses.length > 1 && (
+                    <Select
+                      onValueChange={(id) => {
+                        const address = addresses.find(a => a.id === id);
+                        if (address) applySavedAddress(address);
+                      }}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Saved addresses" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {addresses.map(address => (
+                          <SelectItem key={address.id} value={address.id}>
+                            {address.label || `${address.address}, ${address.city}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
@@ -400,6 +506,19 @@ export default function Checkout() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment Method</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PaymentMethodSelector
+                    methods={paymentMethods}
+                    value={paymentMethod}
+                    onChange={setPaymentMethod}
+                  />
+                </CardContent>
+              </Card>
             </div>
 
             {/* Order Summary */}
@@ -410,11 +529,18 @@ export default function Checkout() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {items.map((item) => (
-                    <div key={`${item.productId}-${item.variantId}`} className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">
-                        {item.name} {item.variantName && `(${item.variantName})`} × {item.quantity}
-                      </span>
-                      <span>रु {(item.price * item.quantity).toLocaleString()}</span>
+                    <div key={`${item.productId}-${item.variantId}`} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {item.name} {item.variantName && `(${item.variantName})`} × {item.quantity}
+                        </span>
+                        <span>रु {(item.price * item.quantity).toLocaleString()}</span>
+                      </div>
+                      <StockNotice
+                        available={getStock(item.productId, item.variantId)}
+                        quantity={item.quantity}
+                        className="text-xs"
+                      />
                     </div>
                   ))}
                   <Separator />
@@ -423,6 +549,13 @@ export default function Checkout() {
                     <span className="text-muted-foreground">Subtotal</span>
                     <span>रु {cartTotal.toLocaleString()}</span>
                   </div>
+
+                  {discountAmount > 0 && (
+                    <div className="flex justify-between text-sm text-success">
+                      <span>Discount ({discount?.code})</span>
+                      <span>-रु {discountAmount.toLocaleString()}</span>
+                    </div>
+                  )}
                   
                   {shippingSettings?.enable_shipping && (
                     <div className="flex justify-between text-sm">
@@ -445,6 +578,39 @@ export default function Checkout() {
                     </p>
                   )}
                   
+                  <DiscountCodeInput
+                    discountCode={discountState.discountCode}
+                    discount={discount}
+                    error={discountState.error}
+                    validating={discountState.validating}
+                    onApply={discountState.applyCode}
+                    onRemove={discountState.removeCode}
+                  />
+
+                  {availableCredit > 0 && (
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="useStoreCredit"
+                        checked={useStoreCredit}
+                        onCheckedChange={(checked) => setUseStoreCredit(checked === true)}
+                        className="mt-0.5"
+                      />
+                      <Label htmlFor="useStoreCredit" className="text-sm font-normal">
+                        Use my store credit
+                        <span className="block text-xs text-muted-foreground">
+                          रु {availableCredit.toLocaleString()} available
+                        </span>
+                      </Label>
+                    </div>
+                  )}
+
+                  {storeCreditAmount > 0 && (
+                    <div className="flex justify-between text-sm text-success">
+                      <span>Store credit</span>
+                      <span>-रु {storeCreditAmount.toLocaleString()}</span>
+                    </div>
+                  )}
+
                   <Separator />
                   
                   <div className="flex justify-between font-semibold">
@@ -455,14 +621,16 @@ export default function Checkout() {
                     type="submit" 
                     className="w-full" 
                     size="lg"
-                    disabled={isSubmitting}
+                    disabled={isSubmitting || hasStockIssues || !paymentMethod}
                   >
                     {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                    Place Order
+                    {paymentMethod && PAYMENT_METHODS[paymentMethod].online && orderTotal > 0 ? 'Continue to Payment' : 'Place Order'}
                   </Button>
-                  <p className="text-xs text-center text-muted-foreground">
-                    Payment: Cash on Delivery
-                  </p>
+                  {paymentMethod && (
+                    <p className="text-xs text-center text-muted-foreground">
+                      Payment: {PAYMENT_METHODS[paymentMethod].name}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </div>
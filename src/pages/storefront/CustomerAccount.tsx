@@ -0,0 +1,105 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2, LogOut, MailWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AccountPageShell } from '@/components/storefront/account/AccountPageShell';
+import { AccountProfile } from '@/components/storefront/account/AccountProfile';
+import { AddressBook } from '@/components/storefront/account/AddressBook';
+import { OrderHistory } from '@/components/storefront/account/OrderHistory';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCustomerAccount } from '@/hooks/useCustomerAccount';
+import { useStorefrontStore } from '@/hooks/useStorefrontStore';
+
+export default function CustomerAccount() {
+  const { storeSlug } = useParams();
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const { store, loading: storeLoading } = useStorefrontStore(storeSlug);
+  const { user, account, addresses, loading, error, refetch } = useCustomerAccount(store?.id);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate(`/store/${storeSlug}/account/login`, { replace: true });
+    }
+  }, [loading, user, navigate, storeSlug]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate(`/store/${storeSlug}`);
+  };
+
+  if (storeLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Store not found</p>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  const signOutButton = (
+    <Button variant="ghost" size="sm" onClick={handleSignOut}>
+      <LogOut className="w-4 h-4 mr-2" />
+      Sign Out
+    </Button>
+  );
+
+  if (!account) {
+    return (
+      <AccountPageShell store={store} narrow actions={signOutButton}>
+        <Card>
+          <CardContent className="pt-8 pb-8 text-center space-y-4">
+            <MailWarning className="w-12 h-12 text-muted-foreground mx-auto" />
+            <h1 className="text-xl font-bold">We couldn't open your account</h1>
+            <p className="text-muted-foreground">{error}</p>
+            <Button variant="outline" onClick={refetch}>Try Again</Button>
+          </CardContent>
+        </Card>
+      </AccountPageShell>
+    );
+  }
+
+  return (
+    <AccountPageShell store={store} actions={signOutButton}>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">
+          {account.full_name ? `Hi, ${account.full_name}` : 'My Account'}
+        </h1>
+        <p className="text-muted-foreground">{account.email}</p>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Orders</TabsTrigger>
+          <TabsTrigger value="addresses">Addresses</TabsTrigger>
+          <TabsTrigger value="profile">Profile</TabsTrigger>
+        </TabsList>
+        <TabsContent value="orders" className="mt-6">
+          <OrderHistory storeId={store.id} storeSlug={store.slug} />
+        </TabsContent>
+        <TabsContent value="addresses" className="mt-6">
+          <AddressBook
+            storeId={store.id}
+            customerId={account.id}
+            addresses={addresses}
+            onChange={refetch}
+          />
+        </TabsContent>
+        <TabsContent value="profile" className="mt-6">
+          <AccountProfile storeId={store.id} account={account} onChange={refetch} />
+        </TabsContent>
+      </Tabs>
+    </AccountPageShell>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Loader2, Lock, Mail, MailCheck, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AccountPageShell } from '@/components/storefront/account/AccountPageShell';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStorefrontStore } from '@/hooks/useStorefrontStore';
+import { toast } from 'sonner';
+import { z } from 'zod';
+
+const emailSchema = z.string().email('Please enter a valid email address');
+const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
+
+type Mode = 'login' | 'signup' | 'forgot';
+
+const TITLES: Record<Mode, { title: string; description: string }> = {
+  login: { title: 'Sign In', description: 'Track your orders and check out faster' },
+  signup: { title: 'Create Account', description: 'Save your details for next time' },
+  forgot: { title: 'Reset Password', description: "We'll email you a link to choose a new password" },
+};
+
+export default function CustomerLogin() {
+  const { storeSlug } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { store, loading: storeLoading } = useStorefrontStore(storeSlug);
+  const { user, signIn, signUp, resetPassword } = useAuth();
+  const [mode, setMode] = useState<Mode>(searchParams.get('mode') === 'signup' ? 'signup' : 'login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
+  const [emailSentTo, setEmailSentTo] = useState<string | null>(null);
+
+  // Only follow redirects back into this storefront
+  const redirectParam = searchParams.get('redirect');
+  const redirectTo = redirectParam?.startsWith(`/store/${storeSlug}/`)
+    ? redirectParam
+    : `/store/${storeSlug}/account`;
+
+  useEffect(() => {
+    if (user) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [user, navigate, redirectTo]);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setErrors({});
+  };
+
+  const validateForm = () => {
+    const newErrors: { email?: string; password?: string } = {};
+
+    try {
+      emailSchema.parse(email);
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        newErrors.email = e.errors[0].message;
+      }
+    }
+
+    if (mode !== 'forgot') {
+      try {
+        passwordSchema.parse(password);
+      } catch (e) {
+        if (e instanceof z.ZodError) {
+          newErrors.password = e.errors[0].message;
+        }
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setLoading(true);
+    const accountUrl = `${window.location.origin}/store/${storeSlug}/account`;
+
+    try {
+      if (mode === 'signup') {
+        const { error } = await signUp(email, password, fullName, accountUrl);
+        if (error) {
+          toast.error(
+            error.message.includes('already registered')
+              ? 'An account with this email already exists. Please sign in instead.'
+              : error.message
+          );
+        } else {
+          setEmailSentTo(email);
+        }
+      } else if (mode === 'forgot') {
+        const { error } = await resetPassword(email, `${accountUrl}/reset-password`);
+        if (error) {
+          toast.error(error.message);
+        } else {
+          setEmailSentTo(email);
+        }
+      } else {
+        const { error } = await signIn(email, password);
+        if (error) {
+          toast.error('Invalid email or password. Please try again.');
+        }
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (storeLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Store not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <AccountPageShell store={store} narrow>
+      {emailSentTo ? (
+        <Card>
+          <CardContent className="pt-8 pb-8 text-center space-y-4">
+            <MailCheck className="w-12 h-12 text-primary mx-auto" />
+            <h1 className="text-xl font-bold">Check your email</h1>
+            <p className="text-muted-foreground">
+              {mode === 'signup'
+                ? `We sent a confirmation link to ${emailSentTo}. Open it to finish creating your account.`
+                : `If an account exists for ${emailSentTo}, you'll receive a link to reset your password.`}
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setEmailSentTo(null);
+                switchMode('login');
+              }}
+            >
+              Back to Sign In
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>{TITLES[mode].title}</CardTitle>
+            <CardDescription>{TITLES[mode].description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === 'signup' && (
+                <div className="space-y-2">
+                  <Label htmlFor="fullName">Full Name</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="fullName"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      placeholder="Enter your full name"
+                      className="pl-9"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Enter your email"
+                    className={`pl-9 ${errors.email ? 'border-destructive' : ''}`}
+                  />
+                </div>
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email}</p>
+                )}
+              </div>
+
+              {mode !== 'forgot' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    {mode === 'login' && (
+                      <button
+                        type="button"
+                        onClick={() => switchMode('forgot')}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        Forgot password?
+                      </button>
+                    )}
+                  </div>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Enter your password"
+                      autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                      className={`pl-9 ${errors.password ? 'border-destructive' : ''}`}
+                    />
+                  </div>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password}</p>
+                  )}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {mode === 'signup' ? 'Create Account' : mode === 'forgot' ? 'Send Reset Link' : 'Sign In'}
+              </Button>
+            </form>
+
+            <div className="mt-6 text-center text-sm text-muted-foreground">
+              {mode === 'signup' ? 'Already have an account?' : mode === 'forgot' ? 'Remembered it?' : "Don't have an account?"}
+              <button
+                type="button"
+                onClick={() => switchMode(mode === 'login' ? 'signup' : 'login')}
+                className="ml-2 text-primary font-medium hover:underline"
+              >
+                {mode === 'login' ? 'Sign Up' : 'Sign In'}
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="mt-6 text-center text-sm text-muted-foreground">
+        <Link to={`/store/${store.slug}/track`} className="hover:underline">
+          Track an order without signing in
+        </Link>
+        <span className="mx-2">·</span>
+        <Link to={`/store/${store.slug}`} className="hover:underline">
+          Continue shopping
+        </Link>
+      </p>
+    </AccountPageShell>
+  );
+}
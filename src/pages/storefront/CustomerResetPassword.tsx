@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AccountPageShell } from '@/components/storefront/account/AccountPageShell';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStorefrontStore } from '@/hooks/useStorefrontStore';
+import { toast } from 'sonner';
+
+export default function CustomerResetPassword() {
+  const { storeSlug } = useParams();
+  const navigate = useNavigate();
+  const { store, loading: storeLoading } = useStorefrontStore(storeSlug);
+  // The recovery link signs the shopper in before this page renders
+  const { user, loading: authLoading, updatePassword } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await updatePassword(password);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success('Password updated');
+    navigate(`/store/${storeSlug}/account`, { replace: true });
+  };
+
+  if (storeLoading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Store not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <AccountPageShell store={store} narrow>
+      {user ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a New Password</CardTitle>
+            <CardDescription>for {user.email}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Update Password
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-8 pb-8 text-center space-y-4">
+            <KeyRound className="w-12 h-12 text-muted-foreground mx-auto" />
+            <h1 className="text-xl font-bold">Link expired</h1>
+            <p className="text-muted-foreground">
+              This password reset link is invalid or has expired. Request a new one from the sign-in page.
+            </p>
+            <Link to={`/store/${store.slug}/account/login`}>
+              <Button variant="outline">Back to Sign In</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+    </AccountPageShell>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { ExternalLink, Loader2, MapPin, Search, Truck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { AccountPageShell } from '@/components/storefront/account/AccountPageShell';
+import { OrderStatusBadge } from '@/components/storefront/OrderStatusBadge';
+import { OrderStatusTimeline, type OrderStatusHistoryEntry } from '@/components/storefront/OrderStatusTimeline';
+import { useStorefrontStore } from '@/hooks/useStorefrontStore';
+import { supabase } from '@/integrations/supabase/client';
+import type { OrderStatus } from '@/lib/orderStatus';
+import { toast } from 'sonner';
+
+/**
+ * Order returned by the track_order database function
+ */
+interface TrackedOrder {
+  order_number: string;
+  status: OrderStatus;
+  subtotal: number;
+  discount_amount: number | null;
+  shipping_amount: number | null;
+  total: number;
+  shipping_address: { full_name?: string; name?: string; address?: string; city?: string; phone?: string } | null;
+  created_at: string;
+  updated_at: string;
+  items: {
+    product_name: string;
+    variant_name: string | null;
+    quantity: number;
+    total_price: number;
+  }[];
+  history: OrderStatusHistoryEntry[];
+  shipments: {
+    carrier: string;
+    tracking_number: string | null;
+    tracking_url: string | null;
+    created_at: string;
+    items: {
+      product_name: string;
+      variant_name: string | null;
+      quantity: number;
+    }[];
+  }[];
+}
+
+export default function OrderTracking() {
+  const { storeSlug } = useParams();
+  const [searchParams] = useSearchParams();
+  const { store, loading: storeLoading } = useStorefrontStore(storeSlug);
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [contact, setContact] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!store) return;
+
+    if (!orderNumber.trim() || !contact.trim()) {
+      toast.error('Please enter your order number and email or phone');
+      return;
+    }
+
+    setSearching(true);
+
+    try {
+      const { data, error } = await supabase.rpc('track_order', {
+        p_store_id: store.id,
+        p_order_number: orderNumber,
+        p_contact: contact,
+      });
+
+      if (error) throw error;
+
+      setOrder(data as unknown as TrackedOrder);
+    } catch (error: any) {
+      console.error('Error tracking order:', error);
+      toast.error(error.message || 'Could not look up your order');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  if (storeLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Store not found</p>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <AccountPageShell store={store} narrow>
+        <Card>
+          <CardHeader>
+            <CardTitle>Track Your Order</CardTitle>
+            <CardDescription>
+              Enter the order number from your confirmation and the email or phone you ordered with.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="orderNumber">Order Number</Label>
+                <Input
+                  id="orderNumber"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  placeholder="ORD-XXXXXX-XXXXXX"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact">Email or Phone</Label>
+                <Input
+                  id="contact"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder="john@example.com or 98XXXXXXXX"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={searching}>
+                {searching ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Search className="w-4 h-4 mr-2" />
+                )}
+                Track Order
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </AccountPageShell>
+    );
+  }
+
+  const address = order.shipping_address;
+
+  return (
+    <AccountPageShell
+      store={store}
+      actions={
+        <Button variant="outline" size="sm" onClick={() => setOrder(null)}>
+          Track Another Order
+        </Button>
+      }
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold font-mono">{order.order_number}</h1>
+          <p className="text-muted-foreground">
+            Placed on {new Date(order.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <OrderStatusBadge status={order.status} />
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Status</CardTitle>
+              <CardDescription>
+                Last updated {new Date(order.updated_at).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusTimeline status={order.status} placedAt={order.created_at} history={order.history} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {order.items.map((item, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {item.product_name} {item.variant_name && `(${item.variant_name})`} × {item.quantity}
+                  </span>
+                  <span>रु {Number(item.total_price).toLocaleString()}</span>
+                </div>
+              ))}
+              <Separator />
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>रु {Number(order.subtotal).toLocaleString()}</span>
+              </div>
+              {Number(order.discount_amount) > 0 && (
+                <div className="flex justify-between text-sm text-success">
+                  <span>Discount</span>
+                  <span>-रु {Number(order.discount_amount).toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Shipping</span>
+                <span>
+                  {Number(order.shipping_amount) > 0
+                    ? `रु ${Number(order.shipping_amount).toLocaleString()}`
+                    : 'Free'}
+                </span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>रु {Number(order.total).toLocaleString()}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="w-5 h-5" />
+                {order.shipments.length > 1 ? 'Packages' : 'Tracking'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {order.shipments.length > 0 ? (
+                <div className="space-y-4">
+                  {order.shipments.map((shipment, index) => (
+                    <div key={index} className="space-y-1 text-sm">
+                      {order.shipments.length > 1 && (
+                        <p className="font-medium">Package {index + 1}</p>
+                      )}
+                      <p>
+                        {shipment.carrier}
+                        <span className="text-muted-foreground">
+                          {' '}· shipped {new Date(shipment.created_at).toLocaleDateString()}
+                        </span>
+                      </p>
+                      {shipment.tracking_number && (
+                        <p className="font-mono">{shipment.tracking_number}</p>
+                      )}
+                      {shipment.tracking_url && (
+                        <a
+                          href={shipment.tracking_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          Track your package
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                      <ul className="text-muted-foreground">
+                        {shipment.items.map((item, itemIndex) => (
+                          <li key={itemIndex}>
+                            {item.product_name} {item.variant_name && `(${item.variant_name})`} × {item.quantity}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  A tracking number will appear here once your order ships.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {address && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="w-5 h-5" />
+                  Shipping Address
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                {(address.full_name || address.name) && (
+                  <p className="font-medium">{address.full_name || address.name}</p>
+                )}
+                {address.address && <p>{address.address}</p>}
+                {address.city && <p>{address.city}</p>}
+                {address.phone && <p className="text-muted-foreground">{address.phone}</p>}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AccountPageShell>
+  );
+}
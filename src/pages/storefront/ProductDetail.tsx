@@ -6,6 +6,14 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/integrations/supabase/client';
 import { useCart } from '@/contexts/CartContext';
+import { getAvailableStock } from '@/hooks/useCartStock';
+import { StockNotice } from '@/components/storefront/StockNotice';
+import { ProductReviewsPanel } from '@/components/storefront/ProductReviewsPanel';
+import { ProductStructuredData } from '@/components/storefront/ProductStructuredData';
+import { RatingSummaryLine } from '@/components/storefront/StarRating';
+import { useProductReviews } from '@/hooks/useProductReviews';
+import { emitStorefrontEvent } from '@/lib/storefrontEvents';
+import { recordRecentlyViewed } from '@/lib/recentlyViewed';
 import { toast } from 'sonner';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -15,7 +23,7 @@ type ProductVariant = Tables<'product_variants'>;
 
 export default function ProductDetail() {
   const { storeSlug, productSlug } = useParams();
-  const { addToCart, cartItemCount } = useCart();
+  const { items, addToCart, cartItemCount } = useCart();
   const [store, setStore] = useState<Store | null>(null);
   const [product, setProduct] = useState<Product | null>(null);
   const [variants, setVariants] = useState<ProductVariant[]>([]);
@@ -23,6 +31,7 @@ export default function ProductDetail() {
   const [quantity, setQuantity] = useState(1);
   const [selectedImage, setSelectedImage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const reviews = useProductReviews(store?.id, product?.id);
 
   useEffect(() => {
     if (storeSlug && productSlug) {
@@ -78,6 +87,22 @@ export default function ProductDetail() {
         setVariants(variantsData);
         setSelectedVariant(variantsData[0]);
       }
+
+      recordRecentlyViewed(storeData.id, productData.id);
+
+      const defaultVariant = variantsData?.[0];
+      const viewedPrice = defaultVariant ? defaultVariant.price : productData.price;
+      emitStorefrontEvent({
+        name: 'view_item',
+        value: viewedPrice,
+        items: [{
+          item_id: productData.id,
+          item_name: productData.name,
+          item_variant: defaultVariant?.name,
+          price: viewedPrice,
+          quantity: 1,
+        }],
+      });
     } catch (error) {
       console.error('Error fetching product:', error);
     } finally {
@@ -90,7 +115,13 @@ export default function ProductDetail() {
 
   const currentPrice = selectedVariant ? selectedVariant.price : product?.price;
   const comparePrice = selectedVariant ? selectedVariant.compare_at_price : product?.compare_at_price;
-  const currentStock = selectedVariant ? selectedVariant.stock_quantity : product?.stock_quantity;
+  // null = unlimited (inventory not tracked or backorders allowed)
+  const currentStock = product ? getAvailableStock(product, selectedVariant) : null;
+  const inCartQuantity = items.find(
+    item => item.productId === product?.id && item.variantId === (selectedVariant?.id || null)
+  )?.quantity ?? 0;
+  const remainingStock = currentStock === null ? null : Math.max(0, currentStock - inCartQuantity);
+  const isOutOfStock = currentStock === 0;
 
   const hasDiscount = comparePrice && Number(comparePrice) > Number(currentPrice);
   const discountPercent = hasDiscount
@@ -100,6 +131,15 @@ export default function ProductDetail() {
   const handleAddToCart = () => {
     if (!product) return;
 
+    if (remainingStock !== null && quantity > remainingStock) {
+      toast.error(
+        remainingStock === 0
+          ? 'You already have all available stock in your cart'
+          : `Only ${remainingStock} more can be added to your cart`
+      );
+      return;
+    }
+
     addToCart({
       productId: product.id,
       variantId: selectedVariant?.id || null,
@@ -231,6 +271,9 @@ export default function ProductDetail() {
                 <Badge className="mb-2 bg-accent text-accent-foreground">Featured</Badge>
               )}
               <h1 className="text-2xl md:text-3xl font-bold">{product.name}</h1>
+              <a href="#reviews" className="inline-block mt-2">
+                <RatingSummaryLine summary={reviews.summary ?? undefined} className="text-sm" />
+              </a>
             </div>
 
             <div className="flex items-baseline gap-3">
@@ -261,11 +304,14 @@ export default function ProductDetail() {
                       key={variant.id}
                       variant={selectedVariant?.id === variant.id ? 'default' : 'outline'}
                       size="sm"
-                      onClick={() => setSelectedVariant(variant)}
-                      disabled={variant.stock_quantity === 0}
+                      onClick={() => {
+                        setSelectedVariant(variant);
+                        setQuantity(1);
+                      }}
+                      disabled={getAvailableStock(product, variant) === 0}
                     >
                       {variant.name}
-                      {variant.stock_quantity === 0 && ' (Out of Stock)'}
+                      {getAvailableStock(product, variant) === 0 && ' (Out of Stock)'}
                     </Button>
                   ))}
                 </div>
@@ -289,16 +335,17 @@ export default function ProductDetail() {
                   variant="outline"
                   size="icon"
                   onClick={() => setQuantity(quantity + 1)}
-                  disabled={currentStock !== undefined && quantity >= currentStock}
+                  disabled={remainingStock !== null && quantity >= remainingStock}
                 >
                   <Plus className="w-4 h-4" />
                 </Button>
-                {currentStock !== undefined && (
+                {currentStock !== null && currentStock > 0 && (
                   <span className="text-sm text-muted-foreground">
                     {currentStock} in stock
                   </span>
                 )}
               </div>
+              <StockNotice available={currentStock} quantity={quantity} />
             </div>
 
             {/* Add to Cart */}
@@ -306,10 +353,10 @@ export default function ProductDetail() {
               size="lg"
               className="w-full"
               onClick={handleAddToCart}
-              disabled={currentStock === 0}
+              disabled={isOutOfStock}
             >
               <ShoppingCart className="w-5 h-5 mr-2" />
-              {currentStock === 0 ? 'Out of Stock' : 'Add to Cart'}
+              {isOutOfStock ? 'Out of Stock' : 'Add to Cart'}
             </Button>
 
             {/* SKU */}
@@ -320,7 +367,33 @@ export default function ProductDetail() {
             )}
           </div>
         </div>
+
+        <div className="mt-16">
+          <ProductReviewsPanel
+            storeId={store.id}
+            productId={product.id}
+            reviews={reviews.reviews}
+            summary={reviews.summary}
+            loading={reviews.loading}
+            hasMore={reviews.hasMore}
+            onLoadMore={reviews.loadMore}
+          />
+        </div>
       </div>
+
+      <ProductStructuredData
+        name={product.name}
+        description={product.description}
+        images={images}
+        sku={product.sku}
+        price={Number(variants[0]?.price ?? product.price)}
+        inStock={variants.length > 0
+          ? variants.some((variant) => getAvailableStock(product, variant) !== 0)
+          : getAvailableStock(product) !== 0}
+        storeName={store.name}
+        summary={reviews.summary}
+        reviews={reviews.reviews}
+      />
     </div>
   );
 }
@@ -23,6 +23,7 @@
  * - Filter by category
  * - Featured products section
  * - Discount badges for products with compare-at price
+ * - Star rating and review count on product cards
  * - Responsive design (2-4 columns based on screen size)
  * 
  * ============================================================================
@@ -39,6 +40,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/integrations/supabase/client';
 import type { Tables } from '@/integrations/supabase/types';
 import { useCart } from '@/contexts/CartContext';
+import { RatingSummaryLine } from '@/components/storefront/StarRating';
+import { useRatingSummaries, type RatingSummary } from '@/hooks/useProductReviews';
 
 type Store = Tables<'stores'>;
 type Product = Tables<'products'>;
@@ -54,6 +57,7 @@ export default function StoreCatalog() {
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
+  const ratings = useRatingSummaries(products.map((p) => p.id));
   
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
@@ -152,7 +156,7 @@ export default function StoreCatalog() {
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
-        <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="max-w-storefront mx-auto px-4 py-8">
           <Skeleton className="h-32 w-full mb-8" />
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
@@ -196,7 +200,7 @@ export default function StoreCatalog() {
        * Sticky header for easy access while scrolling
        * ============================================================ */}
       <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
-        <div className="max-w-7xl mx-auto px-4 py-4">
+        <div className="max-w-storefront mx-auto px-4 py-4">
           <div className="flex items-center justify-between gap-4">
             {/* Store logo and name */}
             <Link to={`/store/${storeSlug}`} className="flex items-center gap-3">
@@ -254,7 +258,7 @@ export default function StoreCatalog() {
             className="w-full h-full object-cover"
           />
           <div className="absolute inset-0 bg-gradient-to-t from-background/80 to-transparent" />
-          <div className="absolute bottom-4 left-4 right-4 max-w-7xl mx-auto px-4">
+          <div className="absolute bottom-4 left-4 right-4 max-w-storefront mx-auto px-4">
             <h1 className="text-2xl md:text-3xl font-bold text-foreground">{store.name}</h1>
             {store.description && (
               <p className="text-muted-foreground mt-1 line-clamp-2">{store.description}</p>
@@ -265,7 +269,7 @@ export default function StoreCatalog() {
 
       {/* Fallback header without banner */}
       {!store.banner_url && (
-        <div className="max-w-7xl mx-auto px-4 py-6">
+        <div className="max-w-storefront mx-auto px-4 py-6">
           <h1 className="text-2xl font-bold">{store.name}</h1>
           {store.description && (
             <p className="text-muted-foreground mt-1">{store.description}</p>
@@ -273,7 +277,7 @@ export default function StoreCatalog() {
         </div>
       )}
 
-      <div className="max-w-7xl mx-auto px-4 py-6">
+      <div className="max-w-storefront mx-auto px-4 py-6">
         {/* ============================================================
          * CATEGORY FILTER: Horizontal scrollable category buttons
          * ============================================================ */}
@@ -311,7 +315,7 @@ export default function StoreCatalog() {
             <h2 className="text-xl font-semibold mb-4">Featured</h2>
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {featuredProducts.map((product) => (
-                <ProductCard key={product.id} product={product} storeSlug={storeSlug!} />
+                <ProductCard key={product.id} product={product} storeSlug={storeSlug!} rating={ratings[product.id]} />
               ))}
             </div>
           </div>
@@ -331,7 +335,7 @@ export default function StoreCatalog() {
           {regularProducts.length > 0 ? (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {regularProducts.map((product) => (
-                <ProductCard key={product.id} product={product} storeSlug={storeSlug!} />
+                <ProductCard key={product.id} product={product} storeSlug={storeSlug!} rating={ratings[product.id]} />
               ))}
             </div>
           ) : (
@@ -351,12 +355,13 @@ export default function StoreCatalog() {
 
 /**
  * Individual product card for the catalog grid
- * Shows image, name, price, and discount badge
+ * Shows image, name, rating, price, and discount badge
  * 
  * @param product - Product data to display
  * @param storeSlug - Store slug for building product URL
+ * @param rating - Average rating and review count, if reviewed
  */
-function ProductCard({ product, storeSlug }: { product: Product; storeSlug: string }) {
+function ProductCard({ product, storeSlug, rating }: { product: Product; storeSlug: string; rating?: RatingSummary }) {
   // Extract first image or use placeholder
   const images = (product.images as string[]) || [];
   const imageUrl = images[0] || '/placeholder.svg';
@@ -399,6 +404,7 @@ function ProductCard({ product, storeSlug }: { product: Product; storeSlug: stri
           <h3 className="font-medium line-clamp-2 text-sm mb-2 group-hover:text-primary transition-colors">
             {product.name}
           </h3>
+          <RatingSummaryLine summary={rating} className="mb-2" />
           {/* Price display with optional strikethrough */}
           <div className="flex items-center gap-2">
             <span className="font-bold text-primary">
@@ -6,9 +6,24 @@
  * Renders a complete storefront page with:
  * - Header (if enabled for the page)
  * - Built-in page content based on page_type
- * - Page sections from database
+ * - Page sections from the store's published version, rendered through the
+ *   section registry
  * - Footer (if enabled for the page)
  * 
+ * The store theme is applied by StorefrontThemeProvider (StorefrontLayout).
+ * 
+ * PUBLISHED VERSION:
+ * Sections and header/footer come from the store_versions row the store
+ * publishes (stores.published_version_id), not from the builder's drafts.
+ * Shoppers read it through get_published_store_version(), which leaves out
+ * hidden sections and pages. Page visibility and navigation are read live.
+ * 
+ * BUILDER PREVIEW:
+ * In the store builder's preview iframe (see StorefrontPreviewContext) the
+ * store, page and sections come from the builder instead of the database.
+ * Clicking a section selects it in the builder, the selected section is
+ * outlined, and links inside sections don't navigate.
+ * 
  * PAGE TYPES WITH BUILT-IN CONTENT:
  * - category: CategoryPageContent (category grid / product listing)
  * - about: AboutPageContent (store info)
@@ -18,30 +33,16 @@
  * ============================================================================
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState, type ReactNode, type SyntheticEvent } from "react";
 import { useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import {
-  HeroBanner,
-  HeroSlider,
-  HeroVideo,
-  ProductGrid,
-  FeaturedProducts,
-  CategoryGrid,
-  Newsletter,
-  Testimonials,
-  FAQ,
-  TrustBadges,
-  TextBlock,
-  AnnouncementBar,
-  Countdown,
-  ImageText,
-  Gallery,
-  PromoBanner,
-  BrandLogos,
-  Spacer,
-  Divider,
-} from "@/components/storefront/sections";
+import { useStorefrontPreview } from "@/contexts/StorefrontPreviewContext";
+import { SectionRenderer, hasSectionComponent } from "@/components/storefront/sections";
+import type { PageType, SectionType } from "@/components/store-builder/types";
+import { SECTION_DEFINITIONS } from "@/components/store-builder/constants";
+import { BuiltInContentPlaceholder } from "@/components/store-builder/editor/BuiltInContentPlaceholder";
+import { hasBuiltInContent } from "@/components/store-builder/utils/pageHelpers";
+import { cn } from "@/lib/utils";
 import { StorefrontHeader } from "@/components/storefront/StorefrontHeader";
 import { StorefrontFooter } from "@/components/storefront/StorefrontFooter";
 import { CategoryPageContent } from "@/components/storefront/pages/CategoryPageContent";
@@ -55,28 +56,22 @@ interface Store {
   logo_url?: string;
 }
 
-interface Theme {
-  colors: Record<string, string>;
-  typography: Record<string, string>;
-  layout: Record<string, string>;
-}
-
 interface Section {
   id: string;
-  section_type: string;
-  config: Record<string, unknown>;
+  section_type: SectionType;
+  config: unknown;
+  mobile_config?: unknown;
   is_visible: boolean;
-  sort_order: number;
   position: 'above' | 'below';
 }
 
 interface Page {
-  id: string;
+  id?: string;
   title: string;
-  slug: string;
-  page_type: string;
-  seo_title: string | null;
-  seo_description: string | null;
+  slug?: string;
+  page_type: PageType;
+  seo_title?: string | null;
+  seo_description?: string | null;
   show_header: boolean;
   show_footer: boolean;
 }
@@ -117,12 +112,106 @@ interface HeaderFooterConfig {
   };
 }
 
+interface PublishedSection extends Section {
+  page_id: string;
+  sort_order: number;
+}
+
+function toHeaderFooter(data: Partial<Record<keyof HeaderFooterConfig, unknown>> | null): HeaderFooterConfig | null {
+  if (!data) return null;
+
+  return {
+    header_config: (data.header_config as HeaderFooterConfig['header_config']) || {},
+    footer_config: (data.footer_config as HeaderFooterConfig['footer_config']) || {},
+    social_links: (data.social_links as HeaderFooterConfig['social_links']) || {},
+  };
+}
+
+async function fetchNavItems(storeId: string) {
+  const { data } = await supabase
+    .from("store_navigation")
+    .select("id, label, url, page_id, location, parent_id, is_highlighted, open_in_new_tab")
+    .eq("store_id", storeId)
+    .order("sort_order", { ascending: true });
+
+  return (data as NavItem[]) || [];
+}
+
+/**
+ * Sections and header/footer shoppers see: the store's published version,
+ * limited to visible sections of published pages
+ */
+async function fetchPublishedVersion(storeSlug: string) {
+  const { data } = await supabase.rpc("get_published_store_version", { p_store_slug: storeSlug });
+  const published = data as { sections?: PublishedSection[]; header_footer?: Record<string, unknown> | null } | null;
+
+  return {
+    sections: published?.sections || [],
+    headerFooter: toHeaderFooter(published?.header_footer ?? null),
+  };
+}
+
+/**
+ * Draft header/footer and navigation, for the store builder preview
+ */
+async function fetchDraftChrome(storeId: string) {
+  const [{ data: headerFooterData }, navItems] = await Promise.all([
+    supabase
+      .from("store_header_footer")
+      .select("header_config, footer_config, social_links")
+      .eq("store_id", storeId)
+      .maybeSingle(),
+    fetchNavItems(storeId),
+  ]);
+
+  return { headerFooter: toHeaderFooter(headerFooterData), navItems };
+}
+
+interface PreviewSectionFrameProps {
+  sectionId: string;
+  selected: boolean;
+  onSelect: (sectionId: string) => void;
+  children: ReactNode;
+}
+
+/**
+ * Click-to-select wrapper around a section in the builder preview
+ */
+function PreviewSectionFrame({ sectionId, selected, onSelect, children }: PreviewSectionFrameProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (selected) {
+      ref.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [selected]);
+
+  return (
+    <div
+      ref={ref}
+      onClick={() => onSelect(sectionId)}
+      className={cn(
+        "relative cursor-pointer outline-2 -outline-offset-2 hover:outline hover:outline-primary/40",
+        selected && "outline outline-primary hover:outline-primary"
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Keep the builder preview on the page being edited: links don't navigate
+// and forms don't submit
+const preventNavigation = (e: SyntheticEvent) => e.preventDefault();
+
 export default function StorePage() {
   const { storeSlug, pageSlug = "home" } = useParams();
-  const [store, setStore] = useState<Store | null>(null);
-  const [theme, setTheme] = useState<Theme | null>(null);
-  const [page, setPage] = useState<Page | null>(null);
-  const [sections, setSections] = useState<Section[]>([]);
+  const preview = useStorefrontPreview();
+  const previewState = preview.isPreview ? preview.state : null;
+  const previewStoreId = previewState?.store.id;
+  const [loadedStore, setStore] = useState<Store | null>(null);
+  const [loadedPage, setPage] = useState<Page | null>(null);
+  const [loadedSections, setSections] = useState<Section[]>([]);
   const [headerFooter, setHeaderFooter] = useState<HeaderFooterConfig | null>(null);
   const [navItems, setNavItems] = useState<NavItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -130,7 +219,7 @@ export default function StorePage() {
 
   useEffect(() => {
     async function fetchPageData() {
-      if (!storeSlug) return;
+      if (!storeSlug || preview.isPreview) return;
 
       setLoading(true);
       setError(null);
@@ -152,47 +241,20 @@ export default function StorePage() {
 
         setStore(storeData as Store);
 
-        // 2. Fetch store theme
-        const { data: themeData } = await supabase
-          .from("store_themes")
-          .select("colors, typography, layout")
-          .eq("store_id", storeData.id)
-          .eq("is_active", true)
-          .single();
-
-        if (themeData) {
-          setTheme({
-            colors: themeData.colors as Record<string, string>,
-            typography: themeData.typography as Record<string, string>,
-            layout: themeData.layout as Record<string, string>,
-          });
-        }
-
-        // 3. Fetch header/footer config
-        const { data: headerFooterData } = await supabase
-          .from("store_header_footer")
-          .select("header_config, footer_config, social_links")
-          .eq("store_id", storeData.id)
-          .single();
-
-        if (headerFooterData) {
-          setHeaderFooter({
-            header_config: (headerFooterData.header_config as HeaderFooterConfig['header_config']) || {},
-            footer_config: (headerFooterData.footer_config as HeaderFooterConfig['footer_config']) || {},
-            social_links: (headerFooterData.social_links as HeaderFooterConfig['social_links']) || {},
-          });
-        }
-
-        // 4. Fetch navigation items
-        const { data: navData } = await supabase
-          .from("store_navigation")
-          .select("id, label, url, page_id, location, parent_id, is_highlighted, open_in_new_tab")
-          .eq("store_id", storeData.id)
-          .order("sort_order", { ascending: true });
+        // 2-3. Fetch the published version (sections, header/footer) and navigation items
+        const [published, navData] = await Promise.all([
+          fetchPublishedVersion(storeSlug),
+          fetchNavItems(storeData.id),
+        ]);
+        setHeaderFooter(published.headerFooter);
+        setNavItems(navData);
 
-        setNavItems((navData as NavItem[]) || []);
+        const getPageSections = (pageId: string) =>
+          published.sections
+            .filter((section) => section.page_id === pageId && section.is_visible)
+            .sort((a, b) => a.sort_order - b.sort_order);
 
-        // 5. Fetch page by slug (with show_header, show_footer)
+        // 4. Fetch page by slug (with show_header, show_footer)
         const { data: pageData, error: pageError } = await supabase
           .from("store_pages")
           .select("id, title, slug, page_type, seo_title, seo_description, show_header, show_footer")
@@ -218,27 +280,13 @@ export default function StorePage() {
           }
           setPage(homePage as Page);
 
-          // 6. Fetch sections for homepage
-          const { data: sectionsData } = await supabase
-            .from("page_sections")
-            .select("id, section_type, config, is_visible, sort_order, position")
-            .eq("page_id", homePage.id)
-            .eq("is_visible", true)
-            .order("sort_order", { ascending: true });
-
-          setSections((sectionsData as Section[]) || []);
+          // 5. Published sections of the homepage
+          setSections(getPageSections(homePage.id));
         } else {
           setPage(pageData as Page);
 
-          // 6. Fetch sections for the page
-          const { data: sectionsData } = await supabase
-            .from("page_sections")
-            .select("id, section_type, config, is_visible, sort_order, position")
-            .eq("page_id", pageData.id)
-            .eq("is_visible", true)
-            .order("sort_order", { ascending: true });
-
-          setSections((sectionsData as Section[]) || []);
+          // 5. Published sections of the page
+          setSections(getPageSections(pageData.id));
         }
       } catch (err) {
         console.error("Error fetching page data:", err);
@@ -249,37 +297,49 @@ export default function StorePage() {
     }
 
     fetchPageData();
-  }, [storeSlug, pageSlug]);
+  }, [storeSlug, pageSlug, preview.isPreview]);
 
-  // Apply theme CSS variables
+  // In the builder preview only the draft header/footer and navigation are loaded here
   useEffect(() => {
-    if (theme?.colors) {
-      const root = document.documentElement;
-      Object.entries(theme.colors).forEach(([key, value]) => {
-        root.style.setProperty(`--${key}`, value);
-      });
-
-      return () => {
-        Object.keys(theme.colors).forEach((key) => {
-          root.style.removeProperty(`--${key}`);
-        });
-      };
-    }
-  }, [theme]);
+    if (!previewStoreId) return;
+
+    let cancelled = false;
+
+    fetchDraftChrome(previewStoreId)
+      .then((chrome) => {
+        if (cancelled) return;
+        setHeaderFooter(chrome.headerFooter);
+        setNavItems(chrome.navItems);
+      })
+      .catch((err) => console.error("Error fetching store header/footer:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewStoreId]);
+
+  // The builder preview shows the builder's copy, including unsaved edits
+  const store: Store | null = previewState
+    ? { ...previewState.store, logo_url: previewState.store.logo_url ?? undefined }
+    : loadedStore;
+  const page: Page | null = previewState ? previewState.page : loadedPage;
+  const sections: Section[] = previewState
+    ? previewState.sections.filter((section) => section.is_visible)
+    : loadedSections;
 
   // Update page title
   useEffect(() => {
     if (page) {
       document.title = page.seo_title || page.title || store?.name || "Store";
     }
-  }, [page, store]);
+  }, [page, store?.name]);
 
-  if (loading) {
+  if (preview.isPreview ? !previewState : loading) {
     return (
       <div className="min-h-screen bg-background">
         <Skeleton className="h-16 w-full" />
         <Skeleton className="h-[400px] w-full" />
-        <div className="max-w-7xl mx-auto px-6 py-12">
+        <div className="max-w-storefront mx-auto px-6 py-12">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
             {[1, 2, 3, 4].map((i) => (
               <div key={i}>
@@ -310,64 +370,62 @@ export default function StorePage() {
   }
 
   const renderSection = (section: Section) => {
-    const config = section.config as Record<string, unknown>;
-
-    switch (section.section_type) {
-      case "hero_banner":
-        return <HeroBanner config={config} />;
-      case "hero_slider":
-        return <HeroSlider config={config} />;
-      case "hero_video":
-        return <HeroVideo config={config} />;
-      case "product_grid":
-        return <ProductGrid config={config} storeId={store.id} storeSlug={store.slug} />;
-      case "featured_products":
-        return <FeaturedProducts config={config} storeId={store.id} storeSlug={store.slug} />;
-      case "new_arrivals":
-        return <ProductGrid config={{ ...config, title: (config.title as string) || "New Arrivals", sortBy: "created_at" }} storeId={store.id} storeSlug={store.slug} />;
-      case "best_sellers":
-        return <FeaturedProducts config={{ ...config, title: (config.title as string) || "Best Sellers" }} storeId={store.id} storeSlug={store.slug} />;
-      case "category_grid":
-        return <CategoryGrid config={config} storeId={store.id} storeSlug={store.slug} />;
-      case "category_banner":
-        return <CategoryGrid config={{ ...config, columns: 2 }} storeId={store.id} storeSlug={store.slug} />;
-      case "text_block":
-        return <TextBlock config={config} />;
-      case "image_text":
-        return <ImageText config={config} />;
-      case "gallery":
-        return <Gallery config={config} />;
-      case "testimonials":
-        return <Testimonials config={config} />;
-      case "faq":
-        return <FAQ config={config} />;
-      case "announcement_bar":
-        return <AnnouncementBar config={config} />;
-      case "newsletter":
-        return <Newsletter config={config} />;
-      case "countdown":
-        return <Countdown config={config} />;
-      case "promo_banner":
-        return <PromoBanner config={config} />;
-      case "trust_badges":
-        return <TrustBadges config={config} />;
-      case "brand_logos":
-        return <BrandLogos config={config} />;
-      case "spacer":
-        return <Spacer config={config} />;
-      case "divider":
-        return <Divider config={config} />;
-      default:
-        return null;
+    if (!previewState) {
+      return (
+        <div key={section.id}>
+          <SectionRenderer
+            type={section.section_type}
+            config={section.config}
+            mobileConfig={section.mobile_config}
+            storeId={store.id}
+            storeSlug={store.slug}
+          />
+        </div>
+      );
     }
+
+    return (
+      <PreviewSectionFrame
+        key={section.id}
+        sectionId={section.id}
+        selected={previewState.selectedSectionId === section.id}
+        onSelect={preview.selectSection}
+      >
+        {hasSectionComponent(section.section_type) ? (
+          <SectionRenderer
+            type={section.section_type}
+            config={section.config}
+            mobileConfig={section.mobile_config}
+            storeId={store.id}
+            storeSlug={store.slug}
+          />
+        ) : (
+          <div className="p-8 bg-muted/30 text-center text-sm text-muted-foreground">
+            {SECTION_DEFINITIONS[section.section_type]?.label || section.section_type} isn't shown on the storefront yet
+          </div>
+        )}
+      </PreviewSectionFrame>
+    );
   };
 
+  // Built-in content the builder preview can't render yet is marked with a placeholder
+  const showBuiltInPlaceholder =
+    !!previewState &&
+    !!page &&
+    hasBuiltInContent(page.page_type) &&
+    page.page_type !== 'category' &&
+    page.page_type !== 'product';
+
   // Filter nav items by location
   const headerNavItems = navItems.filter(item => item.location === 'header');
   const footerNavItems = navItems.filter(item => item.location === 'footer');
 
   return (
-    <div className="min-h-screen bg-background flex flex-col">
+    <div
+      className="min-h-screen bg-background flex flex-col"
+      onClickCapture={previewState ? preventNavigation : undefined}
+      onSubmitCapture={previewState ? preventNavigation : undefined}
+    >
       {/* Header */}
       {page?.show_header && headerFooter && (
         <StorefrontHeader
@@ -382,9 +440,7 @@ export default function StorePage() {
         {/* Sections ABOVE built-in content */}
         {sections
           .filter((section) => section.position === 'above')
-          .map((section) => (
-            <div key={section.id}>{renderSection(section)}</div>
-          ))}
+          .map(renderSection)}
 
         {/* Built-in Page Content based on page_type */}
         {page?.page_type === 'category' && (
@@ -393,24 +449,33 @@ export default function StorePage() {
         {page?.page_type === 'product' && (
           <ProductListingContent storeId={store.id} storeSlug={store.slug} />
         )}
+        {showBuiltInPlaceholder && page && (
+          <BuiltInContentPlaceholder pageType={page.page_type} />
+        )}
 
         {/* Sections BELOW built-in content (or all sections for pages without built-in content) */}
         {sections
           .filter((section) => section.position === 'below' || section.position === undefined)
-          .map((section) => (
-            <div key={section.id}>{renderSection(section)}</div>
-          ))}
+          .map(renderSection)}
 
         {/* Empty state for pages without content */}
-        {sections.length === 0 && page?.page_type === 'homepage' && (
+        {sections.length === 0 && (previewState ? !showBuiltInPlaceholder : page?.page_type === 'homepage') && (
           <div className="min-h-[400px] flex items-center justify-center">
             <div className="text-center">
-              <h2 className="text-xl font-semibold text-foreground mb-2">
-                Welcome to {store.name}
-              </h2>
-              <p className="text-muted-foreground">
-                This page is being set up. Check back soon!
-              </p>
+              {previewState ? (
+                <p className="text-muted-foreground">
+                  Add sections to see your store preview
+                </p>
+              ) : (
+                <>
+                  <h2 className="text-xl font-semibold text-foreground mb-2">
+                    Welcome to {store.name}
+                  </h2>
+                  <p className="text-muted-foreground">
+                    This page is being set up. Check back soon!
+                  </p>
+                </>
+              )}
             </div>
           </div>
         )}
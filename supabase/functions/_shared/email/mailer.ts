@@ -0,0 +1,76 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  /** Shown as the sender name, e.g. the store name */
+  fromName?: string;
+  replyTo?: string;
+}
+
+/**
+ * Send an email.
+ *
+ * Uses Resend when RESEND_API_KEY is set, otherwise SMTP (SMTP_HOST,
+ * SMTP_PORT, SMTP_USER, SMTP_PASS). Locally SMTP points at the Inbucket
+ * mail catcher started by `supabase start` (see supabase/functions/.env.example).
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const fromAddress = Deno.env.get('EMAIL_FROM') ?? 'orders@example.com';
+  const from = message.fromName ? `${message.fromName} <${fromAddress}>` : fromAddress;
+
+  const resendKey = Deno.env.get('RESEND_API_KEY');
+  if (resendKey) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${resendKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        reply_to: message.replyTo,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend error ${response.status}: ${await response.text()}`);
+    }
+    return;
+  }
+
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) {
+    throw new Error('No email transport configured (set RESEND_API_KEY or SMTP_HOST)');
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 587);
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASS');
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: host,
+      port,
+      // Implicit TLS on 465; Inbucket and most relays upgrade or run plain
+      tls: port === 465,
+      auth: username && password ? { username, password } : undefined,
+    },
+  });
+
+  try {
+    await client.send({
+      from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+    });
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Template rendering for order emails.
+ *
+ * Templates are plain text with {{placeholders}}. Values are HTML-escaped,
+ * blank lines become paragraphs, {{order_items}} becomes a table and
+ * {{tracking_details}} lists the order's shipments with tracking links. The
+ * result is wrapped in a layout using the store's logo and primary colour.
+ *
+ * The dashboard preview (src/lib/notifications.ts) mirrors this - keep the
+ * two in sync.
+ */
+
+export interface OrderEmailItem {
+  product_name: string;
+  variant_name: string | null;
+  quantity: number;
+  total_price: number;
+}
+
+export interface OrderEmailShipment {
+  carrier: string;
+  tracking_number: string | null;
+  tracking_url: string | null;
+}
+
+export interface EmailBranding {
+  storeName: string;
+  logoUrl: string | null;
+  /** CSS colour, e.g. #1e3a5f */
+  primaryColor: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatPrice(amount: number): string {
+  return `रु ${Number(amount).toLocaleString()}`;
+}
+
+/**
+ * Convert a theme colour stored as "H S% L%" to hex (email clients do not
+ * all support hsl())
+ */
+export function hslToHex(hsl: string | undefined, fallback = '#111827'): string {
+  const match = hsl?.match(/^\s*([\d.]+)\s+([\d.]+)%\s+([\d.]+)%\s*$/);
+  if (!match) return fallback;
+
+  const h = Number(match[1]);
+  const s = Number(match[2]) / 100;
+  const l = Number(match[3]) / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+export function renderItemsTable(items: OrderEmailItem[]): string {
+  const rows = items.map((item) => {
+    const name = item.variant_name
+      ? `${escapeHtml(item.product_name)} <span style="color:#6b7280">(${escapeHtml(item.variant_name)})</span>`
+      : escapeHtml(item.product_name);
+    return `<tr>
+      <td style="padding:8px 0;border-bottom:1px solid #e5e7eb">${name} &times; ${item.quantity}</td>
+      <td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right">${formatPrice(item.total_price)}</td>
+    </tr>`;
+  });
+
+  return `<table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;margin:8px 0">${rows.join('')}</table>`;
+}
+
+/**
+ * One paragraph per shipment (carrier, tracking number and a tracking link),
+ * or nothing when the order has no shipments
+ */
+export function renderTrackingDetails(shipments: OrderEmailShipment[]): string {
+  return shipments
+    .map((shipment) => {
+      const lines = [`Shipped with ${escapeHtml(shipment.carrier)}`];
+      if (shipment.tracking_number) {
+        lines.push(`Tracking number: ${escapeHtml(shipment.tracking_number)}`);
+      }
+      if (shipment.tracking_url) {
+        lines.push(`<a href="${escapeHtml(shipment.tracking_url)}">Track your package</a>`);
+      }
+      return `<p style="margin:0 0 16px">${lines.join('<br>')}</p>`;
+    })
+    .join('');
+}
+
+/**
+ * Replace {{placeholders}} in a subject line (plain text)
+ */
+export function renderSubject(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => variables[key] ?? '');
+}
+
+/**
+ * Render a template body to HTML. `htmlVariables` are inserted as-is.
+ */
+export function renderBody(
+  template: string,
+  variables: Record<string, string>,
+  htmlVariables: Record<string, string> = {}
+): string {
+  return template
+    .split(/\n{2,}/)
+    .map((block) => {
+      // A block that is only an HTML variable (e.g. the items table) is not wrapped
+      const only = block.trim().match(/^\{\{\s*(\w+)\s*\}\}$/);
+      if (only && only[1] in htmlVariables) return htmlVariables[only[1]];
+
+      const html = escapeHtml(block)
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) =>
+          key in htmlVariables ? htmlVariables[key] : escapeHtml(variables[key] ?? '')
+        )
+        .replace(/\n/g, '<br>');
+      return `<p style="margin:0 0 16px">${html}</p>`;
+    })
+    .join('');
+}
+
+export function renderLayout(bodyHtml: string, branding: EmailBranding): string {
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.storeName)}" style="max-height:48px">`
+    : `<span style="font-size:20px;font-weight:bold;color:#ffffff">${escapeHtml(branding.storeName)}</span>`;
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;font-size:14px;line-height:1.5">
+  <table width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;overflow:hidden">
+        <tr><td style="background:${branding.primaryColor};padding:20px 24px">${header}</td></tr>
+        <tr><td style="padding:24px">${bodyHtml}</td></tr>
+        <tr><td style="padding:16px 24px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:12px">${escapeHtml(branding.storeName)}</td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,17 @@
+import type { PaymentProvider } from './types.ts';
+
+/**
+ * Cash on delivery - nothing to collect online. The payment stays pending
+ * until the merchant marks the order as paid.
+ */
+export const codProvider: PaymentProvider = {
+  id: 'cod',
+
+  async initiate() {
+    return { action: 'none' };
+  },
+
+  async verify() {
+    return { status: 'pending' };
+  },
+};
@@ -0,0 +1,102 @@
+import { isLiveMode, requireConfig, type PaymentProvider } from './types.ts';
+import { withParams } from './url.ts';
+
+/**
+ * eSewa ePay v2
+ *
+ * Config: product_code (merchant code), secret_key, mode ("test" | "live")
+ *
+ * The shopper is sent to eSewa with a signed form POST. On return the
+ * transaction is confirmed with eSewa's status check API.
+ */
+const ESEWA_URLS = {
+  test: {
+    form: 'https://rc-epay.esewa.com.np/api/epay/main/v2/form',
+    status: 'https://rc.esewa.com.np/api/epay/transaction/status/',
+  },
+  live: {
+    form: 'https://epay.esewa.com.np/api/epay/main/v2/form',
+    status: 'https://epay.esewa.com.np/api/epay/transaction/status/',
+  },
+};
+
+async function sign(message: string, secret: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+export const esewaProvider: PaymentProvider = {
+  id: 'esewa',
+
+  async initiate(ctx) {
+    requireConfig(ctx.config, ['product_code', 'secret_key'], 'eSewa');
+
+    const urls = isLiveMode(ctx.config) ? ESEWA_URLS.live : ESEWA_URLS.test;
+    const totalAmount = String(ctx.payment.amount);
+    const transactionUuid = ctx.payment.id;
+    const productCode = ctx.config.product_code;
+
+    const signature = await sign(
+      `total_amount=${totalAmount},transaction_uuid=${transactionUuid},product_code=${productCode}`,
+      ctx.config.secret_key
+    );
+
+    return {
+      action: 'form_post',
+      url: urls.form,
+      reference: transactionUuid,
+      fields: {
+        amount: totalAmount,
+        tax_amount: '0',
+        total_amount: totalAmount,
+        transaction_uuid: transactionUuid,
+        product_code: productCode,
+        product_service_charge: '0',
+        product_delivery_charge: '0',
+        success_url: ctx.returnUrl,
+        failure_url: withParams(ctx.returnUrl, { payment_cancelled: '1' }),
+        signed_field_names: 'total_amount,transaction_uuid,product_code',
+        signature,
+      },
+    };
+  },
+
+  async verify(ctx, params) {
+    requireConfig(ctx.config, ['product_code'], 'eSewa');
+
+    const urls = isLiveMode(ctx.config) ? ESEWA_URLS.live : ESEWA_URLS.test;
+    const response = await fetch(
+      withParams(urls.status, {
+        product_code: ctx.config.product_code,
+        total_amount: String(ctx.payment.amount),
+        transaction_uuid: ctx.payment.id,
+      })
+    );
+
+    if (!response.ok) {
+      throw new Error(`eSewa status check failed (${response.status})`);
+    }
+
+    const result = await response.json();
+
+    switch (result.status) {
+      case 'COMPLETE':
+        return { status: 'paid', reference: result.ref_id, response: result };
+      case 'PENDING':
+        // Back through failure_url: the shopper left eSewa without paying
+        return { status: params.payment_cancelled ? 'failed' : 'pending', response: result };
+      case 'AMBIGUOUS':
+        return { status: 'pending', response: result };
+      default:
+        return { status: 'failed', response: result };
+    }
+  },
+};
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { codProvider } from './cod.ts';
+import { esewaProvider } from './esewa.ts';
+import { khaltiProvider } from './khalti.ts';
+import { mockProvider } from './mock.ts';
+import { stripeProvider } from './stripe.ts';
+import type { PaymentContext, PaymentProvider } from './types.ts';
+
+export * from './types.ts';
+
+/**
+ * Registered providers, keyed by the id stored in payments.provider.
+ * A provider is enabled for a store by the payment_<id> extension.
+ */
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [codProvider.id]: codProvider,
+  [esewaProvider.id]: esewaProvider,
+  [khaltiProvider.id]: khaltiProvider,
+  [stripeProvider.id]: stripeProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export function getPaymentProvider(id: string): PaymentProvider | null {
+  return PROVIDERS[id] ?? null;
+}
+
+/**
+ * Load a payment with its order, customer and provider credentials.
+ * Must be called with a service-role client: credentials are not readable
+ * by shoppers.
+ */
+export async function loadPaymentContext(
+  supabase: SupabaseClient,
+  paymentId: string,
+  returnUrl: string
+): Promise<{ provider: PaymentProvider; context: PaymentContext; status: string }> {
+  const { data: payment, error } = await supabase
+    .from('payments')
+    .select('id, store_id, provider, status, amount, currency, provider_reference, orders(id, order_number, customers(full_name, email, phone))')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment) throw new Error('Payment not found');
+
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) throw new Error(`Unknown payment provider "${payment.provider}"`);
+
+  const { data: extension } = await supabase
+    .from('store_extensions')
+    .select('config, is_enabled')
+    .eq('store_id', payment.store_id)
+    .eq('extension_id', `payment_${payment.provider}`)
+    .maybeSingle();
+
+  // Cash on delivery works without an extension row (store default)
+  if (provider.id !== 'cod' && !extension?.is_enabled) {
+    throw new Error('This payment method is no longer available');
+  }
+
+  // Mock payments take no money, so they only work where
+  // get_store_payment_methods() offers them (payments test mode)
+  if (provider.id === 'mock') {
+    const { data: methods, error: methodsError } = await supabase.rpc('get_store_payment_methods', {
+      p_store_id: payment.store_id,
+    });
+
+    if (methodsError) throw methodsError;
+    if (!(methods as string[] | null)?.includes('mock')) {
+      throw new Error('Test payments are only available in payments test mode');
+    }
+  }
+
+  const order = payment.orders as unknown as {
+    id: string;
+    order_number: string;
+    customers: PaymentContext['customer'] | null;
+  };
+
+  return {
+    provider,
+    status: payment.status,
+    context: {
+      payment: {
+        id: payment.id,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        provider_reference: payment.provider_reference,
+      },
+      order: { id: order.id, order_number: order.order_number },
+      customer: order.customers ?? { full_name: null, email: null, phone: null },
+      config: (extension?.config as Record<string, string>) ?? {},
+      returnUrl,
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { isLiveMode, requireConfig, type PaymentProvider } from './types.ts';
+
+/**
+ * Khalti ePayment (KPG-2)
+ *
+ * Config: secret_key, mode ("test" | "live")
+ *
+ * initiate returns Khalti's hosted payment_url; verify looks the payment
+ * up by pidx and checks the amount (Khalti works in paisa).
+ */
+const KHALTI_API = {
+  test: 'https://dev.khalti.com/api/v2',
+  live: 'https://khalti.com/api/v2',
+};
+
+async function khaltiRequest(config: Record<string, string>, path: string, body: unknown) {
+  const baseUrl = isLiveMode(config) ? KHALTI_API.live : KHALTI_API.test;
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Key ${config.secret_key}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.detail || `Khalti request failed (${response.status})`);
+  }
+  return result;
+}
+
+const toPaisa = (amount: number) => Math.round(amount * 100);
+
+export const khaltiProvider: PaymentProvider = {
+  id: 'khalti',
+
+  async initiate(ctx) {
+    requireConfig(ctx.config, ['secret_key'], 'Khalti');
+
+    const result = await khaltiRequest(ctx.config, '/epayment/initiate/', {
+      return_url: ctx.returnUrl,
+      website_url: new URL(ctx.returnUrl).origin,
+      amount: toPaisa(ctx.payment.amount),
+      purchase_order_id: ctx.payment.id,
+      purchase_order_name: ctx.order.order_number,
+      customer_info: {
+        name: ctx.customer.full_name,
+        email: ctx.customer.email,
+        phone: ctx.customer.phone,
+      },
+    });
+
+    return { action: 'redirect', url: result.payment_url, reference: result.pidx };
+  },
+
+  async verify(ctx, params) {
+    requireConfig(ctx.config, ['secret_key'], 'Khalti');
+
+    // Use the pidx we stored at initiate time, not the one in the URL
+    const pidx = ctx.payment.provider_reference || params.pidx;
+    if (!pidx) {
+      return { status: 'failed' };
+    }
+
+    const result = await khaltiRequest(ctx.config, '/epayment/lookup/', { pidx });
+
+    if (result.status === 'Completed') {
+      if (result.total_amount !== toPaisa(ctx.payment.amount)) {
+        return { status: 'failed', response: result };
+      }
+      return { status: 'paid', reference: result.transaction_id, response: result };
+    }
+
+    if (result.status === 'Pending' || result.status === 'Initiated') {
+      return { status: 'pending', response: result };
+    }
+
+    return { status: 'failed', response: result };
+  },
+};
@@ -0,0 +1,27 @@
+import type { PaymentProvider } from './types.ts';
+import { withParams } from './url.ts';
+
+/**
+ * Mock provider for local testing. Sends the shopper straight back to the
+ * checkout route; config.outcome = "fail" simulates a declined payment.
+ */
+export const mockProvider: PaymentProvider = {
+  id: 'mock',
+
+  async initiate(ctx) {
+    const reference = `MOCK-${ctx.order.order_number}`;
+    return {
+      action: 'redirect',
+      url: withParams(ctx.returnUrl, { mock_reference: reference }),
+      reference,
+    };
+  },
+
+  async verify(ctx, params) {
+    return {
+      status: ctx.config.outcome === 'fail' ? 'failed' : 'paid',
+      reference: params.mock_reference || ctx.payment.provider_reference || undefined,
+      response: { mock: true, outcome: ctx.config.outcome || 'success' },
+    };
+  },
+};
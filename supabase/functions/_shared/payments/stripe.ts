@@ -0,0 +1,89 @@
+import { requireConfig, type PaymentProvider } from './types.ts';
+import { withParams } from './url.ts';
+
+/**
+ * Card payments through Stripe Checkout
+ *
+ * Config: secret_key, currency (defaults to "npr")
+ *
+ * The shopper pays on Stripe's hosted page; verify retrieves the Checkout
+ * Session and checks payment_status. A session the shopper cancelled is
+ * expired, so it can't be paid after the order is cancelled.
+ */
+const STRIPE_API = 'https://api.stripe.com/v1';
+
+async function stripeRequest(
+  config: Record<string, string>,
+  path: string,
+  body?: URLSearchParams
+) {
+  const response = await fetch(`${STRIPE_API}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      Authorization: `Bearer ${config.secret_key}`,
+      ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+    },
+    body,
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error?.message || `Stripe request failed (${response.status})`);
+  }
+  return result;
+}
+
+export const stripeProvider: PaymentProvider = {
+  id: 'stripe',
+
+  async initiate(ctx) {
+    requireConfig(ctx.config, ['secret_key'], 'Card payments');
+
+    // Stripe fills in {CHECKOUT_SESSION_ID}, so it must not be URL-encoded
+    const successUrl = `${ctx.returnUrl}&session_id={CHECKOUT_SESSION_ID}`;
+
+    const session = await stripeRequest(ctx.config, '/checkout/sessions', new URLSearchParams({
+      mode: 'payment',
+      success_url: successUrl,
+      cancel_url: withParams(ctx.returnUrl, { payment_cancelled: '1' }),
+      client_reference_id: ctx.payment.id,
+      customer_email: ctx.customer.email || '',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': (ctx.config.currency || 'npr').toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(Math.round(ctx.payment.amount * 100)),
+      'line_items[0][price_data][product_data][name]': `Order ${ctx.order.order_number}`,
+      'metadata[payment_id]': ctx.payment.id,
+    }));
+
+    return { action: 'redirect', url: session.url, reference: session.id };
+  },
+
+  async verify(ctx, params) {
+    requireConfig(ctx.config, ['secret_key'], 'Card payments');
+
+    const sessionId = ctx.payment.provider_reference || params.session_id;
+    if (!sessionId) {
+      return { status: 'failed' };
+    }
+
+    const session = await stripeRequest(ctx.config, `/checkout/sessions/${encodeURIComponent(sessionId)}`);
+
+    if (session.payment_status === 'paid') {
+      return { status: 'paid', reference: session.payment_intent || session.id, response: session };
+    }
+
+    if (params.payment_cancelled && session.status === 'open') {
+      // Stripe refuses to expire a session that has just been paid; the next
+      // verify picks that payment up
+      const expired = await stripeRequest(
+        ctx.config,
+        `/checkout/sessions/${encodeURIComponent(sessionId)}/expire`,
+        new URLSearchParams()
+      ).catch(() => null);
+
+      return expired ? { status: 'failed', response: expired } : { status: 'pending', response: session };
+    }
+
+    return { status: session.status === 'expired' ? 'failed' : 'pending', response: session };
+  },
+};
@@ -0,0 +1,74 @@
+/**
+ * ============================================================================
+ * PAYMENT PROVIDER TYPES
+ * ============================================================================
+ *
+ * Every payment provider implements the same two steps:
+ *
+ * 1. initiate - Start a payment for an order. Returns what the storefront
+ *    should do next: nothing (cash on delivery), redirect to a hosted
+ *    payment page, or POST a form to one (eSewa).
+ * 2. verify - Called when the shopper comes back to the checkout route.
+ *    Confirms the transaction with the provider's server API - the query
+ *    parameters from the redirect are never trusted on their own.
+ *
+ * Per-store credentials come from store_extensions.config of the
+ * payment_<provider> extension.
+ *
+ * ============================================================================
+ */
+
+export interface PaymentContext {
+  payment: {
+    id: string;
+    amount: number;
+    currency: string;
+    provider_reference: string | null;
+  };
+  order: {
+    id: string;
+    order_number: string;
+  };
+  customer: {
+    full_name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  /** store_extensions.config for payment_<provider> */
+  config: Record<string, string>;
+  /** Checkout URL the provider sends the shopper back to */
+  returnUrl: string;
+}
+
+export type InitiateResult =
+  | { action: 'none' }
+  | { action: 'redirect'; url: string; reference?: string }
+  | { action: 'form_post'; url: string; fields: Record<string, string>; reference?: string };
+
+export interface VerifyResult {
+  status: 'paid' | 'failed' | 'pending';
+  reference?: string;
+  response?: unknown;
+}
+
+export interface PaymentProvider {
+  id: string;
+  initiate(ctx: PaymentContext): Promise<InitiateResult>;
+  verify(ctx: PaymentContext, params: Record<string, string>): Promise<VerifyResult>;
+}
+
+/**
+ * Thrown for configuration problems the merchant has to fix
+ */
+export class PaymentConfigError extends Error {}
+
+export function requireConfig(config: Record<string, string>, keys: string[], provider: string) {
+  const missing = keys.filter(key => !config[key]);
+  if (missing.length > 0) {
+    throw new PaymentConfigError(`${provider} is not configured (missing ${missing.join(', ')})`);
+  }
+}
+
+export function isLiveMode(config: Record<string, string>) {
+  return config.mode === 'live';
+}
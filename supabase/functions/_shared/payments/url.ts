@@ -0,0 +1,10 @@
+/**
+ * Append query parameters to a URL that may already have some
+ */
+export function withParams(url: string, params: Record<string, string>) {
+  const next = new URL(url);
+  for (const [key, value] of Object.entries(params)) {
+    next.searchParams.set(key, value);
+  }
+  return next.toString();
+}
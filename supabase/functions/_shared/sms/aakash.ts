@@ -0,0 +1,35 @@
+import { requireConfig, type SmsGateway } from './types.ts';
+
+/**
+ * Aakash SMS (https://sms.aakashsms.com) v3 API.
+ * config: api_key (auth token)
+ */
+export const aakashGateway: SmsGateway = {
+  id: 'aakash',
+
+  async send(message, config) {
+    requireConfig(config, ['api_key'], 'Aakash SMS');
+
+    const response = await fetch('https://sms.aakashsms.com/sms/v3/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        auth_token: config.api_key,
+        to: message.to,
+        text: message.text,
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok || !body || body.error) {
+      return {
+        success: false,
+        error: body?.message || `Aakash SMS error ${response.status}`,
+        response: body,
+      };
+    }
+
+    return { success: true, response: body };
+  },
+};
@@ -0,0 +1,19 @@
+import type { SmsGateway } from './types.ts';
+
+/**
+ * Fake gateway for testing. Nothing is sent - the message only appears in
+ * the SMS log. config.outcome = "fail" simulates a rejected message.
+ */
+export const fakeGateway: SmsGateway = {
+  id: 'fake',
+
+  async send(message, config) {
+    console.log(`[fake sms] to ${message.to}: ${message.text}`);
+
+    if (config.outcome === 'fail') {
+      return { success: false, error: 'Simulated failure', response: { fake: true } };
+    }
+
+    return { success: true, response: { fake: true } };
+  },
+};
@@ -0,0 +1,36 @@
+import { aakashGateway } from './aakash.ts';
+import { fakeGateway } from './fake.ts';
+import { sparrowGateway } from './sparrow.ts';
+import { SmsConfigError, type SmsGateway } from './types.ts';
+
+export * from './types.ts';
+
+/**
+ * Registered gateways, keyed by sms_notifications config.gateway
+ */
+const GATEWAYS: Record<string, SmsGateway> = {
+  [sparrowGateway.id]: sparrowGateway,
+  [aakashGateway.id]: aakashGateway,
+  [fakeGateway.id]: fakeGateway,
+};
+
+export function getSmsGateway(config: Record<string, string>): SmsGateway {
+  const id = (config.gateway || 'sparrow').trim().toLowerCase();
+  const gateway = GATEWAYS[id];
+  if (!gateway) throw new SmsConfigError(`Unknown SMS gateway "${config.gateway}"`);
+  return gateway;
+}
+
+/**
+ * Default messages, used when the store has not set its own template.
+ * Keep short: one SMS segment is 160 characters.
+ */
+export const DEFAULT_SMS_TEMPLATES: Record<string, string> = {
+  order_placed: '{{store_name}}: Thank you {{customer_name}}! Order {{order_number}} ({{order_total}}) received. We will notify you when it ships.',
+  order_shipped: '{{store_name}}: Your order {{order_number}} has been shipped and is on its way. {{tracking_url}}',
+  order_delivered: '{{store_name}}: Your order {{order_number}} has been delivered. Thank you for shopping with us!',
+};
+
+export function renderSms(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => variables[key] ?? '').trim();
+}
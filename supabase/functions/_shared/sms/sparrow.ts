@@ -0,0 +1,36 @@
+import { requireConfig, type SmsGateway } from './types.ts';
+
+/**
+ * Sparrow SMS (https://docs.sparrowsms.com).
+ * config: api_key (token), sender_id (approved "from" identity)
+ */
+export const sparrowGateway: SmsGateway = {
+  id: 'sparrow',
+
+  async send(message, config) {
+    requireConfig(config, ['api_key', 'sender_id'], 'Sparrow SMS');
+
+    const response = await fetch('https://api.sparrowsms.com/v2/sms/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        token: config.api_key,
+        from: config.sender_id,
+        to: message.to,
+        text: message.text,
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok || body?.response_code !== 200) {
+      return {
+        success: false,
+        error: body?.response || `Sparrow SMS error ${response.status}`,
+        response: body,
+      };
+    }
+
+    return { success: true, response: body };
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * ============================================================================
+ * SMS GATEWAY TYPES
+ * ============================================================================
+ *
+ * Every SMS gateway implements a single send() call. Gateways never throw
+ * for a rejected message - they return { success: false, error } so the
+ * attempt can be logged with the gateway's response.
+ *
+ * Per-store credentials come from store_extensions.config of the
+ * sms_notifications extension (config.gateway picks the gateway).
+ *
+ * ============================================================================
+ */
+
+export interface SmsMessage {
+  /** Normalized 10-digit Nepal mobile number, e.g. 9812345678 */
+  to: string;
+  text: string;
+}
+
+export interface SmsResult {
+  success: boolean;
+  error?: string;
+  response?: unknown;
+}
+
+export interface SmsGateway {
+  id: string;
+  send(message: SmsMessage, config: Record<string, string>): Promise<SmsResult>;
+}
+
+/**
+ * Thrown for configuration problems the merchant has to fix
+ */
+export class SmsConfigError extends Error {}
+
+export function requireConfig(config: Record<string, string>, keys: string[], gateway: string) {
+  const missing = keys.filter(key => !config[key]);
+  if (missing.length > 0) {
+    throw new SmsConfigError(`${gateway} is not configured (missing ${missing.join(', ')})`);
+  }
+}
+
+/**
+ * Normalize a Nepal mobile number to the 10-digit form the gateways expect
+ * (strips spaces, dashes and the +977 / 977 prefix). Returns null when the
+ * number is not a mobile number.
+ */
+export function normalizeNepalPhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '').replace(/^977/, '');
+  return /^9[78]\d{8}$/.test(digits) ? digits : null;
+}
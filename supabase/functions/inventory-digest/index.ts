@@ -0,0 +1,131 @@
+/**
+ * ============================================================================
+ * INVENTORY DIGEST
+ * ============================================================================
+ *
+ * POST {}
+ *
+ * Emails each store that has the inventory_alerts extension enabled with
+ * daily_digest = "on" a summary of its open low stock alerts. Stores with
+ * no open alerts get no email.
+ *
+ * Meant to run once a day, e.g. with pg_cron:
+ *   select cron.schedule('inventory-digest', '0 8 * * *', $$
+ *     select net.http_post('<project-url>/functions/v1/inventory-digest',
+ *       headers => '{"Authorization": "Bearer <service-role-key>"}'::jsonb)
+ *   $$);
+ *
+ * Returns { sent, failed }.
+ *
+ * ============================================================================
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { sendEmail } from '../_shared/email/mailer.ts';
+import { escapeHtml, hslToHex, renderLayout } from '../_shared/email/render.ts';
+
+interface AlertRow {
+  stock_quantity: number;
+  threshold: number;
+  products: { name: string; sku: string | null } | null;
+  product_variants: { name: string } | null;
+}
+
+function renderDigest(alerts: AlertRow[]) {
+  const rows = alerts.map((alert) => {
+    const name = alert.product_variants
+      ? `${escapeHtml(alert.products?.name ?? '')} (${escapeHtml(alert.product_variants.name)})`
+      : escapeHtml(alert.products?.name ?? '');
+    const color = alert.stock_quantity <= 0 ? '#dc2626' : '#111827';
+    return `<tr>
+      <td style="padding:8px 0;border-bottom:1px solid #e5e7eb">${name}</td>
+      <td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right;color:${color}">${alert.stock_quantity}</td>
+      <td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right;color:#6b7280">${alert.threshold}</td>
+    </tr>`;
+  });
+
+  return `<p style="margin:0 0 16px">${alerts.length} item${alerts.length === 1 ? ' is' : 's are'} at or below the low stock threshold:</p>
+<table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse">
+  <tr>
+    <th style="text-align:left;padding:8px 0;border-bottom:2px solid #e5e7eb">Product</th>
+    <th style="text-align:right;padding:8px 0;border-bottom:2px solid #e5e7eb">In stock</th>
+    <th style="text-align:right;padding:8px 0;border-bottom:2px solid #e5e7eb">Alert at</th>
+  </tr>
+  ${rows.join('')}
+</table>`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: extensions, error } = await supabase
+      .from('store_extensions')
+      .select('store_id, config, stores(name, logo_url, email)')
+      .eq('extension_id', 'inventory_alerts')
+      .eq('is_enabled', true);
+
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const extension of extensions ?? []) {
+      const config = (extension.config ?? {}) as Record<string, string>;
+      const store = extension.stores as unknown as { name: string; logo_url: string | null; email: string | null } | null;
+      const to = config.email || store?.email;
+
+      if (config.daily_digest !== 'on' || !to || !store) continue;
+
+      try {
+        const [{ data: alerts, error: alertsError }, { data: theme }] = await Promise.all([
+          supabase
+            .from('inventory_alerts')
+            .select('stock_quantity, threshold, products(name, sku), product_variants(name)')
+            .eq('store_id', extension.store_id)
+            .is('resolved_at', null)
+            .order('stock_quantity'),
+          supabase
+            .from('store_themes')
+            .select('colors')
+            .eq('store_id', extension.store_id)
+            .eq('is_active', true)
+            .maybeSingle(),
+        ]);
+
+        if (alertsError) throw alertsError;
+        if (!alerts || alerts.length === 0) continue;
+
+        const colors = (theme?.colors ?? {}) as Record<string, string>;
+
+        await sendEmail({
+          to,
+          subject: `Low stock: ${alerts.length} item${alerts.length === 1 ? '' : 's'} need restocking`,
+          html: renderLayout(renderDigest(alerts as unknown as AlertRow[]), {
+            storeName: store.name,
+            logoUrl: store.logo_url,
+            primaryColor: hslToHex(colors.primary),
+          }),
+          fromName: store.name,
+        });
+        sent++;
+      } catch (sendError) {
+        console.error(`Error sending inventory digest for store ${extension.store_id}:`, sendError);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ sent, failed });
+  } catch (error) {
+    console.error('Error sending inventory digests:', error);
+    return jsonResponse({ error: (error as Error).message || 'Failed to send inventory digests' }, 500);
+  }
+});
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * PAYMENT INITIATE
+ * ============================================================================
+ *
+ * POST { payment_id, return_url }
+ *
+ * Starts the payment created by place_order() with the order's provider and
+ * tells the checkout page what to do next:
+ *   { action: 'none' }                          - cash on delivery
+ *   { action: 'redirect', url }                 - Khalti, Stripe, mock
+ *   { action: 'form_post', url, fields }        - eSewa
+ *
+ * The provider sends the shopper back to return_url with ?payment_id=...,
+ * where the checkout page calls payment-verify.
+ *
+ * ============================================================================
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { loadPaymentContext, PaymentConfigError } from '../_shared/payments/index.ts';
+import { withParams } from '../_shared/payments/url.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { payment_id, return_url } = await req.json();
+
+    if (!payment_id || !return_url || !/^https?:\/\//.test(return_url)) {
+      return jsonResponse({ error: 'payment_id and return_url are required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { provider, context, status } = await loadPaymentContext(
+      supabase,
+      payment_id,
+      withParams(return_url, { payment_id })
+    );
+
+    if (status !== 'pending') {
+      return jsonResponse({ error: 'This order has already been processed' }, 409);
+    }
+
+    let result;
+    try {
+      result = await provider.initiate(context);
+    } catch (error) {
+      // A payment that cannot be started is a failed payment: this cancels
+      // the order and releases its stock so the shopper can try again
+      await supabase.rpc('complete_payment', {
+        p_payment_id: payment_id,
+        p_status: 'failed',
+        p_response: { error: (error as Error).message },
+      });
+      throw error;
+    }
+
+    if (result.action !== 'none' && result.reference) {
+      const { error } = await supabase
+        .from('payments')
+        .update({ provider_reference: result.reference })
+        .eq('id', payment_id);
+
+      if (error) throw error;
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error initiating payment:', error);
+    const message = error instanceof PaymentConfigError
+      ? 'This payment method is not set up correctly. Please choose another.'
+      : (error as Error).message || 'Failed to start payment';
+    return jsonResponse({ error: message }, 400);
+  }
+});
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * PAYMENT VERIFY
+ * ============================================================================
+ *
+ * POST { payment_id, params }
+ *
+ * Called by the checkout page when the shopper returns from the provider.
+ * `params` are the query parameters of the return URL; the provider's
+ * server API is always asked for the real outcome before the payment is
+ * recorded with complete_payment().
+ *
+ * Returns { payment_id, status, order_number }.
+ *
+ * ============================================================================
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { loadPaymentContext } from '../_shared/payments/index.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { payment_id, params = {} } = await req.json();
+
+    if (!payment_id) {
+      return jsonResponse({ error: 'payment_id is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { provider, context, status } = await loadPaymentContext(supabase, payment_id, '');
+
+    // Already settled (e.g. the page was refreshed) - report the stored result
+    const result = status === 'pending'
+      ? await provider.verify(context, params)
+      : { status };
+
+    const { data, error } = await supabase.rpc('complete_payment', {
+      p_payment_id: payment_id,
+      p_status: result.status,
+      p_reference: 'reference' in result ? result.reference ?? null : null,
+      p_response: 'response' in result ? result.response ?? null : null,
+    });
+
+    if (error) throw error;
+
+    return jsonResponse(data);
+  } catch (error) {
+    console.error('Error verifying payment:', error);
+    return jsonResponse({ error: (error as Error).message || 'Failed to verify payment' }, 400);
+  }
+});
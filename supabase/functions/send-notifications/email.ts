@@ -0,0 +1,160 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendEmail } from '../_shared/email/mailer.ts';
+import {
+  formatPrice,
+  hslToHex,
+  renderBody,
+  renderItemsTable,
+  renderLayout,
+  renderSubject,
+  renderTrackingDetails,
+  type EmailBranding,
+  type OrderEmailItem,
+  type OrderEmailShipment,
+} from '../_shared/email/render.ts';
+
+interface OutboxRow {
+  id: string;
+  store_id: string;
+  order_id: string | null;
+  event: string;
+  recipient: string;
+  to_email: string;
+  /** Set for shipment notifications */
+  shipment_id: string | null;
+}
+
+interface StoreEmailData {
+  branding: EmailBranding;
+  replyTo: string | null;
+  templates: Map<string, { subject: string; body: string }>;
+}
+
+const PAYMENT_METHOD_NAMES: Record<string, string> = {
+  cod: 'Cash on Delivery',
+  esewa: 'eSewa',
+  khalti: 'Khalti',
+  stripe: 'Card',
+  mock: 'Test Payment',
+};
+
+async function loadStoreEmailData(supabase: SupabaseClient, storeId: string): Promise<StoreEmailData> {
+  const [{ data: store }, { data: theme }, { data: templates }] = await Promise.all([
+    supabase.from('stores').select('name, logo_url, email').eq('id', storeId).single(),
+    supabase.from('store_themes').select('colors').eq('store_id', storeId).eq('is_active', true).maybeSingle(),
+    supabase.from('email_templates').select('event, recipient, subject, body').eq('store_id', storeId),
+  ]);
+
+  const colors = (theme?.colors ?? {}) as Record<string, string>;
+
+  return {
+    branding: {
+      storeName: store?.name ?? '',
+      logoUrl: store?.logo_url ?? null,
+      primaryColor: hslToHex(colors.primary),
+    },
+    replyTo: store?.email || null,
+    templates: new Map(
+      (templates ?? []).map((t) => [`${t.event}:${t.recipient}`, { subject: t.subject, body: t.body }])
+    ),
+  };
+}
+
+async function renderEmail(supabase: SupabaseClient, row: OutboxRow, store: StoreEmailData) {
+  const template = store.templates.get(`${row.event}:${row.recipient}`);
+  if (!template) throw new Error('Template not found');
+  if (!row.order_id) throw new Error('Order no longer exists');
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('order_number, total, payment_method, shipping_address, customers(full_name, email, phone), order_items(product_name, variant_name, quantity, total_price), shipments(id, carrier, tracking_number, tracking_url, created_at)')
+    .eq('id', row.order_id)
+    .single();
+
+  if (error) throw error;
+
+  const customer = order.customers as unknown as { full_name: string | null; email: string; phone: string | null } | null;
+  const address = order.shipping_address as { full_name?: string; address?: string; city?: string; phone?: string } | null;
+  const allShipments = ((order.shipments ?? []) as (OrderEmailShipment & { id: string; created_at: string })[]).sort(
+    (a, b) => a.created_at.localeCompare(b.created_at)
+  );
+  // A shipment notification is about that package only
+  const shipments = row.shipment_id ? allShipments.filter((s) => s.id === row.shipment_id) : allShipments;
+  const latestShipment = shipments[shipments.length - 1];
+
+  const variables: Record<string, string> = {
+    store_name: store.branding.storeName,
+    order_number: order.order_number,
+    order_total: formatPrice(order.total),
+    payment_method: PAYMENT_METHOD_NAMES[order.payment_method] ?? order.payment_method,
+    customer_name: customer?.full_name || address?.full_name || 'there',
+    customer_email: customer?.email ?? '',
+    customer_phone: customer?.phone || address?.phone || '',
+    shipping_address: [address?.full_name, address?.address, address?.city, address?.phone]
+      .filter(Boolean)
+      .join('\n'),
+    carrier: latestShipment?.carrier ?? '',
+    tracking_number: latestShipment?.tracking_number ?? '',
+    tracking_url: latestShipment?.tracking_url ?? '',
+  };
+
+  const items = (order.order_items ?? []) as OrderEmailItem[];
+
+  return {
+    subject: renderSubject(template.subject, variables),
+    html: renderLayout(
+      renderBody(template.body, variables, {
+        order_items: renderItemsTable(items),
+        tracking_details: renderTrackingDetails(shipments),
+      }),
+      store.branding
+    ),
+  };
+}
+
+/**
+ * Send queued emails. Returns how many were sent and failed.
+ */
+export async function sendQueuedEmails(supabase: SupabaseClient) {
+  const { data: rows, error } = await supabase.rpc('claim_email_outbox', { p_limit: 20 });
+  if (error) throw error;
+
+  const stores = new Map<string, StoreEmailData>();
+  let sent = 0;
+  let failed = 0;
+
+  for (const row of (rows ?? []) as OutboxRow[]) {
+    try {
+      if (!stores.has(row.store_id)) {
+        stores.set(row.store_id, await loadStoreEmailData(supabase, row.store_id));
+      }
+      const store = stores.get(row.store_id)!;
+
+      const { subject, html } = await renderEmail(supabase, row, store);
+
+      await sendEmail({
+        to: row.to_email,
+        subject,
+        html,
+        fromName: store.branding.storeName,
+        // Customer replies go to the store; merchant emails need no reply-to
+        replyTo: row.recipient === 'customer' ? store.replyTo ?? undefined : undefined,
+      });
+
+      await supabase
+        .from('email_outbox')
+        .update({ status: 'sent', subject, html, sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', row.id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending email ${row.id}:`, sendError);
+      await supabase
+        .from('email_outbox')
+        .update({ status: 'failed', last_error: (sendError as Error).message })
+        .eq('id', row.id);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * SEND NOTIFICATIONS
+ * ============================================================================
+ *
+ * POST {}
+ *
+ * Drains the notification outboxes:
+ * - email_outbox: renders each store's email template with its order and
+ *   branding and sends it (email.ts)
+ * - sms_outbox: renders the sms_notifications templates and sends them
+ *   through the store's SMS gateway, logging every attempt (sms.ts)
+ *
+ * Rows are claimed with claim_email_outbox() / claim_sms_outbox(); failed
+ * sends are retried on later runs (up to 3 attempts).
+ *
+ * Invoked after checkout and order status changes, and can be scheduled
+ * (e.g. every minute with pg_cron) to pick up retries. Safe to run
+ * concurrently.
+ *
+ * Returns { email: { sent, failed }, sms: { sent, failed } }.
+ *
+ * ============================================================================
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { sendQueuedEmails } from './email.ts';
+import { sendQueuedSms } from './sms.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const email = await sendQueuedEmails(supabase);
+    const sms = await sendQueuedSms(supabase);
+
+    return jsonResponse({ email, sms });
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    return jsonResponse({ error: (error as Error).message || 'Failed to send notifications' }, 500);
+  }
+});
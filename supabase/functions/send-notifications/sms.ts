@@ -0,0 +1,138 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatPrice } from '../_shared/email/render.ts';
+import {
+  DEFAULT_SMS_TEMPLATES,
+  getSmsGateway,
+  normalizeNepalPhone,
+  renderSms,
+  type SmsResult,
+} from '../_shared/sms/index.ts';
+
+interface SmsOutboxRow {
+  id: string;
+  store_id: string;
+  order_id: string | null;
+  event: string;
+  to_phone: string;
+  /** Set for shipment notifications */
+  shipment_id: string | null;
+}
+
+interface StoreSmsData {
+  storeName: string;
+  /** sms_notifications config, or null when the extension was turned off */
+  config: Record<string, string> | null;
+}
+
+async function loadStoreSmsData(supabase: SupabaseClient, storeId: string): Promise<StoreSmsData> {
+  const [{ data: store }, { data: extension }] = await Promise.all([
+    supabase.from('stores').select('name').eq('id', storeId).single(),
+    supabase
+      .from('store_extensions')
+      .select('config, is_enabled')
+      .eq('store_id', storeId)
+      .eq('extension_id', 'sms_notifications')
+      .maybeSingle(),
+  ]);
+
+  return {
+    storeName: store?.name ?? '',
+    config: extension?.is_enabled ? ((extension.config as Record<string, string>) ?? {}) : null,
+  };
+}
+
+async function renderMessage(supabase: SupabaseClient, row: SmsOutboxRow, store: StoreSmsData) {
+  if (!row.order_id) throw new Error('Order no longer exists');
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('order_number, total, shipping_address, customers(full_name), shipments(id, tracking_number, tracking_url, created_at)')
+    .eq('id', row.order_id)
+    .single();
+
+  if (error) throw error;
+
+  const customer = order.customers as unknown as { full_name: string | null } | null;
+  const address = order.shipping_address as { full_name?: string } | null;
+  const shipments = (order.shipments ?? []) as { id: string; tracking_number: string | null; tracking_url: string | null; created_at: string }[];
+  const latestShipment = row.shipment_id
+    ? shipments.find((s) => s.id === row.shipment_id)
+    : shipments.sort((a, b) => a.created_at.localeCompare(b.created_at))[shipments.length - 1];
+  const template = store.config?.[`template_${row.event}`]?.trim() || DEFAULT_SMS_TEMPLATES[row.event];
+
+  return renderSms(template, {
+    store_name: store.storeName,
+    order_number: order.order_number,
+    order_total: formatPrice(order.total),
+    customer_name: customer?.full_name || address?.full_name || '',
+    tracking_number: latestShipment?.tracking_number ?? '',
+    tracking_url: latestShipment?.tracking_url ?? '',
+  });
+}
+
+/**
+ * Send queued SMS through each store's gateway, logging every attempt in
+ * sms_attempts. Returns how many were sent and failed.
+ */
+export async function sendQueuedSms(supabase: SupabaseClient) {
+  const { data: rows, error } = await supabase.rpc('claim_sms_outbox', { p_limit: 20 });
+  if (error) throw error;
+
+  const stores = new Map<string, StoreSmsData>();
+  let sent = 0;
+  let failed = 0;
+
+  for (const row of (rows ?? []) as SmsOutboxRow[]) {
+    let gatewayId = 'unknown';
+    let text = '';
+    let result: SmsResult;
+
+    try {
+      if (!stores.has(row.store_id)) {
+        stores.set(row.store_id, await loadStoreSmsData(supabase, row.store_id));
+      }
+      const store = stores.get(row.store_id)!;
+
+      if (!store.config) throw new Error('SMS notifications are turned off');
+
+      const gateway = getSmsGateway(store.config);
+      gatewayId = gateway.id;
+
+      const to = normalizeNepalPhone(row.to_phone);
+      if (!to) throw new Error(`"${row.to_phone}" is not a valid mobile number`);
+
+      text = await renderMessage(supabase, row, store);
+      result = await gateway.send({ to, text }, store.config);
+    } catch (sendError) {
+      result = { success: false, error: (sendError as Error).message };
+    }
+
+    await supabase.from('sms_attempts').insert({
+      store_id: row.store_id,
+      sms_id: row.id,
+      gateway: gatewayId,
+      to_phone: row.to_phone,
+      message: text,
+      success: result.success,
+      error: result.error ?? null,
+      response: result.response ?? null,
+    });
+
+    if (result.success) {
+      await supabase
+        .from('sms_outbox')
+        .update({ status: 'sent', message: text, sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', row.id);
+      sent++;
+    } else {
+      console.error(`Error sending SMS ${row.id}:`, result.error);
+      await supabase
+        .from('sms_outbox')
+        .update({ status: 'failed', message: text || null, last_error: result.error ?? 'Unknown error' })
+        .eq('id', row.id);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,148 @@
+-- ============================================================================
+-- DISCOUNT CODE REDEMPTION
+-- ============================================================================
+-- Discount codes are validated and redeemed entirely in the database:
+-- - validate_discount_code() lets the storefront preview a code's discount
+-- - A BEFORE INSERT trigger on orders re-validates the code, locks the
+--   discount row, fills in discount_amount/total and increments used_count
+--   in the same transaction that creates the order.
+-- ============================================================================
+
+-- STEP 1: Record which code was used on each order
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS discount_code_id UUID REFERENCES public.discount_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_code TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_discount_code_id ON public.orders(discount_code_id);
+
+-- STEP 2: Rule checks shared by preview and redemption
+-- Returns the discount amount for the given subtotal, or raises an error
+-- whose message is safe to show to shoppers.
+CREATE OR REPLACE FUNCTION public.calculate_discount_amount(
+  _discount public.discount_codes,
+  _subtotal NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_amount NUMERIC;
+BEGIN
+  IF NOT COALESCE(_discount.is_active, false) THEN
+    RAISE EXCEPTION 'Discount code "%" is not valid', _discount.code;
+  END IF;
+
+  IF _discount.starts_at IS NOT NULL AND _discount.starts_at > now() THEN
+    RAISE EXCEPTION 'Discount code "%" is not active yet', _discount.code;
+  END IF;
+
+  IF _discount.expires_at IS NOT NULL AND _discount.expires_at <= now() THEN
+    RAISE EXCEPTION 'Discount code "%" has expired', _discount.code;
+  END IF;
+
+  IF _discount.max_uses IS NOT NULL AND COALESCE(_discount.used_count, 0) >= _discount.max_uses THEN
+    RAISE EXCEPTION 'Discount code "%" has reached its usage limit', _discount.code;
+  END IF;
+
+  IF _discount.minimum_amount IS NOT NULL AND COALESCE(_subtotal, 0) < _discount.minimum_amount THEN
+    RAISE EXCEPTION 'Discount code "%" requires a minimum order of रु %',
+      _discount.code, to_char(_discount.minimum_amount, 'FM999G999G990');
+  END IF;
+
+  IF _discount.discount_type = 'percentage' THEN
+    v_amount := round(COALESCE(_subtotal, 0) * LEAST(_discount.discount_value, 100) / 100, 2);
+  ELSE
+    v_amount := _discount.discount_value;
+  END IF;
+
+  -- Never discount more than the order subtotal
+  RETURN GREATEST(LEAST(v_amount, COALESCE(_subtotal, 0)), 0);
+END;
+$$;
+
+-- STEP 3: Public preview for cart and checkout (does not redeem the code)
+CREATE OR REPLACE FUNCTION public.validate_discount_code(
+  p_store_id UUID,
+  p_code TEXT,
+  p_subtotal NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_discount public.discount_codes;
+BEGIN
+  SELECT * INTO v_discount
+  FROM public.discount_codes
+  WHERE store_id = p_store_id
+    AND code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code "%" is not valid', upper(trim(p_code));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code', v_discount.code,
+    'discount_type', v_discount.discount_type,
+    'discount_value', v_discount.discount_value,
+    'discount_amount', public.calculate_discount_amount(v_discount, p_subtotal)
+  );
+END;
+$$;
+
+-- STEP 4: Redeem the code while the order row is being inserted
+CREATE OR REPLACE FUNCTION public.apply_order_discount_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_discount public.discount_codes;
+  v_amount NUMERIC;
+BEGIN
+  IF NEW.discount_code IS NULL OR trim(NEW.discount_code) = '' THEN
+    NEW.discount_code := NULL;
+    NEW.discount_code_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Lock the code so concurrent checkouts cannot exceed max_uses
+  SELECT * INTO v_discount
+  FROM public.discount_codes
+  WHERE store_id = NEW.store_id
+    AND code = upper(trim(NEW.discount_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code "%" is not valid', upper(trim(NEW.discount_code));
+  END IF;
+
+  v_amount := public.calculate_discount_amount(v_discount, NEW.subtotal);
+
+  UPDATE public.discount_codes
+  SET used_count = COALESCE(used_count, 0) + 1
+  WHERE id = v_discount.id;
+
+  NEW.discount_code_id := v_discount.id;
+  NEW.discount_code := v_discount.code;
+  NEW.discount_amount := v_amount;
+  NEW.total := NEW.subtotal - v_amount
+    + COALESCE(NEW.shipping_amount, 0)
+    + COALESCE(NEW.tax_amount, 0);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_order_discount_code ON public.orders;
+
+CREATE TRIGGER trigger_apply_order_discount_code
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_order_discount_code();
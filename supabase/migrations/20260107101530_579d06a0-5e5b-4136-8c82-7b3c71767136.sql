@@ -0,0 +1,272 @@
+-- ============================================================================
+-- ATOMIC ORDER PLACEMENT
+-- ============================================================================
+-- place_order() replaces the client-side multi-insert checkout. Everything
+-- runs in one transaction, so a failure at any step rolls back the whole
+-- order (no orphaned orders, customers or order items):
+--   1. Re-price every line from products / product_variants
+--   2. Recompute shipping from store_shipping_settings
+--   3. Upsert the customer (unique per store + email)
+--   4. Insert the order (discount trigger redeems any discount code)
+--   5. Insert order items
+--   6. Increment customer totals
+-- ============================================================================
+
+-- STEP 1: Order number generator (ORD-YYMMDD-XXXXXX, unique per store)
+CREATE OR REPLACE FUNCTION public.generate_order_number(p_store_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  v_order_number TEXT;
+BEGIN
+  LOOP
+    v_order_number := 'ORD-' || to_char(now(), 'YYMMDD') || '-'
+      || upper(substr(md5(random()::text || clock_timestamp()::text), 1, 6));
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE store_id = p_store_id AND order_number = v_order_number
+    );
+  END LOOP;
+
+  RETURN v_order_number;
+END;
+$$;
+
+-- STEP 2: Shipping calculation (mirrors the checkout preview)
+CREATE OR REPLACE FUNCTION public.calculate_shipping_amount(
+  p_store_id UUID,
+  p_city TEXT,
+  p_subtotal NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.store_shipping_settings;
+  v_zone JSONB;
+  v_city JSONB;
+BEGIN
+  SELECT * INTO v_settings
+  FROM public.store_shipping_settings
+  WHERE store_id = p_store_id;
+
+  IF NOT FOUND OR NOT COALESCE(v_settings.enable_shipping, true) THEN
+    RETURN 0;
+  END IF;
+
+  IF v_settings.free_shipping_threshold IS NOT NULL
+     AND v_settings.free_shipping_threshold > 0
+     AND p_subtotal >= v_settings.free_shipping_threshold THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_zone IN SELECT * FROM jsonb_array_elements(COALESCE(v_settings.shipping_zones, '[]'::jsonb))
+  LOOP
+    FOR v_city IN SELECT * FROM jsonb_array_elements(COALESCE(v_zone->'cities', '[]'::jsonb))
+    LOOP
+      IF lower(trim(v_city #>> '{}')) = lower(trim(COALESCE(p_city, ''))) THEN
+        RETURN COALESCE((v_zone->>'rate')::NUMERIC, 0);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN COALESCE(v_settings.default_shipping_rate, 0);
+END;
+$$;
+
+-- STEP 3: Place order
+-- p_customer: { email, full_name, phone, address, city }
+-- p_items:    [{ product_id, variant_id, quantity }]
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_store_id UUID,
+  p_customer JSONB,
+  p_items JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_discount_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_product public.products;
+  v_variant public.product_variants;
+  v_lines JSONB := '[]'::jsonb;
+  v_line JSONB;
+  v_subtotal NUMERIC := 0;
+  v_shipping NUMERIC;
+  v_email TEXT;
+  v_address JSONB;
+  v_customer_id UUID;
+  v_order public.orders;
+BEGIN
+  -- Store must exist and be open for business
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = p_store_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  v_email := trim(p_customer->>'email');
+  IF COALESCE(v_email, '') = ''
+     OR COALESCE(trim(p_customer->>'full_name'), '') = ''
+     OR COALESCE(trim(p_customer->>'phone'), '') = ''
+     OR COALESCE(trim(p_customer->>'address'), '') = ''
+     OR COALESCE(trim(p_customer->>'city'), '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Re-price every line from the catalog (never trust client prices)
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity in cart';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE id = (v_item->>'product_id')::UUID
+      AND store_id = p_store_id
+      AND status = 'active';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    v_variant := NULL;
+    IF v_item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM public.product_variants
+      WHERE id = (v_item->>'variant_id')::UUID
+        AND product_id = v_product.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected option for "%" is no longer available', v_product.name;
+      END IF;
+    END IF;
+
+    v_line := jsonb_build_object(
+      'product_id', v_product.id,
+      'variant_id', v_variant.id,
+      'product_name', v_product.name,
+      'variant_name', v_variant.name,
+      'sku', COALESCE(v_variant.sku, v_product.sku),
+      'quantity', v_quantity,
+      'unit_price', COALESCE(v_variant.price, v_product.price)
+    );
+
+    v_lines := v_lines || jsonb_build_array(v_line);
+    v_subtotal := v_subtotal + COALESCE(v_variant.price, v_product.price) * v_quantity;
+  END LOOP;
+
+  v_shipping := public.calculate_shipping_amount(p_store_id, p_customer->>'city', v_subtotal);
+
+  -- Upsert customer
+  INSERT INTO public.customers (store_id, email, full_name, phone, address, city)
+  VALUES (
+    p_store_id,
+    v_email,
+    trim(p_customer->>'full_name'),
+    trim(p_customer->>'phone'),
+    trim(p_customer->>'address'),
+    trim(p_customer->>'city')
+  )
+  ON CONFLICT (store_id, email) DO UPDATE SET
+    full_name = EXCLUDED.full_name,
+    phone = EXCLUDED.phone,
+    address = EXCLUDED.address,
+    city = EXCLUDED.city
+  RETURNING id INTO v_customer_id;
+
+  v_address := jsonb_build_object(
+    'full_name', trim(p_customer->>'full_name'),
+    'address', trim(p_customer->>'address'),
+    'city', trim(p_customer->>'city'),
+    'phone', trim(p_customer->>'phone')
+  );
+
+  -- Insert order (trigger_apply_order_discount_code redeems the code and
+  -- adjusts discount_amount / total)
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    order_number,
+    status,
+    subtotal,
+    shipping_amount,
+    total,
+    shipping_address,
+    billing_address,
+    notes,
+    discount_code
+  )
+  VALUES (
+    p_store_id,
+    v_customer_id,
+    public.generate_order_number(p_store_id),
+    'pending',
+    v_subtotal,
+    v_shipping,
+    v_subtotal + v_shipping,
+    v_address,
+    v_address,
+    NULLIF(trim(p_notes), ''),
+    NULLIF(trim(p_discount_code), '')
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    variant_id,
+    product_name,
+    variant_name,
+    sku,
+    quantity,
+    unit_price,
+    total_price
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::UUID,
+    (line->>'variant_id')::UUID,
+    line->>'product_name',
+    line->>'variant_name',
+    line->>'sku',
+    (line->>'quantity')::INTEGER,
+    (line->>'unit_price')::NUMERIC,
+    (line->>'unit_price')::NUMERIC * (line->>'quantity')::INTEGER
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  UPDATE public.customers
+  SET
+    total_orders = COALESCE(total_orders, 0) + 1,
+    total_spent = COALESCE(total_spent, 0) + v_order.total
+  WHERE id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'order_number', v_order.order_number,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'shipping_amount', v_order.shipping_amount,
+    'total', v_order.total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, JSONB, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_shipping_amount(UUID, TEXT, NUMERIC) TO anon, authenticated;
@@ -0,0 +1,161 @@
+-- ============================================================================
+-- INVENTORY RESERVATION
+-- ============================================================================
+-- Stock is checked and decremented when order items are inserted, and
+-- restored when an order moves to cancelled or refunded.
+--
+-- - products.allow_backorders lets a tracked product sell below zero
+-- - order_items.inventory_reserved records whether stock was taken for a
+--   line, so restocking never gives back stock that was never deducted
+-- - Because place_order() inserts items inside its transaction, a stock
+--   error aborts the whole order
+-- ============================================================================
+
+-- STEP 1: New columns
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS allow_backorders BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS inventory_reserved BOOLEAN NOT NULL DEFAULT false;
+
+-- STEP 2: Stock adjustment helper
+-- Applies p_delta to the variant (if given) or the product. Returns false
+-- when the product does not track inventory, true otherwise.
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_delta INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = p_product_id AND COALESCE(track_inventory, true)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE public.product_variants
+    SET stock_quantity = stock_quantity + p_delta
+    WHERE id = p_variant_id;
+  ELSE
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + p_delta
+    WHERE id = p_product_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Internal only: stock must never be adjusted directly by API clients
+REVOKE EXECUTE ON FUNCTION public.adjust_stock(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- STEP 3: Reserve stock when an order item is created
+CREATE OR REPLACE FUNCTION public.reserve_order_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_available INTEGER;
+  v_label TEXT;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the product row so concurrent orders see each other's decrements
+  SELECT * INTO v_product
+  FROM public.products
+  WHERE id = NEW.product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(v_product.track_inventory, true) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.variant_id IS NOT NULL THEN
+    SELECT stock_quantity INTO v_available
+    FROM public.product_variants
+    WHERE id = NEW.variant_id
+    FOR UPDATE;
+  ELSE
+    v_available := v_product.stock_quantity;
+  END IF;
+
+  IF NOT v_product.allow_backorders AND COALESCE(v_available, 0) < NEW.quantity THEN
+    v_label := NEW.product_name || COALESCE(' (' || NEW.variant_name || ')', '');
+
+    IF COALESCE(v_available, 0) <= 0 THEN
+      RAISE EXCEPTION '"%" is out of stock', v_label;
+    ELSE
+      RAISE EXCEPTION 'Only % left of "%"', v_available, v_label;
+    END IF;
+  END IF;
+
+  PERFORM public.adjust_stock(NEW.product_id, NEW.variant_id, -NEW.quantity);
+  NEW.inventory_reserved := true;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_reserve_order_item_stock ON public.order_items;
+
+CREATE TRIGGER trigger_reserve_order_item_stock
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reserve_order_item_stock();
+
+-- STEP 4: Restore stock on cancellation / refund
+-- Moving an order back out of cancelled/refunded takes the stock again
+-- (without the availability check - the merchant is overriding).
+CREATE OR REPLACE FUNCTION public.sync_order_stock_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.order_items;
+  v_was_closed BOOLEAN := OLD.status IN ('cancelled', 'refunded');
+  v_is_closed BOOLEAN := NEW.status IN ('cancelled', 'refunded');
+BEGIN
+  IF v_is_closed AND NOT v_was_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND inventory_reserved
+    LOOP
+      PERFORM public.adjust_stock(v_item.product_id, v_item.variant_id, v_item.quantity);
+      UPDATE public.order_items SET inventory_reserved = false WHERE id = v_item.id;
+    END LOOP;
+  ELSIF v_was_closed AND NOT v_is_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND NOT inventory_reserved AND product_id IS NOT NULL
+    LOOP
+      IF public.adjust_stock(v_item.product_id, v_item.variant_id, -v_item.quantity) THEN
+        UPDATE public.order_items SET inventory_reserved = true WHERE id = v_item.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_order_stock ON public.orders;
+
+CREATE TRIGGER trigger_sync_order_stock
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.sync_order_stock_on_status_change();
@@ -0,0 +1,395 @@
+-- ============================================================================
+-- INVENTORY MOVEMENT LEDGER
+-- ============================================================================
+-- Every change to products.stock_quantity or product_variants.stock_quantity
+-- is recorded in inventory_movements with a reason, the resulting quantity
+-- and who made it.
+--
+-- - Row triggers on products / product_variants write the ledger, so no
+--   code path (dashboard edits, orders, restocks) can change stock silently
+-- - Callers describe a change by setting transaction-local settings before
+--   updating stock (see apply_inventory_movement); plain updates are
+--   recorded as manual adjustments
+-- - Existing stock is opened with an 'initial' movement so that, per
+--   product/variant, SUM(quantity_change) = stock_quantity
+-- - get_inventory_discrepancies() reports rows where that no longer holds
+-- ============================================================================
+
+-- STEP 1: Movement reasons
+CREATE TYPE public.inventory_movement_reason AS ENUM (
+  'initial',
+  'manual_adjustment',
+  'sale',
+  'cancellation_restock',
+  'return',
+  'import'
+);
+
+-- STEP 2: Ledger table
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  reason public.inventory_movement_reason NOT NULL,
+  quantity_change INTEGER NOT NULL,
+  quantity_after INTEGER NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_movements_product ON public.inventory_movements(product_id, created_at DESC);
+CREATE INDEX idx_inventory_movements_store ON public.inventory_movements(store_id, created_at DESC);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for store members: rows are only written by the triggers below
+CREATE POLICY "Store members can view inventory movements"
+  ON public.inventory_movements FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+-- STEP 3: Ledger triggers
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID;
+  v_variant_id UUID;
+  v_store_id UUID;
+  v_change INTEGER;
+  v_reason public.inventory_movement_reason;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_change := NEW.stock_quantity;
+  ELSE
+    v_change := NEW.stock_quantity - OLD.stock_quantity;
+  END IF;
+
+  IF COALESCE(v_change, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    v_product_id := NEW.product_id;
+    v_variant_id := NEW.id;
+    SELECT store_id INTO v_store_id FROM public.products WHERE id = NEW.product_id;
+  ELSE
+    v_product_id := NEW.id;
+    v_store_id := NEW.store_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_reason := 'initial';
+  ELSE
+    v_reason := COALESCE(
+      NULLIF(current_setting('inventory.reason', true), '')::public.inventory_movement_reason,
+      'manual_adjustment'
+    );
+  END IF;
+
+  INSERT INTO public.inventory_movements (
+    store_id, product_id, variant_id, reason, quantity_change, quantity_after,
+    order_id, note, created_by
+  )
+  VALUES (
+    v_store_id,
+    v_product_id,
+    v_variant_id,
+    v_reason,
+    v_change,
+    NEW.stock_quantity,
+    NULLIF(current_setting('inventory.order_id', true), '')::UUID,
+    NULLIF(current_setting('inventory.note', true), ''),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_record_product_inventory_movement
+  AFTER INSERT OR UPDATE OF stock_quantity ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_inventory_movement();
+
+CREATE TRIGGER trigger_record_variant_inventory_movement
+  AFTER INSERT OR UPDATE OF stock_quantity ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_inventory_movement();
+
+-- STEP 4: Open the ledger with current stock
+INSERT INTO public.inventory_movements (store_id, product_id, reason, quantity_change, quantity_after, note)
+SELECT store_id, id, 'initial', stock_quantity, stock_quantity, 'Opening balance'
+FROM public.products
+WHERE stock_quantity <> 0;
+
+INSERT INTO public.inventory_movements (store_id, product_id, variant_id, reason, quantity_change, quantity_after, note)
+SELECT p.store_id, v.product_id, v.id, 'initial', v.stock_quantity, v.stock_quantity, 'Opening balance'
+FROM public.product_variants v
+JOIN public.products p ON p.id = v.product_id
+WHERE v.stock_quantity <> 0;
+
+-- STEP 5: Stock change helpers
+-- apply_inventory_movement() changes stock unconditionally and tags the
+-- ledger row; adjust_stock() keeps its "only when tracked" behaviour for
+-- order flows.
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_delta INTEGER,
+  p_reason public.inventory_movement_reason,
+  p_order_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quantity INTEGER;
+BEGIN
+  PERFORM set_config('inventory.reason', p_reason::TEXT, true);
+  PERFORM set_config('inventory.order_id', COALESCE(p_order_id::TEXT, ''), true);
+  PERFORM set_config('inventory.note', COALESCE(p_note, ''), true);
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE public.product_variants
+    SET stock_quantity = stock_quantity + p_delta
+    WHERE id = p_variant_id AND product_id = p_product_id
+    RETURNING stock_quantity INTO v_quantity;
+  ELSE
+    UPDATE public.products
+    SET stock_quantity = stock_quantity + p_delta
+    WHERE id = p_product_id
+    RETURNING stock_quantity INTO v_quantity;
+  END IF;
+
+  -- Later updates in the same transaction must not inherit this context
+  PERFORM set_config('inventory.reason', '', true);
+  PERFORM set_config('inventory.order_id', '', true);
+  PERFORM set_config('inventory.note', '', true);
+
+  RETURN v_quantity;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_inventory_movement(UUID, UUID, INTEGER, public.inventory_movement_reason, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.adjust_stock(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_delta INTEGER,
+  p_reason public.inventory_movement_reason DEFAULT 'manual_adjustment',
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = p_product_id AND COALESCE(track_inventory, true)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.apply_inventory_movement(p_product_id, p_variant_id, p_delta, p_reason, p_order_id);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_stock(UUID, UUID, INTEGER, public.inventory_movement_reason, UUID) FROM PUBLIC, anon, authenticated;
+
+-- STEP 6: Tag order stock movements
+CREATE OR REPLACE FUNCTION public.reserve_order_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_available INTEGER;
+  v_label TEXT;
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the product row so concurrent orders see each other's decrements
+  SELECT * INTO v_product
+  FROM public.products
+  WHERE id = NEW.product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(v_product.track_inventory, true) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.variant_id IS NOT NULL THEN
+    SELECT stock_quantity INTO v_available
+    FROM public.product_variants
+    WHERE id = NEW.variant_id
+    FOR UPDATE;
+  ELSE
+    v_available := v_product.stock_quantity;
+  END IF;
+
+  IF NOT v_product.allow_backorders AND COALESCE(v_available, 0) < NEW.quantity THEN
+    v_label := NEW.product_name || COALESCE(' (' || NEW.variant_name || ')', '');
+
+    IF COALESCE(v_available, 0) <= 0 THEN
+      RAISE EXCEPTION '"%" is out of stock', v_label;
+    ELSE
+      RAISE EXCEPTION 'Only % left of "%"', v_available, v_label;
+    END IF;
+  END IF;
+
+  PERFORM public.adjust_stock(NEW.product_id, NEW.variant_id, -NEW.quantity, 'sale', NEW.order_id);
+  NEW.inventory_reserved := true;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_order_stock_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.order_items;
+  v_was_closed BOOLEAN := OLD.status IN ('cancelled', 'refunded');
+  v_is_closed BOOLEAN := NEW.status IN ('cancelled', 'refunded');
+BEGIN
+  IF v_is_closed AND NOT v_was_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND inventory_reserved
+    LOOP
+      PERFORM public.adjust_stock(
+        v_item.product_id, v_item.variant_id, v_item.quantity, 'cancellation_restock', NEW.id
+      );
+      UPDATE public.order_items SET inventory_reserved = false WHERE id = v_item.id;
+    END LOOP;
+  ELSIF v_was_closed AND NOT v_is_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND NOT inventory_reserved AND product_id IS NOT NULL
+    LOOP
+      IF public.adjust_stock(v_item.product_id, v_item.variant_id, -v_item.quantity, 'sale', NEW.id) THEN
+        UPDATE public.order_items SET inventory_reserved = true WHERE id = v_item.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- STEP 7: Manual adjustments from the dashboard
+-- Returns the new stock quantity. Sales and restocks are recorded by the
+-- order triggers and cannot be entered by hand.
+CREATE OR REPLACE FUNCTION public.adjust_inventory(
+  p_product_id UUID,
+  p_quantity_change INTEGER,
+  p_variant_id UUID DEFAULT NULL,
+  p_reason public.inventory_movement_reason DEFAULT 'manual_adjustment',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_store_id UUID;
+  v_quantity INTEGER;
+BEGIN
+  SELECT store_id INTO v_store_id FROM public.products WHERE id = p_product_id;
+
+  IF v_store_id IS NULL OR NOT public.can_access_store(auth.uid(), v_store_id) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_reason NOT IN ('manual_adjustment', 'return', 'import') THEN
+    RAISE EXCEPTION 'Sales and order restocks are recorded automatically';
+  END IF;
+
+  IF COALESCE(p_quantity_change, 0) = 0 THEN
+    RAISE EXCEPTION 'Quantity change cannot be zero';
+  END IF;
+
+  v_quantity := public.apply_inventory_movement(
+    p_product_id, p_variant_id, p_quantity_change, p_reason, NULL, NULLIF(trim(p_note), '')
+  );
+
+  IF v_quantity IS NULL THEN
+    RAISE EXCEPTION 'Variant not found';
+  END IF;
+
+  RETURN v_quantity;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_inventory(UUID, INTEGER, UUID, public.inventory_movement_reason, TEXT) TO authenticated;
+
+-- STEP 8: Reconciliation
+-- Products/variants whose stock no longer matches the ledger balance
+-- (e.g. after the triggers were bypassed by a bulk SQL fix).
+CREATE OR REPLACE FUNCTION public.get_inventory_discrepancies(p_store_id UUID)
+RETURNS TABLE (
+  product_id UUID,
+  variant_id UUID,
+  stock_quantity INTEGER,
+  ledger_quantity INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_store(auth.uid(), p_store_id) THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  RETURN QUERY
+  WITH stock AS (
+    SELECT p.id AS product_id, NULL::UUID AS variant_id, p.stock_quantity
+    FROM public.products p
+    WHERE p.store_id = p_store_id
+    UNION ALL
+    SELECT v.product_id, v.id, v.stock_quantity
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    WHERE p.store_id = p_store_id
+  ),
+  ledger AS (
+    SELECT m.product_id, m.variant_id, SUM(m.quantity_change)::INTEGER AS quantity
+    FROM public.inventory_movements m
+    WHERE m.store_id = p_store_id
+    GROUP BY m.product_id, m.variant_id
+  )
+  SELECT s.product_id, s.variant_id, s.stock_quantity, COALESCE(l.quantity, 0)
+  FROM stock s
+  LEFT JOIN ledger l
+    ON l.product_id = s.product_id
+   AND l.variant_id IS NOT DISTINCT FROM s.variant_id
+  WHERE s.stock_quantity <> COALESCE(l.quantity, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_inventory_discrepancies(UUID) TO authenticated;
@@ -0,0 +1,386 @@
+-- ============================================================================
+-- PAYMENTS
+-- ============================================================================
+-- Orders are now paid through a payment provider chosen at checkout.
+--
+-- - Providers are enabled per store as extensions named payment_<provider>
+--   (payment_cod, payment_esewa, payment_khalti, payment_stripe,
+--   payment_mock); credentials live in store_extensions.config and are
+--   only read by the payment edge functions
+-- - place_order() takes the chosen provider and creates a pending payment
+--   in the same transaction as the order
+-- - The payment-initiate / payment-verify edge functions talk to the
+--   provider and report the outcome through complete_payment()
+-- - Cash on delivery stays available when a store has not enabled any
+--   payment extension
+-- ============================================================================
+
+-- STEP 1: Payment status
+CREATE TYPE public.payment_status AS ENUM ('pending', 'paid', 'failed', 'refunded');
+
+-- STEP 2: Order payment columns
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'cod',
+  ADD COLUMN IF NOT EXISTS payment_status public.payment_status NOT NULL DEFAULT 'pending';
+
+-- STEP 3: Payments table (one row per payment attempt)
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  status public.payment_status NOT NULL DEFAULT 'pending',
+  amount DECIMAL(12, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'NPR',
+  provider_reference TEXT,
+  provider_response JSONB,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+CREATE INDEX idx_payments_store_id ON public.payments(store_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written by place_order() and the payment edge functions
+CREATE POLICY "Store members can view payments"
+  ON public.payments FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 4: Payment methods offered at checkout
+-- Returns the enabled providers without exposing their credentials.
+CREATE OR REPLACE FUNCTION public.get_store_payment_methods(p_store_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_methods TEXT[];
+BEGIN
+  SELECT array_agg(substr(extension_id, length('payment_') + 1) ORDER BY extension_id)
+  INTO v_methods
+  FROM public.store_extensions
+  WHERE store_id = p_store_id
+    AND extension_id LIKE 'payment\_%'
+    AND is_enabled;
+
+  RETURN COALESCE(v_methods, ARRAY['cod']);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_store_payment_methods(UUID) TO anon, authenticated;
+
+-- STEP 5: Place order with a payment method
+DROP FUNCTION IF EXISTS public.place_order(UUID, JSONB, JSONB, TEXT, TEXT);
+
+-- p_customer: { email, full_name, phone, address, city }
+-- p_items:    [{ product_id, variant_id, quantity }]
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_store_id UUID,
+  p_customer JSONB,
+  p_items JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_discount_code TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cod'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_product public.products;
+  v_variant public.product_variants;
+  v_lines JSONB := '[]'::jsonb;
+  v_line JSONB;
+  v_subtotal NUMERIC := 0;
+  v_shipping NUMERIC;
+  v_email TEXT;
+  v_address JSONB;
+  v_customer_id UUID;
+  v_order public.orders;
+  v_payment_method TEXT := COALESCE(NULLIF(trim(p_payment_method), ''), 'cod');
+  v_payment_id UUID;
+BEGIN
+  -- Store must exist and be open for business
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = p_store_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  v_email := trim(p_customer->>'email');
+  IF COALESCE(v_email, '') = ''
+     OR COALESCE(trim(p_customer->>'full_name'), '') = ''
+     OR COALESCE(trim(p_customer->>'phone'), '') = ''
+     OR COALESCE(trim(p_customer->>'address'), '') = ''
+     OR COALESCE(trim(p_customer->>'city'), '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF NOT v_payment_method = ANY(public.get_store_payment_methods(p_store_id)) THEN
+    RAISE EXCEPTION 'The selected payment method is not available';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Re-price every line from the catalog (never trust client prices)
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity in cart';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE id = (v_item->>'product_id')::UUID
+      AND store_id = p_store_id
+      AND status = 'active';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    v_variant := NULL;
+    IF v_item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM public.product_variants
+      WHERE id = (v_item->>'variant_id')::UUID
+        AND product_id = v_product.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected option for "%" is no longer available', v_product.name;
+      END IF;
+    END IF;
+
+    v_line := jsonb_build_object(
+      'product_id', v_product.id,
+      'variant_id', v_variant.id,
+      'product_name', v_product.name,
+      'variant_name', v_variant.name,
+      'sku', COALESCE(v_variant.sku, v_product.sku),
+      'quantity', v_quantity,
+      'unit_price', COALESCE(v_variant.price, v_product.price)
+    );
+
+    v_lines := v_lines || jsonb_build_array(v_line);
+    v_subtotal := v_subtotal + COALESCE(v_variant.price, v_product.price) * v_quantity;
+  END LOOP;
+
+  v_shipping := public.calculate_shipping_amount(p_store_id, p_customer->>'city', v_subtotal);
+
+  -- Upsert customer
+  INSERT INTO public.customers (store_id, email, full_name, phone, address, city)
+  VALUES (
+    p_store_id,
+    v_email,
+    trim(p_customer->>'full_name'),
+    trim(p_customer->>'phone'),
+    trim(p_customer->>'address'),
+    trim(p_customer->>'city')
+  )
+  ON CONFLICT (store_id, email) DO UPDATE SET
+    full_name = EXCLUDED.full_name,
+    phone = EXCLUDED.phone,
+    address = EXCLUDED.address,
+    city = EXCLUDED.city
+  RETURNING id INTO v_customer_id;
+
+  v_address := jsonb_build_object(
+    'full_name', trim(p_customer->>'full_name'),
+    'address', trim(p_customer->>'address'),
+    'city', trim(p_customer->>'city'),
+    'phone', trim(p_customer->>'phone')
+  );
+
+  -- Insert order (trigger_apply_order_discount_code redeems the code and
+  -- adjusts discount_amount / total)
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    order_number,
+    status,
+    subtotal,
+    shipping_amount,
+    total,
+    shipping_address,
+    billing_address,
+    notes,
+    discount_code,
+    payment_method
+  )
+  VALUES (
+    p_store_id,
+    v_customer_id,
+    public.generate_order_number(p_store_id),
+    'pending',
+    v_subtotal,
+    v_shipping,
+    v_subtotal + v_shipping,
+    v_address,
+    v_address,
+    NULLIF(trim(p_notes), ''),
+    NULLIF(trim(p_discount_code), ''),
+    v_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    variant_id,
+    product_name,
+    variant_name,
+    sku,
+    quantity,
+    unit_price,
+    total_price
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::UUID,
+    (line->>'variant_id')::UUID,
+    line->>'product_name',
+    line->>'variant_name',
+    line->>'sku',
+    (line->>'quantity')::INTEGER,
+    (line->>'unit_price')::NUMERIC,
+    (line->>'unit_price')::NUMERIC * (line->>'quantity')::INTEGER
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  UPDATE public.customers
+  SET
+    total_orders = COALESCE(total_orders, 0) + 1,
+    total_spent = COALESCE(total_spent, 0) + v_order.total
+  WHERE id = v_customer_id;
+
+  INSERT INTO public.payments (store_id, order_id, provider, amount)
+  VALUES (p_store_id, v_order.id, v_payment_method, v_order.total)
+  RETURNING id INTO v_payment_id;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'order_number', v_order.order_number,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'shipping_amount', v_order.shipping_amount,
+    'total', v_order.total,
+    'payment_id', v_payment_id,
+    'payment_method', v_payment_method
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, JSONB, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- STEP 6: Record a provider's verdict
+-- Called by the payment-verify edge function (service role) after the
+-- provider confirmed the transaction. Only pending payments change, so a
+-- repeated verify call is harmless. A failed online payment cancels the
+-- order, which releases its reserved stock.
+CREATE OR REPLACE FUNCTION public.complete_payment(
+  p_payment_id UUID,
+  p_status public.payment_status,
+  p_reference TEXT DEFAULT NULL,
+  p_response JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments;
+  v_order public.orders;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status = 'pending' AND p_status IN ('paid', 'failed') THEN
+    UPDATE public.payments
+    SET
+      status = p_status,
+      provider_reference = COALESCE(p_reference, provider_reference),
+      provider_response = COALESCE(p_response, provider_response),
+      paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE NULL END
+    WHERE id = p_payment_id
+    RETURNING * INTO v_payment;
+
+    UPDATE public.orders
+    SET
+      payment_status = p_status,
+      status = CASE WHEN p_status = 'failed' AND status = 'pending' THEN 'cancelled' ELSE status END
+    WHERE id = v_payment.order_id;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_payment.order_id;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment.id,
+    'status', v_payment.status,
+    'order_number', v_order.order_number
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payment(UUID, public.payment_status, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment(UUID, public.payment_status, TEXT, JSONB) TO service_role;
+
+-- STEP 7: Cash collected on delivery
+-- Lets store members mark a cash-on-delivery order as paid.
+CREATE OR REPLACE FUNCTION public.mark_order_paid(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_order.store_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method <> 'cod' THEN
+    RAISE EXCEPTION 'Only cash on delivery orders can be marked as paid';
+  END IF;
+
+  IF v_order.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'This order is already %', v_order.payment_status;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid', paid_at = now()
+  WHERE order_id = p_order_id AND status = 'pending';
+
+  -- Orders placed before payments existed have no payment row
+  IF NOT FOUND THEN
+    INSERT INTO public.payments (store_id, order_id, provider, status, amount, paid_at)
+    VALUES (v_order.store_id, v_order.id, 'cod', 'paid', v_order.total, now());
+  END IF;
+
+  UPDATE public.orders SET payment_status = 'paid' WHERE id = p_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_order_paid(UUID) TO authenticated;
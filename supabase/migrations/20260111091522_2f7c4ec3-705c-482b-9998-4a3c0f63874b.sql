@@ -0,0 +1,264 @@
+-- ============================================================================
+-- ORDER EMAIL NOTIFICATIONS
+-- ============================================================================
+-- Customers and merchants are emailed when an order is placed, confirmed,
+-- shipped, delivered or cancelled.
+--
+-- - email_templates: per-store subject/body for each event and recipient,
+--   seeded with defaults for every store (like store pages)
+-- - email_outbox: queue of emails to send. Order triggers enqueue rows;
+--   the send-notifications edge function claims them, renders the
+--   template with the store's branding and sends them
+-- - Templates use {{placeholders}} (see src/lib/notifications.ts)
+-- ============================================================================
+
+-- STEP 1: Events
+CREATE TYPE public.notification_event AS ENUM (
+  'order_placed',
+  'order_confirmed',
+  'order_shipped',
+  'order_delivered',
+  'order_cancelled'
+);
+
+-- STEP 2: Templates
+CREATE TABLE public.email_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  event public.notification_event NOT NULL,
+  recipient TEXT NOT NULL CHECK (recipient IN ('customer', 'merchant')),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(store_id, event, recipient)
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store members can manage email templates"
+  ON public.email_templates FOR ALL
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 3: Outbox
+CREATE TABLE public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  event public.notification_event NOT NULL,
+  recipient TEXT NOT NULL CHECK (recipient IN ('customer', 'merchant')),
+  to_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- Filled in when the email is rendered, so the log shows what was sent
+  subject TEXT,
+  html TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_outbox_pending ON public.email_outbox(created_at) WHERE status IN ('pending', 'failed');
+CREATE INDEX idx_email_outbox_store ON public.email_outbox(store_id, created_at DESC);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and the send-notifications edge function only
+CREATE POLICY "Store members can view email outbox"
+  ON public.email_outbox FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 4: Default templates
+CREATE OR REPLACE FUNCTION public.initialize_store_email_templates(p_store_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_templates (store_id, event, recipient, subject, body, is_enabled)
+  VALUES
+    (p_store_id, 'order_placed', 'customer',
+     'We received your order {{order_number}}',
+     E'Hi {{customer_name}},\n\nThank you for shopping with {{store_name}}! We have received your order {{order_number}} and will let you know as soon as it is confirmed.\n\n{{order_items}}\n\nTotal: {{order_total}}\nPayment: {{payment_method}}\n\nShipping to:\n{{shipping_address}}',
+     true),
+    (p_store_id, 'order_placed', 'merchant',
+     'New order {{order_number}} - {{order_total}}',
+     E'You have a new order from {{customer_name}} ({{customer_email}}, {{customer_phone}}).\n\n{{order_items}}\n\nTotal: {{order_total}}\nPayment: {{payment_method}}\n\nShipping to:\n{{shipping_address}}',
+     true),
+    (p_store_id, 'order_confirmed', 'customer',
+     'Your order {{order_number}} is confirmed',
+     E'Hi {{customer_name}},\n\nGood news - {{store_name}} has confirmed your order {{order_number}}. We are getting it ready to ship.\n\n{{order_items}}\n\nTotal: {{order_total}}',
+     true),
+    (p_store_id, 'order_confirmed', 'merchant',
+     'Order {{order_number}} confirmed',
+     E'Order {{order_number}} from {{customer_name}} was confirmed.',
+     false),
+    (p_store_id, 'order_shipped', 'customer',
+     'Your order {{order_number}} is on its way',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been shipped and is on its way to:\n{{shipping_address}}',
+     true),
+    (p_store_id, 'order_shipped', 'merchant',
+     'Order {{order_number}} shipped',
+     E'Order {{order_number}} for {{customer_name}} was marked as shipped.',
+     false),
+    (p_store_id, 'order_delivered', 'customer',
+     'Your order {{order_number}} has been delivered',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been delivered. We hope you enjoy your purchase!\n\nThank you for shopping with {{store_name}}.',
+     true),
+    (p_store_id, 'order_delivered', 'merchant',
+     'Order {{order_number}} delivered',
+     E'Order {{order_number}} for {{customer_name}} was marked as delivered.',
+     false),
+    (p_store_id, 'order_cancelled', 'customer',
+     'Your order {{order_number}} has been cancelled',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been cancelled. If you have already paid, you will be refunded.\n\nIf you have any questions, just reply to this email.',
+     true),
+    (p_store_id, 'order_cancelled', 'merchant',
+     'Order {{order_number}} cancelled',
+     E'Order {{order_number}} from {{customer_name}} ({{order_total}}) was cancelled.',
+     true)
+  ON CONFLICT (store_id, event, recipient) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_initialize_store_email_templates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.initialize_store_email_templates(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_auto_initialize_email_templates
+  AFTER INSERT ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.auto_initialize_store_email_templates();
+
+-- Backfill existing stores
+SELECT public.initialize_store_email_templates(id) FROM public.stores;
+
+-- STEP 5: Enqueue on order events
+CREATE OR REPLACE FUNCTION public.enqueue_order_notification(
+  p_order_id UUID,
+  p_event public.notification_event
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_template public.email_templates;
+  v_to_email TEXT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_template IN
+    SELECT * FROM public.email_templates
+    WHERE store_id = v_order.store_id AND event = p_event AND is_enabled
+  LOOP
+    IF v_template.recipient = 'customer' THEN
+      SELECT email INTO v_to_email FROM public.customers WHERE id = v_order.customer_id;
+    ELSE
+      -- Store contact email, falling back to the owner's login email
+      SELECT COALESCE(NULLIF(trim(s.email), ''), u.email) INTO v_to_email
+      FROM public.stores s
+      JOIN auth.users u ON u.id = s.owner_id
+      WHERE s.id = v_order.store_id;
+    END IF;
+
+    IF COALESCE(v_to_email, '') <> '' THEN
+      INSERT INTO public.email_outbox (store_id, order_id, event, recipient, to_email)
+      VALUES (v_order.store_id, v_order.id, p_event, v_template.recipient, v_to_email);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_notification(UUID, public.notification_event) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_order_notification(NEW.id, 'order_placed');
+  ELSIF NEW.status = 'confirmed' THEN
+    PERFORM public.enqueue_order_notification(NEW.id, 'order_confirmed');
+  ELSIF NEW.status = 'shipped' THEN
+    PERFORM public.enqueue_order_notification(NEW.id, 'order_shipped');
+  ELSIF NEW.status = 'delivered' THEN
+    PERFORM public.enqueue_order_notification(NEW.id, 'order_delivered');
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.enqueue_order_notification(NEW.id, 'order_cancelled');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_notify_order_placed
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_order_event();
+
+CREATE TRIGGER trigger_notify_order_status
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_order_event();
+
+-- STEP 6: Claim outbox rows for sending
+-- Used by the send-notifications edge function (service role). Failed
+-- sends are retried up to 3 attempts; SKIP LOCKED lets several workers run
+-- without sending the same email twice.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox
+  SET status = 'sending', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM public.email_outbox
+    WHERE status = 'pending'
+       OR (status = 'failed' AND attempts < 3)
+       -- Reclaim rows from a worker that died mid-send
+       OR (status = 'sending' AND attempts < 3 AND updated_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) TO service_role;
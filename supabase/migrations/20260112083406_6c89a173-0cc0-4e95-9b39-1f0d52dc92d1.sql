@@ -0,0 +1,174 @@
+-- ============================================================================
+-- ORDER SMS NOTIFICATIONS
+-- ============================================================================
+-- When the sms_notifications extension is enabled, customers get an SMS
+-- when their order is placed, shipped and delivered.
+--
+-- - sms_outbox: queued messages, drained by the send-notifications edge
+--   function through the gateway chosen in the extension config
+--   (Sparrow SMS, Aakash SMS or a fake gateway for testing)
+-- - sms_attempts: one row per gateway call, successful or not
+-- - Message templates live in store_extensions.config
+--   (template_order_placed / _shipped / _delivered)
+-- ============================================================================
+
+-- STEP 1: Outbox
+CREATE TABLE public.sms_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  event public.notification_event NOT NULL,
+  to_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- Filled in when the message is rendered
+  message TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_outbox_pending ON public.sms_outbox(created_at) WHERE status IN ('pending', 'failed');
+CREATE INDEX idx_sms_outbox_store ON public.sms_outbox(store_id, created_at DESC);
+
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and the send-notifications edge function only
+CREATE POLICY "Store members can view sms outbox"
+  ON public.sms_outbox FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_sms_outbox_updated_at
+  BEFORE UPDATE ON public.sms_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 2: Attempt log
+CREATE TABLE public.sms_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  sms_id UUID NOT NULL REFERENCES public.sms_outbox(id) ON DELETE CASCADE,
+  gateway TEXT NOT NULL,
+  to_phone TEXT NOT NULL,
+  message TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  -- Raw gateway response, for support
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_attempts_store ON public.sms_attempts(store_id, created_at DESC);
+CREATE INDEX idx_sms_attempts_sms ON public.sms_attempts(sms_id);
+
+ALTER TABLE public.sms_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store members can view sms attempts"
+  ON public.sms_attempts FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+-- STEP 3: Enqueue on order events
+CREATE OR REPLACE FUNCTION public.enqueue_order_sms(
+  p_order_id UUID,
+  p_event public.notification_event
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_phone TEXT;
+BEGIN
+  IF p_event NOT IN ('order_placed', 'order_shipped', 'order_delivered') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.store_extensions
+    WHERE store_id = v_order.store_id
+      AND extension_id = 'sms_notifications'
+      AND is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Customer phone, falling back to the one on the shipping address
+  SELECT NULLIF(trim(phone), '') INTO v_phone
+  FROM public.customers
+  WHERE id = v_order.customer_id;
+
+  v_phone := COALESCE(v_phone, NULLIF(trim(v_order.shipping_address->>'phone'), ''));
+
+  IF v_phone IS NOT NULL THEN
+    INSERT INTO public.sms_outbox (store_id, order_id, event, to_phone)
+    VALUES (v_order.store_id, v_order.id, p_event, v_phone);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_sms(UUID, public.notification_event) FROM PUBLIC, anon, authenticated;
+
+-- Order triggers now queue SMS as well as email
+CREATE OR REPLACE FUNCTION public.notify_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.notification_event;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_event := 'order_placed';
+  ELSE
+    v_event := CASE NEW.status
+      WHEN 'confirmed' THEN 'order_confirmed'
+      WHEN 'shipped' THEN 'order_shipped'
+      WHEN 'delivered' THEN 'order_delivered'
+      WHEN 'cancelled' THEN 'order_cancelled'
+    END;
+  END IF;
+
+  IF v_event IS NOT NULL THEN
+    PERFORM public.enqueue_order_notification(NEW.id, v_event);
+    PERFORM public.enqueue_order_sms(NEW.id, v_event);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- STEP 4: Claim outbox rows for sending (same retry rules as email)
+CREATE OR REPLACE FUNCTION public.claim_sms_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.sms_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.sms_outbox
+  SET status = 'sending', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM public.sms_outbox
+    WHERE status = 'pending'
+       OR (status = 'failed' AND attempts < 3)
+       OR (status = 'sending' AND attempts < 3 AND updated_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER) TO service_role;
@@ -0,0 +1,274 @@
+-- ============================================================================
+-- LOW STOCK ALERTS
+-- ============================================================================
+-- Powers the inventory_alerts extension.
+--
+-- - products/product_variants.low_stock_threshold: per-item threshold
+--   (variants fall back to their product, then to the store default from
+--   the extension config `threshold`, then 5)
+-- - inventory_alerts: one open alert per product/variant at or below its
+--   threshold, kept in sync by triggers whenever stock changes and resolved
+--   when stock is replenished. Shown in the dashboard notifications panel
+--   and the optional daily digest email (inventory-digest edge function)
+-- - get_low_stock_items(): live list of low stock items for the dashboard,
+--   available whether or not the extension is enabled
+-- ============================================================================
+
+-- STEP 1: Per-item thresholds (NULL = store default)
+ALTER TABLE public.products
+  ADD COLUMN low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0);
+
+ALTER TABLE public.product_variants
+  ADD COLUMN low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0);
+
+-- STEP 2: Alerts
+CREATE TABLE public.inventory_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  stock_quantity INTEGER NOT NULL,
+  threshold INTEGER NOT NULL,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one open alert per product/variant
+CREATE UNIQUE INDEX idx_inventory_alerts_open
+  ON public.inventory_alerts(product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID))
+  WHERE resolved_at IS NULL;
+CREATE INDEX idx_inventory_alerts_store ON public.inventory_alerts(store_id, created_at DESC);
+
+ALTER TABLE public.inventory_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store members can view inventory alerts"
+  ON public.inventory_alerts FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+-- Members only mark alerts as read; alerts are created and resolved by triggers
+CREATE POLICY "Store members can update inventory alerts"
+  ON public.inventory_alerts FOR UPDATE
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_inventory_alerts_updated_at
+  BEFORE UPDATE ON public.inventory_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 3: Store default threshold
+CREATE OR REPLACE FUNCTION public.get_store_low_stock_threshold(p_store_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT (config->>'threshold')::INTEGER
+      FROM public.store_extensions
+      WHERE store_id = p_store_id
+        AND extension_id = 'inventory_alerts'
+        AND config->>'threshold' ~ '^\d+$'
+    ),
+    5
+  );
+$$;
+
+-- STEP 4: Keep alerts in sync with stock
+CREATE OR REPLACE FUNCTION public.sync_inventory_alert(p_product_id UUID, p_variant_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_variant public.product_variants;
+  v_stock INTEGER;
+  v_threshold INTEGER;
+  v_is_low BOOLEAN;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.store_extensions
+    WHERE store_id = v_product.store_id
+      AND extension_id = 'inventory_alerts'
+      AND is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF p_variant_id IS NOT NULL THEN
+    SELECT * INTO v_variant FROM public.product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+    v_stock := v_variant.stock_quantity;
+  ELSE
+    v_stock := v_product.stock_quantity;
+  END IF;
+
+  v_threshold := COALESCE(
+    v_variant.low_stock_threshold,
+    v_product.low_stock_threshold,
+    public.get_store_low_stock_threshold(v_product.store_id)
+  );
+
+  -- Products with variants are tracked per variant
+  v_is_low := COALESCE(v_product.track_inventory, false)
+    AND v_product.status <> 'archived'
+    AND (
+      p_variant_id IS NOT NULL
+      OR NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id)
+    )
+    AND v_stock <= v_threshold;
+
+  IF v_is_low THEN
+    UPDATE public.inventory_alerts
+    SET stock_quantity = v_stock, threshold = v_threshold
+    WHERE product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+      AND resolved_at IS NULL;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.inventory_alerts (store_id, product_id, variant_id, stock_quantity, threshold)
+      VALUES (v_product.store_id, p_product_id, p_variant_id, v_stock, v_threshold);
+    END IF;
+  ELSE
+    UPDATE public.inventory_alerts
+    SET resolved_at = now(), stock_quantity = v_stock
+    WHERE product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+      AND resolved_at IS NULL;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_inventory_alert(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_low_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    PERFORM public.sync_inventory_alert(NEW.product_id, NEW.id);
+  ELSE
+    PERFORM public.sync_inventory_alert(NEW.id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_check_product_low_stock
+  AFTER INSERT OR UPDATE OF stock_quantity, low_stock_threshold, track_inventory, status ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_low_stock();
+
+CREATE TRIGGER trigger_check_variant_low_stock
+  AFTER INSERT OR UPDATE OF stock_quantity, low_stock_threshold ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_low_stock();
+
+-- STEP 5: Re-check the whole store when the extension is turned on or
+-- its default threshold changes; turning it off clears open alerts
+CREATE OR REPLACE FUNCTION public.refresh_store_inventory_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  IF NEW.extension_id <> 'inventory_alerts' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT COALESCE(NEW.is_enabled, false) THEN
+    UPDATE public.inventory_alerts
+    SET resolved_at = now()
+    WHERE store_id = NEW.store_id AND resolved_at IS NULL;
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN
+    SELECT p.id AS product_id, NULL::UUID AS variant_id
+    FROM public.products p
+    WHERE p.store_id = NEW.store_id
+    UNION ALL
+    SELECT v.product_id, v.id
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    WHERE p.store_id = NEW.store_id
+  LOOP
+    PERFORM public.sync_inventory_alert(v_item.product_id, v_item.variant_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_refresh_inventory_alerts
+  AFTER INSERT OR UPDATE OF is_enabled, config ON public.store_extensions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_store_inventory_alerts();
+
+-- STEP 6: Live low stock list for the dashboard
+CREATE OR REPLACE FUNCTION public.get_low_stock_items(p_store_id UUID)
+RETURNS TABLE(
+  product_id UUID,
+  variant_id UUID,
+  product_name TEXT,
+  variant_name TEXT,
+  stock_quantity INTEGER,
+  threshold INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_default INTEGER;
+BEGIN
+  IF NOT public.can_access_store(auth.uid(), p_store_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  v_default := public.get_store_low_stock_threshold(p_store_id);
+
+  RETURN QUERY
+  SELECT p.id, NULL::UUID, p.name, NULL::TEXT, p.stock_quantity,
+         COALESCE(p.low_stock_threshold, v_default)
+  FROM public.products p
+  WHERE p.store_id = p_store_id
+    AND COALESCE(p.track_inventory, false)
+    AND p.status <> 'archived'
+    AND NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id)
+    AND p.stock_quantity <= COALESCE(p.low_stock_threshold, v_default)
+  UNION ALL
+  SELECT p.id, v.id, p.name, v.name, v.stock_quantity,
+         COALESCE(v.low_stock_threshold, p.low_stock_threshold, v_default)
+  FROM public.product_variants v
+  JOIN public.products p ON p.id = v.product_id
+  WHERE p.store_id = p_store_id
+    AND COALESCE(p.track_inventory, false)
+    AND p.status <> 'archived'
+    AND v.stock_quantity <= COALESCE(v.low_stock_threshold, p.low_stock_threshold, v_default)
+  ORDER BY 5, 3;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_low_stock_items(UUID) TO authenticated;
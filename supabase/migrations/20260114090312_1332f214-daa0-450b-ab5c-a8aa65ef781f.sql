@@ -0,0 +1,47 @@
+-- ============================================================================
+-- STOREFRONT EXTENSIONS
+-- ============================================================================
+-- Shoppers cannot read store_extensions (it also holds payment and SMS
+-- credentials). get_storefront_extensions() returns just the public
+-- settings of the enabled storefront extensions so the storefront runtime
+-- can inject them:
+--
+-- - google_analytics: measurement_id
+-- - facebook_pixel: pixel_id
+-- - whatsapp_chat: phone_number, default_message
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_storefront_extensions(p_store_slug TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      e.extension_id,
+      CASE e.extension_id
+        WHEN 'google_analytics' THEN jsonb_build_object(
+          'measurement_id', e.config->>'measurement_id'
+        )
+        WHEN 'facebook_pixel' THEN jsonb_build_object(
+          'pixel_id', e.config->>'pixel_id'
+        )
+        WHEN 'whatsapp_chat' THEN jsonb_build_object(
+          'phone_number', e.config->>'phone_number',
+          'default_message', e.config->>'default_message'
+        )
+      END
+    ),
+    '{}'::jsonb
+  )
+  FROM public.store_extensions e
+  JOIN public.stores s ON s.id = e.store_id
+  WHERE s.slug = p_store_slug
+    AND s.status = 'active'
+    AND e.is_enabled
+    AND e.extension_id IN ('google_analytics', 'facebook_pixel', 'whatsapp_chat');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_extensions(TEXT) TO anon, authenticated;
@@ -0,0 +1,254 @@
+-- ============================================================================
+-- PUBLISHED STORE VERSIONS
+-- ============================================================================
+-- The store builder edits drafts: page_sections, the active store_themes row
+-- and store_header_footer. Shoppers no longer read those tables. Publishing
+-- snapshots all three into a store_versions row and points
+-- stores.published_version_id at it; the storefront renders that snapshot.
+--
+-- - publish_store() snapshots the drafts in one transaction, so shoppers
+--   never see a half-published store
+-- - restore_store_version() copies an earlier snapshot back into the drafts
+--   and publishes it as a new version, so the history stays linear
+-- - Page visibility (store_pages.is_published) and navigation stay live
+-- ============================================================================
+
+-- STEP 1: Versions table
+CREATE TABLE public.store_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+
+  -- Snapshots of the drafts at publish time
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,      -- page_sections rows of every page
+  theme JSONB,                                       -- colors, typography, layout, custom_css
+  header_footer JSONB,                               -- header_config, footer_config, social_links
+
+  note TEXT,
+  restored_from_version_id UUID REFERENCES public.store_versions(id) ON DELETE SET NULL,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_by_name TEXT,                            -- kept so every staff member sees who published
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT unique_version_number_per_store UNIQUE (store_id, version_number)
+);
+
+CREATE INDEX idx_store_versions_store ON public.store_versions(store_id, version_number DESC);
+
+ALTER TABLE public.stores
+  ADD COLUMN published_version_id UUID REFERENCES public.store_versions(id) ON DELETE SET NULL;
+
+-- STEP 2: RLS
+-- Versions are only written by the functions below
+ALTER TABLE public.store_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store members can view versions"
+  ON public.store_versions FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE POLICY "Anyone can view the published version of active stores"
+  ON public.store_versions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.stores s
+    WHERE s.published_version_id = store_versions.id
+      AND s.status = 'active'
+  ));
+
+-- Drafts are private to store members
+DROP POLICY IF EXISTS "Anyone can view visible sections of published pages" ON public.page_sections;
+DROP POLICY IF EXISTS "Anyone can view active theme of active stores" ON public.store_themes;
+DROP POLICY IF EXISTS "Anyone can view header/footer of active stores" ON public.store_header_footer;
+
+-- STEP 3: Snapshot helper
+-- Copies the current drafts into a new version and makes it the published
+-- one. Callers check access and lock the store row first.
+CREATE OR REPLACE FUNCTION public.create_store_version(
+  p_store_id UUID,
+  p_note TEXT,
+  p_restored_from_version_id UUID,
+  p_published_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version_id UUID;
+  v_publisher_name TEXT;
+BEGIN
+  SELECT COALESCE(NULLIF(trim(p.full_name), ''), u.email)
+  INTO v_publisher_name
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.user_id = u.id
+  WHERE u.id = p_published_by;
+
+  INSERT INTO public.store_versions (
+    store_id, version_number, sections, theme, header_footer,
+    note, restored_from_version_id, published_by, published_by_name
+  )
+  SELECT
+    p_store_id,
+    COALESCE((SELECT MAX(version_number) FROM public.store_versions WHERE store_id = p_store_id), 0) + 1,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', ps.id,
+          'page_id', ps.page_id,
+          'section_type', ps.section_type,
+          'name', ps.name,
+          'config', ps.config,
+          'mobile_config', ps.mobile_config,
+          'is_visible', ps.is_visible,
+          'sort_order', ps.sort_order,
+          'position', ps.position
+        )
+        ORDER BY ps.page_id, ps.sort_order
+      )
+      FROM public.page_sections ps
+      WHERE ps.store_id = p_store_id
+    ), '[]'::jsonb),
+    (
+      SELECT jsonb_build_object(
+        'colors', t.colors,
+        'typography', t.typography,
+        'layout', t.layout,
+        'custom_css', t.custom_css
+      )
+      FROM public.store_themes t
+      WHERE t.store_id = p_store_id AND t.is_active
+      ORDER BY t.updated_at DESC
+      LIMIT 1
+    ),
+    (
+      SELECT jsonb_build_object(
+        'header_config', hf.header_config,
+        'footer_config', hf.footer_config,
+        'social_links', hf.social_links
+      )
+      FROM public.store_header_footer hf
+      WHERE hf.store_id = p_store_id
+    ),
+    NULLIF(trim(p_note), ''),
+    p_restored_from_version_id,
+    p_published_by,
+    v_publisher_name
+  RETURNING id INTO v_version_id;
+
+  UPDATE public.stores SET published_version_id = v_version_id WHERE id = p_store_id;
+
+  RETURN v_version_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_store_version(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- STEP 4: Publish the drafts
+-- Returns the new version id
+CREATE OR REPLACE FUNCTION public.publish_store(p_store_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_store(auth.uid(), p_store_id) THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  -- One publish at a time per store keeps version numbers sequential
+  PERFORM 1 FROM public.stores WHERE id = p_store_id FOR UPDATE;
+
+  RETURN public.create_store_version(p_store_id, p_note, NULL, auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.publish_store(UUID, TEXT) TO authenticated;
+
+-- STEP 5: Roll back to an earlier version
+-- Replaces the drafts with the version's snapshot and publishes them as a
+-- new version. Sections of pages deleted since are skipped. Returns the new
+-- version id.
+CREATE OR REPLACE FUNCTION public.restore_store_version(p_version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.store_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_version FROM public.store_versions WHERE id = p_version_id;
+
+  IF v_version.id IS NULL OR NOT public.can_access_store(auth.uid(), v_version.store_id) THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  PERFORM 1 FROM public.stores WHERE id = v_version.store_id FOR UPDATE;
+
+  -- Sections
+  DELETE FROM public.page_sections WHERE store_id = v_version.store_id;
+
+  INSERT INTO public.page_sections (
+    id, page_id, store_id, section_type, name, config, mobile_config, is_visible, sort_order, position
+  )
+  SELECT
+    s.id, s.page_id, v_version.store_id, s.section_type, s.name,
+    COALESCE(s.config, '{}'::jsonb), s.mobile_config,
+    COALESCE(s.is_visible, true), COALESCE(s.sort_order, 0), COALESCE(s.position, 'below')
+  FROM jsonb_to_recordset(v_version.sections) AS s(
+    id UUID,
+    page_id UUID,
+    section_type public.section_type,
+    name TEXT,
+    config JSONB,
+    mobile_config JSONB,
+    is_visible BOOLEAN,
+    sort_order INTEGER,
+    position TEXT
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.store_pages sp
+    WHERE sp.id = s.page_id AND sp.store_id = v_version.store_id
+  );
+
+  -- Theme
+  IF v_version.theme IS NOT NULL THEN
+    UPDATE public.store_themes
+    SET colors = COALESCE(v_version.theme->'colors', colors),
+        typography = COALESCE(v_version.theme->'typography', typography),
+        layout = COALESCE(v_version.theme->'layout', layout),
+        custom_css = v_version.theme->>'custom_css'
+    WHERE store_id = v_version.store_id AND is_active;
+  END IF;
+
+  -- Header/footer
+  IF v_version.header_footer IS NOT NULL THEN
+    INSERT INTO public.store_header_footer (store_id, header_config, footer_config, social_links)
+    VALUES (
+      v_version.store_id,
+      COALESCE(v_version.header_footer->'header_config', '{}'::jsonb),
+      COALESCE(v_version.header_footer->'footer_config', '{}'::jsonb),
+      COALESCE(v_version.header_footer->'social_links', '{}'::jsonb)
+    )
+    ON CONFLICT (store_id) DO UPDATE
+    SET header_config = EXCLUDED.header_config,
+        footer_config = EXCLUDED.footer_config,
+        social_links = EXCLUDED.social_links;
+  END IF;
+
+  RETURN public.create_store_version(
+    v_version.store_id,
+    'Restored version ' || v_version.version_number,
+    v_version.id,
+    auth.uid()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_store_version(UUID) TO authenticated;
+
+-- STEP 6: Publish what shoppers see today
+-- Existing stores keep their current storefront as version 1
+SELECT public.create_store_version(s.id, 'Initial version', NULL, s.owner_id)
+FROM public.stores s;
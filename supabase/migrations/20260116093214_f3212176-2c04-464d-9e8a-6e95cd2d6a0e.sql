@@ -0,0 +1,75 @@
+-- ============================================================================
+-- PRODUCT SALES AND BEST SELLERS
+-- ============================================================================
+-- The best_sellers section ranks products by units actually sold instead of
+-- showing featured products.
+--
+-- - product_sales_daily aggregates order_items per store, product and day,
+--   leaving out cancelled and refunded orders. It runs with the caller's
+--   permissions, so store members only see their own stores' sales.
+-- - get_best_selling_products() ranks a store's active products by units
+--   sold over the last N days (or all time) for the storefront. It returns
+--   the ranking only, never sales figures.
+-- ============================================================================
+
+-- STEP 1: Indexes for the aggregation
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON public.order_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_orders_store_created ON public.orders(store_id, created_at DESC);
+
+-- STEP 2: Daily sales per product
+CREATE OR REPLACE VIEW public.product_sales_daily
+WITH (security_invoker = true) AS
+SELECT
+  o.store_id,
+  oi.product_id,
+  (o.created_at AT TIME ZONE 'UTC')::date AS sale_date,
+  SUM(oi.quantity)::bigint AS units_sold,
+  SUM(oi.total_price) AS revenue,
+  COUNT(DISTINCT o.id)::bigint AS order_count
+FROM public.order_items oi
+JOIN public.orders o ON o.id = oi.order_id
+WHERE oi.product_id IS NOT NULL
+  AND o.status NOT IN ('cancelled', 'refunded')
+GROUP BY o.store_id, oi.product_id, (o.created_at AT TIME ZONE 'UTC')::date;
+
+REVOKE ALL ON public.product_sales_daily FROM anon;
+GRANT SELECT ON public.product_sales_daily TO authenticated;
+
+-- STEP 3: Storefront ranking
+-- p_days: 7, 30, 90, ... days back from today; NULL for all time
+CREATE OR REPLACE FUNCTION public.get_best_selling_products(
+  p_store_id UUID,
+  p_days INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (product_id UUID, sales_rank INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = p_store_id AND status = 'active') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ranked.product_id,
+    (ROW_NUMBER() OVER (ORDER BY ranked.units_sold DESC, ranked.last_sold DESC))::integer AS sales_rank
+  FROM (
+    SELECT s.product_id, SUM(s.units_sold) AS units_sold, MAX(s.sale_date) AS last_sold
+    FROM public.product_sales_daily s
+    JOIN public.products p ON p.id = s.product_id
+    WHERE s.store_id = p_store_id
+      AND p.status = 'active'
+      AND (p_days IS NULL OR s.sale_date > CURRENT_DATE - p_days)
+    GROUP BY s.product_id
+  ) ranked
+  ORDER BY 2
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 8), 1), 48);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_best_selling_products(UUID, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,339 @@
+-- ============================================================================
+-- PRODUCT REVIEWS
+-- ============================================================================
+-- Shoppers rate and review products; merchants moderate them.
+--
+-- - product_reviews: rating (1-5), title, body, photos and the author.
+--   Reviews start as pending and only approved ones are shown. A review is
+--   a verified purchase when the shopper gives the number of an order for
+--   this product placed with the same email.
+-- - Shoppers never read or write the table directly: they submit through
+--   submit_product_review() and read through get_product_reviews() /
+--   get_product_rating_summaries(), which never expose author emails.
+-- - Store members read the table and moderate through
+--   set_product_review_status() and reply_to_product_review(), so a review's
+--   rating and text can't be edited by the store.
+-- - Review photos are uploaded to the public review-photos bucket under
+--   <store_id>/ and referenced by their object path.
+-- ============================================================================
+
+-- STEP 1: Reviews
+CREATE TYPE public.review_status AS ENUM ('pending', 'approved', 'hidden');
+
+CREATE TABLE public.product_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT CHECK (char_length(title) <= 150),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  photos TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photos) <= 4),
+  author_name TEXT NOT NULL CHECK (char_length(author_name) BETWEEN 1 AND 100),
+  author_email TEXT NOT NULL,
+  is_verified_purchase BOOLEAN NOT NULL DEFAULT false,
+  status public.review_status NOT NULL DEFAULT 'pending',
+  reply TEXT CHECK (char_length(reply) <= 5000),
+  replied_at TIMESTAMP WITH TIME ZONE,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One review per product per email
+CREATE UNIQUE INDEX idx_product_reviews_author
+  ON public.product_reviews(product_id, lower(author_email));
+CREATE INDEX idx_product_reviews_product_approved
+  ON public.product_reviews(product_id, created_at DESC)
+  WHERE status = 'approved';
+CREATE INDEX idx_product_reviews_store_status
+  ON public.product_reviews(store_id, status, created_at DESC);
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Written only through the functions below
+CREATE POLICY "Store members can view product reviews"
+  ON public.product_reviews FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_product_reviews_updated_at
+  BEFORE UPDATE ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 2: Review photos
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('review-photos', 'review-photos', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Shoppers upload into the folder of an open store
+CREATE POLICY "Anyone can upload review photos"
+ON storage.objects FOR INSERT
+TO anon, authenticated
+WITH CHECK (
+  bucket_id = 'review-photos'
+  AND EXISTS (
+    SELECT 1 FROM public.stores s
+    WHERE s.id::text = (storage.foldername(name))[1]
+      AND s.status = 'active'
+  )
+);
+
+CREATE POLICY "Public can view review photos"
+ON storage.objects FOR SELECT
+TO public
+USING (bucket_id = 'review-photos');
+
+CREATE POLICY "Store members can delete review photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos'
+  AND EXISTS (
+    SELECT 1 FROM public.stores s
+    WHERE s.id::text = (storage.foldername(name))[1]
+      AND public.can_access_store(auth.uid(), s.id)
+  )
+);
+
+-- STEP 3: Submit a review (storefront)
+-- p_photos: object paths in review-photos, uploaded under the store's folder
+-- p_order_number: optional; marks the review as a verified purchase when it
+-- is an order for this product placed with p_author_email
+CREATE OR REPLACE FUNCTION public.submit_product_review(
+  p_product_id UUID,
+  p_rating INTEGER,
+  p_body TEXT,
+  p_author_name TEXT,
+  p_author_email TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_photos TEXT[] DEFAULT '{}',
+  p_order_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_email TEXT := lower(trim(p_author_email));
+  v_photos TEXT[] := COALESCE(p_photos, '{}');
+  v_photo TEXT;
+  v_order_id UUID;
+  v_review public.product_reviews;
+BEGIN
+  SELECT p.* INTO v_product
+  FROM public.products p
+  JOIN public.stores s ON s.id = p.store_id
+  WHERE p.id = p_product_id
+    AND p.status = 'active'
+    AND s.status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Please choose a rating from 1 to 5 stars';
+  END IF;
+
+  IF COALESCE(trim(p_body), '') = ''
+     OR COALESCE(trim(p_author_name), '') = ''
+     OR COALESCE(v_email, '') = '' THEN
+    RAISE EXCEPTION 'Please fill in all required fields';
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF cardinality(v_photos) > 4 THEN
+    RAISE EXCEPTION 'You can add up to 4 photos';
+  END IF;
+
+  FOREACH v_photo IN ARRAY v_photos LOOP
+    IF v_photo !~ ('^' || v_product.store_id || '/[A-Za-z0-9._-]+$')
+       OR NOT EXISTS (
+         SELECT 1 FROM storage.objects
+         WHERE bucket_id = 'review-photos' AND name = v_photo
+       ) THEN
+      RAISE EXCEPTION 'A photo could not be found, please upload it again';
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM public.product_reviews
+    WHERE product_id = p_product_id AND lower(author_email) = v_email
+  ) THEN
+    RAISE EXCEPTION 'You have already reviewed this product';
+  END IF;
+
+  IF COALESCE(trim(p_order_number), '') <> '' THEN
+    SELECT o.id INTO v_order_id
+    FROM public.orders o
+    JOIN public.customers c ON c.id = o.customer_id
+    WHERE o.store_id = v_product.store_id
+      AND upper(o.order_number) = upper(trim(p_order_number))
+      AND lower(c.email) = v_email
+      AND o.status NOT IN ('cancelled', 'refunded')
+      AND EXISTS (
+        SELECT 1 FROM public.order_items oi
+        WHERE oi.order_id = o.id AND oi.product_id = p_product_id
+      )
+    LIMIT 1;
+
+    IF v_order_id IS NULL THEN
+      RAISE EXCEPTION 'We couldn''t find an order for this product with that order number and email';
+    END IF;
+  END IF;
+
+  INSERT INTO public.product_reviews (
+    store_id, product_id, order_id, rating, title, body, photos,
+    author_name, author_email, is_verified_purchase
+  )
+  VALUES (
+    v_product.store_id, p_product_id, v_order_id, p_rating,
+    NULLIF(trim(p_title), ''), trim(p_body), v_photos,
+    trim(p_author_name), v_email, v_order_id IS NOT NULL
+  )
+  RETURNING * INTO v_review;
+
+  RETURN jsonb_build_object(
+    'id', v_review.id,
+    'status', v_review.status,
+    'is_verified_purchase', v_review.is_verified_purchase
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_product_review(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT[], TEXT) TO anon, authenticated;
+
+-- STEP 4: Approved reviews (storefront)
+-- One product's reviews, or the whole store's when p_product_id is NULL
+CREATE OR REPLACE FUNCTION public.get_product_reviews(
+  p_store_id UUID,
+  p_product_id UUID DEFAULT NULL,
+  p_min_rating INTEGER DEFAULT 1,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  product_id UUID,
+  product_name TEXT,
+  product_slug TEXT,
+  rating SMALLINT,
+  title TEXT,
+  body TEXT,
+  photos TEXT[],
+  author_name TEXT,
+  is_verified_purchase BOOLEAN,
+  reply TEXT,
+  replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id, r.product_id, p.name, p.slug, r.rating, r.title, r.body, r.photos,
+    r.author_name, r.is_verified_purchase, r.reply, r.replied_at, r.created_at
+  FROM public.product_reviews r
+  JOIN public.products p ON p.id = r.product_id
+  JOIN public.stores s ON s.id = r.store_id
+  WHERE r.store_id = p_store_id
+    AND s.status = 'active'
+    AND p.status = 'active'
+    AND r.status = 'approved'
+    AND (p_product_id IS NULL OR r.product_id = p_product_id)
+    AND r.rating >= COALESCE(p_min_rating, 1)
+  ORDER BY r.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_product_reviews(UUID, UUID, INTEGER, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Average rating and approved review count per product, for product cards
+-- and rich snippets. Products without approved reviews are left out.
+CREATE OR REPLACE FUNCTION public.get_product_rating_summaries(p_product_ids UUID[])
+RETURNS TABLE (product_id UUID, average_rating NUMERIC, review_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.product_id, ROUND(AVG(r.rating), 1), COUNT(*)::integer
+  FROM public.product_reviews r
+  JOIN public.products p ON p.id = r.product_id
+  JOIN public.stores s ON s.id = r.store_id
+  WHERE r.product_id = ANY(p_product_ids)
+    AND r.status = 'approved'
+    AND p.status = 'active'
+    AND s.status = 'active'
+  GROUP BY r.product_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_product_rating_summaries(UUID[]) TO anon, authenticated;
+
+-- STEP 5: Moderation (dashboard)
+CREATE OR REPLACE FUNCTION public.set_product_review_status(
+  p_review_id UUID,
+  p_status public.review_status
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_store_id UUID;
+BEGIN
+  SELECT store_id INTO v_store_id FROM public.product_reviews WHERE id = p_review_id;
+
+  IF v_store_id IS NULL OR NOT public.can_access_store(auth.uid(), v_store_id) THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  UPDATE public.product_reviews
+  SET status = p_status,
+      moderated_at = now(),
+      moderated_by = auth.uid()
+  WHERE id = p_review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_product_review_status(UUID, public.review_status) TO authenticated;
+
+-- The store's public reply, shown under the review; empty removes it
+CREATE OR REPLACE FUNCTION public.reply_to_product_review(
+  p_review_id UUID,
+  p_reply TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_store_id UUID;
+  v_reply TEXT := NULLIF(trim(p_reply), '');
+BEGIN
+  SELECT store_id INTO v_store_id FROM public.product_reviews WHERE id = p_review_id;
+
+  IF v_store_id IS NULL OR NOT public.can_access_store(auth.uid(), v_store_id) THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  UPDATE public.product_reviews
+  SET reply = v_reply,
+      replied_at = CASE WHEN v_reply IS NULL THEN NULL ELSE now() END
+  WHERE id = p_review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reply_to_product_review(UUID, TEXT) TO authenticated;
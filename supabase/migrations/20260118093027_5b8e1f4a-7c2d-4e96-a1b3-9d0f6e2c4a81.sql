@@ -0,0 +1,266 @@
+-- ============================================================================
+-- STOREFRONT CUSTOMER ACCOUNTS
+-- ============================================================================
+-- Shoppers sign up and log in on a store's storefront. The login itself is
+-- a platform-wide Supabase Auth user; what they see of a store comes from
+-- that store's customers row, linked through customers.user_id.
+--
+-- - link_customer_account(): links the signed-in shopper to the store's
+--   customers row for their confirmed email (creating it if they never
+--   ordered), so past guest orders with that email show up in the account,
+--   and returns the account details
+-- - customer_addresses: saved addresses per store account, used to prefill
+--   checkout
+-- - get_customer_orders(): the account's order history
+-- - update_customer_profile(): name and phone; order totals stay read-only
+--
+-- Shoppers don't read customers or orders directly, since those rows carry
+-- the merchant's notes. Their addresses are scoped by RLS to their own
+-- account in that store, and every path requires the 'customer' app_role,
+-- which handle_new_user() gives every new user.
+-- ============================================================================
+
+-- STEP 1: Ownership check
+-- True when the customers row belongs to this user's account in this store
+CREATE OR REPLACE FUNCTION public.is_customer_account(_user_id UUID, _store_id UUID, _customer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'customer') AND EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE id = _customer_id
+      AND store_id = _store_id
+      AND user_id = _user_id
+  )
+$$;
+
+CREATE INDEX idx_customers_user_id ON public.customers(user_id) WHERE user_id IS NOT NULL;
+
+-- STEP 2: Saved addresses
+CREATE TABLE public.customer_addresses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  label TEXT CHECK (char_length(label) <= 50),
+  full_name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  address TEXT NOT NULL,
+  city TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_customer_addresses_customer ON public.customer_addresses(customer_id);
+
+ALTER TABLE public.customer_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can manage their own addresses"
+  ON public.customer_addresses FOR ALL
+  USING (public.is_customer_account(auth.uid(), store_id, customer_id))
+  WITH CHECK (public.is_customer_account(auth.uid(), store_id, customer_id));
+
+CREATE POLICY "Store members can view customer addresses"
+  ON public.customer_addresses FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE TRIGGER update_customer_addresses_updated_at
+  BEFORE UPDATE ON public.customer_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One default address per customer: the first address becomes the default,
+-- and making another one the default clears the previous one
+CREATE OR REPLACE FUNCTION public.set_default_customer_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customer_addresses
+    WHERE customer_id = NEW.customer_id AND id <> NEW.id
+  ) THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.customer_addresses
+    SET is_default = false
+    WHERE customer_id = NEW.customer_id
+      AND id <> NEW.id
+      AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_set_default_customer_address
+  BEFORE INSERT OR UPDATE OF is_default ON public.customer_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_customer_address();
+
+-- STEP 3: Link the signed-in shopper to the store
+-- Returns the account details. Guest records are matched by email only
+-- once the shopper has confirmed that email, so nobody can claim someone
+-- else's order history by signing up with their address.
+CREATE OR REPLACE FUNCTION public.link_customer_account(p_store_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_email TEXT;
+  v_confirmed_at TIMESTAMP WITH TIME ZONE;
+  v_full_name TEXT;
+  v_customer public.customers;
+BEGIN
+  IF v_user_id IS NULL OR NOT public.has_role(v_user_id, 'customer') THEN
+    RAISE EXCEPTION 'Please sign in to continue';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = p_store_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Store not found';
+  END IF;
+
+  SELECT * INTO v_customer
+  FROM public.customers
+  WHERE store_id = p_store_id AND user_id = v_user_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT email, email_confirmed_at INTO v_email, v_confirmed_at
+    FROM auth.users
+    WHERE id = v_user_id;
+
+    IF v_confirmed_at IS NULL THEN
+      RAISE EXCEPTION 'Please confirm your email address first';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.customers
+      WHERE store_id = p_store_id
+        AND lower(email) = lower(v_email)
+        AND user_id IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'This email is already linked to another account';
+    END IF;
+
+    -- Guest records with this email (any letter case) join the account
+    UPDATE public.customers
+    SET user_id = v_user_id
+    WHERE store_id = p_store_id
+      AND lower(email) = lower(v_email);
+
+    SELECT * INTO v_customer
+    FROM public.customers
+    WHERE store_id = p_store_id AND user_id = v_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      SELECT full_name INTO v_full_name FROM public.profiles WHERE user_id = v_user_id;
+
+      INSERT INTO public.customers (store_id, user_id, email, full_name)
+      VALUES (p_store_id, v_user_id, v_email, v_full_name)
+      RETURNING * INTO v_customer;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_customer.id,
+    'email', v_customer.email,
+    'full_name', v_customer.full_name,
+    'phone', v_customer.phone,
+    'created_at', v_customer.created_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_customer_account(UUID) TO authenticated;
+
+-- STEP 4: Order history
+CREATE OR REPLACE FUNCTION public.get_customer_orders(p_store_id UUID)
+RETURNS TABLE (
+  id UUID,
+  order_number TEXT,
+  status public.order_status,
+  payment_status public.payment_status,
+  payment_method TEXT,
+  subtotal NUMERIC,
+  discount_amount NUMERIC,
+  shipping_amount NUMERIC,
+  total NUMERIC,
+  shipping_address JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  items JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id, o.order_number, o.status, o.payment_status, o.payment_method,
+    o.subtotal, o.discount_amount, o.shipping_amount, o.total,
+    o.shipping_address, o.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', oi.product_id,
+        'product_name', oi.product_name,
+        'variant_name', oi.variant_name,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  FROM public.orders o
+  JOIN public.customers c ON c.id = o.customer_id
+  WHERE o.store_id = p_store_id
+    AND c.user_id = auth.uid()
+    AND public.has_role(auth.uid(), 'customer')
+  ORDER BY o.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_orders(UUID) TO authenticated;
+
+-- STEP 5: Profile details
+CREATE OR REPLACE FUNCTION public.update_customer_profile(
+  p_store_id UUID,
+  p_full_name TEXT,
+  p_phone TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(trim(p_full_name), '') = '' THEN
+    RAISE EXCEPTION 'Please enter your name';
+  END IF;
+
+  UPDATE public.customers
+  SET
+    full_name = trim(p_full_name),
+    phone = NULLIF(trim(p_phone), '')
+  WHERE store_id = p_store_id
+    AND user_id = auth.uid()
+    AND public.has_role(auth.uid(), 'customer');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_customer_profile(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,94 @@
+-- ============================================================================
+-- PUBLIC ORDER TRACKING
+-- ============================================================================
+-- Shoppers look up an order on the storefront's /track page with its order
+-- number and the email or phone it was placed with - no account needed.
+--
+-- - orders.tracking_number: the courier's tracking number, entered by the
+--   merchant on the order
+-- - track_order(): returns one order's status, items, shipping address and
+--   tracking number when the order number and contact match
+--
+-- orders stays closed to public select. A wrong order number and a wrong
+-- contact give the same error, so the lookup can't be used to probe which
+-- order numbers exist.
+-- ============================================================================
+
+-- STEP 1: Tracking number
+ALTER TABLE public.orders ADD COLUMN tracking_number TEXT;
+
+-- STEP 2: Lookup
+-- p_contact: the order's email, or its customer or shipping phone (compared
+-- on the last 10 digits, so "+977 98..." matches "98...")
+CREATE OR REPLACE FUNCTION public.track_order(
+  p_store_id UUID,
+  p_order_number TEXT,
+  p_contact TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact TEXT := lower(trim(p_contact));
+  v_phone TEXT := right(regexp_replace(COALESCE(p_contact, ''), '\D', '', 'g'), 10);
+  v_order public.orders;
+BEGIN
+  IF COALESCE(trim(p_order_number), '') = '' OR COALESCE(v_contact, '') = '' THEN
+    RAISE EXCEPTION 'Please enter your order number and email or phone';
+  END IF;
+
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.stores s ON s.id = o.store_id
+  LEFT JOIN public.customers c ON c.id = o.customer_id
+  WHERE o.store_id = p_store_id
+    AND s.status = 'active'
+    AND upper(o.order_number) = upper(trim(p_order_number))
+    AND (
+      (position('@' IN v_contact) > 0 AND lower(c.email) = v_contact)
+      OR (
+        position('@' IN v_contact) = 0
+        AND length(v_phone) >= 7
+        AND v_phone IN (
+          right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 10),
+          right(regexp_replace(COALESCE(o.shipping_address->>'phone', ''), '\D', '', 'g'), 10)
+        )
+      )
+    );
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'We couldn''t find an order with that order number and email or phone';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_number', v_order.order_number,
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'payment_method', v_order.payment_method,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'shipping_amount', v_order.shipping_amount,
+    'total', v_order.total,
+    'shipping_address', v_order.shipping_address,
+    'tracking_number', v_order.tracking_number,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', oi.product_name,
+        'variant_name', oi.variant_name,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_order(UUID, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,307 @@
+-- ============================================================================
+-- ORDER EVENTS AND STATUS RULES
+-- ============================================================================
+-- Every order keeps a history of what happened to it:
+--
+-- - order_events: one row per event - order placed, status change, staff
+--   note, payment update or shipment - with who did it and when. Rows are
+--   written by the triggers below and add_order_note(); nobody edits them
+-- - order_status_transition_allowed(): the order state machine. Orders move
+--   forward through pending -> confirmed -> processing -> shipped ->
+--   delivered, can be cancelled until delivered, and only cancelled or
+--   delivered orders can be refunded. Any other change (e.g. delivered ->
+--   pending) is rejected by trigger_enforce_order_status_transition
+-- - track_order() now also returns the status history, so the tracking page
+--   shows when each step happened
+--
+-- Existing orders get a 'placed' event at their creation time.
+-- ============================================================================
+
+-- STEP 1: Event types
+CREATE TYPE public.order_event_type AS ENUM (
+  'placed',
+  'status_changed',
+  'note',
+  'payment',
+  'shipment'
+);
+
+-- STEP 2: Event table
+-- actor: 'staff' (a store member), 'customer' (the shopper) or 'system'
+-- (edge functions and other service-role writes)
+CREATE TABLE public.order_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  event_type public.order_event_type NOT NULL,
+  from_status public.order_status,
+  to_status public.order_status,
+  note TEXT CHECK (char_length(note) <= 2000),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor TEXT NOT NULL CHECK (actor IN ('staff', 'customer', 'system')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_events_order ON public.order_events(order_id, created_at);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for store members: rows are only written by the functions below
+CREATE POLICY "Store members can view order events"
+  ON public.order_events FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+-- Who is making the current change to an order in this store
+CREATE OR REPLACE FUNCTION public.current_order_actor(p_store_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN public.can_access_store(auth.uid(), p_store_id) THEN 'staff'
+    ELSE 'customer'
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_order_actor(UUID) FROM PUBLIC, anon, authenticated;
+
+-- STEP 3: State machine
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(
+  p_from public.order_status,
+  p_to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'processing', 'shipped', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('processing', 'shipped', 'cancelled')
+    WHEN 'processing' THEN p_to IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN p_to IN ('delivered', 'cancelled')
+    WHEN 'delivered' THEN p_to IN ('refunded')
+    WHEN 'cancelled' THEN p_to IN ('refunded')
+    ELSE false
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An order can''t go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- STEP 4: Event triggers
+CREATE OR REPLACE FUNCTION public.record_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Orders are only created by shoppers at checkout
+    INSERT INTO public.order_events (store_id, order_id, event_type, to_status, actor, created_by)
+    VALUES (NEW.store_id, NEW.id, 'placed', NEW.status, 'customer', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.order_events (
+      store_id, order_id, event_type, from_status, to_status, actor, created_by
+    )
+    VALUES (
+      NEW.store_id, NEW.id, 'status_changed', OLD.status, NEW.status,
+      public.current_order_actor(NEW.store_id), auth.uid()
+    );
+  END IF;
+
+  IF NEW.tracking_number IS NOT NULL AND OLD.tracking_number IS DISTINCT FROM NEW.tracking_number THEN
+    INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+    VALUES (
+      NEW.store_id, NEW.id, 'shipment',
+      jsonb_build_object('tracking_number', NEW.tracking_number),
+      public.current_order_actor(NEW.store_id), auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_record_order_placed
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
+
+CREATE TRIGGER trigger_record_order_update
+  AFTER UPDATE OF status, tracking_number ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
+
+-- Pending payments are part of placing the order; record what happens next
+CREATE OR REPLACE FUNCTION public.record_payment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = NEW.status) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    NEW.store_id, NEW.order_id, 'payment',
+    jsonb_build_object(
+      'payment_id', NEW.id,
+      'provider', NEW.provider,
+      'status', NEW.status,
+      'amount', NEW.amount,
+      'reference', NEW.provider_reference
+    ),
+    public.current_order_actor(NEW.store_id), auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_record_payment_event
+  AFTER INSERT OR UPDATE OF status ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_payment_event();
+
+-- STEP 5: Staff notes
+CREATE OR REPLACE FUNCTION public.add_order_note(p_order_id UUID, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_order.store_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'Please enter a note';
+  END IF;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, note, actor, created_by)
+  VALUES (v_order.store_id, v_order.id, 'note', trim(p_note), 'staff', auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_order_note(UUID, TEXT) TO authenticated;
+
+-- STEP 6: Backfill
+INSERT INTO public.order_events (store_id, order_id, event_type, to_status, actor, created_at)
+SELECT store_id, id, 'placed', 'pending', 'customer', created_at
+FROM public.orders;
+
+-- STEP 7: Status history on the tracking page
+-- Same lookup as before; 'history' lists when the order reached each status
+CREATE OR REPLACE FUNCTION public.track_order(
+  p_store_id UUID,
+  p_order_number TEXT,
+  p_contact TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact TEXT := lower(trim(p_contact));
+  v_phone TEXT := right(regexp_replace(COALESCE(p_contact, ''), '\D', '', 'g'), 10);
+  v_order public.orders;
+BEGIN
+  IF COALESCE(trim(p_order_number), '') = '' OR COALESCE(v_contact, '') = '' THEN
+    RAISE EXCEPTION 'Please enter your order number and email or phone';
+  END IF;
+
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.stores s ON s.id = o.store_id
+  LEFT JOIN public.customers c ON c.id = o.customer_id
+  WHERE o.store_id = p_store_id
+    AND s.status = 'active'
+    AND upper(o.order_number) = upper(trim(p_order_number))
+    AND (
+      (position('@' IN v_contact) > 0 AND lower(c.email) = v_contact)
+      OR (
+        position('@' IN v_contact) = 0
+        AND length(v_phone) >= 7
+        AND v_phone IN (
+          right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 10),
+          right(regexp_replace(COALESCE(o.shipping_address->>'phone', ''), '\D', '', 'g'), 10)
+        )
+      )
+    );
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'We couldn''t find an order with that order number and email or phone';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_number', v_order.order_number,
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'payment_method', v_order.payment_method,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'shipping_amount', v_order.shipping_amount,
+    'total', v_order.total,
+    'shipping_address', v_order.shipping_address,
+    'tracking_number', v_order.tracking_number,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', oi.product_name,
+        'variant_name', oi.variant_name,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = v_order.id
+    ), '[]'::jsonb),
+    'history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', e.to_status,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at)
+      FROM public.order_events e
+      WHERE e.order_id = v_order.id
+        AND e.event_type IN ('placed', 'status_changed')
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,388 @@
+-- ============================================================================
+-- SHIPMENTS AND PARTIAL FULFILLMENT
+-- ============================================================================
+-- An order ships in one or more packages. Each shipment records the
+-- carrier, tracking number, tracking URL and which order items (and how
+-- many of each) went in it.
+--
+-- - shipments / shipment_items: written only by create_shipment(); store
+--   members can read them
+-- - create_shipment(): checks quantities against what is left to ship,
+--   records a 'shipment' order event and moves the order to 'processing'
+--   (partly shipped) or 'shipped' (everything shipped), which sends the
+--   shipped email and SMS
+-- - shipments.tracking_url: the carrier's tracking URL template with
+--   {tracking_number} filled in
+-- - track_order() returns the shipments instead of a single tracking number
+-- - Shipped emails and SMS can use {{carrier}}, {{tracking_number}},
+--   {{tracking_url}} and (emails) {{tracking_details}}; the default shipped
+--   templates now include them
+--
+-- orders.tracking_number is replaced by shipments: orders that had one get
+-- a shipment with all their items.
+-- ============================================================================
+
+-- STEP 1: Shipments
+CREATE TABLE public.shipments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  carrier TEXT NOT NULL CHECK (char_length(carrier) BETWEEN 1 AND 100),
+  tracking_number TEXT CHECK (char_length(tracking_number) <= 100),
+  -- e.g. https://www.fedex.com/fedextrack/?trknbr={tracking_number}
+  tracking_url_template TEXT CHECK (
+    tracking_url_template ~ '^https?://' AND position('{tracking_number}' IN tracking_url_template) > 0
+  ),
+  tracking_url TEXT GENERATED ALWAYS AS (
+    replace(tracking_url_template, '{tracking_number}', tracking_number)
+  ) STORED,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shipments_order ON public.shipments(order_id, created_at);
+
+CREATE TABLE public.shipment_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE(shipment_id, order_item_id)
+);
+
+CREATE INDEX idx_shipment_items_order_item ON public.shipment_items(order_item_id);
+
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_items ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for store members: rows are only written by create_shipment()
+CREATE POLICY "Store members can view shipments"
+  ON public.shipments FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE POLICY "Store members can view shipment items"
+  ON public.shipment_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.shipments s
+    WHERE s.id = shipment_id
+      AND public.can_access_store(auth.uid(), s.store_id)
+  ));
+
+-- STEP 2: Create a shipment
+-- p_items: [{ "order_item_id": "...", "quantity": 2 }, ...]
+CREATE OR REPLACE FUNCTION public.create_shipment(
+  p_order_id UUID,
+  p_carrier TEXT,
+  p_items JSONB,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_tracking_url_template TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_shipment public.shipments;
+  v_line JSONB;
+  v_item public.order_items;
+  v_quantity INTEGER;
+  v_shipped INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_order.store_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+    RAISE EXCEPTION 'Only open orders that have not been fully shipped can get a shipment';
+  END IF;
+
+  IF COALESCE(trim(p_carrier), '') = '' THEN
+    RAISE EXCEPTION 'Please choose a carrier';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to ship';
+  END IF;
+
+  INSERT INTO public.shipments (
+    store_id, order_id, carrier, tracking_number, tracking_url_template, created_by
+  )
+  VALUES (
+    v_order.store_id,
+    v_order.id,
+    trim(p_carrier),
+    NULLIF(trim(p_tracking_number), ''),
+    NULLIF(trim(p_tracking_url_template), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_shipment;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID AND order_id = v_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    SELECT COALESCE(SUM(si.quantity), 0) INTO v_shipped
+    FROM public.shipment_items si
+    WHERE si.order_item_id = v_item.id;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_item.quantity - v_shipped THEN
+      RAISE EXCEPTION 'Only % of "%" left to ship', v_item.quantity - v_shipped, v_item.product_name;
+    END IF;
+
+    INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity)
+    VALUES (v_shipment.id, v_item.id, v_quantity);
+  END LOOP;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    v_order.store_id, v_order.id, 'shipment',
+    jsonb_build_object(
+      'shipment_id', v_shipment.id,
+      'carrier', v_shipment.carrier,
+      'tracking_number', v_shipment.tracking_number,
+      'tracking_url', v_shipment.tracking_url,
+      'quantity', (SELECT SUM(quantity) FROM public.shipment_items WHERE shipment_id = v_shipment.id)
+    ),
+    'staff', auth.uid()
+  );
+
+  SELECT COALESCE(SUM(oi.quantity - COALESCE(shipped.quantity, 0)), 0)
+  INTO v_remaining
+  FROM public.order_items oi
+  LEFT JOIN (
+    SELECT si.order_item_id, SUM(si.quantity) AS quantity
+    FROM public.shipment_items si
+    GROUP BY si.order_item_id
+  ) shipped ON shipped.order_item_id = oi.id
+  WHERE oi.order_id = v_order.id;
+
+  IF v_remaining = 0 THEN
+    UPDATE public.orders SET status = 'shipped' WHERE id = v_order.id;
+  ELSIF v_order.status <> 'processing' THEN
+    UPDATE public.orders SET status = 'processing' WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_shipment.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_shipment(UUID, TEXT, JSONB, TEXT, TEXT) TO authenticated;
+
+-- STEP 3: Replace orders.tracking_number
+INSERT INTO public.shipments (store_id, order_id, carrier, tracking_number, created_at)
+SELECT store_id, id, 'Other', tracking_number, updated_at
+FROM public.orders
+WHERE tracking_number IS NOT NULL;
+
+INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity)
+SELECT s.id, oi.id, oi.quantity
+FROM public.shipments s
+JOIN public.order_items oi ON oi.order_id = s.order_id;
+
+CREATE OR REPLACE FUNCTION public.record_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Orders are only created by shoppers at checkout
+    INSERT INTO public.order_events (store_id, order_id, event_type, to_status, actor, created_by)
+    VALUES (NEW.store_id, NEW.id, 'placed', NEW.status, 'customer', auth.uid());
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.order_events (
+      store_id, order_id, event_type, from_status, to_status, actor, created_by
+    )
+    VALUES (
+      NEW.store_id, NEW.id, 'status_changed', OLD.status, NEW.status,
+      public.current_order_actor(NEW.store_id), auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_order_update ON public.orders;
+
+CREATE TRIGGER trigger_record_order_update
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
+
+ALTER TABLE public.orders DROP COLUMN tracking_number;
+
+-- STEP 4: Shipments on the tracking page
+CREATE OR REPLACE FUNCTION public.track_order(
+  p_store_id UUID,
+  p_order_number TEXT,
+  p_contact TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact TEXT := lower(trim(p_contact));
+  v_phone TEXT := right(regexp_replace(COALESCE(p_contact, ''), '\D', '', 'g'), 10);
+  v_order public.orders;
+BEGIN
+  IF COALESCE(trim(p_order_number), '') = '' OR COALESCE(v_contact, '') = '' THEN
+    RAISE EXCEPTION 'Please enter your order number and email or phone';
+  END IF;
+
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  JOIN public.stores s ON s.id = o.store_id
+  LEFT JOIN public.customers c ON c.id = o.customer_id
+  WHERE o.store_id = p_store_id
+    AND s.status = 'active'
+    AND upper(o.order_number) = upper(trim(p_order_number))
+    AND (
+      (position('@' IN v_contact) > 0 AND lower(c.email) = v_contact)
+      OR (
+        position('@' IN v_contact) = 0
+        AND length(v_phone) >= 7
+        AND v_phone IN (
+          right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 10),
+          right(regexp_replace(COALESCE(o.shipping_address->>'phone', ''), '\D', '', 'g'), 10)
+        )
+      )
+    );
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'We couldn''t find an order with that order number and email or phone';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_number', v_order.order_number,
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'payment_method', v_order.payment_method,
+    'subtotal', v_order.subtotal,
+    'discount_amount', v_order.discount_amount,
+    'shipping_amount', v_order.shipping_amount,
+    'total', v_order.total,
+    'shipping_address', v_order.shipping_address,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', oi.product_name,
+        'variant_name', oi.variant_name,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = v_order.id
+    ), '[]'::jsonb),
+    'history', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'status', e.to_status,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at)
+      FROM public.order_events e
+      WHERE e.order_id = v_order.id
+        AND e.event_type IN ('placed', 'status_changed')
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', sh.carrier,
+        'tracking_number', sh.tracking_number,
+        'tracking_url', sh.tracking_url,
+        'created_at', sh.created_at,
+        'items', (
+          SELECT jsonb_agg(jsonb_build_object(
+            'product_name', oi.product_name,
+            'variant_name', oi.variant_name,
+            'quantity', si.quantity
+          ) ORDER BY oi.created_at)
+          FROM public.shipment_items si
+          JOIN public.order_items oi ON oi.id = si.order_item_id
+          WHERE si.shipment_id = sh.id
+        )
+      ) ORDER BY sh.created_at)
+      FROM public.shipments sh
+      WHERE sh.order_id = v_order.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- STEP 5: Tracking in the default shipped email
+CREATE OR REPLACE FUNCTION public.initialize_store_email_templates(p_store_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.email_templates (store_id, event, recipient, subject, body, is_enabled)
+  VALUES
+    (p_store_id, 'order_placed', 'customer',
+     'We received your order {{order_number}}',
+     E'Hi {{customer_name}},\n\nThank you for shopping with {{store_name}}! We have received your order {{order_number}} and will let you know as soon as it is confirmed.\n\n{{order_items}}\n\nTotal: {{order_total}}\nPayment: {{payment_method}}\n\nShipping to:\n{{shipping_address}}',
+     true),
+    (p_store_id, 'order_placed', 'merchant',
+     'New order {{order_number}} - {{order_total}}',
+     E'You have a new order from {{customer_name}} ({{customer_email}}, {{customer_phone}}).\n\n{{order_items}}\n\nTotal: {{order_total}}\nPayment: {{payment_method}}\n\nShipping to:\n{{shipping_address}}',
+     true),
+    (p_store_id, 'order_confirmed', 'customer',
+     'Your order {{order_number}} is confirmed',
+     E'Hi {{customer_name}},\n\nGood news - {{store_name}} has confirmed your order {{order_number}}. We are getting it ready to ship.\n\n{{order_items}}\n\nTotal: {{order_total}}',
+     true),
+    (p_store_id, 'order_confirmed', 'merchant',
+     'Order {{order_number}} confirmed',
+     E'Order {{order_number}} from {{customer_name}} was confirmed.',
+     false),
+    (p_store_id, 'order_shipped', 'customer',
+     'Your order {{order_number}} is on its way',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been shipped and is on its way to:\n{{shipping_address}}\n\n{{tracking_details}}',
+     true),
+    (p_store_id, 'order_shipped', 'merchant',
+     'Order {{order_number}} shipped',
+     E'Order {{order_number}} for {{customer_name}} was marked as shipped.',
+     false),
+    (p_store_id, 'order_delivered', 'customer',
+     'Your order {{order_number}} has been delivered',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been delivered. We hope you enjoy your purchase!\n\nThank you for shopping with {{store_name}}.',
+     true),
+    (p_store_id, 'order_delivered', 'merchant',
+     'Order {{order_number}} delivered',
+     E'Order {{order_number}} for {{customer_name}} was marked as delivered.',
+     false),
+    (p_store_id, 'order_cancelled', 'customer',
+     'Your order {{order_number}} has been cancelled',
+     E'Hi {{customer_name}},\n\nYour order {{order_number}} has been cancelled. If you have already paid, you will be refunded.\n\nIf you have any questions, just reply to this email.',
+     true),
+    (p_store_id, 'order_cancelled', 'merchant',
+     'Order {{order_number}} cancelled',
+     E'Order {{order_number}} from {{customer_name}} ({{order_total}}) was cancelled.',
+     true)
+  ON CONFLICT (store_id, event, recipient) DO NOTHING;
+END;
+$$;
+
+-- Stores still using the old default get the new one
+UPDATE public.email_templates
+SET body = E'Hi {{customer_name}},\n\nYour order {{order_number}} has been shipped and is on its way to:\n{{shipping_address}}\n\n{{tracking_details}}'
+WHERE event = 'order_shipped'
+  AND recipient = 'customer'
+  AND body = E'Hi {{customer_name}},\n\nYour order {{order_number}} has been shipped and is on its way to:\n{{shipping_address}}';
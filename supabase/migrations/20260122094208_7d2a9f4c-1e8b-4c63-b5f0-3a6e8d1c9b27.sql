@@ -0,0 +1,510 @@
+-- ============================================================================
+-- RETURNS, REFUNDS AND STORE CREDIT
+-- ============================================================================
+-- - returns / return_items: a return request lists order items with a
+--   quantity and reason per line. Shoppers request returns of delivered
+--   orders from their account (status 'requested'); returns opened by staff
+--   start 'approved'. Staff approve or reject requests and mark approved
+--   returns as received, which puts the items back in stock (movement reason
+--   'return') unless the merchant chooses not to restock them
+-- - refunds: full or partial refunds of a paid order, either to the original
+--   payment (recorded here; the money is returned through the provider or in
+--   cash) or as store credit on the customer. A refund raises
+--   orders.refunded_amount and lowers customers.total_spent; refunding the
+--   whole order marks its payment refunded and, when delivered or
+--   cancelled, the order itself
+-- - order_items.restocked_quantity: units already put back by returns, so
+--   cancelling the order does not restock them twice. Refunding an order no
+--   longer restocks it - returned items are restocked when received
+-- - get_customer_orders() also returns order item ids, the refunded amount
+--   and the order's returns
+-- ============================================================================
+
+-- STEP 1: Types and columns
+CREATE TYPE public.return_status AS ENUM ('requested', 'approved', 'rejected', 'received');
+
+CREATE TYPE public.return_reason AS ENUM (
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other'
+);
+
+ALTER TYPE public.order_event_type ADD VALUE IF NOT EXISTS 'return';
+ALTER TYPE public.order_event_type ADD VALUE IF NOT EXISTS 'refund';
+
+ALTER TABLE public.orders
+  ADD COLUMN refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+ALTER TABLE public.customers
+  ADD COLUMN store_credit DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (store_credit >= 0);
+
+ALTER TABLE public.order_items
+  ADD COLUMN restocked_quantity INTEGER NOT NULL DEFAULT 0 CHECK (restocked_quantity >= 0);
+
+-- STEP 2: Returns
+CREATE TABLE public.returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status public.return_status NOT NULL DEFAULT 'requested',
+  note TEXT CHECK (char_length(note) <= 2000),
+  requested_by TEXT NOT NULL CHECK (requested_by IN ('staff', 'customer')),
+  restocked BOOLEAN NOT NULL DEFAULT false,
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_returns_order ON public.returns(order_id);
+CREATE INDEX idx_returns_store_status ON public.returns(store_id, status, created_at);
+
+CREATE TABLE public.return_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  return_id UUID NOT NULL REFERENCES public.returns(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason public.return_reason NOT NULL,
+  UNIQUE(return_id, order_item_id)
+);
+
+CREATE INDEX idx_return_items_order_item ON public.return_items(order_item_id);
+
+CREATE TRIGGER update_returns_updated_at
+  BEFORE UPDATE ON public.returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- STEP 3: Refunds
+-- method: 'original_payment' or 'store_credit'
+CREATE TABLE public.refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  return_id UUID REFERENCES public.returns(id) ON DELETE SET NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL CHECK (method IN ('original_payment', 'store_credit')),
+  reason TEXT CHECK (char_length(reason) <= 500),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_refunds_order ON public.refunds(order_id, created_at);
+
+ALTER TABLE public.returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for store members: rows are only written by the functions below
+CREATE POLICY "Store members can view returns"
+  ON public.returns FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+CREATE POLICY "Store members can view return items"
+  ON public.return_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.returns r
+    WHERE r.id = return_id
+      AND public.can_access_store(auth.uid(), r.store_id)
+  ));
+
+CREATE POLICY "Store members can view refunds"
+  ON public.refunds FOR SELECT
+  USING (public.can_access_store(auth.uid(), store_id));
+
+-- STEP 4: Requesting a return
+-- p_items: [{ "order_item_id": "...", "quantity": 1, "reason": "damaged" }, ...]
+-- Called by store members (any shipped or delivered order) or by the
+-- signed-in shopper who placed the order (delivered orders only).
+CREATE OR REPLACE FUNCTION public.request_return(
+  p_order_id UUID,
+  p_items JSONB,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_is_staff BOOLEAN;
+  v_return public.returns;
+  v_line JSONB;
+  v_item public.order_items;
+  v_quantity INTEGER;
+  v_returned INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_is_staff := public.can_access_store(auth.uid(), v_order.store_id);
+
+  IF NOT v_is_staff AND (
+    v_order.customer_id IS NULL
+    OR NOT public.is_customer_account(auth.uid(), v_order.store_id, v_order.customer_id)
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status <> 'delivered' AND NOT (v_is_staff AND v_order.status = 'shipped') THEN
+    RAISE EXCEPTION 'Returns can only be requested for delivered orders';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  INSERT INTO public.returns (store_id, order_id, status, note, requested_by, created_by)
+  VALUES (
+    v_order.store_id,
+    v_order.id,
+    CASE WHEN v_is_staff THEN 'approved' ELSE 'requested' END::public.return_status,
+    NULLIF(trim(p_note), ''),
+    CASE WHEN v_is_staff THEN 'staff' ELSE 'customer' END,
+    auth.uid()
+  )
+  RETURNING * INTO v_return;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID AND order_id = v_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    SELECT COALESCE(SUM(ri.quantity), 0) INTO v_returned
+    FROM public.return_items ri
+    JOIN public.returns r ON r.id = ri.return_id
+    WHERE ri.order_item_id = v_item.id
+      AND r.status <> 'rejected';
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Only % of "%" can still be returned', v_item.quantity - v_returned, v_item.product_name;
+    END IF;
+
+    INSERT INTO public.return_items (return_id, order_item_id, quantity, reason)
+    VALUES (
+      v_return.id,
+      v_item.id,
+      v_quantity,
+      COALESCE(NULLIF(v_line->>'reason', ''), 'other')::public.return_reason
+    );
+  END LOOP;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    v_order.store_id, v_order.id, 'return',
+    jsonb_build_object(
+      'return_id', v_return.id,
+      'status', v_return.status,
+      'quantity', (SELECT SUM(quantity) FROM public.return_items WHERE return_id = v_return.id)
+    ),
+    v_return.requested_by, auth.uid()
+  );
+
+  RETURN v_return.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_return(UUID, JSONB, TEXT) TO authenticated;
+
+-- STEP 5: Reviewing and receiving returns
+-- requested -> approved | rejected, approved -> received | rejected.
+-- Receiving restocks the returned items when p_restock is true.
+CREATE OR REPLACE FUNCTION public.set_return_status(
+  p_return_id UUID,
+  p_status public.return_status,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.returns;
+  v_line RECORD;
+  v_restocked BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_return FROM public.returns WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_return.store_id) THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  IF NOT (
+    (v_return.status = 'requested' AND p_status IN ('approved', 'rejected'))
+    OR (v_return.status = 'approved' AND p_status IN ('received', 'rejected'))
+  ) THEN
+    RAISE EXCEPTION 'A return can''t go from % to %', v_return.status, p_status;
+  END IF;
+
+  IF p_status = 'received' AND p_restock THEN
+    -- Only items whose stock is still taken by the order go back on the shelf
+    FOR v_line IN
+      SELECT oi.id, oi.product_id, oi.variant_id, ri.quantity
+      FROM public.return_items ri
+      JOIN public.order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.return_id = v_return.id
+        AND oi.inventory_reserved
+        AND oi.product_id IS NOT NULL
+      FOR UPDATE OF oi
+    LOOP
+      IF public.adjust_stock(v_line.product_id, v_line.variant_id, v_line.quantity, 'return', v_return.order_id) THEN
+        UPDATE public.order_items
+        SET restocked_quantity = restocked_quantity + v_line.quantity
+        WHERE id = v_line.id;
+        v_restocked := true;
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE public.returns
+  SET
+    status = p_status,
+    restocked = v_restocked,
+    received_at = CASE WHEN p_status = 'received' THEN now() ELSE received_at END
+  WHERE id = v_return.id;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    v_return.store_id, v_return.order_id, 'return',
+    jsonb_build_object('return_id', v_return.id, 'status', p_status, 'restocked', v_restocked),
+    'staff', auth.uid()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_return_status(UUID, public.return_status, BOOLEAN) TO authenticated;
+
+-- STEP 6: Refunds
+CREATE OR REPLACE FUNCTION public.refund_order(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_method TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_return_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_refund public.refunds;
+  v_refundable NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_order.store_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF p_method NOT IN ('original_payment', 'store_credit') THEN
+    RAISE EXCEPTION 'Choose how to refund the customer';
+  END IF;
+
+  IF p_method = 'store_credit' AND v_order.customer_id IS NULL THEN
+    RAISE EXCEPTION 'This order has no customer to give store credit to';
+  END IF;
+
+  v_refundable := v_order.total - v_order.refunded_amount;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Enter an amount to refund';
+  END IF;
+
+  IF round(p_amount, 2) > v_refundable THEN
+    RAISE EXCEPTION 'You can refund at most % on this order', v_refundable;
+  END IF;
+
+  IF p_return_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.returns
+    WHERE id = p_return_id
+      AND order_id = v_order.id
+      AND status IN ('approved', 'received')
+  ) THEN
+    RAISE EXCEPTION 'Only approved or received returns of this order can be refunded';
+  END IF;
+
+  INSERT INTO public.refunds (store_id, order_id, return_id, amount, method, reason, created_by)
+  VALUES (
+    v_order.store_id, v_order.id, p_return_id, round(p_amount, 2), p_method,
+    NULLIF(trim(p_reason), ''), auth.uid()
+  )
+  RETURNING * INTO v_refund;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    v_order.store_id, v_order.id, 'refund',
+    jsonb_build_object(
+      'refund_id', v_refund.id,
+      'amount', v_refund.amount,
+      'method', v_refund.method,
+      'reason', v_refund.reason,
+      'return_id', v_refund.return_id
+    ),
+    'staff', auth.uid()
+  );
+
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund.amount,
+    payment_status = CASE
+      WHEN refunded_amount + v_refund.amount >= total THEN 'refunded'::public.payment_status
+      ELSE payment_status
+    END,
+    status = CASE
+      WHEN refunded_amount + v_refund.amount >= total
+        AND public.order_status_transition_allowed(status, 'refunded') THEN 'refunded'::public.order_status
+      ELSE status
+    END
+  WHERE id = v_order.id;
+
+  IF v_order.customer_id IS NOT NULL THEN
+    UPDATE public.customers
+    SET
+      total_spent = GREATEST(COALESCE(total_spent, 0) - v_refund.amount, 0),
+      store_credit = store_credit + CASE WHEN p_method = 'store_credit' THEN v_refund.amount ELSE 0 END
+    WHERE id = v_order.customer_id;
+  END IF;
+
+  RETURN v_refund.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refund_order(UUID, NUMERIC, TEXT, TEXT, UUID) TO authenticated;
+
+-- STEP 7: Order stock on cancel
+-- Same as before, except that only cancelling restocks (refunds restock
+-- through returns) and units already restocked by a return are skipped.
+CREATE OR REPLACE FUNCTION public.sync_order_stock_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.order_items;
+  v_was_closed BOOLEAN := OLD.status IN ('cancelled', 'refunded');
+  v_is_closed BOOLEAN := NEW.status IN ('cancelled', 'refunded');
+BEGIN
+  IF NEW.status = 'cancelled' AND NOT v_was_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND inventory_reserved
+    LOOP
+      IF v_item.quantity > v_item.restocked_quantity THEN
+        PERFORM public.adjust_stock(
+          v_item.product_id, v_item.variant_id, v_item.quantity - v_item.restocked_quantity,
+          'cancellation_restock', NEW.id
+        );
+      END IF;
+      UPDATE public.order_items SET inventory_reserved = false WHERE id = v_item.id;
+    END LOOP;
+  ELSIF v_was_closed AND NOT v_is_closed THEN
+    FOR v_item IN
+      SELECT * FROM public.order_items
+      WHERE order_id = NEW.id AND NOT inventory_reserved AND product_id IS NOT NULL
+    LOOP
+      IF public.adjust_stock(
+        v_item.product_id, v_item.variant_id, -(v_item.quantity - v_item.restocked_quantity), 'sale', NEW.id
+      ) THEN
+        UPDATE public.order_items SET inventory_reserved = true WHERE id = v_item.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- STEP 8: Returns in the shopper's order history
+DROP FUNCTION IF EXISTS public.get_customer_orders(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_customer_orders(p_store_id UUID)
+RETURNS TABLE (
+  id UUID,
+  order_number TEXT,
+  status public.order_status,
+  payment_status public.payment_status,
+  payment_method TEXT,
+  subtotal NUMERIC,
+  discount_amount NUMERIC,
+  shipping_amount NUMERIC,
+  total NUMERIC,
+  refunded_amount NUMERIC,
+  shipping_address JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  items JSONB,
+  returns JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id, o.order_number, o.status, o.payment_status, o.payment_method,
+    o.subtotal, o.discount_amount, o.shipping_amount, o.total, o.refunded_amount,
+    o.shipping_address, o.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', oi.id,
+        'product_id', oi.product_id,
+        'product_name', oi.product_name,
+        'variant_name', oi.variant_name,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'status', r.status,
+        'created_at', r.created_at,
+        'items', (
+          SELECT jsonb_agg(jsonb_build_object(
+            'order_item_id', ri.order_item_id,
+            'product_name', oi.product_name,
+            'variant_name', oi.variant_name,
+            'quantity', ri.quantity,
+            'reason', ri.reason
+          ) ORDER BY oi.created_at)
+          FROM public.return_items ri
+          JOIN public.order_items oi ON oi.id = ri.order_item_id
+          WHERE ri.return_id = r.id
+        )
+      ) ORDER BY r.created_at)
+      FROM public.returns r
+      WHERE r.order_id = o.id
+    ), '[]'::jsonb)
+  FROM public.orders o
+  JOIN public.customers c ON c.id = o.customer_id
+  WHERE o.store_id = p_store_id
+    AND c.user_id = auth.uid()
+    AND public.has_role(auth.uid(), 'customer')
+  ORDER BY o.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_orders(UUID) TO authenticated;
@@ -0,0 +1,38 @@
+-- ============================================================================
+-- FREE DISCOUNT CODE USES ON CANCELLATION
+-- ============================================================================
+-- apply_order_discount_code() uses up a discount code when the order is
+-- inserted, but nothing gave the use back when the order was cancelled (by
+-- staff, or by a failed online payment in complete_payment()), so a
+-- limited code ran out on orders that never went through.
+-- - release_cancelled_order_discount_code(): when an order becomes
+--   'cancelled', free its discount code use
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.release_cancelled_order_discount_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.discount_codes
+  SET used_count = GREATEST(COALESCE(used_count, 0) - 1, 0)
+  WHERE id = NEW.discount_code_id;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_cancelled_order_discount_code() FROM PUBLIC, anon, authenticated;
+
+-- 'cancelled' only ever moves on to 'refunded' (order_status_transition_allowed),
+-- so a code use is freed at most once
+CREATE TRIGGER trigger_release_cancelled_order_discount_code
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM NEW.status
+    AND NEW.discount_code_id IS NOT NULL
+  )
+  EXECUTE FUNCTION public.release_cancelled_order_discount_code();
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- RELEASE CUSTOMER TOTALS ON CANCELLATION
+-- ============================================================================
+-- place_order() counts every order towards the customer's total_orders /
+-- total_spent, but nothing gave them back when the order was cancelled (by
+-- staff, or by a failed online payment in complete_payment()).
+-- - release_cancelled_order_customer_totals(): when an order becomes
+--   'cancelled', take it off the customer's totals (minus anything already
+--   refunded, which refund_order() took off)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.release_cancelled_order_customer_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.customers
+  SET
+    total_orders = GREATEST(COALESCE(total_orders, 0) - 1, 0),
+    total_spent = GREATEST(COALESCE(total_spent, 0) - (NEW.total - NEW.refunded_amount), 0)
+  WHERE id = NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_cancelled_order_customer_totals() FROM PUBLIC, anon, authenticated;
+
+-- 'cancelled' only ever moves on to 'refunded' (order_status_transition_allowed),
+-- so an order is released at most once
+CREATE TRIGGER trigger_release_cancelled_order_customer_totals
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (
+    NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM NEW.status
+    AND NEW.customer_id IS NOT NULL
+  )
+  EXECUTE FUNCTION public.release_cancelled_order_customer_totals();
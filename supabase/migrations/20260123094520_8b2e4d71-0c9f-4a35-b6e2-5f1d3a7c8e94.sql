@@ -0,0 +1,38 @@
+-- ============================================================================
+-- PUBLISH NEW STORES
+-- ============================================================================
+-- Only stores that existed when store versions were added were published as
+-- version 1; stores created since had no published version, so their
+-- storefront rendered nothing until someone pressed Publish.
+-- - trigger_publish_initial_store_version: publishes every new store's
+--   seeded pages as version 1
+-- - Stores created in between are published the same way
+-- ============================================================================
+
+-- STEP 1: Publish new stores
+CREATE OR REPLACE FUNCTION public.publish_initial_store_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_store_version(NEW.id, 'Initial version', NULL, NEW.owner_id);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_initial_store_version() FROM PUBLIC, anon, authenticated;
+
+-- Triggers for the same event fire in name order, so this runs after
+-- trigger_auto_initialize_pages has seeded the pages and sections
+CREATE TRIGGER trigger_publish_initial_store_version
+  AFTER INSERT ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.publish_initial_store_version();
+
+-- STEP 2: Stores created without a published version
+SELECT public.create_store_version(s.id, 'Initial version', NULL, s.owner_id)
+FROM public.stores s
+WHERE s.published_version_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM public.store_versions v WHERE v.store_id = s.id);
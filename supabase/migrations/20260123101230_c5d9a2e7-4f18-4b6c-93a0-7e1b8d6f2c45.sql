@@ -0,0 +1,273 @@
+-- ============================================================================
+-- SHIPPED NOTIFICATIONS PER SHIPMENT
+-- ============================================================================
+-- order_shipped was only queued when the order's status became 'shipped',
+-- i.e. for the last package of a partially fulfilled order.
+-- - email_outbox.shipment_id / sms_outbox.shipment_id: the shipment a
+--   notification is about; the sender renders that shipment's tracking
+--   details instead of every shipment on the order
+-- - create_shipment() queues order_shipped for each shipment it creates
+-- - notify_order_event() no longer queues order_shipped when the order was
+--   shipped by create_shipment() in the same transaction; marking an order
+--   shipped by hand still notifies the customer
+-- ============================================================================
+
+-- STEP 1: Outbox columns
+ALTER TABLE public.email_outbox
+  ADD COLUMN shipment_id UUID REFERENCES public.shipments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sms_outbox
+  ADD COLUMN shipment_id UUID REFERENCES public.shipments(id) ON DELETE SET NULL;
+
+-- STEP 2: Enqueue helpers take the shipment
+-- Same as before, plus the optional shipment id stored on the outbox row.
+DROP FUNCTION IF EXISTS public.enqueue_order_notification(UUID, public.notification_event);
+DROP FUNCTION IF EXISTS public.enqueue_order_sms(UUID, public.notification_event);
+
+CREATE OR REPLACE FUNCTION public.enqueue_order_notification(
+  p_order_id UUID,
+  p_event public.notification_event,
+  p_shipment_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_template public.email_templates;
+  v_to_email TEXT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_template IN
+    SELECT * FROM public.email_templates
+    WHERE store_id = v_order.store_id AND event = p_event AND is_enabled
+  LOOP
+    IF v_template.recipient = 'customer' THEN
+      SELECT email INTO v_to_email FROM public.customers WHERE id = v_order.customer_id;
+    ELSE
+      -- Store contact email, falling back to the owner's login email
+      SELECT COALESCE(NULLIF(trim(s.email), ''), u.email) INTO v_to_email
+      FROM public.stores s
+      JOIN auth.users u ON u.id = s.owner_id
+      WHERE s.id = v_order.store_id;
+    END IF;
+
+    IF COALESCE(v_to_email, '') <> '' THEN
+      INSERT INTO public.email_outbox (store_id, order_id, event, recipient, to_email, shipment_id)
+      VALUES (v_order.store_id, v_order.id, p_event, v_template.recipient, v_to_email, p_shipment_id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_notification(UUID, public.notification_event, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.enqueue_order_sms(
+  p_order_id UUID,
+  p_event public.notification_event,
+  p_shipment_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_phone TEXT;
+BEGIN
+  IF p_event NOT IN ('order_placed', 'order_shipped', 'order_delivered') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.store_extensions
+    WHERE store_id = v_order.store_id
+      AND extension_id = 'sms_notifications'
+      AND is_enabled
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Customer phone, falling back to the one on the shipping address
+  SELECT NULLIF(trim(phone), '') INTO v_phone
+  FROM public.customers
+  WHERE id = v_order.customer_id;
+
+  v_phone := COALESCE(v_phone, NULLIF(trim(v_order.shipping_address->>'phone'), ''));
+
+  IF v_phone IS NOT NULL THEN
+    INSERT INTO public.sms_outbox (store_id, order_id, event, to_phone, shipment_id)
+    VALUES (v_order.store_id, v_order.id, p_event, v_phone, p_shipment_id);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_sms(UUID, public.notification_event, UUID) FROM PUBLIC, anon, authenticated;
+
+-- STEP 3: Status notifications
+CREATE OR REPLACE FUNCTION public.notify_order_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.notification_event;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_event := 'order_placed';
+  ELSE
+    v_event := CASE NEW.status
+      WHEN 'confirmed' THEN 'order_confirmed'
+      WHEN 'shipped' THEN 'order_shipped'
+      WHEN 'delivered' THEN 'order_delivered'
+      WHEN 'cancelled' THEN 'order_cancelled'
+    END;
+  END IF;
+
+  -- create_shipment() already queued order_shipped for the shipment that
+  -- completed the order (shipments.created_at is the transaction start)
+  IF v_event = 'order_shipped' AND EXISTS (
+    SELECT 1 FROM public.shipments
+    WHERE order_id = NEW.id AND created_at = now()
+  ) THEN
+    v_event := NULL;
+  END IF;
+
+  IF v_event IS NOT NULL THEN
+    PERFORM public.enqueue_order_notification(NEW.id, v_event);
+    PERFORM public.enqueue_order_sms(NEW.id, v_event);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- STEP 4: Notify each shipment
+-- Same as before, plus the order_shipped notifications.
+CREATE OR REPLACE FUNCTION public.create_shipment(
+  p_order_id UUID,
+  p_carrier TEXT,
+  p_items JSONB,
+  p_tracking_number TEXT DEFAULT NULL,
+  p_tracking_url_template TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_shipment public.shipments;
+  v_line JSONB;
+  v_item public.order_items;
+  v_quantity INTEGER;
+  v_shipped INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_store(auth.uid(), v_order.store_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+    RAISE EXCEPTION 'Only open orders that have not been fully shipped can get a shipment';
+  END IF;
+
+  IF COALESCE(trim(p_carrier), '') = '' THEN
+    RAISE EXCEPTION 'Please choose a carrier';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to ship';
+  END IF;
+
+  INSERT INTO public.shipments (
+    store_id, order_id, carrier, tracking_number, tracking_url_template, created_by
+  )
+  VALUES (
+    v_order.store_id,
+    v_order.id,
+    trim(p_carrier),
+    NULLIF(trim(p_tracking_number), ''),
+    NULLIF(trim(p_tracking_url_template), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_shipment;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+
+    SELECT * INTO v_item
+    FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID AND order_id = v_order.id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on this order';
+    END IF;
+
+    SELECT COALESCE(SUM(si.quantity), 0) INTO v_shipped
+    FROM public.shipment_items si
+    WHERE si.order_item_id = v_item.id;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_item.quantity - v_shipped THEN
+      RAISE EXCEPTION 'Only % of "%" left to ship', v_item.quantity - v_shipped, v_item.product_name;
+    END IF;
+
+    INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity)
+    VALUES (v_shipment.id, v_item.id, v_quantity);
+  END LOOP;
+
+  INSERT INTO public.order_events (store_id, order_id, event_type, metadata, actor, created_by)
+  VALUES (
+    v_order.store_id, v_order.id, 'shipment',
+    jsonb_build_object(
+      'shipment_id', v_shipment.id,
+      'carrier', v_shipment.carrier,
+      'tracking_number', v_shipment.tracking_number,
+      'tracking_url', v_shipment.tracking_url,
+      'quantity', (SELECT SUM(quantity) FROM public.shipment_items WHERE shipment_id = v_shipment.id)
+    ),
+    'staff', auth.uid()
+  );
+
+  -- Every package gets its own shipped notification, not just the last one
+  PERFORM public.enqueue_order_notification(v_order.id, 'order_shipped', v_shipment.id);
+  PERFORM public.enqueue_order_sms(v_order.id, 'order_shipped', v_shipment.id);
+
+  SELECT COALESCE(SUM(oi.quantity - COALESCE(shipped.quantity, 0)), 0)
+  INTO v_remaining
+  FROM public.order_items oi
+  LEFT JOIN (
+    SELECT si.order_item_id, SUM(si.quantity) AS quantity
+    FROM public.shipment_items si
+    GROUP BY si.order_item_id
+  ) shipped ON shipped.order_item_id = oi.id
+  WHERE oi.order_id = v_order.id;
+
+  IF v_remaining = 0 THEN
+    UPDATE public.orders SET status = 'shipped' WHERE id = v_order.id;
+  ELSIF v_order.status <> 'processing' THEN
+    UPDATE public.orders SET status = 'processing' WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_shipment.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_shipment(UUID, TEXT, JSONB, TEXT, TEXT) TO authenticated;
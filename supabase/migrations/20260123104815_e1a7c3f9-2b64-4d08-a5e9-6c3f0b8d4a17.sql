@@ -0,0 +1,28 @@
+-- ============================================================================
+-- REFUNDED ONLY THROUGH REFUNDS
+-- ============================================================================
+-- Staff could move a delivered or cancelled order to 'refunded' by hand,
+-- skipping refund_order(): no refund was recorded, refunded_amount stayed 0
+-- and the customer's totals were left as they were.
+-- - trigger_enforce_order_status_transition now also rejects 'refunded'
+--   until refunded_amount covers the order total, which only
+--   refund_order() sets
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An order can''t go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'refunded' AND NEW.refunded_amount < NEW.total THEN
+    RAISE EXCEPTION 'Refund the order in full to mark it as refunded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
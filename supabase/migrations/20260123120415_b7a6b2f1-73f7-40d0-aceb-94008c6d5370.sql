@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SERVE THE PUBLISHED VERSION THROUGH A FUNCTION
+-- ============================================================================
+-- Shoppers could select the whole published store_versions row, whose
+-- snapshot also holds hidden sections and the sections of unpublished pages,
+-- which were private while they were drafts. The snapshot keeps them so that
+-- restore_store_version() can bring them back.
+-- - store_versions is readable by store members only
+-- - get_published_store_version() returns the published theme,
+--   header/footer and the visible sections of published pages
+-- ============================================================================
+
+-- STEP 1: Versions are private to store members
+DROP POLICY IF EXISTS "Anyone can view the published version of active stores" ON public.store_versions;
+
+-- STEP 2: What shoppers see of the published version
+-- Page visibility stays live, like in the rest of the storefront.
+CREATE OR REPLACE FUNCTION public.get_published_store_version(p_store_slug TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'theme', v.theme,
+    'header_footer', v.header_footer,
+    'sections', COALESCE((
+      SELECT jsonb_agg(section.value ORDER BY section.ordinality)
+      FROM jsonb_array_elements(v.sections) WITH ORDINALITY AS section(value, ordinality)
+      JOIN public.store_pages p
+        ON p.id = (section.value->>'page_id')::UUID
+       AND p.store_id = s.id
+       AND p.is_published
+      WHERE (section.value->>'is_visible')::BOOLEAN
+    ), '[]'::jsonb)
+  )
+  FROM public.stores s
+  JOIN public.store_versions v ON v.id = s.published_version_id
+  WHERE s.slug = p_store_slug
+    AND s.status = 'active';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_published_store_version(TEXT) TO anon, authenticated;
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- TEST PAYMENTS ONLY IN TEST MODE
+-- ============================================================================
+-- payment_mock marks orders paid without taking any money, and nothing kept
+-- a store from enabling it while selling for real.
+-- - get_store_payment_methods() only offers mock when the project is in
+--   payments test mode:
+--     ALTER DATABASE postgres SET app.payments_test_mode = 'on';
+--   place_order() and the payment edge functions check the same list
+-- ============================================================================
+
+-- Same as before, except that mock needs payments test mode.
+CREATE OR REPLACE FUNCTION public.get_store_payment_methods(p_store_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_methods TEXT[];
+BEGIN
+  SELECT array_agg(substr(extension_id, length('payment_') + 1) ORDER BY extension_id)
+  INTO v_methods
+  FROM public.store_extensions
+  WHERE store_id = p_store_id
+    AND extension_id LIKE 'payment\_%'
+    AND is_enabled
+    AND (
+      extension_id <> 'payment_mock'
+      OR COALESCE(current_setting('app.payments_test_mode', true), '') = 'on'
+    );
+
+  RETURN COALESCE(v_methods, ARRAY['cod']);
+END;
+$$;
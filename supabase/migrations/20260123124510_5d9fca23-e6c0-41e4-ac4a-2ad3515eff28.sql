@@ -0,0 +1,53 @@
+-- ============================================================================
+-- PUBLIC EXTENSION SETTINGS FROM THE MANIFEST
+-- ============================================================================
+-- get_storefront_extensions() hard-coded which extensions and config keys
+-- the storefront may read, so every storefront extension also needed a
+-- migration, and extensions registered outside the app got nothing.
+-- - store_extensions.public_config_keys: the config keys the extension's
+--   manifest declares public (storefront.publicConfigKeys), saved by the
+--   Extensions page with the config. Existing rows get the built-in
+--   extensions' keys
+-- - get_storefront_extensions() returns those keys of every enabled
+--   extension that has any
+-- ============================================================================
+
+-- STEP 1: Public keys per installed extension
+ALTER TABLE public.store_extensions
+  ADD COLUMN public_config_keys TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.store_extensions
+SET public_config_keys = CASE extension_id
+  WHEN 'google_analytics' THEN ARRAY['measurement_id']
+  WHEN 'facebook_pixel' THEN ARRAY['pixel_id']
+  WHEN 'whatsapp_chat' THEN ARRAY['phone_number', 'default_message']
+END
+WHERE extension_id IN ('google_analytics', 'facebook_pixel', 'whatsapp_chat');
+
+-- STEP 2: Storefront settings
+-- Same as before, except that the keys come from public_config_keys.
+CREATE OR REPLACE FUNCTION public.get_storefront_extensions(p_store_slug TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      e.extension_id,
+      (
+        SELECT COALESCE(jsonb_object_agg(c.key, c.value), '{}'::jsonb)
+        FROM jsonb_each(COALESCE(e.config, '{}'::jsonb)) AS c
+        WHERE c.key = ANY(e.public_config_keys)
+      )
+    ),
+    '{}'::jsonb
+  )
+  FROM public.store_extensions e
+  JOIN public.stores s ON s.id = e.store_id
+  WHERE s.slug = p_store_slug
+    AND s.status = 'active'
+    AND e.is_enabled
+    AND cardinality(e.public_config_keys) > 0;
+$$;
@@ -78,6 +78,13 @@ export default {
         md: "calc(var(--radius) - 2px)",
         sm: "calc(var(--radius) - 4px)",
       },
+      // Storefront layout tokens, set by the store theme (StorefrontThemeProvider)
+      maxWidth: {
+        storefront: "var(--container-max-width, 80rem)",
+      },
+      spacing: {
+        section: "var(--section-padding, 4rem)",
+      },
       boxShadow: {
         'glow': 'var(--shadow-glow)',
         'accent-glow': 'var(--shadow-accent-glow)',